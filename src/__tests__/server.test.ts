@@ -0,0 +1,56 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ErrorCode } from '@/common/models/errors';
+import { app } from '@/server';
+
+vi.mock('@/common/utils/envConfig', async (importOriginal) => {
+  const { env } = await importOriginal<typeof import('@/common/utils/envConfig')>();
+  return { env: { ...env, AUTH_RATE_LIMIT_MAX_REQUESTS: 2 } };
+});
+
+describe('Server', () => {
+  it.each([
+    ['get', '/nope'],
+    ['post', '/nope'],
+    ['get', '/projects-archive/1'],
+    ['get', '/docs/nope'],
+  ] as const)('answers %s %s with a JSON 404', async (method, path) => {
+    // Act
+    const response = await request(app)[method](path);
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.NOT_FOUND);
+    expect(response.body).toMatchObject({
+      success: false,
+      message: `Route ${method.toUpperCase()} ${path} not found`,
+      error: { code: ErrorCode.NotFound, requestId: expect.any(String) },
+    });
+  });
+
+  it('answers a malformed JSON body with the id of the request', async () => {
+    // Act
+    const response = await request(app)
+      .post('/nope')
+      .set('Content-Type', 'application/json')
+      .set('X-Request-Id', 'malformed-body')
+      .send('{"title":');
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    expect(response.body.error).toMatchObject({ code: ErrorCode.BadRequest, requestId: 'malformed-body' });
+  });
+
+  it('counts the requests of a client whatever the X-Forwarded-For it sends', async () => {
+    // Act
+    const statuses: number[] = [];
+    for (const forwardedFor of ['203.0.113.1', '203.0.113.2', '203.0.113.3']) {
+      const response = await request(app).post('/auth/login').set('X-Forwarded-For', forwardedFor).send({});
+      statuses.push(response.statusCode);
+    }
+
+    // Assert
+    expect(statuses).toEqual([StatusCodes.BAD_REQUEST, StatusCodes.BAD_REQUEST, StatusCodes.TOO_MANY_REQUESTS]);
+  });
+});
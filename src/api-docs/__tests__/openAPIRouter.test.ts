@@ -1,10 +1,10 @@
 import { StatusCodes } from 'http-status-codes';
 import request from 'supertest';
+import { describe, expect, it } from 'vitest';
 
 import { app } from '@/server';
 
 import { generateOpenAPIDocument } from '../openAPIDocumentGenerator';
-import { describe, it, expect } from 'vitest';
 
 describe('OpenAPI Router', () => {
   describe('Swagger JSON route', () => {
@@ -23,11 +23,56 @@ describe('OpenAPI Router', () => {
 
     it('should serve the Swagger UI', async () => {
       // Act
-      const response = await request(app).get('/');
+      const response = await request(app).get('/docs/');
 
       // Assert
       expect(response.status).toBe(StatusCodes.OK);
       expect(response.text).toContain('swagger-ui');
     });
+
+    it('should redirect the root to the Swagger UI', async () => {
+      // Act
+      const response = await request(app).get('/');
+
+      // Assert
+      expect(response.status).toBe(StatusCodes.MOVED_TEMPORARILY);
+      expect(response.headers.location).toBe('/docs/');
+    });
+  });
+
+  describe('generated document', () => {
+    it('should document the error responses of every route', () => {
+      // Act
+      const document = generateOpenAPIDocument();
+      const getProject = document.paths['/projects/{id}'].get;
+      const login = document.paths['/auth/login'].post;
+
+      // Assert
+      expect(Object.keys(getProject?.responses ?? {})).toEqual(expect.arrayContaining(['400', '401', '404', '500']));
+      expect(Object.keys(login?.responses ?? {})).toContain('400');
+      expect(Object.keys(login?.responses ?? {})).not.toContain('403');
+      expect(getProject?.responses['404'].content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/ErrorResponse',
+      });
+    });
+
+    it('should register the shared components', () => {
+      // Act
+      const document = generateOpenAPIDocument();
+
+      // Assert
+      expect(document.components?.securitySchemes).toHaveProperty('bearerAuth');
+      expect(document.components?.schemas).toHaveProperty('ErrorResponse');
+      expect(document.components?.schemas).toHaveProperty('PageInfo');
+    });
+
+    it('should take the version and servers from the configuration', () => {
+      // Act
+      const document = generateOpenAPIDocument();
+
+      // Assert
+      expect(document.info.version).toBe('1.0.0');
+      expect(document.servers).toEqual([{ url: 'http://localhost:3000' }]);
+    });
   });
 });
@@ -0,0 +1,17 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+
+import { ErrorResponseSchema } from '@/api-docs/openAPIResponseBuilders';
+import { PageInfoSchema } from '@/common/utils/pagination';
+
+// Components shared by the routes of every module
+export const componentsRegistry = new OpenAPIRegistry();
+
+export const bearerAuth = componentsRegistry.registerComponent('securitySchemes', 'bearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+  bearerFormat: 'JWT',
+  description: "The 'accessToken' returned by '/auth/login', '/auth/register' or '/auth/refresh'",
+});
+
+componentsRegistry.register('ErrorResponse', ErrorResponseSchema);
+componentsRegistry.register('PageInfo', PageInfoSchema);
@@ -1,18 +1,59 @@
 import { OpenApiGeneratorV3, OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
 
+import { activityRegistry } from '@/api/activity/activityRouter';
+import { attachmentRegistry } from '@/api/attachment/attachmentRouter';
+import { auditRegistry } from '@/api/audit/auditRouter';
+import { authRegistry } from '@/api/auth/authRouter';
+import { boardRegistry } from '@/api/board/boardRouter';
+import { cardRegistry } from '@/api/card/cardRouter';
+import { commentRegistry } from '@/api/comment/commentRouter';
+import { fileRegistry } from '@/api/file/fileRouter';
 import { healthCheckRegistry } from '@/api/healthCheck/healthCheckRouter';
+import { jobRegistry } from '@/api/job/jobRouter';
+import { listRegistry } from '@/api/list/listRouter';
+import { metricsRegistry } from '@/api/metrics/metricsRouter';
+import { notificationRegistry } from '@/api/notification/notificationRouter';
+import { projectRegistry } from '@/api/project/projectRouter';
+import { projectMemberRegistry } from '@/api/projectMember/projectMemberRouter';
+import { searchRegistry } from '@/api/search/searchRouter';
+import { trashRegistry } from '@/api/trash/trashRouter';
 import { userRegistry } from '@/api/user/userRouter';
+import { componentsRegistry } from '@/api-docs/openAPIComponents';
+import { env } from '@/common/utils/envConfig';
 
 export function generateOpenAPIDocument() {
-  const registry = new OpenAPIRegistry([healthCheckRegistry, userRegistry]);
+  const registry = new OpenAPIRegistry([
+    componentsRegistry,
+    healthCheckRegistry,
+    metricsRegistry,
+    authRegistry,
+    userRegistry,
+    projectRegistry,
+    projectMemberRegistry,
+    boardRegistry,
+    listRegistry,
+    cardRegistry,
+    commentRegistry,
+    activityRegistry,
+    attachmentRegistry,
+    fileRegistry,
+    notificationRegistry,
+    searchRegistry,
+    trashRegistry,
+    jobRegistry,
+    auditRegistry,
+  ]);
   const generator = new OpenApiGeneratorV3(registry.definitions);
 
   return generator.generateDocument({
     openapi: '3.0.0',
     info: {
-      version: '1.0.0',
-      title: 'Swagger API',
+      version: env.API_VERSION,
+      title: 'Task Management API',
     },
+    servers: (env.API_SERVER_URLS.length ? env.API_SERVER_URLS : [`http://${env.HOST}:${env.PORT}`]).map((url) => ({
+      url,
+    })),
     externalDocs: {
       description: 'View the raw OpenAPI Specification in JSON format',
       url: '/swagger.json',
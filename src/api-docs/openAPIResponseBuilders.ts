@@ -1,41 +1,80 @@
-import { StatusCodes } from 'http-status-codes';
+import { extendZodWithOpenApi, OpenAPIRegistry, ResponseConfig, RouteConfig } from '@asteasolutions/zod-to-openapi';
+import { getReasonPhrase, StatusCodes } from 'http-status-codes';
 import { z } from 'zod';
 
+import { ErrorCode } from '@/common/models/errors';
 import { ServiceResponseSchema } from '@/common/models/serviceResponse';
 
+extendZodWithOpenApi(z);
+
+export const ErrorResponseSchema = ServiceResponseSchema(z.null())
+  .extend({
+    error: z.object({
+      code: z.nativeEnum(ErrorCode),
+      requestId: z.string().optional().openapi({ description: "Also sent as the 'X-Request-Id' response header" }),
+      details: z
+        .array(z.object({ path: z.string(), message: z.string() }))
+        .optional()
+        .openapi({ description: 'The invalid fields of a request failing validation' }),
+    }),
+  })
+  .openapi('ErrorResponse');
+
+export type ApiResponseConfig = {
+  schema: z.ZodTypeAny;
+  description: string;
+  statusCode: StatusCodes;
+};
+
 export function createApiResponse(schema: z.ZodTypeAny, description: string, statusCode = StatusCodes.OK) {
-  return {
-    [statusCode]: {
+  return createApiResponses([{ schema, description, statusCode }]);
+}
+
+// Use for endpoints answering with several statuses, e.g. 200 for an existing resource and 201 for a new one
+export function createApiResponses(configs: ApiResponseConfig[]) {
+  const responses: { [statusCode: string]: ResponseConfig } = {};
+  configs.forEach(({ schema, description, statusCode }) => {
+    responses[statusCode] = {
       description,
       content: {
         'application/json': {
           schema: ServiceResponseSchema(schema),
         },
       },
-    },
-  };
+    };
+  });
+  return responses;
 }
 
-// Use if you want multiple responses for a single endpoint
-
-// import { ResponseConfig } from '@asteasolutions/zod-to-openapi';
-// import { ApiResponseConfig } from '@common/models/openAPIResponseConfig';
-// export type ApiResponseConfig = {
-//   schema: z.ZodTypeAny;
-//   description: string;
-//   statusCode: StatusCodes;
-// };
-// export function createApiResponses(configs: ApiResponseConfig[]) {
-//   const responses: { [key: string]: ResponseConfig } = {};
-//   configs.forEach(({ schema, description, statusCode }) => {
-//     responses[statusCode] = {
-//       description,
-//       content: {
-//         'application/json': {
-//           schema: ServiceResponseSchema(schema),
-//         },
-//       },
-//     };
-//   });
-//   return responses;
-// }
+// Documents error responses, all answered with an ErrorResponse
+export function createErrorApiResponses(statusCodes: StatusCodes[]) {
+  const responses: { [statusCode: string]: ResponseConfig } = {};
+  statusCodes.forEach((statusCode) => {
+    responses[statusCode] = {
+      description: getReasonPhrase(statusCode),
+      content: { 'application/json': { schema: ErrorResponseSchema } },
+    };
+  });
+  return responses;
+}
+
+export type ApiRouteConfig = RouteConfig & {
+  // Errors specific to the route, such as a 404 for a missing resource or a 409 for a conflict
+  errors?: StatusCodes[];
+};
+
+/**
+ * Registers the documentation of a route with its error responses. Besides `errors`, every
+ * route may answer 500; routes declaring a `request` answer 400 when `validateRequest`
+ * rejects it, and routes with `security` answer 401 without a valid access token and 429
+ * once their user exceeds the common rate limit.
+ */
+export function registerApiRoute(registry: OpenAPIRegistry, { errors = [], ...route }: ApiRouteConfig) {
+  const implied = [
+    ...(route.request ? [StatusCodes.BAD_REQUEST] : []),
+    ...(route.security?.length ? [StatusCodes.UNAUTHORIZED, StatusCodes.TOO_MANY_REQUESTS] : []),
+    StatusCodes.INTERNAL_SERVER_ERROR,
+  ];
+  const statusCodes = [...new Set([...implied, ...errors])].sort((a, b) => a - b);
+  registry.registerPath({ ...route, responses: { ...route.responses, ...createErrorApiResponses(statusCodes) } });
+}
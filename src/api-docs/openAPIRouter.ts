@@ -12,7 +12,10 @@ export const openAPIRouter: Router = (() => {
     res.send(openAPIDocument);
   });
 
-  router.use('/', swaggerUi.serve, swaggerUi.setup(openAPIDocument));
+  // The UI is served under its own prefix, so that unknown paths reach the 404 handler
+  router.use('/docs', swaggerUi.serve);
+  router.get('/docs', swaggerUi.setup(openAPIDocument));
+  router.get('/', (_req: Request, res: Response) => res.redirect('/docs/'));
 
   return router;
 })();
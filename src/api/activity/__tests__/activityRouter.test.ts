@@ -0,0 +1,69 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { activityRepository } from '@/api/activity/activityRepository';
+import { boardRepository } from '@/api/board/boardRepository';
+import { signAccessToken } from '@/common/utils/jwt';
+import { app } from '@/server';
+
+vi.mock('@/api/activity/activityRepository');
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/common/middleware/requireProjectRole', () => ({
+  default: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+describe('Activity API Endpoints', () => {
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const boardId = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06';
+  const pageInfo = { limit: 20, hasMore: false, nextCursor: null, offset: null, total: null };
+  const authorization = `Bearer ${signAccessToken({ sub: '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01', email: 'alice@example.com' })}`;
+
+  describe('GET /projects/:projectId/activity', () => {
+    it('should return the first page of the project feed', async () => {
+      // Arrange
+      (activityRepository.findPageAsync as Mock).mockResolvedValue({ items: [], pageInfo });
+
+      // Act
+      const response = await request(app).get(`/projects/${projectId}/activity`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(response.body.responseObject).toEqual({ items: [], pageInfo });
+      expect(activityRepository.findPageAsync).toHaveBeenCalledWith(
+        { projectId },
+        { limit: 20, sort: '-id', cursor: undefined, offset: undefined }
+      );
+    });
+
+    it('should return a bad request for an invalid page size', async () => {
+      // Act
+      const response = await request(app)
+        .get(`/projects/${projectId}/activity?limit=500`)
+        .set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('GET /projects/:projectId/boards/:boardId/activity', () => {
+    it('should scope the feed to the board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue({ id: boardId, projectId });
+      (activityRepository.findPageAsync as Mock).mockResolvedValue({ items: [], pageInfo });
+
+      // Act
+      const response = await request(app)
+        .get(`/projects/${projectId}/boards/${boardId}/activity?limit=5&sort=id`)
+        .set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(activityRepository.findPageAsync).toHaveBeenCalledWith(
+        { projectId, boardId },
+        { limit: 5, sort: 'id', cursor: undefined, offset: undefined }
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { StatusCodes } from 'http-status-codes';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { Activity } from '@/api/activity/activityModel';
+import { activityRepository } from '@/api/activity/activityRepository';
+import { activityService } from '@/api/activity/activityService';
+import { boardRepository } from '@/api/board/boardRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { NotFoundError } from '@/common/models/errors';
+
+vi.mock('@/api/activity/activityRepository');
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/api/card/cardRepository');
+vi.mock('@/server', () => ({
+  ...vi.importActual('@/server'),
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('activityService', () => {
+  const userId = '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01';
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const boardId = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06';
+  const activityWithId = (id: number): Activity => ({
+    id,
+    action: ActivityAction.BoardCreated,
+    projectId,
+    boardId,
+    cardId: null,
+    data: { title: 'Sprint 1' },
+    userId,
+    user: { id: userId, email: 'alice@example.com', name: 'Alice', avatarUrl: null },
+    createdAt: new Date(),
+  });
+
+  describe('record', () => {
+    it('does not fail when the entry cannot be written', async () => {
+      // Arrange
+      (activityRepository.createAsync as Mock).mockRejectedValue(new Error('Database error'));
+
+      // Act
+      const record = activityService.record({ userId, projectId, action: ActivityAction.ProjectCreated });
+
+      // Assert
+      await expect(record).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordEdit', () => {
+    it('records a rename and an update of the other fields', async () => {
+      // Act
+      await activityService.recordEdit(
+        { userId, projectId, boardId },
+        { renamed: ActivityAction.BoardRenamed, updated: ActivityAction.BoardUpdated },
+        { from: 'Sprint 1', to: 'Sprint 2' },
+        ['title', 'description']
+      );
+
+      // Assert
+      expect(activityRepository.createAsync).toHaveBeenCalledWith({
+        userId,
+        projectId,
+        boardId,
+        action: ActivityAction.BoardRenamed,
+        data: { from: 'Sprint 1', to: 'Sprint 2' },
+      });
+      expect(activityRepository.createAsync).toHaveBeenCalledWith({
+        userId,
+        projectId,
+        boardId,
+        action: ActivityAction.BoardUpdated,
+        data: { fields: ['description'] },
+      });
+    });
+  });
+
+  describe('findFeed', () => {
+    const page = { limit: 20, sort: '-id' };
+
+    it('returns a page of the feed', async () => {
+      // Arrange
+      const activities = {
+        items: [activityWithId(2), activityWithId(1)],
+        pageInfo: { limit: 20, hasMore: false, nextCursor: null, offset: null, total: null },
+      };
+      (activityRepository.findPageAsync as Mock).mockResolvedValue(activities);
+
+      // Act
+      const result = await activityService.findFeed({ projectId }, page);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual(activities);
+      expect(activityRepository.findPageAsync).toHaveBeenCalledWith({ projectId }, page);
+    });
+
+    it('returns a not found error for boards of other projects', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = activityService.findFeed({ projectId, boardId }, page);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(activityRepository.findPageAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { PublicUserSchema } from '@/api/user/userModel';
+import { ActivityAction } from '@/common/models/activityAction';
+import { commonValidations } from '@/common/utils/commonValidation';
+import { createPageQuerySchema } from '@/common/utils/pagination';
+
+extendZodWithOpenApi(z);
+
+export type Activity = z.infer<typeof ActivitySchema>;
+export const ActivitySchema = z.object({
+  id: z.number().int(),
+  action: z.nativeEnum(ActivityAction),
+  projectId: z.string().uuid(),
+  boardId: z.string().uuid().nullable(),
+  cardId: z.string().uuid().nullable(),
+  data: z.record(z.unknown()).openapi({ description: 'Details of the change, depending on the action' }),
+  userId: z.string().uuid(),
+  user: PublicUserSchema,
+  createdAt: z.date(),
+});
+
+// A change to record; the board and card are set for changes made to or within them
+export type ActivityEntry = {
+  userId: string;
+  projectId: string;
+  boardId?: string;
+  cardId?: string;
+  action: ActivityAction;
+  data?: Record<string, unknown>;
+};
+
+// The project, board or card whose feed is requested; a card feed also names its board
+export type ActivityScope = { projectId: string; boardId?: string; cardId?: string };
+
+export const ProjectActivityParamsSchema = z.object({ projectId: commonValidations.id });
+export const BoardActivityParamsSchema = ProjectActivityParamsSchema.extend({ boardId: commonValidations.id });
+export const CardActivityParamsSchema = BoardActivityParamsSchema.extend({ cardId: commonValidations.id });
+
+// Input Validation for the 'GET .../activity' endpoints of projects, boards and cards
+export const GetActivityFeedSchema = z.object({
+  params: CardActivityParamsSchema.partial({ boardId: true, cardId: true }),
+  query: createPageQuerySchema({ sortFields: ['id'], defaultSort: '-id' }),
+});
@@ -0,0 +1,32 @@
+import { Activity, ActivityEntry, ActivityScope } from '@/api/activity/activityModel';
+import { Activity as ActivityEntity } from '@/common/entities/activity.entity';
+import { findPage, PageQuery, Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(ActivityEntity);
+
+// The log is append-only, so there is no way to update or delete entries
+export const activityRepository = {
+  createAsync: async (entry: ActivityEntry): Promise<void> => {
+    await repository().save(repository().create({ boardId: null, cardId: null, data: {}, ...entry }));
+  },
+
+  findPageAsync: async (scope: ActivityScope, page: PageQuery): Promise<Paginated<Activity>> => {
+    const { projectId, boardId, cardId } = scope;
+    return findPage(repository(), page, {
+      where: { projectId, boardId, cardId },
+      relations: { user: true },
+      select: {
+        id: true,
+        action: true,
+        projectId: true,
+        boardId: true,
+        cardId: true,
+        data: true,
+        userId: true,
+        createdAt: true,
+        user: { id: true, email: true, name: true, avatarUrl: true },
+      },
+    });
+  },
+};
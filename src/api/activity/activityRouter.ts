@@ -0,0 +1,64 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+
+import {
+  ActivitySchema,
+  BoardActivityParamsSchema,
+  CardActivityParamsSchema,
+  GetActivityFeedSchema,
+  ProjectActivityParamsSchema,
+} from '@/api/activity/activityModel';
+import { activityService } from '@/api/activity/activityService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+import { PaginatedSchema } from '@/common/utils/pagination';
+
+export const activityRegistry = new OpenAPIRegistry();
+
+activityRegistry.register('Activity', ActivitySchema);
+
+const feeds = [
+  { path: '/projects/{projectId}/activity', subject: 'project', params: ProjectActivityParamsSchema },
+  { path: '/projects/{projectId}/boards/{boardId}/activity', subject: 'board', params: BoardActivityParamsSchema },
+  {
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/activity',
+    subject: 'card',
+    params: CardActivityParamsSchema,
+  },
+];
+
+// Mounted under '/projects/:projectId/activity', '/projects/:projectId/boards/:boardId/activity'
+// and '/projects/:projectId/boards/:boardId/cards/:cardId/activity'
+export const activityRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  feeds.forEach(({ path, subject, params }) =>
+    registerApiRoute(activityRegistry, {
+      method: 'get',
+      path,
+      tags: ['Activity'],
+      security: [{ [bearerAuth.name]: [] }],
+      description: `Lists the changes made to the ${subject}, newest first by default`,
+      request: { params, query: GetActivityFeedSchema.shape.query },
+      responses: createApiResponse(PaginatedSchema(ActivitySchema), 'Success'),
+      errors: [StatusCodes.NOT_FOUND],
+    })
+  );
+
+  router.get(
+    '/',
+    validateRequest(GetActivityFeedSchema, PaginatedSchema(ActivitySchema)),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof GetActivityFeedSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await activityService.findFeed({ projectId, boardId, cardId }, req.query);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
@@ -0,0 +1,58 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { Activity, ActivityEntry, ActivityScope } from '@/api/activity/activityModel';
+import { activityRepository } from '@/api/activity/activityRepository';
+import { boardRepository } from '@/api/board/boardRepository';
+import { cardRepository } from '@/api/card/cardRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { NotFoundError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { PageQuery, Paginated } from '@/common/utils/pagination';
+import { logger } from '@/server';
+
+export const activityService = traceService('activityService', {
+  // Appends an entry to the activity log. The change it describes has already been made,
+  // so a failure is logged instead of being reported to the user.
+  record: async (entry: ActivityEntry): Promise<void> => {
+    try {
+      await activityRepository.createAsync(entry);
+    } catch (ex) {
+      logger.error(`Error recording activity ${entry.action}: ${(ex as Error).message}`);
+    }
+  },
+
+  // Records an edit: a rename when the title changed, and an update naming any other changed fields
+  recordEdit: async (
+    entry: Omit<ActivityEntry, 'action' | 'data'>,
+    actions: { renamed: ActivityAction; updated: ActivityAction },
+    title: { from: string; to?: string },
+    fields: string[]
+  ): Promise<void> => {
+    if (fields.includes('title')) {
+      await activityService.record({ ...entry, action: actions.renamed, data: title });
+    }
+    const otherFields = fields.filter((field) => field !== 'title');
+    if (otherFields.length) {
+      await activityService.record({ ...entry, action: actions.updated, data: { fields: otherFields } });
+    }
+  },
+
+  // Retrieves a page of the feed of a project, board or card
+  findFeed: async (scope: ActivityScope, page: PageQuery): Promise<ServiceResponse<Paginated<Activity>>> => {
+    const { projectId, boardId, cardId } = scope;
+    if (boardId && !(await boardRepository.findByIdAsync(projectId, boardId))) {
+      throw new NotFoundError('Board not found');
+    }
+    if (boardId && cardId && !(await cardRepository.findByIdAsync(boardId, cardId))) {
+      throw new NotFoundError('Card not found');
+    }
+    const activities = await activityRepository.findPageAsync(scope, page);
+    return new ServiceResponse<Paginated<Activity>>(
+      ResponseStatus.Success,
+      'Activity found',
+      activities,
+      StatusCodes.OK
+    );
+  },
+});
@@ -0,0 +1,237 @@
+import { StatusCodes } from 'http-status-codes';
+import sharp from 'sharp';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { Attachment } from '@/api/attachment/attachmentModel';
+import { boardRepository } from '@/api/board/boardRepository';
+import { cardRepository } from '@/api/card/cardRepository';
+import { listRepository } from '@/api/list/listRepository';
+import { projectRepository } from '@/api/project/projectRepository';
+import { trashService } from '@/api/trash/trashService';
+import { userRepository } from '@/api/user/userRepository';
+import { Card } from '@/common/entities/card.entity';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { storage } from '@/common/storage/storage';
+import { env } from '@/common/utils/envConfig';
+import { signAccessToken } from '@/common/utils/jwt';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+describe('Attachment API Endpoints', () => {
+  let authorization: string;
+  let userId: string;
+  let projectPath: string;
+  let cardPath: string;
+  let cardId: string;
+  let image: Buffer;
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    const user = await userRepository.createAsync({ email: 'alice@example.com', password: 'hash', name: 'Alice' });
+    const project = await projectRepository.createAsync(user.id, { title: 'Website redesign' });
+    const board = await boardRepository.createAsync(project.id, { title: 'Sprint 1' });
+    const list = await listRepository.createAsync(board.id, { title: 'To do' });
+    const card = await cardRepository.createAsync(board.id, list.id, { title: 'Mockups' });
+    authorization = `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+    userId = user.id;
+    cardId = card.id;
+    projectPath = `/projects/${project.id}/attachments`;
+    cardPath = `/projects/${project.id}/boards/${board.id}/cards/${card.id}/attachments`;
+    image = await sharp({ create: { width: 640, height: 480, channels: 3, background: '#ff6633' } })
+      .png()
+      .toBuffer();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  describe('POST .../attachments', () => {
+    it('stores an image with a thumbnail and links to both', async () => {
+      // Act
+      const response = await request(app)
+        .post(projectPath)
+        .set('Authorization', authorization)
+        .attach('file', image, { filename: 'mockup.png', contentType: 'image/png' });
+      const responseBody: ServiceResponse<Attachment> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.CREATED);
+      expect(responseBody.responseObject).toMatchObject({
+        cardId: null,
+        uploadedById: userId,
+        fileName: 'mockup.png',
+        contentType: 'image/png',
+        size: image.length,
+      });
+
+      const download = await request(app).get(responseBody.responseObject.url);
+      expect(download.statusCode).toEqual(StatusCodes.OK);
+      expect(download.headers['content-type']).toEqual('image/png');
+      expect(download.headers['content-disposition']).toEqual('attachment; filename="mockup.png"');
+      expect(Buffer.compare(download.body, image)).toEqual(0);
+
+      const thumbnail = await request(app).get(responseBody.responseObject.thumbnailUrl!);
+      expect(await sharp(thumbnail.body).metadata()).toMatchObject({ format: 'webp', width: 256, height: 192 });
+    });
+
+    it('stores other files without a thumbnail', async () => {
+      // Act
+      const response = await request(app)
+        .post(cardPath)
+        .set('Authorization', authorization)
+        .attach('file', Buffer.from('a,b\n1,2\n'), { filename: 'data.csv', contentType: 'text/csv' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.CREATED);
+      expect(response.body.responseObject).toMatchObject({ cardId, fileName: 'data.csv', thumbnailUrl: null });
+    });
+
+    it('rejects file types that are not accepted', async () => {
+      // Act
+      const response = await request(app)
+        .post(projectPath)
+        .set('Authorization', authorization)
+        .attach('file', Buffer.from('MZ'), { filename: 'setup.exe', contentType: 'application/x-msdownload' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+
+    it('rejects images that cannot be decoded', async () => {
+      // Act
+      const response = await request(app)
+        .post(projectPath)
+        .set('Authorization', authorization)
+        .attach('file', Buffer.from('not an image'), { filename: 'fake.png', contentType: 'image/png' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+      expect(response.body.message).toEqual('The file is not a valid image');
+    });
+
+    it('rejects a request without a file', async () => {
+      // Act
+      const response = await request(app).post(projectPath).set('Authorization', authorization).field('name', 'x');
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+      expect(response.body.message).toEqual('A file is required');
+    });
+  });
+
+  describe('POST /users/:id/avatar', () => {
+    it('rejects files over the size limit', async () => {
+      // Act
+      const response = await request(app)
+        .post(`/users/${userId}/avatar`)
+        .set('Authorization', authorization)
+        .attach('file', Buffer.alloc(env.AVATAR_MAX_FILE_SIZE_BYTES + 1), {
+          filename: 'large.png',
+          contentType: 'image/png',
+        });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.REQUEST_TOO_LONG);
+    });
+
+    it('redirects the avatar URL to the uploaded image', async () => {
+      // Act
+      const upload = await request(app)
+        .post(`/users/${userId}/avatar`)
+        .set('Authorization', authorization)
+        .attach('file', image, { filename: 'me.png', contentType: 'image/png' });
+      const redirect = await request(app)
+        .get(`${upload.body.responseObject.avatarUrl}&size=thumbnail`)
+        .set('Authorization', authorization);
+
+      // Assert
+      expect(upload.statusCode).toEqual(StatusCodes.OK);
+      expect(redirect.statusCode).toEqual(StatusCodes.MOVED_TEMPORARILY);
+      const avatar = await request(app).get(redirect.headers.location);
+      expect(await sharp(avatar.body).metadata()).toMatchObject({ width: 128, height: 128 });
+    });
+  });
+
+  describe('GET /files/:key', () => {
+    it('refuses links whose signature does not match', async () => {
+      // Arrange
+      const { body } = await request(app).get(projectPath).set('Authorization', authorization);
+      const url = new URL(body.responseObject[0].url, 'http://localhost');
+      url.searchParams.set('name', 'renamed.png');
+
+      // Act
+      const response = await request(app).get(`${url.pathname}${url.search}`);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('deletes the files of an attachment', async () => {
+      // Arrange
+      const { body } = await request(app).get(projectPath).set('Authorization', authorization);
+      const attachment: Attachment = body.responseObject[0];
+
+      // Act
+      const response = await request(app).delete(`${projectPath}/${attachment.id}`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect((await request(app).get(attachment.url)).statusCode).toEqual(StatusCodes.NOT_FOUND);
+    });
+
+    it('deletes the files attached to a deleted card once the trash is purged', async () => {
+      // Arrange
+      const { body } = await request(app).get(cardPath).set('Authorization', authorization);
+      const attachment: Attachment = body.responseObject[0];
+      const originalKey = decodeURIComponent(new URL(attachment.url, 'http://localhost').pathname).slice(
+        '/files/'.length
+      );
+
+      // Act
+      const response = await request(app)
+        .delete(cardPath.replace('/attachments', ''))
+        .set('Authorization', authorization);
+      const inTrash = await storage.get(originalKey);
+      const expiredAt = new Date(Date.now() - (env.TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000);
+      await dataSource.getRepository(Card).update({ id: cardId }, { deletedAt: expiredAt });
+      const purged = await trashService.purgeExpired();
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(inTrash).toBeDefined();
+      expect(purged).toEqual(1);
+      await expect(storage.get(originalKey)).rejects.toThrow();
+    });
+
+    it('deletes the files of the projects of a deleted user, including those in the trash', async () => {
+      // Arrange
+      const owner = await userRepository.createAsync({ email: 'dave@example.com', password: 'hash', name: 'Dave' });
+      const ownerAuthorization = `Bearer ${signAccessToken({ sub: owner.id, email: owner.email })}`;
+      const projects = await Promise.all(
+        ['Roadmap', 'Archive'].map((title) => projectRepository.createAsync(owner.id, { title }))
+      );
+      const attachments: Attachment[] = [];
+      for (const project of projects) {
+        const { body } = await request(app)
+          .post(`/projects/${project.id}/attachments`)
+          .set('Authorization', ownerAuthorization)
+          .attach('file', Buffer.from('notes'), { filename: 'notes.txt', contentType: 'text/plain' });
+        attachments.push(body.responseObject);
+      }
+      await request(app).delete(`/projects/${projects[1].id}`).set('Authorization', ownerAuthorization);
+
+      // Act
+      const response = await request(app).delete(`/users/${owner.id}`).set('Authorization', ownerAuthorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      for (const attachment of attachments) {
+        await expect(storage.get(`attachments/${attachment.projectId}/${attachment.id}/original`)).rejects.toThrow();
+      }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { commonValidations } from '@/common/utils/commonValidation';
+import { IMAGE_MIME_TYPES } from '@/common/utils/images';
+
+extendZodWithOpenApi(z);
+
+export const ATTACHMENT_MIME_TYPES = [
+  ...IMAGE_MIME_TYPES,
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+] as const;
+
+export type Attachment = z.infer<typeof AttachmentSchema>;
+export const AttachmentSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  cardId: z.string().uuid().nullable().openapi({ description: 'Null for files attached to the project itself' }),
+  uploadedById: z.string().uuid().nullable().openapi({ description: 'Null once the uploader has been deleted' }),
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number().int().openapi({ description: 'In bytes' }),
+  url: z.string().openapi({ description: 'Signed download link, valid until urlExpiresAt' }),
+  thumbnailUrl: z.string().nullable().openapi({ description: 'Signed link to a WebP thumbnail of images' }),
+  urlExpiresAt: z.date(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// The project, or the card, whose attachments are addressed; a card also names its board
+export type AttachmentScope = { projectId: string; boardId?: string; cardId?: string };
+
+// The uploaded file, as parsed by `uploadFile`
+export type AttachmentUpload = { originalname: string; mimetype: string; size: number; buffer: Buffer };
+
+export const ProjectAttachmentParamsSchema = z.object({ projectId: commonValidations.id });
+export const CardAttachmentParamsSchema = ProjectAttachmentParamsSchema.extend({
+  boardId: commonValidations.id,
+  cardId: commonValidations.id,
+});
+const AttachmentParamsSchema = CardAttachmentParamsSchema.partial({ boardId: true, cardId: true });
+
+export const AttachmentUploadSchema = z.object({
+  file: z.string().openapi({ type: 'string', format: 'binary' }),
+});
+
+// Input Validation for the 'GET' and 'POST .../attachments' endpoints of projects and cards
+export const ListAttachmentsSchema = z.object({
+  params: AttachmentParamsSchema,
+});
+
+// Input Validation for the 'GET' and 'DELETE .../attachments/:attachmentId' endpoints of projects and cards
+export const GetAttachmentSchema = z.object({
+  params: AttachmentParamsSchema.extend({ attachmentId: commonValidations.id }),
+});
@@ -0,0 +1,64 @@
+import { IsNull } from 'typeorm';
+
+import { Attachment as AttachmentEntity } from '@/common/entities/attachment.entity';
+import dataSource from '@/configs/typeorm.config';
+
+// An attachment row without its relations, holding the storage keys of its files
+export type AttachmentRecord = Omit<AttachmentEntity, 'project' | 'card' | 'uploadedBy'>;
+
+type AttachmentWriteData = Omit<AttachmentRecord, 'createdAt' | 'updatedAt'>;
+
+// A parent whose deletion cascades to attachments; a user's deletion cascades to the projects they own
+type AttachmentParent =
+  | { ownerId: string }
+  | { projectId: string }
+  | { boardId: string }
+  | { listId: string }
+  | { cardId: string };
+
+const repository = () => dataSource.getRepository(AttachmentEntity);
+
+// `cardId` is null for the files attached to the project itself
+export const attachmentRepository = {
+  findAllAsync: async (projectId: string, cardId: string | null): Promise<AttachmentRecord[]> => {
+    return repository().find({ where: { projectId, cardId: cardId ?? IsNull() }, order: { createdAt: 'ASC' } });
+  },
+
+  findByIdAsync: async (projectId: string, cardId: string | null, id: string): Promise<AttachmentRecord | null> => {
+    return repository().findOneBy({ id, projectId, cardId: cardId ?? IsNull() });
+  },
+
+  createAsync: async (data: AttachmentWriteData): Promise<AttachmentRecord> => {
+    return repository().save(repository().create(data));
+  },
+
+  deleteAsync: async (id: string): Promise<boolean> => {
+    const result = await repository().delete({ id });
+    return !!result.affected;
+  },
+
+  // The storage keys of the files attached to the parent or to the cards it contains,
+  // to be deleted along with it. Cards and projects in the trash are included.
+  findFileKeysAsync: async (parent: AttachmentParent): Promise<string[]> => {
+    const query = repository()
+      .createQueryBuilder('attachment')
+      .withDeleted()
+      .select(['attachment.storageKey', 'attachment.thumbnailKey']);
+    if ('ownerId' in parent) {
+      query.innerJoin('attachment.project', 'project').where('project.ownerId = :ownerId', parent);
+    }
+    if ('projectId' in parent) query.where('attachment.projectId = :projectId', parent);
+    if ('cardId' in parent) query.where('attachment.cardId = :cardId', parent);
+    if ('listId' in parent) query.innerJoin('attachment.card', 'card').where('card.listId = :listId', parent);
+    if ('boardId' in parent) {
+      query
+        .innerJoin('attachment.card', 'card')
+        .innerJoin('card.list', 'list')
+        .where('list.boardId = :boardId', parent);
+    }
+    const attachments = await query.getMany();
+    return attachments.flatMap(({ storageKey, thumbnailKey }) =>
+      thumbnailKey ? [storageKey, thumbnailKey] : [storageKey]
+    );
+  },
+};
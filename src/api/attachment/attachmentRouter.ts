@@ -0,0 +1,136 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import {
+  ATTACHMENT_MIME_TYPES,
+  AttachmentSchema,
+  AttachmentUploadSchema,
+  CardAttachmentParamsSchema,
+  GetAttachmentSchema,
+  ListAttachmentsSchema,
+  ProjectAttachmentParamsSchema,
+} from '@/api/attachment/attachmentModel';
+import { attachmentService } from '@/api/attachment/attachmentService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import uploadFile from '@/common/middleware/uploadFile';
+import { ProjectRole } from '@/common/models/projectRole';
+import { env } from '@/common/utils/envConfig';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const attachmentRegistry = new OpenAPIRegistry();
+
+attachmentRegistry.register('Attachment', AttachmentSchema);
+
+const parents = [
+  { path: '/projects/{projectId}/attachments', subject: 'project', params: ProjectAttachmentParamsSchema },
+  {
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/attachments',
+    subject: 'card',
+    params: CardAttachmentParamsSchema,
+  },
+];
+
+// Mounted under '/projects/:projectId/attachments' and
+// '/projects/:projectId/boards/:boardId/cards/:cardId/attachments'
+export const attachmentRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  parents.forEach(({ path, subject, params }) => {
+    const attachmentParams = params.extend({ attachmentId: GetAttachmentSchema.shape.params.shape.attachmentId });
+
+    registerApiRoute(attachmentRegistry, {
+      method: 'get',
+      path,
+      tags: ['Attachment'],
+      security: [{ [bearerAuth.name]: [] }],
+      description: `Lists the files attached to the ${subject}, oldest first`,
+      request: { params },
+      responses: createApiResponse(z.array(AttachmentSchema), 'Success'),
+      errors: [StatusCodes.NOT_FOUND],
+    });
+
+    registerApiRoute(attachmentRegistry, {
+      method: 'post',
+      path,
+      tags: ['Attachment'],
+      security: [{ [bearerAuth.name]: [] }],
+      description: `Attaches a file to the ${subject}; images also get a thumbnail. Accepted types: ${ATTACHMENT_MIME_TYPES.join(', ')}`,
+      request: {
+        params,
+        body: { content: { 'multipart/form-data': { schema: AttachmentUploadSchema } } },
+      },
+      responses: createApiResponse(AttachmentSchema, 'Created', StatusCodes.CREATED),
+      errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.REQUEST_TOO_LONG],
+    });
+
+    registerApiRoute(attachmentRegistry, {
+      method: 'get',
+      path: `${path}/{attachmentId}`,
+      tags: ['Attachment'],
+      security: [{ [bearerAuth.name]: [] }],
+      description: 'Retrieves an attachment with fresh download links',
+      request: { params: attachmentParams },
+      responses: createApiResponse(AttachmentSchema, 'Success'),
+      errors: [StatusCodes.NOT_FOUND],
+    });
+
+    registerApiRoute(attachmentRegistry, {
+      method: 'delete',
+      path: `${path}/{attachmentId}`,
+      tags: ['Attachment'],
+      security: [{ [bearerAuth.name]: [] }],
+      request: { params: attachmentParams },
+      responses: createApiResponse(z.null(), 'Success'),
+      errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+    });
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListAttachmentsSchema, z.array(AttachmentSchema)),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof ListAttachmentsSchema>, res: Response) => {
+      const serviceResponse = await attachmentService.findAll(req.params);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  router.post(
+    '/',
+    validateRequest(ListAttachmentsSchema, AttachmentSchema),
+    requireProjectRole(ProjectRole.Member),
+    uploadFile({ maxSize: env.UPLOAD_MAX_FILE_SIZE_BYTES, mimeTypes: ATTACHMENT_MIME_TYPES }),
+    async (req: ValidatedRequest<typeof ListAttachmentsSchema>, res: Response) => {
+      const serviceResponse = await attachmentService.create(req.user!.id, req.params, req.file!);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  router.get(
+    '/:attachmentId',
+    validateRequest(GetAttachmentSchema, AttachmentSchema),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof GetAttachmentSchema>, res: Response) => {
+      const { attachmentId, ...scope } = req.params;
+      const serviceResponse = await attachmentService.findById(scope, attachmentId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  router.delete(
+    '/:attachmentId',
+    validateRequest(GetAttachmentSchema, z.null()),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof GetAttachmentSchema>, res: Response) => {
+      const { attachmentId, ...scope } = req.params;
+      const serviceResponse = await attachmentService.delete(scope, attachmentId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
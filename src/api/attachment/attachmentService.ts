@@ -0,0 +1,123 @@
+import { randomUUID } from 'node:crypto';
+
+import { StatusCodes } from 'http-status-codes';
+
+import { Attachment, AttachmentScope, AttachmentUpload } from '@/api/attachment/attachmentModel';
+import { AttachmentRecord, attachmentRepository } from '@/api/attachment/attachmentRepository';
+import { boardRepository } from '@/api/board/boardRepository';
+import { cardRepository } from '@/api/card/cardRepository';
+import { NotFoundError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { deleteStoredFiles, getDownloadUrl, storage } from '@/common/storage/storage';
+import { traceService } from '@/common/tracing/tracing';
+import { env } from '@/common/utils/envConfig';
+import { isImage, resizeImage } from '@/common/utils/images';
+
+const THUMBNAIL_SIZE = 256;
+
+// Checks that the card of a card scope exists on its board, and the board in the project
+const assertScopeExists = async ({ projectId, boardId, cardId }: AttachmentScope): Promise<void> => {
+  if (!boardId || !cardId) return;
+  if (
+    !(await boardRepository.findByIdAsync(projectId, boardId)) ||
+    !(await cardRepository.findByIdAsync(boardId, cardId))
+  ) {
+    throw new NotFoundError('Card not found');
+  }
+};
+
+const findAttachmentOrThrow = async (scope: AttachmentScope, id: string): Promise<AttachmentRecord> => {
+  const attachment = await attachmentRepository.findByIdAsync(scope.projectId, scope.cardId ?? null, id);
+  if (!attachment) throw new NotFoundError('Attachment not found');
+  return attachment;
+};
+
+const fileKeys = ({ storageKey, thumbnailKey }: AttachmentRecord) =>
+  thumbnailKey ? [storageKey, thumbnailKey] : [storageKey];
+
+// Replaces the storage keys of an attachment with signed links to its files
+const withDownloadUrls = async (attachment: AttachmentRecord): Promise<Attachment> => {
+  const { storageKey, thumbnailKey, ...fields } = attachment;
+  const urlExpiresAt = new Date(Date.now() + env.STORAGE_URL_TTL_SECONDS * 1000);
+  const url = await getDownloadUrl(storageKey, { fileName: fields.fileName, contentType: fields.contentType });
+  const thumbnailUrl = thumbnailKey ? await getDownloadUrl(thumbnailKey, { contentType: 'image/webp' }) : null;
+  return { ...fields, url, thumbnailUrl, urlExpiresAt };
+};
+
+// Attachments belong to a card, or to the project itself when the scope names no card.
+// `userId` is the requesting user.
+export const attachmentService = traceService('attachmentService', {
+  // Retrieves the attachments of a project or card, oldest first
+  findAll: async (scope: AttachmentScope): Promise<ServiceResponse<Attachment[]>> => {
+    await assertScopeExists(scope);
+    const attachments = await attachmentRepository.findAllAsync(scope.projectId, scope.cardId ?? null);
+    return new ServiceResponse<Attachment[]>(
+      ResponseStatus.Success,
+      'Attachments found',
+      await Promise.all(attachments.map(withDownloadUrls)),
+      StatusCodes.OK
+    );
+  },
+
+  // Retrieves a single attachment with fresh download links
+  findById: async (scope: AttachmentScope, id: string): Promise<ServiceResponse<Attachment>> => {
+    await assertScopeExists(scope);
+    const attachment = await findAttachmentOrThrow(scope, id);
+    return new ServiceResponse<Attachment>(
+      ResponseStatus.Success,
+      'Attachment found',
+      await withDownloadUrls(attachment),
+      StatusCodes.OK
+    );
+  },
+
+  // Stores an uploaded file, along with a thumbnail for images
+  create: async (
+    userId: string,
+    scope: AttachmentScope,
+    file: AttachmentUpload
+  ): Promise<ServiceResponse<Attachment>> => {
+    await assertScopeExists(scope);
+    // Decoding the thumbnail first rejects files declared as images that are not
+    const thumbnail = isImage(file.mimetype) ? await resizeImage(file.buffer, THUMBNAIL_SIZE) : null;
+
+    const id = randomUUID();
+    const storageKey = `attachments/${scope.projectId}/${id}/original`;
+    const thumbnailKey = thumbnail ? `attachments/${scope.projectId}/${id}/thumbnail.webp` : null;
+    await storage.put(storageKey, file.buffer, file.mimetype);
+    if (thumbnail && thumbnailKey) await storage.put(thumbnailKey, thumbnail, 'image/webp');
+
+    let attachment: AttachmentRecord;
+    try {
+      attachment = await attachmentRepository.createAsync({
+        id,
+        projectId: scope.projectId,
+        cardId: scope.cardId ?? null,
+        uploadedById: userId,
+        fileName: file.originalname.slice(-255),
+        contentType: file.mimetype,
+        size: file.size,
+        storageKey,
+        thumbnailKey,
+      });
+    } catch (err) {
+      await deleteStoredFiles(thumbnailKey ? [storageKey, thumbnailKey] : [storageKey]);
+      throw err;
+    }
+    return new ServiceResponse<Attachment>(
+      ResponseStatus.Success,
+      'Attachment created',
+      await withDownloadUrls(attachment),
+      StatusCodes.CREATED
+    );
+  },
+
+  // Deletes an attachment and its files
+  delete: async (scope: AttachmentScope, id: string): Promise<ServiceResponse> => {
+    await assertScopeExists(scope);
+    const attachment = await findAttachmentOrThrow(scope, id);
+    await attachmentRepository.deleteAsync(id);
+    await deleteStoredFiles(fileKeys(attachment));
+    return new ServiceResponse(ResponseStatus.Success, 'Attachment deleted', null, StatusCodes.OK);
+  },
+});
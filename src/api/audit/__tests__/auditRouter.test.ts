@@ -0,0 +1,108 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { AuditLog } from '@/api/audit/auditModel';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { User as UserEntity } from '@/common/entities/user.entity';
+import { AuditAction } from '@/common/models/auditAction';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+describe('Audit API Endpoints', () => {
+  let admin: User;
+  let bob: User;
+
+  const findAuditLogs = async (query: string): Promise<AuditLog[]> => {
+    const response = await request(app).get(`/admin/audit-logs?${query}`).set('Authorization', authorization(admin));
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    return (response.body as ServiceResponse<Paginated<AuditLog>>).responseObject.items;
+  };
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    admin = await userRepository.createAsync({ email: 'admin@example.com', password: 'hash', name: 'Admin' });
+    bob = await userRepository.createAsync({ email: 'bob@example.com', password: 'hash', name: 'Bob' });
+    await dataSource.getRepository(UserEntity).save({ id: admin.id, isAdmin: true });
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('is forbidden to users who are not administrators', async () => {
+    const response = await request(app).get('/admin/audit-logs').set('Authorization', authorization(bob));
+
+    expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+  });
+
+  it('records the changed fields with the acting user and the request id, redacting passwords', async () => {
+    // Act
+    const response = await request(app)
+      .patch(`/users/${bob.id}`)
+      .set('Authorization', authorization(bob))
+      .set('X-Request-Id', 'update-bob')
+      .send({ name: 'Robert', password: 'correct horse battery staple' });
+    const logs = await findAuditLogs(`entityId=${bob.id}&action=${AuditAction.Update}`);
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    expect(logs).toEqual([
+      expect.objectContaining({
+        entityType: 'User',
+        actorId: bob.id,
+        requestId: 'update-bob',
+        changes: { name: { from: 'Bob', to: 'Robert' }, password: { from: '[REDACTED]', to: '[REDACTED]' } },
+      }),
+    ]);
+  });
+
+  it('records the rows inserted and soft deleted by a request', async () => {
+    // Act
+    const created = await request(app)
+      .post('/projects')
+      .set('Authorization', authorization(bob))
+      .set('X-Request-Id', 'create-project')
+      .send({ title: 'Website redesign' });
+    const projectId = created.body.responseObject.id;
+    await request(app)
+      .delete(`/projects/${projectId}`)
+      .set('Authorization', authorization(bob))
+      .set('X-Request-Id', 'delete-project');
+    const insertLogs = await findAuditLogs('requestId=create-project&sort=id');
+    const deleteLogs = await findAuditLogs('requestId=delete-project');
+
+    // Assert
+    expect(insertLogs.map(({ entityType, action }) => [entityType, action])).toEqual([
+      ['Project', AuditAction.Insert],
+      ['ProjectMembers', AuditAction.Insert],
+    ]);
+    expect(insertLogs[0].changes.title).toEqual({ from: null, to: 'Website redesign' });
+    expect(deleteLogs).toEqual([
+      expect.objectContaining({
+        entityType: 'Project',
+        entityId: projectId,
+        action: AuditAction.Update,
+        changes: { deletedAt: { from: null, to: expect.any(String) } },
+      }),
+    ]);
+  });
+
+  it('records changes made outside of requests without an actor', async () => {
+    // Act
+    const logs = await findAuditLogs(`entityType=User&entityId=${admin.id}&sort=id`);
+
+    // Assert
+    expect(logs).toEqual([
+      expect.objectContaining({ action: AuditAction.Insert, actorId: null, requestId: null }),
+      expect.objectContaining({ action: AuditAction.Update, changes: { isAdmin: { from: false, to: true } } }),
+    ]);
+    expect(logs[0].changes.password).toEqual({ from: null, to: '[REDACTED]' });
+  });
+});
@@ -0,0 +1,43 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { AuditAction } from '@/common/models/auditAction';
+import { createPageQuerySchema } from '@/common/utils/pagination';
+
+extendZodWithOpenApi(z);
+
+export type AuditLog = z.infer<typeof AuditLogSchema>;
+export const AuditLogSchema = z.object({
+  id: z.number().int(),
+  entityType: z.string().openapi({ example: 'Project' }),
+  entityId: z.string().uuid(),
+  action: z.nativeEnum(AuditAction),
+  changes: z.record(z.object({ from: z.unknown(), to: z.unknown() })).openapi({
+    description:
+      'The changed fields with their value before and after the change; `from` is null for inserts and `to` for deletes. Passwords are redacted.',
+  }),
+  actorId: z
+    .string()
+    .uuid()
+    .nullable()
+    .openapi({ description: 'User whose request made the change; null for changes made by jobs and scripts' }),
+  requestId: z.string().nullable().openapi({ description: "The request's X-Request-Id" }),
+  createdAt: z.date(),
+});
+
+export type ListAuditLogsQuery = z.infer<typeof ListAuditLogsSchema>['query'];
+
+// Input Validation for 'GET admin/audit-logs' endpoint
+export const ListAuditLogsSchema = z.object({
+  query: createPageQuerySchema({
+    sortFields: ['id'],
+    defaultSort: '-id',
+    filters: {
+      entityType: z.string().max(50).optional(),
+      entityId: z.string().uuid().optional(),
+      actorId: z.string().uuid().optional(),
+      action: z.nativeEnum(AuditAction).optional(),
+      requestId: z.string().max(100).optional(),
+    },
+  }),
+});
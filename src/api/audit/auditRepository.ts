@@ -0,0 +1,14 @@
+import { AuditLog, ListAuditLogsQuery } from '@/api/audit/auditModel';
+import { AuditLog as AuditLogEntity } from '@/common/entities/auditlog.entity';
+import { findPage, Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(AuditLogEntity);
+
+// Audit logs are written by the AuditSubscriber; this is the read side
+export const auditRepository = {
+  findPageAsync: async (query: ListAuditLogsQuery): Promise<Paginated<AuditLog>> => {
+    const { entityType, entityId, actorId, action, requestId, ...page } = query;
+    return findPage(repository(), page, { where: { entityType, entityId, actorId, action, requestId } });
+  },
+};
@@ -0,0 +1,42 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+
+import { AuditLogSchema, ListAuditLogsSchema } from '@/api/audit/auditModel';
+import { auditService } from '@/api/audit/auditService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+import { PaginatedSchema } from '@/common/utils/pagination';
+
+export const auditRegistry = new OpenAPIRegistry();
+
+auditRegistry.register('AuditLog', AuditLogSchema);
+
+// Mounted at /admin/audit-logs behind `requireAdmin`
+export const auditRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(auditRegistry, {
+    method: 'get',
+    path: '/admin/audit-logs',
+    tags: ['Audit'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Lists the recorded changes to users, projects, boards and project members. Requires an administrator.',
+    request: { query: ListAuditLogsSchema.shape.query },
+    responses: createApiResponse(PaginatedSchema(AuditLogSchema), 'Success'),
+    errors: [StatusCodes.FORBIDDEN],
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListAuditLogsSchema, PaginatedSchema(AuditLogSchema)),
+    async (req: ValidatedRequest<typeof ListAuditLogsSchema>, res: Response) => {
+      const serviceResponse = await auditService.findAll(req.query);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
@@ -0,0 +1,16 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { AuditLog, ListAuditLogsQuery } from '@/api/audit/auditModel';
+import { auditRepository } from '@/api/audit/auditRepository';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { Paginated } from '@/common/utils/pagination';
+
+// Inspection of the audit trail, for administrators
+export const auditService = traceService('auditService', {
+  // Retrieves a page of the audit logs matching the filters of the query, newest first by default
+  findAll: async (query: ListAuditLogsQuery): Promise<ServiceResponse<Paginated<AuditLog>>> => {
+    const logs = await auditRepository.findPageAsync(query);
+    return new ServiceResponse<Paginated<AuditLog>>(ResponseStatus.Success, 'Audit logs found', logs, StatusCodes.OK);
+  },
+});
@@ -0,0 +1,119 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { AuthSession, AuthTokens } from '@/api/auth/authModel';
+import { refreshTokenRepository } from '@/api/auth/refreshTokenRepository';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken, signRefreshToken } from '@/common/utils/jwt';
+import { hashPassword } from '@/common/utils/password';
+import { app } from '@/server';
+
+vi.mock('@/api/user/userRepository');
+vi.mock('@/api/auth/refreshTokenRepository');
+
+describe('Auth API Endpoints', () => {
+  const mockUser: User = {
+    id: '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01',
+    name: 'Alice',
+    email: 'alice@example.com',
+    bio: null,
+    avatarUrl: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  describe('POST /auth/register', () => {
+    it('should register a user and return tokens', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockResolvedValue(null);
+      (userRepository.createAsync as Mock).mockResolvedValue(mockUser);
+      (refreshTokenRepository.createAsync as Mock).mockResolvedValue({ id: 'token-id' });
+
+      // Act
+      const response = await request(app)
+        .post('/auth/register')
+        .send({ email: mockUser.email, password: 'correct-horse', name: 'Alice' });
+      const responseBody: ServiceResponse<AuthSession> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.CREATED);
+      expect(responseBody.responseObject.accessToken).toBeTruthy();
+      expect(responseBody.responseObject.refreshToken).toBeTruthy();
+      expect(responseBody.responseObject.user).not.toHaveProperty('password');
+    });
+
+    it('should return a bad request for an invalid email', async () => {
+      // Act
+      const response = await request(app).post('/auth/register').send({ email: 'alice', password: 'correct-horse' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('POST /auth/login', () => {
+    it('should reject invalid credentials', async () => {
+      // Arrange
+      const password = await hashPassword('correct-horse');
+      (userRepository.findByEmailWithPasswordAsync as Mock).mockResolvedValue({ ...mockUser, password });
+
+      // Act
+      const response = await request(app).post('/auth/login').send({ email: mockUser.email, password: 'wrong' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.UNAUTHORIZED);
+      expect(response.body.message).toContain('Invalid email or password');
+    });
+  });
+
+  describe('POST /auth/refresh', () => {
+    it('should rotate the refresh token', async () => {
+      // Arrange
+      const refreshToken = signRefreshToken({ sub: mockUser.id, jti: 'old-token-id' });
+      (refreshTokenRepository.findActiveByIdAsync as Mock).mockResolvedValue({
+        id: 'old-token-id',
+        userId: mockUser.id,
+      });
+      (refreshTokenRepository.revokeAsync as Mock).mockResolvedValue(true);
+      (refreshTokenRepository.createAsync as Mock).mockResolvedValue({ id: 'new-token-id' });
+      (userRepository.findByIdAsync as Mock).mockResolvedValue(mockUser);
+
+      // Act
+      const response = await request(app).post('/auth/refresh').send({ refreshToken });
+      const responseBody: ServiceResponse<AuthTokens> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(responseBody.responseObject.refreshToken).not.toEqual(refreshToken);
+    });
+  });
+
+  describe('POST /auth/logout', () => {
+    it('should require an access token', async () => {
+      // Act
+      const response = await request(app).post('/auth/logout').send({ refreshToken: 'token' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.UNAUTHORIZED);
+    });
+
+    it('should revoke the refresh token', async () => {
+      // Arrange
+      const accessToken = signAccessToken({ sub: mockUser.id, email: mockUser.email });
+      const refreshToken = signRefreshToken({ sub: mockUser.id, jti: 'token-id' });
+
+      // Act
+      const response = await request(app)
+        .post('/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ refreshToken });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(refreshTokenRepository.revokeAsync).toHaveBeenCalledWith('token-id');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { StatusCodes } from 'http-status-codes';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { authService } from '@/api/auth/authService';
+import { refreshTokenRepository } from '@/api/auth/refreshTokenRepository';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { ConflictError, UnauthorizedError } from '@/common/models/errors';
+import { signRefreshToken, verifyAccessToken, verifyRefreshToken } from '@/common/utils/jwt';
+import { hashPassword } from '@/common/utils/password';
+
+vi.mock('@/api/user/userRepository');
+vi.mock('@/api/auth/refreshTokenRepository');
+
+describe('authService', () => {
+  const mockUser: User = {
+    id: '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01',
+    name: 'Alice',
+    email: 'alice@example.com',
+    bio: null,
+    avatarUrl: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const storedTokenId = '0d6f3c1a-2b4e-4c8d-9e1f-3a5b7c9d1e03';
+
+  const mockTokenStore = () => {
+    (refreshTokenRepository.createAsync as Mock).mockResolvedValue({ id: storedTokenId });
+  };
+
+  describe('register', () => {
+    it('creates the user with a hashed password and issues tokens', async () => {
+      // Arrange
+      mockTokenStore();
+      (userRepository.findByEmailAsync as Mock).mockResolvedValue(null);
+      (userRepository.createAsync as Mock).mockResolvedValue(mockUser);
+
+      // Act
+      const result = await authService.register({ email: mockUser.email, password: 'correct-horse' });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(result.responseObject?.user).toEqual(mockUser);
+      expect(verifyAccessToken(result.responseObject!.accessToken)?.sub).toEqual(mockUser.id);
+      expect(verifyRefreshToken(result.responseObject!.refreshToken)?.jti).toEqual(storedTokenId);
+      expect((userRepository.createAsync as Mock).mock.calls[0][0].password).not.toEqual('correct-horse');
+    });
+
+    it('returns a conflict error for a taken email', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockResolvedValue(mockUser);
+
+      // Act
+      const result = authService.register({ email: mockUser.email, password: 'correct-horse' });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+      expect(userRepository.createAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    it('issues tokens for valid credentials', async () => {
+      // Arrange
+      mockTokenStore();
+      const password = await hashPassword('correct-horse');
+      (userRepository.findByEmailWithPasswordAsync as Mock).mockResolvedValue({ ...mockUser, password });
+      (userRepository.findByIdAsync as Mock).mockResolvedValue(mockUser);
+
+      // Act
+      const result = await authService.login({ email: mockUser.email, password: 'correct-horse' });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject?.user).not.toHaveProperty('password');
+      expect(result.responseObject?.tokenType).toEqual('Bearer');
+    });
+
+    it('rejects a wrong password', async () => {
+      // Arrange
+      const password = await hashPassword('correct-horse');
+      (userRepository.findByEmailWithPasswordAsync as Mock).mockResolvedValue({ ...mockUser, password });
+
+      // Act
+      const result = authService.login({ email: mockUser.email, password: 'wrong-horse' });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(refreshTokenRepository.createAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('revokes the presented token and issues a new pair', async () => {
+      // Arrange
+      mockTokenStore();
+      const refreshToken = signRefreshToken({ sub: mockUser.id, jti: 'old-token-id' });
+      (refreshTokenRepository.findActiveByIdAsync as Mock).mockResolvedValue({
+        id: 'old-token-id',
+        userId: mockUser.id,
+      });
+      (refreshTokenRepository.revokeAsync as Mock).mockResolvedValue(true);
+      (userRepository.findByIdAsync as Mock).mockResolvedValue(mockUser);
+
+      // Act
+      const result = await authService.refresh(refreshToken);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(refreshTokenRepository.revokeAsync).toHaveBeenCalledWith('old-token-id');
+      expect(verifyRefreshToken(result.responseObject!.refreshToken)?.jti).toEqual(storedTokenId);
+    });
+
+    it('revokes every session when a revoked token is replayed', async () => {
+      // Arrange
+      const refreshToken = signRefreshToken({ sub: mockUser.id, jti: 'old-token-id' });
+      (refreshTokenRepository.findActiveByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = authService.refresh(refreshToken);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(refreshTokenRepository.revokeAllForUserAsync).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('rejects a malformed token', async () => {
+      // Act
+      const result = authService.refresh('not-a-token');
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(refreshTokenRepository.findActiveByIdAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('revokes the refresh token of the user', async () => {
+      // Arrange
+      const refreshToken = signRefreshToken({ sub: mockUser.id, jti: storedTokenId });
+
+      // Act
+      const result = await authService.logout(mockUser.id, refreshToken);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(refreshTokenRepository.revokeAsync).toHaveBeenCalledWith(storedTokenId);
+    });
+
+    it("rejects another user's refresh token", async () => {
+      // Arrange
+      const refreshToken = signRefreshToken({ sub: 'someone-else', jti: storedTokenId });
+
+      // Act
+      const result = authService.logout(mockUser.id, refreshToken);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(refreshTokenRepository.revokeAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,7 @@
+import { refreshTokenRepository } from '@/api/auth/refreshTokenRepository';
+import { defineJob } from '@/common/jobs/jobs';
+
+// Expired refresh tokens can no longer be used, revoked or not
+export const purgeExpiredRefreshTokensJob = defineJob('auth.purge-expired-refresh-tokens', async () => {
+  await refreshTokenRepository.deleteExpiredAsync();
+});
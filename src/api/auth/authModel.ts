@@ -0,0 +1,43 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { UserSchema } from '@/api/user/userModel';
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type AuthTokens = z.infer<typeof AuthTokensSchema>;
+export const AuthTokensSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  tokenType: z.literal('Bearer'),
+  expiresIn: z.number().openapi({ description: 'Access token lifetime in seconds' }),
+});
+
+export type AuthSession = z.infer<typeof AuthSessionSchema>;
+export const AuthSessionSchema = AuthTokensSchema.extend({ user: UserSchema });
+
+export type RegisterInput = z.infer<typeof RegisterSchema>['body'];
+export type LoginInput = z.infer<typeof LoginSchema>['body'];
+
+// Input Validation for 'POST auth/register' endpoint
+export const RegisterSchema = z.object({
+  body: z.object({
+    email: commonValidations.email,
+    password: commonValidations.password,
+    name: z.string().min(1).max(100).optional(),
+  }),
+});
+
+// Input Validation for 'POST auth/login' endpoint
+export const LoginSchema = z.object({
+  body: z.object({
+    email: commonValidations.email,
+    password: z.string().min(1),
+  }),
+});
+
+// Input Validation for 'POST auth/refresh' and 'POST auth/logout' endpoints
+export const RefreshTokenSchema = z.object({
+  body: z.object({ refreshToken: z.string().min(1) }),
+});
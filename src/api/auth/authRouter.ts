@@ -0,0 +1,109 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import {
+  AuthSessionSchema,
+  AuthTokensSchema,
+  LoginSchema,
+  RefreshTokenSchema,
+  RegisterSchema,
+} from '@/api/auth/authModel';
+import { authService } from '@/api/auth/authService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import authenticate from '@/common/middleware/authenticate';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const authRegistry = new OpenAPIRegistry();
+
+authRegistry.register('AuthTokens', AuthTokensSchema);
+authRegistry.register('AuthSession', AuthSessionSchema);
+
+export const authRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(authRegistry, {
+    method: 'post',
+    path: '/auth/register',
+    tags: ['Auth'],
+    request: {
+      body: { content: { 'application/json': { schema: RegisterSchema.shape.body } } },
+    },
+    responses: createApiResponse(AuthSessionSchema, 'Created', StatusCodes.CREATED),
+    errors: [StatusCodes.CONFLICT, StatusCodes.TOO_MANY_REQUESTS],
+  });
+
+  router.post(
+    '/register',
+    validateRequest(RegisterSchema, AuthSessionSchema),
+    async (req: ValidatedRequest<typeof RegisterSchema>, res: Response) => {
+      const serviceResponse = await authService.register(req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(authRegistry, {
+    method: 'post',
+    path: '/auth/login',
+    tags: ['Auth'],
+    request: {
+      body: { content: { 'application/json': { schema: LoginSchema.shape.body } } },
+    },
+    responses: createApiResponse(AuthSessionSchema, 'Success'),
+    errors: [StatusCodes.UNAUTHORIZED, StatusCodes.TOO_MANY_REQUESTS],
+  });
+
+  router.post(
+    '/login',
+    validateRequest(LoginSchema, AuthSessionSchema),
+    async (req: ValidatedRequest<typeof LoginSchema>, res: Response) => {
+      const serviceResponse = await authService.login(req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(authRegistry, {
+    method: 'post',
+    path: '/auth/refresh',
+    tags: ['Auth'],
+    request: {
+      body: { content: { 'application/json': { schema: RefreshTokenSchema.shape.body } } },
+    },
+    responses: createApiResponse(AuthTokensSchema, 'Success'),
+    errors: [StatusCodes.UNAUTHORIZED, StatusCodes.TOO_MANY_REQUESTS],
+  });
+
+  router.post(
+    '/refresh',
+    validateRequest(RefreshTokenSchema, AuthTokensSchema),
+    async (req: ValidatedRequest<typeof RefreshTokenSchema>, res: Response) => {
+      const serviceResponse = await authService.refresh(req.body.refreshToken);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(authRegistry, {
+    method: 'post',
+    path: '/auth/logout',
+    tags: ['Auth'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      body: { content: { 'application/json': { schema: RefreshTokenSchema.shape.body } } },
+    },
+    responses: createApiResponse(z.null(), 'Success'),
+  });
+
+  router.post(
+    '/logout',
+    authenticate,
+    validateRequest(RefreshTokenSchema, z.null()),
+    async (req: ValidatedRequest<typeof RefreshTokenSchema>, res: Response) => {
+      const serviceResponse = await authService.logout(req.user!.id, req.body.refreshToken);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
@@ -0,0 +1,77 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { AuthSession, AuthTokens, LoginInput, RegisterInput } from '@/api/auth/authModel';
+import { refreshTokenRepository } from '@/api/auth/refreshTokenRepository';
+import { userRepository } from '@/api/user/userRepository';
+import { ConflictError, UnauthorizedError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { env } from '@/common/utils/envConfig';
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from '@/common/utils/jwt';
+import { hashPassword, verifyPassword } from '@/common/utils/password';
+
+// Persists a new refresh token so that it can later be revoked, then signs both tokens
+const issueTokens = async (user: { id: string; email: string }): Promise<AuthTokens> => {
+  const expiresAt = new Date(Date.now() + env.JWT_REFRESH_TTL_SECONDS * 1000);
+  const { id } = await refreshTokenRepository.createAsync(user.id, expiresAt);
+  return {
+    accessToken: signAccessToken({ sub: user.id, email: user.email }),
+    refreshToken: signRefreshToken({ sub: user.id, jti: id }),
+    tokenType: 'Bearer',
+    expiresIn: env.JWT_ACCESS_TTL_SECONDS,
+  };
+};
+
+const invalidRefreshToken = () => new UnauthorizedError('Invalid refresh token');
+
+export const authService = traceService('authService', {
+  // Creates an account and signs the new user in
+  register: async (input: RegisterInput): Promise<ServiceResponse<AuthSession>> => {
+    if (await userRepository.findByEmailAsync(input.email)) throw new ConflictError('Email is already in use');
+    const password = await hashPassword(input.password);
+    const user = await userRepository.createAsync({ email: input.email, password, name: input.name });
+    const tokens = await issueTokens(user);
+    return new ServiceResponse(ResponseStatus.Success, 'User registered', { ...tokens, user }, StatusCodes.CREATED);
+  },
+
+  // Checks the credentials and issues a new pair of tokens
+  login: async (input: LoginInput): Promise<ServiceResponse<AuthSession>> => {
+    const credentials = await userRepository.findByEmailWithPasswordAsync(input.email);
+    if (!credentials || !(await verifyPassword(input.password, credentials.password))) {
+      throw new UnauthorizedError('Invalid email or password');
+    }
+    const user = await userRepository.findByIdAsync(credentials.id);
+    if (!user) throw new UnauthorizedError('Invalid email or password');
+    const tokens = await issueTokens(user);
+    return new ServiceResponse(ResponseStatus.Success, 'Logged in', { ...tokens, user }, StatusCodes.OK);
+  },
+
+  // Rotates a refresh token: the presented token is revoked and a new pair is issued.
+  // Presenting an already revoked token revokes every session of its user, since it
+  // means the token has been replayed.
+  refresh: async (refreshToken: string): Promise<ServiceResponse<AuthTokens>> => {
+    const payload = verifyRefreshToken(refreshToken);
+    if (!payload) throw invalidRefreshToken();
+
+    const storedToken = await refreshTokenRepository.findActiveByIdAsync(payload.jti);
+    if (!storedToken || storedToken.userId !== payload.sub) {
+      await refreshTokenRepository.revokeAllForUserAsync(payload.sub);
+      throw invalidRefreshToken();
+    }
+
+    const user = await userRepository.findByIdAsync(payload.sub);
+    if (!user || !(await refreshTokenRepository.revokeAsync(storedToken.id))) throw invalidRefreshToken();
+
+    const tokens = await issueTokens(user);
+    return new ServiceResponse(ResponseStatus.Success, 'Tokens refreshed', tokens, StatusCodes.OK);
+  },
+
+  // Revokes the given refresh token of the authenticated user
+  logout: async (userId: string, refreshToken: string): Promise<ServiceResponse> => {
+    const payload = verifyRefreshToken(refreshToken);
+    if (!payload || payload.sub !== userId) throw invalidRefreshToken();
+
+    await refreshTokenRepository.revokeAsync(payload.jti);
+    return new ServiceResponse(ResponseStatus.Success, 'Logged out', null, StatusCodes.OK);
+  },
+});
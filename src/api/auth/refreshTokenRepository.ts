@@ -0,0 +1,30 @@
+import { IsNull, LessThan, MoreThan } from 'typeorm';
+
+import { RefreshToken } from '@/common/entities/refreshtoken.entity';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(RefreshToken);
+
+export const refreshTokenRepository = {
+  createAsync: async (userId: string, expiresAt: Date): Promise<RefreshToken> => {
+    return repository().save(repository().create({ userId, expiresAt, revokedAt: null }));
+  },
+
+  // Returns the token only while it is neither revoked nor expired
+  findActiveByIdAsync: async (id: string): Promise<RefreshToken | null> => {
+    return repository().findOneBy({ id, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) });
+  },
+
+  revokeAsync: async (id: string): Promise<boolean> => {
+    const result = await repository().update({ id, revokedAt: IsNull() }, { revokedAt: new Date() });
+    return !!result.affected;
+  },
+
+  revokeAllForUserAsync: async (userId: string): Promise<void> => {
+    await repository().update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+  },
+
+  deleteExpiredAsync: async (): Promise<void> => {
+    await repository().delete({ expiresAt: LessThan(new Date()) });
+  },
+};
@@ -0,0 +1,123 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { Board } from '@/api/board/boardModel';
+import { boardRepository } from '@/api/board/boardRepository';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { app } from '@/server';
+
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/common/middleware/requireProjectRole', () => ({
+  default: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+describe('Board API Endpoints', () => {
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const authorization = `Bearer ${signAccessToken({ sub: '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01', email: 'alice@example.com' })}`;
+  const mockBoard: Board = {
+    id: '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06',
+    projectId,
+    title: 'Sprint 1',
+    description: null,
+    position: 0,
+    archivedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+  };
+
+  describe('GET /projects/:projectId/boards', () => {
+    it('should leave archived boards out by default', async () => {
+      // Arrange
+      (boardRepository.findAllByProjectAsync as Mock).mockResolvedValue([mockBoard]);
+
+      // Act
+      const response = await request(app).get(`/projects/${projectId}/boards`).set('Authorization', authorization);
+      const responseBody: ServiceResponse<Board[]> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(responseBody.responseObject).toHaveLength(1);
+      expect(boardRepository.findAllByProjectAsync).toHaveBeenCalledWith(projectId, false);
+    });
+
+    it('should include archived boards on request', async () => {
+      // Arrange
+      (boardRepository.findAllByProjectAsync as Mock).mockResolvedValue([mockBoard]);
+
+      // Act
+      const response = await request(app)
+        .get(`/projects/${projectId}/boards?includeArchived=true`)
+        .set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(boardRepository.findAllByProjectAsync).toHaveBeenCalledWith(projectId, true);
+    });
+  });
+
+  describe('POST /projects/:projectId/boards', () => {
+    it('should create a board', async () => {
+      // Arrange
+      (boardRepository.createAsync as Mock).mockResolvedValue(mockBoard);
+
+      // Act
+      const response = await request(app)
+        .post(`/projects/${projectId}/boards`)
+        .set('Authorization', authorization)
+        .send({ title: 'Sprint 1' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.CREATED);
+      expect(boardRepository.createAsync).toHaveBeenCalledWith(projectId, { title: 'Sprint 1' });
+    });
+  });
+
+  describe('POST /projects/:projectId/boards/:boardId/move', () => {
+    it('should move a board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(mockBoard);
+      (boardRepository.moveAsync as Mock).mockResolvedValue({ ...mockBoard, position: 1 });
+
+      // Act
+      const response = await request(app)
+        .post(`/projects/${projectId}/boards/${mockBoard.id}/move`)
+        .set('Authorization', authorization)
+        .send({ position: 1 });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(response.body.responseObject.position).toEqual(1);
+    });
+
+    it('should return a bad request for a negative position', async () => {
+      // Act
+      const response = await request(app)
+        .post(`/projects/${projectId}/boards/${mockBoard.id}/move`)
+        .set('Authorization', authorization)
+        .send({ position: -1 });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('POST /projects/:projectId/boards/:boardId/archive', () => {
+    it('should archive a board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(mockBoard);
+      (boardRepository.archiveAsync as Mock).mockResolvedValue({ ...mockBoard, archivedAt: new Date() });
+
+      // Act
+      const response = await request(app)
+        .post(`/projects/${projectId}/boards/${mockBoard.id}/archive`)
+        .set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(response.body.responseObject.archivedAt).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { StatusCodes } from 'http-status-codes';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { activityRepository } from '@/api/activity/activityRepository';
+import { Board } from '@/api/board/boardModel';
+import { boardRepository } from '@/api/board/boardRepository';
+import { boardService } from '@/api/board/boardService';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
+
+vi.mock('@/api/activity/activityRepository');
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/server', () => ({
+  ...vi.importActual('@/server'),
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('boardService', () => {
+  const userId = '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01';
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const mockBoard: Board = {
+    id: '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06',
+    projectId,
+    title: 'Sprint 1',
+    description: null,
+    position: 0,
+    archivedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+  };
+
+  describe('findAll', () => {
+    it('returns the boards of the project', async () => {
+      // Arrange
+      (boardRepository.findAllByProjectAsync as Mock).mockResolvedValue([mockBoard]);
+
+      // Act
+      const result = await boardService.findAll(projectId, false);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual([mockBoard]);
+      expect(boardRepository.findAllByProjectAsync).toHaveBeenCalledWith(projectId, false);
+    });
+  });
+
+  describe('findById', () => {
+    it('returns a not found error for boards of other projects', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = boardService.findById(projectId, mockBoard.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      await expect(result).rejects.toThrow('Board not found');
+    });
+  });
+
+  describe('move', () => {
+    it('moves an active board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(mockBoard);
+      (boardRepository.moveAsync as Mock).mockResolvedValue({ ...mockBoard, position: 2 });
+
+      // Act
+      const result = await boardService.move(userId, projectId, mockBoard.id, 2);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject?.position).toEqual(2);
+      expect(boardRepository.moveAsync).toHaveBeenCalledWith(projectId, mockBoard.id, 2);
+    });
+
+    it('refuses to move archived boards', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue({ ...mockBoard, archivedAt: new Date() });
+
+      // Act
+      const result = boardService.move(userId, projectId, mockBoard.id, 2);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+      expect(boardRepository.moveAsync).not.toHaveBeenCalled();
+    });
+
+    it('propagates errors from moveAsync', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(mockBoard);
+      (boardRepository.moveAsync as Mock).mockRejectedValue(new Error('Database error'));
+
+      // Act
+      const result = boardService.move(userId, projectId, mockBoard.id, 2);
+
+      // Assert
+      await expect(result).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('setArchived', () => {
+    it('archives an active board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(mockBoard);
+      (boardRepository.archiveAsync as Mock).mockResolvedValue({ ...mockBoard, archivedAt: new Date() });
+
+      // Act
+      const result = await boardService.setArchived(userId, projectId, mockBoard.id, true);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.message).toEqual('Board archived');
+      expect(activityRepository.createAsync).toHaveBeenCalledWith({
+        userId,
+        projectId,
+        boardId: mockBoard.id,
+        action: ActivityAction.BoardArchived,
+      });
+    });
+
+    it('restores an archived board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue({ ...mockBoard, archivedAt: new Date() });
+      (boardRepository.unarchiveAsync as Mock).mockResolvedValue(mockBoard);
+
+      // Act
+      const result = await boardService.setArchived(userId, projectId, mockBoard.id, false);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(boardRepository.unarchiveAsync).toHaveBeenCalledWith(projectId, mockBoard.id);
+    });
+
+    it('returns a conflict error when archiving twice', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue({ ...mockBoard, archivedAt: new Date() });
+
+      // Act
+      const result = boardService.setArchived(userId, projectId, mockBoard.id, true);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('delete', () => {
+    it('records the title of the deleted board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(mockBoard);
+      (boardRepository.softDeleteAsync as Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await boardService.delete(userId, projectId, mockBoard.id);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(activityRepository.createAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ action: ActivityAction.BoardDeleted, data: { title: mockBoard.title } })
+      );
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = boardService.delete(userId, projectId, mockBoard.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(boardRepository.softDeleteAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('records the title of the restored board', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+      (boardRepository.restoreAsync as Mock).mockResolvedValue(mockBoard);
+
+      // Act
+      const result = await boardService.restore(userId, projectId, mockBoard.id);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual(mockBoard);
+      expect(activityRepository.createAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ action: ActivityAction.BoardRestored, data: { title: mockBoard.title } })
+      );
+    });
+
+    it('returns a conflict error for boards that are not in the trash', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(mockBoard);
+
+      // Act
+      const result = boardService.restore(userId, projectId, mockBoard.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+      expect(boardRepository.restoreAsync).not.toHaveBeenCalled();
+    });
+  });
+});
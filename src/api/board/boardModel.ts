@@ -0,0 +1,71 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type Board = z.infer<typeof BoardSchema>;
+export const BoardSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  title: z.string(),
+  description: z.string().nullable(),
+  position: z.number().int(),
+  archivedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  deletedAt: z.date().nullable().openapi({ description: 'When the board was moved to the trash' }),
+});
+
+export type CreateBoardInput = z.infer<typeof CreateBoardSchema>['body'];
+export type UpdateBoardInput = z.infer<typeof UpdateBoardSchema>['body'];
+
+const BoardFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+  description: z.string().nullable().optional(),
+});
+
+const ProjectParamsSchema = z.object({ projectId: commonValidations.id });
+const BoardParamsSchema = ProjectParamsSchema.extend({ boardId: commonValidations.id });
+
+// Input Validation for 'GET projects/:projectId/boards' endpoint
+export const ListBoardsSchema = z.object({
+  params: ProjectParamsSchema,
+  query: z.object({
+    includeArchived: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform((value) => value === 'true')
+      .openapi({ description: 'Whether archived boards are listed after the active ones' }),
+  }),
+});
+
+// Input Validation for 'GET projects/:projectId/boards/:boardId' endpoint
+export const GetBoardSchema = z.object({
+  params: BoardParamsSchema,
+});
+
+// Input Validation for 'POST projects/:projectId/boards' endpoint
+export const CreateBoardSchema = z.object({
+  params: ProjectParamsSchema,
+  body: BoardFieldsSchema,
+});
+
+// Input Validation for 'PATCH projects/:projectId/boards/:boardId' endpoint
+export const UpdateBoardSchema = z.object({
+  params: BoardParamsSchema,
+  body: BoardFieldsSchema.partial(),
+});
+
+// Input Validation for 'POST projects/:projectId/boards/:boardId/move' endpoint
+export const MoveBoardSchema = z.object({
+  params: BoardParamsSchema,
+  body: z.object({
+    position: z
+      .number()
+      .int()
+      .min(0)
+      .openapi({ description: 'Target zero-based index among the active boards; larger values move it last' }),
+  }),
+});
@@ -0,0 +1,122 @@
+import { EntityManager, IsNull, Not } from 'typeorm';
+
+import { Board } from '@/api/board/boardModel';
+import { Board as BoardEntity } from '@/common/entities/board.entity';
+import { Project } from '@/common/entities/project.entity';
+import { renumber, reorder, savePositions } from '@/common/utils/positioning';
+import { withRowLock } from '@/common/utils/transactions';
+import { cascadeDeletedAt } from '@/common/utils/trash';
+import dataSource from '@/configs/typeorm.config';
+
+type BoardWriteData = Partial<Pick<BoardEntity, 'title' | 'description'>>;
+
+const repository = () => dataSource.getRepository(BoardEntity);
+
+// Every change to board positions holds a lock on the project row, so concurrent
+// reorders of the same project are applied one after another.
+const withProjectLock = <T>(projectId: string, work: (manager: EntityManager) => Promise<T>): Promise<T> =>
+  withRowLock(Project, projectId, work);
+
+const findActiveBoards = (manager: EntityManager, projectId: string) =>
+  manager.find(BoardEntity, { where: { projectId, archivedAt: IsNull() }, order: { position: 'ASC' } });
+
+export const boardRepository = {
+  // Active boards ordered by position, optionally followed by archived boards
+  findAllByProjectAsync: async (projectId: string, includeArchived = false): Promise<Board[]> => {
+    const activeBoards = await findActiveBoards(dataSource.manager, projectId);
+    if (!includeArchived) return activeBoards;
+    const archivedBoards = await repository().find({
+      where: { projectId, archivedAt: Not(IsNull()) },
+      order: { archivedAt: 'DESC' },
+    });
+    return [...activeBoards, ...archivedBoards];
+  },
+
+  findByIdAsync: async (projectId: string, id: string): Promise<Board | null> => {
+    return repository().findOneBy({ id, projectId });
+  },
+
+  // Creates the board at the end of the project's active boards
+  createAsync: async (projectId: string, data: BoardWriteData): Promise<Board> => {
+    return withProjectLock(projectId, async (manager) => {
+      const position = await manager.count(BoardEntity, { where: { projectId, archivedAt: IsNull() } });
+      return manager.save(manager.create(BoardEntity, { ...data, projectId, position }));
+    });
+  },
+
+  updateAsync: async (projectId: string, id: string, data: BoardWriteData): Promise<Board | null> => {
+    const board = await repository().findOneBy({ id, projectId });
+    if (!board) return null;
+    await repository().save(repository().merge(board, data));
+    return repository().findOneBy({ id, projectId });
+  },
+
+  moveAsync: async (projectId: string, id: string, position: number): Promise<Board | null> => {
+    return withProjectLock(projectId, async (manager) => {
+      await savePositions(manager, BoardEntity, reorder(await findActiveBoards(manager, projectId), id, position));
+      return manager.findOneBy(BoardEntity, { id, projectId });
+    });
+  },
+
+  // Takes the board out of the active ordering and closes the gap it leaves
+  archiveAsync: async (projectId: string, id: string): Promise<Board | null> => {
+    return withProjectLock(projectId, async (manager) => {
+      const board = await manager.findOneBy(BoardEntity, { id, projectId, archivedAt: IsNull() });
+      if (board) await manager.save(manager.merge(BoardEntity, board, { archivedAt: new Date() }));
+      await savePositions(manager, BoardEntity, renumber(await findActiveBoards(manager, projectId)));
+      return manager.findOneBy(BoardEntity, { id, projectId });
+    });
+  },
+
+  // Puts an archived board back at the end of the active ordering
+  unarchiveAsync: async (projectId: string, id: string): Promise<Board | null> => {
+    return withProjectLock(projectId, async (manager) => {
+      const board = await manager.findOneBy(BoardEntity, { id, projectId, archivedAt: Not(IsNull()) });
+      if (board) {
+        const position = await manager.count(BoardEntity, { where: { projectId, archivedAt: IsNull() } });
+        await manager.save(manager.merge(BoardEntity, board, { archivedAt: null, position }));
+      }
+      return manager.findOneBy(BoardEntity, { id, projectId });
+    });
+  },
+
+  // Moves the board to the trash with its cards and closes the gap it leaves
+  softDeleteAsync: async (projectId: string, id: string): Promise<boolean> => {
+    return withProjectLock(projectId, async (manager) => {
+      const board = await manager.findOneBy(BoardEntity, { id, projectId });
+      if (!board) return false;
+      const deletedAt = new Date();
+      await manager.save(manager.merge(BoardEntity, board, { deletedAt }));
+      await cascadeDeletedAt(manager, { boardId: id }, null, deletedAt);
+      await savePositions(manager, BoardEntity, renumber(await findActiveBoards(manager, projectId)));
+      return true;
+    });
+  },
+
+  // Takes the board out of the trash with the cards deleted along with it. An active board
+  // goes back at the end of the active ordering.
+  restoreAsync: async (projectId: string, id: string): Promise<Board | null> => {
+    return withProjectLock(projectId, async (manager) => {
+      const board = await manager.findOne(BoardEntity, {
+        where: { id, projectId, deletedAt: Not(IsNull()) },
+        withDeleted: true,
+      });
+      if (!board) return null;
+      await cascadeDeletedAt(manager, { boardId: id }, board.deletedAt, null);
+      const position = board.archivedAt
+        ? board.position
+        : await manager.count(BoardEntity, { where: { projectId, archivedAt: IsNull() } });
+      await manager.save(manager.merge(BoardEntity, board, { deletedAt: null, position }));
+      return manager.findOneBy(BoardEntity, { id, projectId });
+    });
+  },
+
+  // Boards of the project in the trash, most recently deleted first
+  findDeletedByProjectAsync: async (projectId: string): Promise<Board[]> => {
+    return repository().find({
+      where: { projectId, deletedAt: Not(IsNull()) },
+      order: { deletedAt: 'DESC' },
+      withDeleted: true,
+    });
+  },
+};
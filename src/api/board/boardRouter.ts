@@ -0,0 +1,237 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import { activityRouter } from '@/api/activity/activityRouter';
+import {
+  BoardSchema,
+  CreateBoardSchema,
+  GetBoardSchema,
+  ListBoardsSchema,
+  MoveBoardSchema,
+  UpdateBoardSchema,
+} from '@/api/board/boardModel';
+import { boardService } from '@/api/board/boardService';
+import { cardRouter } from '@/api/card/cardRouter';
+import { listRouter } from '@/api/list/listRouter';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const boardRegistry = new OpenAPIRegistry();
+
+boardRegistry.register('Board', BoardSchema);
+
+// Mounted under '/projects/:projectId/boards'
+export const boardRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  registerApiRoute(boardRegistry, {
+    method: 'get',
+    path: '/projects/{projectId}/boards',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: { params: ListBoardsSchema.shape.params, query: ListBoardsSchema.shape.query },
+    responses: createApiResponse(z.array(BoardSchema), 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListBoardsSchema, z.array(BoardSchema)),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof ListBoardsSchema>, res: Response) => {
+      const serviceResponse = await boardService.findAll(req.params.projectId, req.query.includeArchived);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'get',
+    path: '/projects/{projectId}/boards/{boardId}',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: { params: GetBoardSchema.shape.params },
+    responses: createApiResponse(BoardSchema, 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/:boardId',
+    validateRequest(GetBoardSchema, BoardSchema),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof GetBoardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await boardService.findById(projectId, boardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: CreateBoardSchema.shape.params,
+      body: { content: { 'application/json': { schema: CreateBoardSchema.shape.body } } },
+    },
+    responses: createApiResponse(BoardSchema, 'Created', StatusCodes.CREATED),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.post(
+    '/',
+    validateRequest(CreateBoardSchema, BoardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof CreateBoardSchema>, res: Response) => {
+      const serviceResponse = await boardService.create(req.user!.id, req.params.projectId, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'patch',
+    path: '/projects/{projectId}/boards/{boardId}',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: UpdateBoardSchema.shape.params,
+      body: { content: { 'application/json': { schema: UpdateBoardSchema.shape.body } } },
+    },
+    responses: createApiResponse(BoardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.patch(
+    '/:boardId',
+    validateRequest(UpdateBoardSchema, BoardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof UpdateBoardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await boardService.update(req.user!.id, projectId, boardId, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/move',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: MoveBoardSchema.shape.params,
+      body: { content: { 'application/json': { schema: MoveBoardSchema.shape.body } } },
+    },
+    responses: createApiResponse(BoardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:boardId/move',
+    validateRequest(MoveBoardSchema, BoardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof MoveBoardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await boardService.move(req.user!.id, projectId, boardId, req.body.position);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/archive',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: { params: GetBoardSchema.shape.params },
+    responses: createApiResponse(BoardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:boardId/archive',
+    validateRequest(GetBoardSchema, BoardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof GetBoardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await boardService.setArchived(req.user!.id, projectId, boardId, true);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/unarchive',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Restores an archived board at the end of the active boards',
+    request: { params: GetBoardSchema.shape.params },
+    responses: createApiResponse(BoardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:boardId/unarchive',
+    validateRequest(GetBoardSchema, BoardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof GetBoardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await boardService.setArchived(req.user!.id, projectId, boardId, false);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'delete',
+    path: '/projects/{projectId}/boards/{boardId}',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Moves the board to the trash with its cards. Requires the admin role',
+    request: { params: GetBoardSchema.shape.params },
+    responses: createApiResponse(z.null(), 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.delete(
+    '/:boardId',
+    validateRequest(GetBoardSchema, z.null()),
+    requireProjectRole(ProjectRole.Admin),
+    async (req: ValidatedRequest<typeof GetBoardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await boardService.delete(req.user!.id, projectId, boardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(boardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/restore',
+    tags: ['Board'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Takes the board out of the trash with the cards deleted along with it; an active board goes back at the end. Requires the admin role',
+    request: { params: GetBoardSchema.shape.params },
+    responses: createApiResponse(BoardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:boardId/restore',
+    validateRequest(GetBoardSchema, BoardSchema),
+    requireProjectRole(ProjectRole.Admin),
+    async (req: ValidatedRequest<typeof GetBoardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await boardService.restore(req.user!.id, projectId, boardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  router.use('/:boardId/lists', listRouter);
+  router.use('/:boardId/cards', cardRouter);
+  router.use('/:boardId/activity', activityRouter);
+
+  return router;
+})();
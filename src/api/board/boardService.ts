@@ -0,0 +1,148 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { activityService } from '@/api/activity/activityService';
+import { Board, CreateBoardInput, UpdateBoardInput } from '@/api/board/boardModel';
+import { boardRepository } from '@/api/board/boardRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { realtimeEvents, RealtimeEventType } from '@/common/realtime/realtimeEvents';
+import { traceService } from '@/common/tracing/tracing';
+import { changedFields } from '@/common/utils/changedFields';
+
+const findBoardOrThrow = async (projectId: string, id: string): Promise<Board> => {
+  const board = await boardRepository.findByIdAsync(projectId, id);
+  if (!board) throw new NotFoundError('Board not found');
+  return board;
+};
+
+// Boards are always looked up within their project, so a board id from another
+// project is reported as missing. `userId` is the requesting user.
+export const boardService = traceService('boardService', {
+  // Retrieves the boards of a project in display order
+  findAll: async (projectId: string, includeArchived: boolean): Promise<ServiceResponse<Board[]>> => {
+    const boards = await boardRepository.findAllByProjectAsync(projectId, includeArchived);
+    return new ServiceResponse<Board[]>(ResponseStatus.Success, 'Boards found', boards, StatusCodes.OK);
+  },
+
+  // Retrieves a single board, archived or not
+  findById: async (projectId: string, id: string): Promise<ServiceResponse<Board>> => {
+    const board = await findBoardOrThrow(projectId, id);
+    return new ServiceResponse<Board>(ResponseStatus.Success, 'Board found', board, StatusCodes.OK);
+  },
+
+  // Creates a board after the existing ones
+  create: async (userId: string, projectId: string, input: CreateBoardInput): Promise<ServiceResponse<Board>> => {
+    const { title, description } = input;
+    const board = await boardRepository.createAsync(projectId, { title, description });
+    await activityService.record({
+      userId,
+      projectId,
+      boardId: board.id,
+      action: ActivityAction.BoardCreated,
+      data: { title },
+    });
+    realtimeEvents.publish(RealtimeEventType.BoardCreated, { projectId, boardId: board.id }, board);
+    return new ServiceResponse<Board>(ResponseStatus.Success, 'Board created', board, StatusCodes.CREATED);
+  },
+
+  // Renames a board or changes its description
+  update: async (
+    userId: string,
+    projectId: string,
+    id: string,
+    input: UpdateBoardInput
+  ): Promise<ServiceResponse<Board | null>> => {
+    const board = await findBoardOrThrow(projectId, id);
+    const { title, description } = input;
+    const fields = changedFields(board, { title, description });
+    const updatedBoard = await boardRepository.updateAsync(projectId, id, { title, description });
+    await activityService.recordEdit(
+      { userId, projectId, boardId: id },
+      { renamed: ActivityAction.BoardRenamed, updated: ActivityAction.BoardUpdated },
+      { from: board.title, to: title },
+      fields
+    );
+    if (updatedBoard) realtimeEvents.publish(RealtimeEventType.BoardUpdated, { projectId, boardId: id }, updatedBoard);
+    return new ServiceResponse(ResponseStatus.Success, 'Board updated', updatedBoard, StatusCodes.OK);
+  },
+
+  // Moves an active board to a new position among the project's active boards
+  move: async (
+    userId: string,
+    projectId: string,
+    id: string,
+    position: number
+  ): Promise<ServiceResponse<Board | null>> => {
+    const board = await findBoardOrThrow(projectId, id);
+    if (board.archivedAt) throw new ConflictError('Archived boards cannot be moved');
+    const movedBoard = await boardRepository.moveAsync(projectId, id, position);
+    if (movedBoard && movedBoard.position !== board.position) {
+      await activityService.record({
+        userId,
+        projectId,
+        boardId: id,
+        action: ActivityAction.BoardMoved,
+        data: { from: board.position, to: movedBoard.position },
+      });
+    }
+    if (movedBoard) realtimeEvents.publish(RealtimeEventType.BoardMoved, { projectId, boardId: id }, movedBoard);
+    return new ServiceResponse(ResponseStatus.Success, 'Board moved', movedBoard, StatusCodes.OK);
+  },
+
+  // Archives or restores a board
+  setArchived: async (
+    userId: string,
+    projectId: string,
+    id: string,
+    archived: boolean
+  ): Promise<ServiceResponse<Board | null>> => {
+    const board = await findBoardOrThrow(projectId, id);
+    if (!!board.archivedAt === archived) {
+      throw new ConflictError(archived ? 'Board is already archived' : 'Board is not archived');
+    }
+    const updatedBoard = archived
+      ? await boardRepository.archiveAsync(projectId, id)
+      : await boardRepository.unarchiveAsync(projectId, id);
+    await activityService.record({
+      userId,
+      projectId,
+      boardId: id,
+      action: archived ? ActivityAction.BoardArchived : ActivityAction.BoardUnarchived,
+    });
+    if (updatedBoard) realtimeEvents.publish(RealtimeEventType.BoardUpdated, { projectId, boardId: id }, updatedBoard);
+    const message = archived ? 'Board archived' : 'Board restored';
+    return new ServiceResponse(ResponseStatus.Success, message, updatedBoard, StatusCodes.OK);
+  },
+
+  // Moves a board to the trash with its cards
+  delete: async (userId: string, projectId: string, id: string): Promise<ServiceResponse> => {
+    const board = await findBoardOrThrow(projectId, id);
+    await boardRepository.softDeleteAsync(projectId, id);
+    await activityService.record({
+      userId,
+      projectId,
+      boardId: id,
+      action: ActivityAction.BoardDeleted,
+      data: { title: board.title },
+    });
+    realtimeEvents.publish(RealtimeEventType.BoardDeleted, { projectId, boardId: id }, { id });
+    return new ServiceResponse(ResponseStatus.Success, 'Board deleted', null, StatusCodes.OK);
+  },
+
+  // Takes a board out of the trash with the cards deleted along with it
+  restore: async (userId: string, projectId: string, id: string): Promise<ServiceResponse<Board | null>> => {
+    if (await boardRepository.findByIdAsync(projectId, id)) throw new ConflictError('Board is not in the trash');
+    const board = await boardRepository.restoreAsync(projectId, id);
+    if (!board) throw new NotFoundError('Board not found');
+    await activityService.record({
+      userId,
+      projectId,
+      boardId: id,
+      action: ActivityAction.BoardRestored,
+      data: { title: board.title },
+    });
+    realtimeEvents.publish(RealtimeEventType.BoardRestored, { projectId, boardId: id }, board);
+    return new ServiceResponse(ResponseStatus.Success, 'Board restored', board, StatusCodes.OK);
+  },
+});
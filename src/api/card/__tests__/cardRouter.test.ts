@@ -0,0 +1,115 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+
+import { boardRepository } from '@/api/board/boardRepository';
+import { Card } from '@/api/card/cardModel';
+import { cardRepository } from '@/api/card/cardRepository';
+import { listRepository } from '@/api/list/listRepository';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { app } from '@/server';
+
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/api/card/cardRepository');
+vi.mock('@/api/list/listRepository');
+vi.mock('@/common/middleware/requireProjectRole', () => ({
+  default: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+describe('Card API Endpoints', () => {
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const boardId = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06';
+  const listId = '4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f07';
+  const basePath = `/projects/${projectId}/boards/${boardId}/cards`;
+  const authorization = `Bearer ${signAccessToken({ sub: '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01', email: 'alice@example.com' })}`;
+  const mockCard: Card = {
+    id: '5e6f7a8b-9c0d-4e1f-8a2b-3c4d5e6f7a08',
+    listId,
+    title: 'Write the API docs',
+    description: null,
+    position: 0,
+    dueDate: null,
+    labels: [],
+    assignees: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    (boardRepository.findByIdAsync as Mock).mockResolvedValue({ id: boardId, projectId });
+    (listRepository.findByIdAsync as Mock).mockResolvedValue({ id: listId, boardId });
+    (cardRepository.findByIdAsync as Mock).mockResolvedValue(mockCard);
+  });
+
+  describe('POST /projects/:projectId/boards/:boardId/cards', () => {
+    it('should create a card', async () => {
+      // Arrange
+      (cardRepository.createAsync as Mock).mockResolvedValue(mockCard);
+
+      // Act
+      const response = await request(app)
+        .post(basePath)
+        .set('Authorization', authorization)
+        .send({ listId, title: mockCard.title, labels: ['docs'] });
+      const responseBody: ServiceResponse<Card> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.CREATED);
+      expect(responseBody.responseObject.id).toEqual(mockCard.id);
+    });
+
+    it('should return a bad request for an invalid due date', async () => {
+      // Act
+      const response = await request(app)
+        .post(basePath)
+        .set('Authorization', authorization)
+        .send({ listId, title: mockCard.title, dueDate: 'tomorrow' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+      expect(cardRepository.createAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /projects/:projectId/boards/:boardId/cards/:cardId/move', () => {
+    it('should move a card', async () => {
+      // Arrange
+      (cardRepository.moveAsync as Mock).mockResolvedValue({ ...mockCard, position: 3 });
+
+      // Act
+      const response = await request(app)
+        .post(`${basePath}/${mockCard.id}/move`)
+        .set('Authorization', authorization)
+        .send({ listId, position: 3 });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(response.body.responseObject.position).toEqual(3);
+    });
+
+    it('should return a bad request without a target list', async () => {
+      // Act
+      const response = await request(app)
+        .post(`${basePath}/${mockCard.id}/move`)
+        .set('Authorization', authorization)
+        .send({ position: 3 });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('DELETE /projects/:projectId/boards/:boardId/cards/:cardId', () => {
+    it('should delete a card', async () => {
+      // Arrange
+      (cardRepository.softDeleteAsync as Mock).mockResolvedValue(true);
+
+      // Act
+      const response = await request(app).delete(`${basePath}/${mockCard.id}`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+    });
+  });
+});
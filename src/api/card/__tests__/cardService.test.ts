@@ -0,0 +1,240 @@
+import { StatusCodes } from 'http-status-codes';
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+
+import { activityRepository } from '@/api/activity/activityRepository';
+import { boardRepository } from '@/api/board/boardRepository';
+import { Card } from '@/api/card/cardModel';
+import { cardRepository } from '@/api/card/cardRepository';
+import { cardService } from '@/api/card/cardService';
+import { listRepository } from '@/api/list/listRepository';
+import { notificationService } from '@/api/notification/notificationService';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { NotFoundError, ValidationError } from '@/common/models/errors';
+import { NotificationType } from '@/common/models/notificationType';
+
+vi.mock('@/api/activity/activityRepository');
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/api/card/cardRepository');
+vi.mock('@/api/list/listRepository');
+vi.mock('@/api/notification/notificationService');
+vi.mock('@/api/projectMember/projectMemberRepository');
+vi.mock('@/server', () => ({
+  ...vi.importActual('@/server'),
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('cardService', () => {
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const boardId = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06';
+  const listId = '4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f07';
+  const memberId = '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01';
+  const mockCard: Card = {
+    id: '5e6f7a8b-9c0d-4e1f-8a2b-3c4d5e6f7a08',
+    listId,
+    title: 'Write the API docs',
+    description: null,
+    position: 0,
+    dueDate: null,
+    labels: ['docs'],
+    assignees: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    (boardRepository.findByIdAsync as Mock).mockResolvedValue({ id: boardId, projectId });
+    (listRepository.findByIdAsync as Mock).mockResolvedValue({ id: listId, boardId });
+    (projectMemberRepository.findAllByProjectAsync as Mock).mockResolvedValue([{ userId: memberId }]);
+    (cardRepository.findByIdAsync as Mock).mockResolvedValue(mockCard);
+  });
+
+  describe('create', () => {
+    it('creates a card with project members as assignees', async () => {
+      // Arrange
+      (cardRepository.createAsync as Mock).mockResolvedValue(mockCard);
+
+      // Act
+      const result = await cardService.create(memberId, projectId, boardId, {
+        listId,
+        title: mockCard.title,
+        dueDate: '2026-11-01T09:00:00Z',
+        assigneeIds: [memberId],
+      });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(cardRepository.createAsync).toHaveBeenCalledWith(
+        boardId,
+        listId,
+        expect.objectContaining({ title: mockCard.title, dueDate: new Date('2026-11-01T09:00:00Z') }),
+        [memberId]
+      );
+    });
+
+    it('rejects assignees who are not project members', async () => {
+      // Act
+      const outsiderId = '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02';
+      const result = cardService.create(memberId, projectId, boardId, {
+        listId,
+        title: mockCard.title,
+        assigneeIds: [outsiderId],
+      });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ValidationError);
+      await expect(result).rejects.toThrow(outsiderId);
+      expect(cardRepository.createAsync).not.toHaveBeenCalled();
+    });
+
+    it('returns a not found error for lists of other boards', async () => {
+      // Arrange
+      (listRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = cardService.create(memberId, projectId, boardId, { listId, title: mockCard.title });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      await expect(result).rejects.toThrow('List not found');
+    });
+  });
+
+  describe('update', () => {
+    it('clears the due date when it is set to null', async () => {
+      // Arrange
+      (cardRepository.updateAsync as Mock).mockResolvedValue(mockCard);
+
+      // Act
+      const result = await cardService.update(memberId, projectId, boardId, mockCard.id, { dueDate: null });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect((cardRepository.updateAsync as Mock).mock.calls[0][2].dueDate).toBeNull();
+    });
+
+    it('records added and removed assignees', async () => {
+      // Arrange
+      const previousAssignee = {
+        id: '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02',
+        email: 'bob@example.com',
+        name: null,
+        avatarUrl: null,
+      };
+      (cardRepository.findByIdAsync as Mock).mockResolvedValue({ ...mockCard, assignees: [previousAssignee] });
+      (projectMemberRepository.findAllByProjectAsync as Mock).mockResolvedValue([
+        { userId: memberId },
+        { userId: previousAssignee.id },
+      ]);
+      (cardRepository.updateAsync as Mock).mockResolvedValue(mockCard);
+
+      // Act
+      await cardService.update(memberId, projectId, boardId, mockCard.id, { assigneeIds: [memberId] });
+
+      // Assert
+      const actions = (activityRepository.createAsync as Mock).mock.calls.map(([entry]) => [entry.action, entry.data]);
+      expect(actions).toEqual([
+        [ActivityAction.CardAssigned, { userIds: [memberId] }],
+        [ActivityAction.CardUnassigned, { userIds: [previousAssignee.id] }],
+      ]);
+    });
+
+    it('notifies the users newly assigned', async () => {
+      // Arrange
+      const assigneeId = '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02';
+      (projectMemberRepository.findAllByProjectAsync as Mock).mockResolvedValue([
+        { userId: memberId },
+        { userId: assigneeId },
+      ]);
+      (cardRepository.updateAsync as Mock).mockResolvedValue(mockCard);
+
+      // Act
+      await cardService.update(memberId, projectId, boardId, mockCard.id, { assigneeIds: [assigneeId] });
+
+      // Assert
+      expect(notificationService.notify).toHaveBeenCalledWith({
+        type: NotificationType.CardAssigned,
+        userId: assigneeId,
+        actorId: memberId,
+        projectId,
+        data: { boardId, cardId: mockCard.id, cardTitle: mockCard.title },
+      });
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (cardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = cardService.update(memberId, projectId, boardId, mockCard.id, { title: 'Renamed' });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('move', () => {
+    it('moves a card to another list of the board', async () => {
+      // Arrange
+      const targetListId = '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c09';
+      (cardRepository.moveAsync as Mock).mockResolvedValue({ ...mockCard, listId: targetListId, position: 1 });
+
+      // Act
+      const result = await cardService.move(memberId, projectId, boardId, mockCard.id, {
+        listId: targetListId,
+        position: 1,
+      });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(cardRepository.moveAsync).toHaveBeenCalledWith(boardId, mockCard.id, targetListId, 1);
+      expect(activityRepository.createAsync).toHaveBeenCalledWith({
+        userId: memberId,
+        projectId,
+        boardId,
+        cardId: mockCard.id,
+        action: ActivityAction.CardMoved,
+        data: { fromListId: listId, toListId: targetListId, position: 1 },
+      });
+    });
+
+    it('returns a not found error for a target list of another board', async () => {
+      // Arrange
+      (listRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = cardService.move(memberId, projectId, boardId, mockCard.id, { listId, position: 0 });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(cardRepository.moveAsync).not.toHaveBeenCalled();
+    });
+
+    it('propagates errors from moveAsync', async () => {
+      // Arrange
+      (cardRepository.moveAsync as Mock).mockRejectedValue(new Error('Database error'));
+
+      // Act
+      const result = cardService.move(memberId, projectId, boardId, mockCard.id, { listId, position: 0 });
+
+      // Assert
+      await expect(result).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('delete', () => {
+    it('returns a not found error for boards of other projects', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = cardService.delete(memberId, projectId, boardId, mockCard.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(cardRepository.softDeleteAsync).not.toHaveBeenCalled();
+    });
+  });
+});
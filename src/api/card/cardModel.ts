@@ -0,0 +1,77 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { PublicUserSchema } from '@/api/user/userModel';
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type Card = z.infer<typeof CardSchema>;
+export const CardSchema = z.object({
+  id: z.string().uuid(),
+  listId: z.string().uuid(),
+  title: z.string(),
+  description: z.string().nullable(),
+  position: z.number().int(),
+  dueDate: z.date().nullable(),
+  labels: z.array(z.string()),
+  assignees: z.array(PublicUserSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// A card in the trash, with the board it is restored to
+export type TrashedCard = z.infer<typeof TrashedCardSchema>;
+export const TrashedCardSchema = CardSchema.extend({
+  boardId: z.string().uuid(),
+  deletedAt: z.date(),
+});
+
+export type CreateCardInput = z.infer<typeof CreateCardSchema>['body'];
+export type UpdateCardInput = z.infer<typeof UpdateCardSchema>['body'];
+export type MoveCardInput = z.infer<typeof MoveCardSchema>['body'];
+
+const CardFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+  description: z.string().nullable().optional(),
+  dueDate: z.string().datetime({ offset: true }).nullable().optional(),
+  labels: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  assigneeIds: z
+    .array(commonValidations.id)
+    .max(50)
+    .optional()
+    .openapi({ description: 'Users to assign; each must be a member of the project' }),
+});
+
+const BoardParamsSchema = z.object({ projectId: commonValidations.id, boardId: commonValidations.id });
+const CardParamsSchema = BoardParamsSchema.extend({ cardId: commonValidations.id });
+
+// Input Validation for 'GET projects/:projectId/boards/:boardId/cards/:cardId' endpoint
+export const GetCardSchema = z.object({
+  params: CardParamsSchema,
+});
+
+// Input Validation for 'POST projects/:projectId/boards/:boardId/cards' endpoint
+export const CreateCardSchema = z.object({
+  params: BoardParamsSchema,
+  body: CardFieldsSchema.extend({ listId: commonValidations.id }),
+});
+
+// Input Validation for 'PATCH projects/:projectId/boards/:boardId/cards/:cardId' endpoint
+export const UpdateCardSchema = z.object({
+  params: CardParamsSchema,
+  body: CardFieldsSchema.partial(),
+});
+
+// Input Validation for 'POST projects/:projectId/boards/:boardId/cards/:cardId/move' endpoint
+export const MoveCardSchema = z.object({
+  params: CardParamsSchema,
+  body: z.object({
+    listId: commonValidations.id.openapi({ description: 'Target list; may be the current list of the card' }),
+    position: z
+      .number()
+      .int()
+      .min(0)
+      .openapi({ description: 'Target zero-based index within the target list; larger values move it last' }),
+  }),
+});
@@ -0,0 +1,158 @@
+import { EntityManager, IsNull, Not } from 'typeorm';
+
+import { Card, TrashedCard } from '@/api/card/cardModel';
+import { Board } from '@/common/entities/board.entity';
+import { Card as CardEntity } from '@/common/entities/card.entity';
+import { User } from '@/common/entities/user.entity';
+import { renumber, reorder, savePositions } from '@/common/utils/positioning';
+import { withRowLock } from '@/common/utils/transactions';
+import dataSource from '@/configs/typeorm.config';
+
+type CardWriteData = Partial<Pick<CardEntity, 'title' | 'description' | 'dueDate' | 'labels'>>;
+
+const repository = () => dataSource.getRepository(CardEntity);
+
+// Assignees are loaded with their public profile only
+export const cardSelect = {
+  id: true,
+  listId: true,
+  title: true,
+  description: true,
+  position: true,
+  dueDate: true,
+  labels: true,
+  createdAt: true,
+  updatedAt: true,
+  assignees: { id: true, email: true, name: true, avatarUrl: true },
+} as const;
+
+// Card positions of a whole board change under a lock on the board row, so that
+// concurrent moves within or across its lists are applied one after another.
+const withBoardLock = <T>(boardId: string, work: (manager: EntityManager) => Promise<T>): Promise<T> =>
+  withRowLock(Board, boardId, work);
+
+const findListCards = (manager: EntityManager, listId: string) =>
+  manager.find(CardEntity, { where: { listId }, order: { position: 'ASC' }, select: { id: true, position: true } });
+
+const findCard = (manager: EntityManager, boardId: string, id: string) =>
+  manager.findOne(CardEntity, {
+    where: { id, list: { boardId } },
+    relations: { assignees: true },
+    select: cardSelect,
+  });
+
+const toUsers = (userIds: string[]) => userIds.map((id) => ({ id }) as User);
+
+export const cardRepository = {
+  // Looks the card up within the lists of the given board
+  findByIdAsync: async (boardId: string, id: string): Promise<Card | null> => {
+    return findCard(dataSource.manager, boardId, id);
+  },
+
+  // Creates the card at the end of its list
+  createAsync: async (
+    boardId: string,
+    listId: string,
+    data: CardWriteData,
+    assigneeIds: string[] = []
+  ): Promise<Card> => {
+    return withBoardLock(boardId, async (manager) => {
+      const position = await manager.count(CardEntity, { where: { listId } });
+      // `labels` may be given as undefined, which would override a default spread before it
+      const { id } = await manager.save(
+        manager.create(CardEntity, {
+          ...data,
+          labels: data.labels ?? [],
+          listId,
+          position,
+          assignees: toUsers(assigneeIds),
+        })
+      );
+      return (await findCard(manager, boardId, id))!;
+    });
+  },
+
+  // Updates the card; the assignees are replaced when `assigneeIds` is given
+  updateAsync: async (
+    boardId: string,
+    id: string,
+    data: CardWriteData,
+    assigneeIds?: string[]
+  ): Promise<Card | null> => {
+    const card = await repository().findOne({ where: { id, list: { boardId } }, relations: { assignees: true } });
+    if (!card) return null;
+    repository().merge(card, data);
+    if (assigneeIds) card.assignees = toUsers(assigneeIds);
+    await repository().save(card);
+    return findCard(dataSource.manager, boardId, id);
+  },
+
+  // Moves the card to `position` within `listId`, closing the gap in its previous list
+  moveAsync: async (boardId: string, id: string, listId: string, position: number): Promise<Card | null> => {
+    return withBoardLock(boardId, async (manager) => {
+      const card = await manager.findOne(CardEntity, {
+        where: { id, list: { boardId } },
+        select: { id: true, listId: true },
+      });
+      if (!card) return null;
+
+      const sourceCards = await findListCards(manager, card.listId);
+      if (card.listId === listId) {
+        await savePositions(manager, CardEntity, reorder(sourceCards, id, position));
+      } else {
+        await manager.update(CardEntity, { id }, { listId });
+        await savePositions(manager, CardEntity, renumber(sourceCards.filter((sourceCard) => sourceCard.id !== id)));
+        // The moved card is appended with a position no other card has, then moved into place
+        const targetCards = [
+          ...(await findListCards(manager, listId)).filter((c) => c.id !== id),
+          { id, position: -1 },
+        ];
+        await savePositions(manager, CardEntity, reorder(targetCards, id, position));
+      }
+      return findCard(manager, boardId, id);
+    });
+  },
+
+  // Moves the card to the trash and closes the gap it leaves in its list
+  softDeleteAsync: async (boardId: string, id: string): Promise<boolean> => {
+    return withBoardLock(boardId, async (manager) => {
+      const card = await manager.findOne(CardEntity, {
+        where: { id, list: { boardId } },
+        select: { id: true, listId: true },
+      });
+      if (!card) return false;
+      await manager.update(CardEntity, { id }, { deletedAt: new Date() });
+      await savePositions(manager, CardEntity, renumber(await findListCards(manager, card.listId)));
+      return true;
+    });
+  },
+
+  // Takes the card out of the trash, at the end of its list. Cards of lists in the trash
+  // come back with their list.
+  restoreAsync: async (boardId: string, id: string): Promise<Card | null> => {
+    return withBoardLock(boardId, async (manager) => {
+      const card = await manager.findOne(CardEntity, {
+        where: { id, list: { boardId, deletedAt: IsNull() }, deletedAt: Not(IsNull()) },
+        select: { id: true, listId: true },
+        withDeleted: true,
+      });
+      if (!card) return null;
+      const position = await manager.count(CardEntity, { where: { listId: card.listId } });
+      await manager.update(CardEntity, { id }, { deletedAt: null, position });
+      return findCard(manager, boardId, id);
+    });
+  },
+
+  // Cards of the project in the trash, most recently deleted first. The cards of boards and
+  // lists in the trash are left out, as they come back with their board or list.
+  findDeletedByProjectAsync: async (projectId: string): Promise<TrashedCard[]> => {
+    const cards = await repository().find({
+      where: { list: { deletedAt: IsNull(), board: { projectId, deletedAt: IsNull() } }, deletedAt: Not(IsNull()) },
+      relations: { assignees: true, list: true },
+      select: { ...cardSelect, deletedAt: true, list: { id: true, boardId: true } },
+      order: { deletedAt: 'DESC' },
+      withDeleted: true,
+    });
+    return cards.map(({ list, ...card }) => ({ ...card, boardId: list.boardId, deletedAt: card.deletedAt! }));
+  },
+};
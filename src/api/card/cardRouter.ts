@@ -0,0 +1,169 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import { activityRouter } from '@/api/activity/activityRouter';
+import { attachmentRouter } from '@/api/attachment/attachmentRouter';
+import { CardSchema, CreateCardSchema, GetCardSchema, MoveCardSchema, UpdateCardSchema } from '@/api/card/cardModel';
+import { cardService } from '@/api/card/cardService';
+import { commentRouter } from '@/api/comment/commentRouter';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const cardRegistry = new OpenAPIRegistry();
+
+cardRegistry.register('Card', CardSchema);
+
+// Mounted under '/projects/:projectId/boards/:boardId/cards'
+export const cardRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  registerApiRoute(cardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/cards',
+    tags: ['Card'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Creates a card at the end of the given list',
+    request: {
+      params: CreateCardSchema.shape.params,
+      body: { content: { 'application/json': { schema: CreateCardSchema.shape.body } } },
+    },
+    responses: createApiResponse(CardSchema, 'Created', StatusCodes.CREATED),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.post(
+    '/',
+    validateRequest(CreateCardSchema, CardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof CreateCardSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await cardService.create(req.user!.id, projectId, boardId, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(cardRegistry, {
+    method: 'get',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}',
+    tags: ['Card'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: { params: GetCardSchema.shape.params },
+    responses: createApiResponse(CardSchema, 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/:cardId',
+    validateRequest(GetCardSchema, CardSchema),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof GetCardSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await cardService.findById(projectId, boardId, cardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(cardRegistry, {
+    method: 'patch',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}',
+    tags: ['Card'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: UpdateCardSchema.shape.params,
+      body: { content: { 'application/json': { schema: UpdateCardSchema.shape.body } } },
+    },
+    responses: createApiResponse(CardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.patch(
+    '/:cardId',
+    validateRequest(UpdateCardSchema, CardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof UpdateCardSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await cardService.update(req.user!.id, projectId, boardId, cardId, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(cardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/move',
+    tags: ['Card'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Moves the card within its list or to another list of the board, re-ordering both lists',
+    request: {
+      params: MoveCardSchema.shape.params,
+      body: { content: { 'application/json': { schema: MoveCardSchema.shape.body } } },
+    },
+    responses: createApiResponse(CardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.post(
+    '/:cardId/move',
+    validateRequest(MoveCardSchema, CardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof MoveCardSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await cardService.move(req.user!.id, projectId, boardId, cardId, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(cardRegistry, {
+    method: 'delete',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}',
+    tags: ['Card'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Moves the card to the trash',
+    request: { params: GetCardSchema.shape.params },
+    responses: createApiResponse(z.null(), 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.delete(
+    '/:cardId',
+    validateRequest(GetCardSchema, z.null()),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof GetCardSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await cardService.delete(req.user!.id, projectId, boardId, cardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(cardRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/restore',
+    tags: ['Card'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Takes the card out of the trash, at the end of its list',
+    request: { params: GetCardSchema.shape.params },
+    responses: createApiResponse(CardSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:cardId/restore',
+    validateRequest(GetCardSchema, CardSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof GetCardSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await cardService.restore(req.user!.id, projectId, boardId, cardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  router.use('/:cardId/comments', commentRouter);
+  router.use('/:cardId/activity', activityRouter);
+  router.use('/:cardId/attachments', attachmentRouter);
+
+  return router;
+})();
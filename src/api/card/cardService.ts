@@ -0,0 +1,215 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { activityService } from '@/api/activity/activityService';
+import { boardRepository } from '@/api/board/boardRepository';
+import { Card, CreateCardInput, MoveCardInput, UpdateCardInput } from '@/api/card/cardModel';
+import { cardRepository } from '@/api/card/cardRepository';
+import { listRepository } from '@/api/list/listRepository';
+import { notificationService } from '@/api/notification/notificationService';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ConflictError, NotFoundError, ValidationError } from '@/common/models/errors';
+import { NotificationType } from '@/common/models/notificationType';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { realtimeEvents, RealtimeEventType } from '@/common/realtime/realtimeEvents';
+import { traceService } from '@/common/tracing/tracing';
+import { changedFields } from '@/common/utils/changedFields';
+
+const assertBoardExists = async (projectId: string, boardId: string): Promise<void> => {
+  if (!(await boardRepository.findByIdAsync(projectId, boardId))) throw new NotFoundError('Board not found');
+};
+
+const assertListExists = async (boardId: string, listId: string): Promise<void> => {
+  if (!(await listRepository.findByIdAsync(boardId, listId))) throw new NotFoundError('List not found');
+};
+
+const findCardOrThrow = async (boardId: string, id: string): Promise<Card> => {
+  const card = await cardRepository.findByIdAsync(boardId, id);
+  if (!card) throw new NotFoundError('Card not found');
+  return card;
+};
+
+// Rejects the ids among `userIds` that are not members of the project
+const assertAssigneesAreMembers = async (projectId: string, userIds: string[]): Promise<void> => {
+  if (!userIds.length) return;
+  const members = await projectMemberRepository.findAllByProjectAsync(projectId);
+  const memberIds = new Set(members.map((member) => member.userId));
+  const nonMembers = userIds.filter((userId) => !memberIds.has(userId));
+  if (nonMembers.length) {
+    throw new ValidationError(`Assignees must be project members: ${nonMembers.join(', ')}`, [
+      { path: 'assigneeIds', message: 'Every assignee must be a member of the project' },
+    ]);
+  }
+};
+
+// Tells users that `actorId` assigned them to the card
+const notifyAssignees = async (
+  actorId: string,
+  projectId: string,
+  boardId: string,
+  card: Card,
+  userIds: string[]
+): Promise<void> => {
+  await Promise.all(
+    userIds.map((userId) =>
+      notificationService.notify({
+        type: NotificationType.CardAssigned,
+        userId,
+        actorId,
+        projectId,
+        data: { boardId, cardId: card.id, cardTitle: card.title },
+      })
+    )
+  );
+};
+
+const toDueDate = (dueDate: string | null | undefined): Date | null | undefined =>
+  typeof dueDate === 'string' ? new Date(dueDate) : dueDate;
+
+// `userId` is the requesting user
+export const cardService = traceService('cardService', {
+  // Retrieves a single card of a board
+  findById: async (projectId: string, boardId: string, id: string): Promise<ServiceResponse<Card>> => {
+    await assertBoardExists(projectId, boardId);
+    const card = await findCardOrThrow(boardId, id);
+    return new ServiceResponse<Card>(ResponseStatus.Success, 'Card found', card, StatusCodes.OK);
+  },
+
+  // Creates a card at the end of a list of the board
+  create: async (
+    userId: string,
+    projectId: string,
+    boardId: string,
+    input: CreateCardInput
+  ): Promise<ServiceResponse<Card>> => {
+    await assertBoardExists(projectId, boardId);
+    await assertListExists(boardId, input.listId);
+    await assertAssigneesAreMembers(projectId, input.assigneeIds ?? []);
+
+    const { listId, title, description, labels, assigneeIds } = input;
+    const card = await cardRepository.createAsync(
+      boardId,
+      listId,
+      { title, description, labels, dueDate: toDueDate(input.dueDate) },
+      assigneeIds
+    );
+    const entry = { userId, projectId, boardId, cardId: card.id };
+    await activityService.record({ ...entry, action: ActivityAction.CardCreated, data: { title, listId } });
+    if (assigneeIds?.length) {
+      await activityService.record({ ...entry, action: ActivityAction.CardAssigned, data: { userIds: assigneeIds } });
+      await notifyAssignees(userId, projectId, boardId, card, assigneeIds);
+    }
+    realtimeEvents.publish(RealtimeEventType.CardCreated, { projectId, boardId }, card);
+    return new ServiceResponse<Card>(ResponseStatus.Success, 'Card created', card, StatusCodes.CREATED);
+  },
+
+  // Updates the given fields of a card; `assigneeIds` replaces the current assignees
+  update: async (
+    userId: string,
+    projectId: string,
+    boardId: string,
+    id: string,
+    input: UpdateCardInput
+  ): Promise<ServiceResponse<Card | null>> => {
+    await assertBoardExists(projectId, boardId);
+    await assertAssigneesAreMembers(projectId, input.assigneeIds ?? []);
+    const card = await findCardOrThrow(boardId, id);
+
+    const { title, description, labels, assigneeIds } = input;
+    const data = { title, description, labels, dueDate: toDueDate(input.dueDate) };
+    const fields = changedFields(card, data);
+    const updatedCard = await cardRepository.updateAsync(boardId, id, data, assigneeIds);
+
+    const entry = { userId, projectId, boardId, cardId: id };
+    await activityService.recordEdit(
+      entry,
+      { renamed: ActivityAction.CardRenamed, updated: ActivityAction.CardUpdated },
+      { from: card.title, to: title },
+      fields
+    );
+    if (assigneeIds) {
+      const currentIds = card.assignees.map((assignee) => assignee.id);
+      const addedIds = assigneeIds.filter((assigneeId) => !currentIds.includes(assigneeId));
+      const removedIds = currentIds.filter((assigneeId) => !assigneeIds.includes(assigneeId));
+      if (addedIds.length) {
+        await activityService.record({ ...entry, action: ActivityAction.CardAssigned, data: { userIds: addedIds } });
+        await notifyAssignees(userId, projectId, boardId, updatedCard ?? card, addedIds);
+      }
+      if (removedIds.length) {
+        await activityService.record({
+          ...entry,
+          action: ActivityAction.CardUnassigned,
+          data: { userIds: removedIds },
+        });
+      }
+    }
+    if (updatedCard) realtimeEvents.publish(RealtimeEventType.CardUpdated, { projectId, boardId }, updatedCard);
+    return new ServiceResponse(ResponseStatus.Success, 'Card updated', updatedCard, StatusCodes.OK);
+  },
+
+  // Moves a card within its list or to another list of the same board
+  move: async (
+    userId: string,
+    projectId: string,
+    boardId: string,
+    id: string,
+    input: MoveCardInput
+  ): Promise<ServiceResponse<Card | null>> => {
+    await assertBoardExists(projectId, boardId);
+    await assertListExists(boardId, input.listId);
+    const card = await findCardOrThrow(boardId, id);
+    const movedCard = await cardRepository.moveAsync(boardId, id, input.listId, input.position);
+    if (movedCard && (movedCard.listId !== card.listId || movedCard.position !== card.position)) {
+      await activityService.record({
+        userId,
+        projectId,
+        boardId,
+        cardId: id,
+        action: ActivityAction.CardMoved,
+        data: { fromListId: card.listId, toListId: movedCard.listId, position: movedCard.position },
+      });
+    }
+    if (movedCard) realtimeEvents.publish(RealtimeEventType.CardMoved, { projectId, boardId }, movedCard);
+    return new ServiceResponse(ResponseStatus.Success, 'Card moved', movedCard, StatusCodes.OK);
+  },
+
+  // Moves a card to the trash
+  delete: async (userId: string, projectId: string, boardId: string, id: string): Promise<ServiceResponse> => {
+    await assertBoardExists(projectId, boardId);
+    const card = await findCardOrThrow(boardId, id);
+    await cardRepository.softDeleteAsync(boardId, id);
+    await activityService.record({
+      userId,
+      projectId,
+      boardId,
+      cardId: id,
+      action: ActivityAction.CardDeleted,
+      data: { title: card.title },
+    });
+    realtimeEvents.publish(RealtimeEventType.CardDeleted, { projectId, boardId }, { id, listId: card.listId });
+    return new ServiceResponse(ResponseStatus.Success, 'Card deleted', null, StatusCodes.OK);
+  },
+
+  // Takes a card out of the trash, at the end of its list
+  restore: async (
+    userId: string,
+    projectId: string,
+    boardId: string,
+    id: string
+  ): Promise<ServiceResponse<Card | null>> => {
+    await assertBoardExists(projectId, boardId);
+    if (await cardRepository.findByIdAsync(boardId, id)) throw new ConflictError('Card is not in the trash');
+    const card = await cardRepository.restoreAsync(boardId, id);
+    if (!card) throw new NotFoundError('Card not found');
+    await activityService.record({
+      userId,
+      projectId,
+      boardId,
+      cardId: id,
+      action: ActivityAction.CardRestored,
+      data: { title: card.title },
+    });
+    realtimeEvents.publish(RealtimeEventType.CardRestored, { projectId, boardId }, card);
+    return new ServiceResponse(ResponseStatus.Success, 'Card restored', card, StatusCodes.OK);
+  },
+});
@@ -0,0 +1,187 @@
+import { StatusCodes } from 'http-status-codes';
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+
+import { activityRepository } from '@/api/activity/activityRepository';
+import { boardRepository } from '@/api/board/boardRepository';
+import { cardRepository } from '@/api/card/cardRepository';
+import { Comment } from '@/api/comment/commentModel';
+import { commentRepository } from '@/api/comment/commentRepository';
+import { commentService } from '@/api/comment/commentService';
+import { notificationService } from '@/api/notification/notificationService';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ForbiddenError, NotFoundError } from '@/common/models/errors';
+import { NotificationType } from '@/common/models/notificationType';
+import { ProjectRole } from '@/common/models/projectRole';
+
+vi.mock('@/api/activity/activityRepository');
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/api/card/cardRepository');
+vi.mock('@/api/comment/commentRepository');
+vi.mock('@/api/notification/notificationService');
+vi.mock('@/api/projectMember/projectMemberRepository');
+vi.mock('@/server', () => ({
+  ...vi.importActual('@/server'),
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('commentService', () => {
+  const authorId = '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01';
+  const otherUserId = '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02';
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const boardId = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06';
+  const cardId = '5e6f7a8b-9c0d-4e1f-8a2b-3c4d5e6f7a08';
+  const mockComment: Comment = {
+    id: '8b9c0d1e-2f3a-4b4c-9d5e-6f7a8b9c0d10',
+    cardId,
+    body: 'Looks good to me',
+    userId: authorId,
+    user: { id: authorId, email: 'alice@example.com', name: 'Alice', avatarUrl: null },
+    editedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    (boardRepository.findByIdAsync as Mock).mockResolvedValue({ id: boardId, projectId });
+    (cardRepository.findByIdAsync as Mock).mockResolvedValue({ id: cardId, title: 'Write the API docs' });
+    (commentRepository.findByIdAsync as Mock).mockResolvedValue(mockComment);
+  });
+
+  describe('create', () => {
+    it('adds a comment and records it on the card', async () => {
+      // Arrange
+      (commentRepository.createAsync as Mock).mockResolvedValue(mockComment);
+
+      // Act
+      const result = await commentService.create(authorId, projectId, boardId, cardId, mockComment.body);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(commentRepository.createAsync).toHaveBeenCalledWith(cardId, authorId, mockComment.body);
+      expect(activityRepository.createAsync).toHaveBeenCalledWith({
+        userId: authorId,
+        projectId,
+        boardId,
+        cardId,
+        action: ActivityAction.CommentAdded,
+        data: { commentId: mockComment.id },
+      });
+    });
+
+    it('notifies the project members it mentions', async () => {
+      // Arrange
+      const outsiderId = '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c09';
+      const body = `<@${otherUserId}> and <@${outsiderId}>, can you review this?`;
+      (commentRepository.createAsync as Mock).mockResolvedValue({ ...mockComment, body });
+      (projectMemberRepository.findAllByProjectAsync as Mock).mockResolvedValue([
+        { userId: authorId, user: mockComment.user },
+        { userId: otherUserId, user: { id: otherUserId, email: 'bob@example.com', name: 'Bob', avatarUrl: null } },
+      ]);
+
+      // Act
+      await commentService.create(authorId, projectId, boardId, cardId, body);
+
+      // Assert
+      expect(notificationService.notify).toHaveBeenCalledOnce();
+      expect(notificationService.notify).toHaveBeenCalledWith({
+        type: NotificationType.CommentMention,
+        userId: otherUserId,
+        actorId: authorId,
+        projectId,
+        data: {
+          boardId,
+          cardId,
+          cardTitle: 'Write the API docs',
+          commentId: mockComment.id,
+          excerpt: `@Bob and <@${outsiderId}>, can you review this?`,
+        },
+      });
+    });
+
+    it('returns a not found error for cards of other boards', async () => {
+      // Arrange
+      (cardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = commentService.create(authorId, projectId, boardId, cardId, mockComment.body);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(commentRepository.createAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('lets the author edit the comment', async () => {
+      // Arrange
+      (commentRepository.updateAsync as Mock).mockResolvedValue({ ...mockComment, editedAt: new Date() });
+
+      // Act
+      const result = await commentService.update(authorId, projectId, boardId, cardId, mockComment.id, 'Edited');
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject?.editedAt).toBeInstanceOf(Date);
+    });
+
+    it('only notifies the users mentioned by the edit', async () => {
+      // Arrange
+      const body = `<@${authorId}> <@${otherUserId}>`;
+      (commentRepository.findByIdAsync as Mock).mockResolvedValue({ ...mockComment, body: `<@${authorId}>` });
+      (commentRepository.updateAsync as Mock).mockResolvedValue({ ...mockComment, body });
+      (projectMemberRepository.findAllByProjectAsync as Mock).mockResolvedValue([
+        { userId: authorId, user: mockComment.user },
+        { userId: otherUserId, user: { id: otherUserId, email: 'bob@example.com', name: null, avatarUrl: null } },
+      ]);
+
+      // Act
+      await commentService.update(authorId, projectId, boardId, cardId, mockComment.id, body);
+
+      // Assert
+      const recipients = (notificationService.notify as Mock).mock.calls.map(([entry]) => entry.userId);
+      expect(recipients).toEqual([otherUserId]);
+    });
+
+    it('forbids editing the comments of others', async () => {
+      // Act
+      const result = commentService.update(otherUserId, projectId, boardId, cardId, mockComment.id, 'Edited');
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+      expect(commentRepository.updateAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('lets admins delete the comments of others', async () => {
+      // Arrange
+      (commentRepository.deleteAsync as Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await commentService.delete(
+        otherUserId,
+        ProjectRole.Admin,
+        projectId,
+        boardId,
+        cardId,
+        mockComment.id
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(commentRepository.deleteAsync).toHaveBeenCalledWith(mockComment.id);
+    });
+
+    it('forbids members to delete the comments of others', async () => {
+      // Act
+      const result = commentService.delete(otherUserId, ProjectRole.Member, projectId, boardId, cardId, mockComment.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+      expect(commentRepository.deleteAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { PublicUserSchema } from '@/api/user/userModel';
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type Comment = z.infer<typeof CommentSchema>;
+export const CommentSchema = z.object({
+  id: z.string().uuid(),
+  cardId: z.string().uuid(),
+  body: z.string(),
+  userId: z.string().uuid(),
+  user: PublicUserSchema.openapi({ description: 'The author of the comment' }),
+  editedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const CommentBodySchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1)
+    .max(10000)
+    .openapi({ description: 'Project members mentioned as `<@userId>` are notified' }),
+});
+
+const CardParamsSchema = z.object({
+  projectId: commonValidations.id,
+  boardId: commonValidations.id,
+  cardId: commonValidations.id,
+});
+const CommentParamsSchema = CardParamsSchema.extend({ commentId: commonValidations.id });
+
+// Input Validation for 'GET projects/:projectId/boards/:boardId/cards/:cardId/comments' endpoint
+export const ListCommentsSchema = z.object({
+  params: CardParamsSchema,
+});
+
+// Input Validation for 'POST projects/:projectId/boards/:boardId/cards/:cardId/comments' endpoint
+export const CreateCommentSchema = z.object({
+  params: CardParamsSchema,
+  body: CommentBodySchema,
+});
+
+// Input Validation for 'PATCH projects/:projectId/boards/:boardId/cards/:cardId/comments/:commentId' endpoint
+export const UpdateCommentSchema = z.object({
+  params: CommentParamsSchema,
+  body: CommentBodySchema,
+});
+
+// Input Validation for 'DELETE projects/:projectId/boards/:boardId/cards/:cardId/comments/:commentId' endpoint
+export const DeleteCommentSchema = z.object({
+  params: CommentParamsSchema,
+});
@@ -0,0 +1,46 @@
+import { Comment } from '@/api/comment/commentModel';
+import { Comment as CommentEntity } from '@/common/entities/comment.entity';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(CommentEntity);
+
+// Only the public profile of the author is loaded alongside the comment
+const withUser = {
+  relations: { user: true },
+  select: {
+    id: true,
+    cardId: true,
+    body: true,
+    userId: true,
+    editedAt: true,
+    createdAt: true,
+    updatedAt: true,
+    user: { id: true, email: true, name: true, avatarUrl: true },
+  },
+} as const;
+
+export const commentRepository = {
+  findAllByCardAsync: async (cardId: string): Promise<Comment[]> => {
+    return repository().find({ ...withUser, where: { cardId }, order: { createdAt: 'ASC' } });
+  },
+
+  findByIdAsync: async (cardId: string, id: string): Promise<Comment | null> => {
+    return repository().findOne({ ...withUser, where: { id, cardId } });
+  },
+
+  createAsync: async (cardId: string, userId: string, body: string): Promise<Comment> => {
+    const { id } = await repository().save(repository().create({ cardId, userId, body }));
+    return repository().findOneOrFail({ ...withUser, where: { id } });
+  },
+
+  // Replaces the body and marks the comment as edited
+  updateAsync: async (id: string, body: string): Promise<Comment> => {
+    await repository().update({ id }, { body, editedAt: new Date() });
+    return repository().findOneOrFail({ ...withUser, where: { id } });
+  },
+
+  deleteAsync: async (id: string): Promise<boolean> => {
+    const result = await repository().delete({ id });
+    return !!result.affected;
+  },
+};
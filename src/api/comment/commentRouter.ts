@@ -0,0 +1,136 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import {
+  CommentSchema,
+  CreateCommentSchema,
+  DeleteCommentSchema,
+  ListCommentsSchema,
+  UpdateCommentSchema,
+} from '@/api/comment/commentModel';
+import { commentService } from '@/api/comment/commentService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const commentRegistry = new OpenAPIRegistry();
+
+commentRegistry.register('Comment', CommentSchema);
+
+// Mounted under '/projects/:projectId/boards/:boardId/cards/:cardId/comments'
+export const commentRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  registerApiRoute(commentRegistry, {
+    method: 'get',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/comments',
+    tags: ['Comment'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Lists the comments of a card, oldest first',
+    request: { params: ListCommentsSchema.shape.params },
+    responses: createApiResponse(z.array(CommentSchema), 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListCommentsSchema, z.array(CommentSchema)),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof ListCommentsSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await commentService.findAll(projectId, boardId, cardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(commentRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/comments',
+    tags: ['Comment'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: CreateCommentSchema.shape.params,
+      body: { content: { 'application/json': { schema: CreateCommentSchema.shape.body } } },
+    },
+    responses: createApiResponse(CommentSchema, 'Created', StatusCodes.CREATED),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.post(
+    '/',
+    validateRequest(CreateCommentSchema, CommentSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof CreateCommentSchema>, res: Response) => {
+      const { projectId, boardId, cardId } = req.params;
+      const serviceResponse = await commentService.create(req.user!.id, projectId, boardId, cardId, req.body.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(commentRegistry, {
+    method: 'patch',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/comments/{commentId}',
+    tags: ['Comment'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Changes the body of a comment and marks it as edited. Only the author can edit a comment.',
+    request: {
+      params: UpdateCommentSchema.shape.params,
+      body: { content: { 'application/json': { schema: UpdateCommentSchema.shape.body } } },
+    },
+    responses: createApiResponse(CommentSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.patch(
+    '/:commentId',
+    validateRequest(UpdateCommentSchema, CommentSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof UpdateCommentSchema>, res: Response) => {
+      const { projectId, boardId, cardId, commentId } = req.params;
+      const serviceResponse = await commentService.update(
+        req.user!.id,
+        projectId,
+        boardId,
+        cardId,
+        commentId,
+        req.body.body
+      );
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(commentRegistry, {
+    method: 'delete',
+    path: '/projects/{projectId}/boards/{boardId}/cards/{cardId}/comments/{commentId}',
+    tags: ['Comment'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Deletes a comment. Authors may delete their comments; deleting others requires the admin role.',
+    request: { params: DeleteCommentSchema.shape.params },
+    responses: createApiResponse(z.null(), 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.delete(
+    '/:commentId',
+    validateRequest(DeleteCommentSchema, z.null()),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof DeleteCommentSchema>, res: Response) => {
+      const { projectId, boardId, cardId, commentId } = req.params;
+      const serviceResponse = await commentService.delete(
+        req.user!.id,
+        req.projectRole!,
+        projectId,
+        boardId,
+        cardId,
+        commentId
+      );
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
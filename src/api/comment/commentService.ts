@@ -0,0 +1,151 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { activityService } from '@/api/activity/activityService';
+import { boardRepository } from '@/api/board/boardRepository';
+import { Card } from '@/api/card/cardModel';
+import { cardRepository } from '@/api/card/cardRepository';
+import { Comment } from '@/api/comment/commentModel';
+import { commentRepository } from '@/api/comment/commentRepository';
+import { notificationService } from '@/api/notification/notificationService';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ForbiddenError, NotFoundError } from '@/common/models/errors';
+import { NotificationType } from '@/common/models/notificationType';
+import { hasProjectRole, ProjectRole } from '@/common/models/projectRole';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+
+// Finds the card on the board, checking that the board is in the project
+const findCardOrThrow = async (projectId: string, boardId: string, cardId: string): Promise<Card> => {
+  const card = (await boardRepository.findByIdAsync(projectId, boardId))
+    ? await cardRepository.findByIdAsync(boardId, cardId)
+    : null;
+  if (!card) throw new NotFoundError('Card not found');
+  return card;
+};
+
+const findCommentOrThrow = async (cardId: string, id: string): Promise<Comment> => {
+  const comment = await commentRepository.findByIdAsync(cardId, id);
+  if (!comment) throw new NotFoundError('Comment not found');
+  return comment;
+};
+
+// Mentions are written `<@userId>` in comment bodies
+const MENTION_PATTERN = /<@([0-9a-f-]{36})>/gi;
+const EXCERPT_LENGTH = 200;
+
+const findMentionedIds = (body: string): string[] => [
+  ...new Set([...body.matchAll(MENTION_PATTERN)].map(([, id]) => id.toLowerCase())),
+];
+
+// Tells the project members mentioned in a comment, except those already mentioned in
+// its `previousBody`. Mentions of other users are left as they are.
+const notifyMentions = async (
+  actorId: string,
+  projectId: string,
+  boardId: string,
+  card: Card,
+  comment: Comment,
+  previousBody = ''
+): Promise<void> => {
+  const previousIds = findMentionedIds(previousBody);
+  const mentionedIds = findMentionedIds(comment.body).filter((id) => !previousIds.includes(id));
+  if (!mentionedIds.length) return;
+
+  const members = await projectMemberRepository.findAllByProjectAsync(projectId);
+  const names = new Map(members.map(({ user }) => [user.id, user.name ?? user.email]));
+  const text = comment.body.replace(MENTION_PATTERN, (mention, id: string) => {
+    const name = names.get(id.toLowerCase());
+    return name ? `@${name}` : mention;
+  });
+  const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+  await Promise.all(
+    mentionedIds
+      .filter((id) => names.has(id))
+      .map((userId) =>
+        notificationService.notify({
+          type: NotificationType.CommentMention,
+          userId,
+          actorId,
+          projectId,
+          data: { boardId, cardId: card.id, cardTitle: card.title, commentId: comment.id, excerpt },
+        })
+      )
+  );
+};
+
+// Only authors edit their comments; admins may also delete the comments of others.
+// `userId` is the requesting user.
+export const commentService = traceService('commentService', {
+  // Retrieves the comments of a card, oldest first
+  findAll: async (projectId: string, boardId: string, cardId: string): Promise<ServiceResponse<Comment[]>> => {
+    await findCardOrThrow(projectId, boardId, cardId);
+    const comments = await commentRepository.findAllByCardAsync(cardId);
+    return new ServiceResponse<Comment[]>(ResponseStatus.Success, 'Comments found', comments, StatusCodes.OK);
+  },
+
+  // Adds a comment to a card
+  create: async (
+    userId: string,
+    projectId: string,
+    boardId: string,
+    cardId: string,
+    body: string
+  ): Promise<ServiceResponse<Comment>> => {
+    const card = await findCardOrThrow(projectId, boardId, cardId);
+    const comment = await commentRepository.createAsync(cardId, userId, body);
+    await activityService.record({
+      userId,
+      projectId,
+      boardId,
+      cardId,
+      action: ActivityAction.CommentAdded,
+      data: { commentId: comment.id },
+    });
+    await notifyMentions(userId, projectId, boardId, card, comment);
+    return new ServiceResponse<Comment>(ResponseStatus.Success, 'Comment created', comment, StatusCodes.CREATED);
+  },
+
+  // Changes the body of a comment
+  update: async (
+    userId: string,
+    projectId: string,
+    boardId: string,
+    cardId: string,
+    id: string,
+    body: string
+  ): Promise<ServiceResponse<Comment>> => {
+    const card = await findCardOrThrow(projectId, boardId, cardId);
+    const comment = await findCommentOrThrow(cardId, id);
+    if (comment.userId !== userId) throw new ForbiddenError('Only the author can edit a comment');
+    const updatedComment = await commentRepository.updateAsync(id, body);
+    await notifyMentions(userId, projectId, boardId, card, updatedComment, comment.body);
+    return new ServiceResponse(ResponseStatus.Success, 'Comment updated', updatedComment, StatusCodes.OK);
+  },
+
+  // Deletes a comment
+  delete: async (
+    userId: string,
+    actingRole: ProjectRole,
+    projectId: string,
+    boardId: string,
+    cardId: string,
+    id: string
+  ): Promise<ServiceResponse> => {
+    await findCardOrThrow(projectId, boardId, cardId);
+    const comment = await findCommentOrThrow(cardId, id);
+    if (comment.userId !== userId && !hasProjectRole(actingRole, ProjectRole.Admin)) {
+      throw new ForbiddenError('Only the author or a project admin can delete a comment');
+    }
+    await commentRepository.deleteAsync(id);
+    await activityService.record({
+      userId,
+      projectId,
+      boardId,
+      cardId,
+      action: ActivityAction.CommentDeleted,
+      data: { commentId: id, authorId: comment.userId },
+    });
+    return new ServiceResponse(ResponseStatus.Success, 'Comment deleted', null, StatusCodes.OK);
+  },
+});
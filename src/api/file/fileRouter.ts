@@ -0,0 +1,49 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import { registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import { ForbiddenError, NotFoundError } from '@/common/models/errors';
+import { LocalStorageDriver } from '@/common/storage/localStorageDriver';
+import { storage } from '@/common/storage/storage';
+
+export const fileRegistry = new OpenAPIRegistry();
+
+// Serves the signed download links of the local storage driver; with S3, links point
+// at the bucket instead and this router answers 404
+export const fileRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(fileRegistry, {
+    method: 'get',
+    path: '/files/{key}',
+    tags: ['File'],
+    description:
+      "Downloads a stored file through a signed link such as an attachment's 'url'. Only used with the local storage driver.",
+    request: {
+      params: z.object({ key: z.string() }),
+      query: z.object({ expires: z.string(), name: z.string(), type: z.string(), signature: z.string() }),
+    },
+    responses: {
+      [StatusCodes.OK]: { description: 'The file', content: { 'application/octet-stream': { schema: z.string() } } },
+    },
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.get('/*key', async (req: Request, res: Response) => {
+    if (!(storage instanceof LocalStorageDriver)) throw new NotFoundError(`Route GET ${req.path} not found`);
+    const key = (req.params.key as unknown as string[]).join('/');
+    const signed = storage.verifySignedUrl(key, req.query);
+    if (!signed) throw new ForbiddenError('The download link is invalid or has expired');
+
+    const file = await storage.get(key).catch(() => {
+      throw new NotFoundError('File not found');
+    });
+    if (signed.fileName) res.attachment(signed.fileName);
+    res.type(signed.contentType || 'application/octet-stream');
+    file.pipe(res);
+  });
+
+  return router;
+})();
@@ -1,7 +1,10 @@
 import { StatusCodes } from 'http-status-codes';
 import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
 
+import { Readiness } from '@/api/healthCheck/healthCheckModel';
 import { ServiceResponse } from '@/common/models/serviceResponse';
+import dataSource from '@/configs/typeorm.config';
 import { app } from '@/server';
 
 describe('Health Check API endpoints', () => {
@@ -14,4 +17,49 @@ describe('Health Check API endpoints', () => {
     expect(result.responseObject).toBeNull();
     expect(result.message).toEqual('Service is healthy');
   });
+
+  it('GET /live - success', async () => {
+    const response = await request(app).get('/health-check/live');
+
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    expect(response.body.message).toEqual('Service is healthy');
+  });
+
+  describe('GET /ready', () => {
+    beforeAll(async () => {
+      // Tests run against the in-process database
+      await dataSource.initialize();
+    });
+
+    afterAll(async () => {
+      await dataSource.destroy();
+    });
+
+    it('reports every dependency up', async () => {
+      const response = await request(app).get('/health-check/ready');
+      const result: ServiceResponse<Readiness> = response.body;
+
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(result.message).toEqual('Service is ready');
+      expect(result.responseObject.checks.database).toEqual({ status: 'up', latencyMs: expect.any(Number) });
+      expect(result.responseObject.checks.migrations).toEqual({ status: 'up', pending: [] });
+      expect(result.responseObject.checks.eventLoop.status).toEqual('up');
+    });
+
+    it('returns 503 when the database does not answer', async () => {
+      vi.spyOn(dataSource, 'query').mockRejectedValue(new Error('Connection terminated'));
+
+      const response = await request(app).get('/health-check/ready');
+      const result: ServiceResponse<Readiness> = response.body;
+
+      expect(response.statusCode).toEqual(StatusCodes.SERVICE_UNAVAILABLE);
+      expect(result.success).toBeFalsy();
+      expect(result.responseObject.status).toEqual('down');
+      expect(result.responseObject.checks.database).toEqual({
+        status: 'down',
+        latencyMs: null,
+        error: 'Connection terminated',
+      });
+    });
+  });
 });
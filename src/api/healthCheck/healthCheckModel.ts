@@ -0,0 +1,37 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+extendZodWithOpenApi(z);
+
+const CheckSchema = z.object({
+  status: z.enum(['up', 'down']),
+  error: z.string().optional().openapi({ description: 'Why the dependency is down' }),
+});
+
+export type DatabaseCheck = z.infer<typeof DatabaseCheckSchema>;
+export const DatabaseCheckSchema = CheckSchema.extend({
+  latencyMs: z.number().nullable().openapi({ description: 'Round trip of a trivial query' }),
+});
+
+export type MigrationsCheck = z.infer<typeof MigrationsCheckSchema>;
+export const MigrationsCheckSchema = CheckSchema.extend({
+  pending: z.array(z.string()).openapi({ description: 'Migrations not yet applied to the database' }),
+});
+
+export type EventLoopCheck = z.infer<typeof EventLoopCheckSchema>;
+export const EventLoopCheckSchema = CheckSchema.extend({
+  meanLagMs: z.number(),
+  p99LagMs: z.number().openapi({ description: 'Compared against HEALTH_MAX_EVENT_LOOP_LAG_MS' }),
+});
+
+export type Readiness = z.infer<typeof ReadinessSchema>;
+export const ReadinessSchema = z
+  .object({
+    status: z.enum(['up', 'down']),
+    checks: z.object({
+      database: DatabaseCheckSchema,
+      migrations: MigrationsCheckSchema,
+      eventLoop: EventLoopCheckSchema,
+    }),
+  })
+  .openapi('Readiness');
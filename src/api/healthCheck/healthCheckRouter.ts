@@ -3,8 +3,9 @@ import express, { Request, Response, Router } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { z } from 'zod';
 
-import { createApiResponse } from '@/api-docs/openAPIResponseBuilders';
-import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { ReadinessSchema } from '@/api/healthCheck/healthCheckModel';
+import { healthCheckService } from '@/api/healthCheck/healthCheckService';
+import { createApiResponse, createApiResponses, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
 import { handleServiceResponse } from '@/common/utils/httpHandlers';
 
 export const healthCheckRegistry = new OpenAPIRegistry();
@@ -12,15 +13,39 @@ export const healthCheckRegistry = new OpenAPIRegistry();
 export const healthCheckRouter: Router = (() => {
   const router = express.Router();
 
-  healthCheckRegistry.registerPath({
+  registerApiRoute(healthCheckRegistry, {
     method: 'get',
     path: '/health-check',
     tags: ['Health Check'],
+    description: "Same as '/health-check/live'",
     responses: createApiResponse(z.null(), 'Success'),
   });
 
-  router.get('/', (_req: Request, res: Response) => {
-    const serviceResponse = new ServiceResponse(ResponseStatus.Success, 'Service is healthy', null, StatusCodes.OK);
+  registerApiRoute(healthCheckRegistry, {
+    method: 'get',
+    path: '/health-check/live',
+    tags: ['Health Check'],
+    description: 'Liveness: the process is running',
+    responses: createApiResponse(z.null(), 'Success'),
+  });
+
+  router.get(['/', '/live'], (_req: Request, res: Response) => {
+    handleServiceResponse(healthCheckService.live(), res);
+  });
+
+  registerApiRoute(healthCheckRegistry, {
+    method: 'get',
+    path: '/health-check/ready',
+    tags: ['Health Check'],
+    description: 'Readiness: the database is reachable and migrated, and the event loop keeps up',
+    responses: createApiResponses([
+      { schema: ReadinessSchema, description: 'Success', statusCode: StatusCodes.OK },
+      { schema: ReadinessSchema, description: 'A dependency is down', statusCode: StatusCodes.SERVICE_UNAVAILABLE },
+    ]),
+  });
+
+  router.get('/ready', async (_req: Request, res: Response) => {
+    const serviceResponse = await healthCheckService.ready();
     handleServiceResponse(serviceResponse, res);
   });
 
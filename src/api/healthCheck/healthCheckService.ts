@@ -0,0 +1,76 @@
+import { monitorEventLoopDelay } from 'node:perf_hooks';
+
+import { StatusCodes } from 'http-status-codes';
+import { MigrationExecutor } from 'typeorm';
+
+import { DatabaseCheck, EventLoopCheck, MigrationsCheck, Readiness } from '@/api/healthCheck/healthCheckModel';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { env } from '@/common/utils/envConfig';
+import dataSource from '@/configs/typeorm.config';
+
+// A dependency that does not answer within this time is reported as down
+const CHECK_TIMEOUT_MS = 2000;
+
+// Samples the event loop continuously; each readiness check reports the lag since the previous one
+const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+eventLoopDelay.enable();
+
+const withTimeout = <T>(promise: Promise<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No answer within ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const checkDatabase = async (): Promise<DatabaseCheck> => {
+  if (!dataSource.isInitialized) {
+    return { status: 'down', latencyMs: null, error: 'Not connected' };
+  }
+  const start = performance.now();
+  try {
+    await withTimeout(dataSource.query('SELECT 1'));
+    return { status: 'up', latencyMs: Math.round(performance.now() - start) };
+  } catch (ex) {
+    return { status: 'down', latencyMs: null, error: (ex as Error).message };
+  }
+};
+
+const checkMigrations = async (): Promise<MigrationsCheck> => {
+  if (!dataSource.isInitialized) {
+    return { status: 'down', pending: [], error: 'Not connected' };
+  }
+  try {
+    const pending = await withTimeout(new MigrationExecutor(dataSource).getPendingMigrations());
+    const names = pending.map((migration) => migration.name);
+    return names.length === 0 ? { status: 'up', pending: names } : { status: 'down', pending: names };
+  } catch (ex) {
+    return { status: 'down', pending: [], error: (ex as Error).message };
+  }
+};
+
+const checkEventLoop = (): EventLoopCheck => {
+  // The histogram holds nanoseconds and NaN until its first sample
+  const toMs = (ns: number) => (Number.isFinite(ns) ? Math.round(ns / 1e6) : 0);
+  const meanLagMs = toMs(eventLoopDelay.mean);
+  const p99LagMs = toMs(eventLoopDelay.percentile(99));
+  eventLoopDelay.reset();
+  return p99LagMs <= env.HEALTH_MAX_EVENT_LOOP_LAG_MS
+    ? { status: 'up', meanLagMs, p99LagMs }
+    : { status: 'down', meanLagMs, p99LagMs, error: 'Event loop is lagging' };
+};
+
+export const healthCheckService = traceService('healthCheckService', {
+  // The process is running and able to answer; says nothing about its dependencies
+  live: (): ServiceResponse => new ServiceResponse(ResponseStatus.Success, 'Service is healthy', null, StatusCodes.OK),
+
+  // Whether every dependency needed to serve requests is up
+  ready: async (): Promise<ServiceResponse<Readiness>> => {
+    const [database, migrations] = await Promise.all([checkDatabase(), checkMigrations()]);
+    const checks = { database, migrations, eventLoop: checkEventLoop() };
+    const ready = Object.values(checks).every((check) => check.status === 'up');
+    const readiness: Readiness = { status: ready ? 'up' : 'down', checks };
+    return ready
+      ? new ServiceResponse(ResponseStatus.Success, 'Service is ready', readiness, StatusCodes.OK)
+      : new ServiceResponse(ResponseStatus.Failed, 'Service is not ready', readiness, StatusCodes.SERVICE_UNAVAILABLE);
+  },
+});
@@ -0,0 +1,90 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { Job } from '@/api/job/jobModel';
+import { jobRepository } from '@/api/job/jobRepository';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { User as UserEntity } from '@/common/entities/user.entity';
+import { defineJob, enqueueJob } from '@/common/jobs/jobs';
+import { JobWorker } from '@/common/jobs/jobWorker';
+import { JobStatus } from '@/common/models/jobStatus';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+describe('Job API Endpoints', () => {
+  const failing = defineJob('test.failing', async () => Promise.reject(new Error('Boom')), { maxAttempts: 1 });
+  const succeeding = defineJob('test.succeeding', async () => {});
+  let admin: User;
+  let bob: User;
+  let failed: Job;
+  let completed: Job;
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    admin = await userRepository.createAsync({ email: 'admin@example.com', password: 'hash', name: 'Admin' });
+    bob = await userRepository.createAsync({ email: 'bob@example.com', password: 'hash', name: 'Bob' });
+    await dataSource.getRepository(UserEntity).update({ id: admin.id }, { isAdmin: true });
+
+    failed = await enqueueJob(failing, undefined);
+    completed = await enqueueJob(succeeding, undefined);
+    await new JobWorker([failing, succeeding]).runDueJobs();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('is forbidden to users who are not administrators', async () => {
+    const response = await request(app).get('/admin/jobs').set('Authorization', authorization(bob));
+
+    expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+  });
+
+  it('lists failed jobs with their error', async () => {
+    // Act
+    const response = await request(app)
+      .get(`/admin/jobs?status=${JobStatus.Failed}`)
+      .set('Authorization', authorization(admin));
+    const responseBody: ServiceResponse<Paginated<Job>> = response.body;
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    expect(responseBody.responseObject.items).toEqual([
+      expect.objectContaining({ id: failed.id, name: 'test.failing', attempts: 1, lastError: 'Boom' }),
+    ]);
+  });
+
+  it('retries failed jobs', async () => {
+    // Act
+    const response = await request(app)
+      .post(`/admin/jobs/${failed.id}/retry`)
+      .set('Authorization', authorization(admin));
+    const responseBody: ServiceResponse<Job> = response.body;
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    expect(responseBody.responseObject).toMatchObject({ status: JobStatus.Pending, attempts: 0 });
+    expect(await jobRepository.findByIdAsync(failed.id)).toMatchObject({ status: JobStatus.Pending });
+  });
+
+  it('only retries failed jobs', async () => {
+    const response = await request(app)
+      .post(`/admin/jobs/${completed.id}/retry`)
+      .set('Authorization', authorization(admin));
+
+    expect(response.statusCode).toEqual(StatusCodes.CONFLICT);
+  });
+
+  it('returns a not found error for non-existent jobs', async () => {
+    const response = await request(app).get('/admin/jobs/999999').set('Authorization', authorization(admin));
+
+    expect(response.statusCode).toEqual(StatusCodes.NOT_FOUND);
+  });
+});
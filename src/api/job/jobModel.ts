@@ -0,0 +1,49 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { JobStatus } from '@/common/models/jobStatus';
+import { createPageQuerySchema } from '@/common/utils/pagination';
+
+extendZodWithOpenApi(z);
+
+export type Job = z.infer<typeof JobSchema>;
+export const JobSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  payload: z.unknown().openapi({ description: 'Input of the job handler' }),
+  status: z.nativeEnum(JobStatus),
+  attempts: z.number().int(),
+  maxAttempts: z.number().int(),
+  runAt: z.date().openapi({ description: 'When the job, or its next attempt, is due' }),
+  lockedAt: z.date().nullable().openapi({ description: 'When the running attempt started' }),
+  lastError: z.string().nullable(),
+  completedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ListJobsQuery = z.infer<typeof ListJobsSchema>['query'];
+
+const JobParamsSchema = z.object({ id: z.coerce.number().int().positive() });
+
+// Input Validation for 'GET admin/jobs' endpoint
+export const ListJobsSchema = z.object({
+  query: createPageQuerySchema({
+    sortFields: ['id', 'runAt'],
+    defaultSort: '-id',
+    filters: {
+      status: z.nativeEnum(JobStatus).optional(),
+      name: z.string().max(100).optional(),
+    },
+  }),
+});
+
+// Input Validation for 'GET admin/jobs/:id' endpoint
+export const GetJobSchema = z.object({
+  params: JobParamsSchema,
+});
+
+// Input Validation for 'POST admin/jobs/:id/retry' endpoint
+export const RetryJobSchema = z.object({
+  params: JobParamsSchema,
+});
@@ -0,0 +1,91 @@
+import { In, LessThan, LessThanOrEqual } from 'typeorm';
+
+import { Job, ListJobsQuery } from '@/api/job/jobModel';
+import { Job as JobEntity } from '@/common/entities/job.entity';
+import { JobStatus } from '@/common/models/jobStatus';
+import { findPage, Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+
+type JobWriteData = Pick<JobEntity, 'name' | 'payload' | 'maxAttempts' | 'runAt'>;
+
+const repository = () => dataSource.getRepository(JobEntity);
+
+// Workers claim a job by moving it from pending to running with a conditional update, so
+// that two workers polling the same job cannot both run it
+export const jobRepository = {
+  createAsync: async (data: JobWriteData): Promise<Job> => {
+    return repository().save(repository().create({ ...data, status: JobStatus.Pending, attempts: 0 }));
+  },
+
+  findPageAsync: async (query: ListJobsQuery): Promise<Paginated<Job>> => {
+    const { status, name, ...page } = query;
+    return findPage(repository(), page, { where: { status, name } });
+  },
+
+  findByIdAsync: async (id: number): Promise<Job | null> => {
+    return repository().findOneBy({ id });
+  },
+
+  // Pending jobs that are due, among those named `names`, oldest first
+  findDueAsync: async (names: string[], limit: number): Promise<Job[]> => {
+    return repository().find({
+      where: { status: JobStatus.Pending, runAt: LessThanOrEqual(new Date()), name: In(names) },
+      order: { runAt: 'ASC', id: 'ASC' },
+      take: limit,
+    });
+  },
+
+  // Resolves to false if another worker claimed the job first
+  claimAsync: async (job: Job): Promise<boolean> => {
+    const result = await repository().update(
+      { id: job.id, status: JobStatus.Pending, attempts: job.attempts },
+      { status: JobStatus.Running, attempts: job.attempts + 1, lockedAt: new Date() }
+    );
+    return !!result.affected;
+  },
+
+  // `job` is the attempt as claimed. Resolves to false, leaving the job as it is, once that
+  // attempt is no longer the running one, e.g. after it timed out and the job was claimed again.
+  completeAsync: async (job: Job): Promise<boolean> => {
+    const result = await repository().update(
+      { id: job.id, status: JobStatus.Running, attempts: job.attempts },
+      { status: JobStatus.Completed, lockedAt: null, completedAt: new Date() }
+    );
+    return !!result.affected;
+  },
+
+  // Schedules the next attempt at `retryAt`, or leaves the job failed when it is null.
+  // Resolves to false when the attempt is no longer the running one, as `completeAsync`.
+  failAsync: async (job: Job, error: string, retryAt: Date | null): Promise<boolean> => {
+    const result = await repository().update(
+      { id: job.id, status: JobStatus.Running, attempts: job.attempts },
+      retryAt
+        ? { status: JobStatus.Pending, lockedAt: null, lastError: error, runAt: retryAt }
+        : { status: JobStatus.Failed, lockedAt: null, lastError: error }
+    );
+    return !!result.affected;
+  },
+
+  // Running jobs whose attempt started before `startedBefore`
+  findTimedOutAsync: async (startedBefore: Date): Promise<Job[]> => {
+    return repository().findBy({ status: JobStatus.Running, lockedAt: LessThan(startedBefore) });
+  },
+
+  // Gives a failed job a new set of attempts; resolves to false if it is not failed
+  retryAsync: async (id: number): Promise<boolean> => {
+    const result = await repository().update(
+      { id, status: JobStatus.Failed },
+      { status: JobStatus.Pending, attempts: 0, runAt: new Date() }
+    );
+    return !!result.affected;
+  },
+
+  // Resolves to the number of deleted jobs
+  deleteCompletedAsync: async (completedBefore: Date): Promise<number> => {
+    const result = await repository().delete({
+      status: JobStatus.Completed,
+      completedAt: LessThan(completedBefore),
+    });
+    return result.affected ?? 0;
+  },
+};
@@ -0,0 +1,81 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+
+import { GetJobSchema, JobSchema, ListJobsSchema, RetryJobSchema } from '@/api/job/jobModel';
+import { jobService } from '@/api/job/jobService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+import { PaginatedSchema } from '@/common/utils/pagination';
+
+export const jobRegistry = new OpenAPIRegistry();
+
+jobRegistry.register('Job', JobSchema);
+
+// Mounted at /admin/jobs behind `requireAdmin`
+export const jobRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(jobRegistry, {
+    method: 'get',
+    path: '/admin/jobs',
+    tags: ['Job'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Lists the background jobs; failed jobs have used all their attempts. Requires an administrator.',
+    request: { query: ListJobsSchema.shape.query },
+    responses: createApiResponse(PaginatedSchema(JobSchema), 'Success'),
+    errors: [StatusCodes.FORBIDDEN],
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListJobsSchema, PaginatedSchema(JobSchema)),
+    async (req: ValidatedRequest<typeof ListJobsSchema>, res: Response) => {
+      const serviceResponse = await jobService.findAll(req.query);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(jobRegistry, {
+    method: 'get',
+    path: '/admin/jobs/{id}',
+    tags: ['Job'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Requires an administrator',
+    request: { params: GetJobSchema.shape.params },
+    responses: createApiResponse(JobSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/:id',
+    validateRequest(GetJobSchema, JobSchema),
+    async (req: ValidatedRequest<typeof GetJobSchema>, res: Response) => {
+      const serviceResponse = await jobService.findById(req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(jobRegistry, {
+    method: 'post',
+    path: '/admin/jobs/{id}/retry',
+    tags: ['Job'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Queues a failed job to run again with a new set of attempts. Requires an administrator.',
+    request: { params: RetryJobSchema.shape.params },
+    responses: createApiResponse(JobSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:id/retry',
+    validateRequest(RetryJobSchema, JobSchema),
+    async (req: ValidatedRequest<typeof RetryJobSchema>, res: Response) => {
+      const serviceResponse = await jobService.retry(req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
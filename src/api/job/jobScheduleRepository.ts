@@ -0,0 +1,21 @@
+import { JobSchedule } from '@/common/entities/jobschedule.entity';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(JobSchedule);
+
+export const jobScheduleRepository = {
+  findByNameAsync: async (name: string): Promise<JobSchedule | null> => {
+    return repository().findOneBy({ name });
+  },
+
+  // Creates the schedule, or replaces it when its cron expression changed
+  saveAsync: async (schedule: JobSchedule): Promise<void> => {
+    await repository().save(schedule);
+  },
+
+  // Moves the next run from `from` to `to`; resolves to false if another instance did first
+  advanceAsync: async (name: string, from: Date, to: Date): Promise<boolean> => {
+    const result = await repository().update({ name, nextRunAt: from }, { nextRunAt: to });
+    return !!result.affected;
+  },
+};
@@ -0,0 +1,36 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { Job, ListJobsQuery } from '@/api/job/jobModel';
+import { jobRepository } from '@/api/job/jobRepository';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { Paginated } from '@/common/utils/pagination';
+
+const findJobOrThrow = async (id: number): Promise<Job> => {
+  const job = await jobRepository.findByIdAsync(id);
+  if (!job) throw new NotFoundError('Job not found');
+  return job;
+};
+
+// Inspection of the background jobs, for administrators
+export const jobService = traceService('jobService', {
+  // Retrieves a page of the jobs matching the filters of the query, newest first by default
+  findAll: async (query: ListJobsQuery): Promise<ServiceResponse<Paginated<Job>>> => {
+    const jobs = await jobRepository.findPageAsync(query);
+    return new ServiceResponse<Paginated<Job>>(ResponseStatus.Success, 'Jobs found', jobs, StatusCodes.OK);
+  },
+
+  findById: async (id: number): Promise<ServiceResponse<Job>> => {
+    const job = await findJobOrThrow(id);
+    return new ServiceResponse<Job>(ResponseStatus.Success, 'Job found', job, StatusCodes.OK);
+  },
+
+  // Runs a failed job again as soon as a worker is free, with a new set of attempts
+  retry: async (id: number): Promise<ServiceResponse<Job>> => {
+    await findJobOrThrow(id);
+    if (!(await jobRepository.retryAsync(id))) throw new ConflictError('Only failed jobs can be retried');
+    const job = await findJobOrThrow(id);
+    return new ServiceResponse<Job>(ResponseStatus.Success, 'Job queued for retry', job, StatusCodes.OK);
+  },
+});
@@ -0,0 +1,134 @@
+import { StatusCodes } from 'http-status-codes';
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+
+import { boardRepository } from '@/api/board/boardRepository';
+import { List } from '@/api/list/listModel';
+import { listRepository } from '@/api/list/listRepository';
+import { listService } from '@/api/list/listService';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
+
+vi.mock('@/api/board/boardRepository');
+vi.mock('@/api/list/listRepository');
+
+describe('listService', () => {
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const boardId = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e06';
+  const mockList: List = {
+    id: '4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f07',
+    boardId,
+    title: 'To do',
+    position: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    (boardRepository.findByIdAsync as Mock).mockResolvedValue({ id: boardId, projectId });
+  });
+
+  describe('findAll', () => {
+    it('returns the lists of the board with their cards', async () => {
+      // Arrange
+      (listRepository.findAllByBoardAsync as Mock).mockResolvedValue([{ ...mockList, cards: [] }]);
+
+      // Act
+      const result = await listService.findAll(projectId, boardId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual([{ ...mockList, cards: [] }]);
+    });
+
+    it('returns a not found error for boards of other projects', async () => {
+      // Arrange
+      (boardRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = listService.findAll(projectId, boardId);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(listRepository.findAllByBoardAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('creates a list on the board', async () => {
+      // Arrange
+      (listRepository.createAsync as Mock).mockResolvedValue(mockList);
+
+      // Act
+      const result = await listService.create(projectId, boardId, { title: 'To do' });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(listRepository.createAsync).toHaveBeenCalledWith(boardId, { title: 'To do' });
+    });
+  });
+
+  describe('move', () => {
+    it('moves a list', async () => {
+      // Arrange
+      (listRepository.moveAsync as Mock).mockResolvedValue({ ...mockList, position: 2 });
+
+      // Act
+      const result = await listService.move(projectId, boardId, mockList.id, 2);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject?.position).toEqual(2);
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (listRepository.moveAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = listService.move(projectId, boardId, mockList.id, 2);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('delete', () => {
+    it('moves a list to the trash', async () => {
+      // Arrange
+      (listRepository.softDeleteAsync as Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await listService.delete(projectId, boardId, mockList.id);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(listRepository.softDeleteAsync).toHaveBeenCalledWith(boardId, mockList.id);
+    });
+  });
+
+  describe('restore', () => {
+    it('takes a list out of the trash', async () => {
+      // Arrange
+      (listRepository.findByIdAsync as Mock).mockResolvedValue(null);
+      (listRepository.restoreAsync as Mock).mockResolvedValue(mockList);
+
+      // Act
+      const result = await listService.restore(projectId, boardId, mockList.id);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual(mockList);
+    });
+
+    it('returns a conflict error for a list that is not in the trash', async () => {
+      // Arrange
+      (listRepository.findByIdAsync as Mock).mockResolvedValue(mockList);
+
+      // Act
+      const result = listService.restore(projectId, boardId, mockList.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+      expect(listRepository.restoreAsync).not.toHaveBeenCalled();
+    });
+  });
+});
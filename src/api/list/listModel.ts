@@ -0,0 +1,73 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { CardSchema } from '@/api/card/cardModel';
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type List = z.infer<typeof ListSchema>;
+export const ListSchema = z.object({
+  id: z.string().uuid(),
+  boardId: z.string().uuid(),
+  title: z.string(),
+  position: z.number().int(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ListWithCards = z.infer<typeof ListWithCardsSchema>;
+export const ListWithCardsSchema = ListSchema.extend({ cards: z.array(CardSchema) });
+
+// A list in the trash
+export type TrashedList = z.infer<typeof TrashedListSchema>;
+export const TrashedListSchema = ListSchema.extend({ deletedAt: z.date() });
+
+export type CreateListInput = z.infer<typeof CreateListSchema>['body'];
+export type UpdateListInput = z.infer<typeof UpdateListSchema>['body'];
+
+const ListFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+});
+
+const BoardParamsSchema = z.object({ projectId: commonValidations.id, boardId: commonValidations.id });
+const ListParamsSchema = BoardParamsSchema.extend({ listId: commonValidations.id });
+
+// Input Validation for 'GET projects/:projectId/boards/:boardId/lists' endpoint
+export const ListListsSchema = z.object({
+  params: BoardParamsSchema,
+});
+
+// Input Validation for 'POST projects/:projectId/boards/:boardId/lists' endpoint
+export const CreateListSchema = z.object({
+  params: BoardParamsSchema,
+  body: ListFieldsSchema,
+});
+
+// Input Validation for 'PATCH projects/:projectId/boards/:boardId/lists/:listId' endpoint
+export const UpdateListSchema = z.object({
+  params: ListParamsSchema,
+  body: ListFieldsSchema.partial(),
+});
+
+// Input Validation for 'DELETE projects/:projectId/boards/:boardId/lists/:listId' endpoint
+export const DeleteListSchema = z.object({
+  params: ListParamsSchema,
+});
+
+// Input Validation for 'POST projects/:projectId/boards/:boardId/lists/:listId/restore' endpoint
+export const RestoreListSchema = z.object({
+  params: ListParamsSchema,
+});
+
+// Input Validation for 'POST projects/:projectId/boards/:boardId/lists/:listId/move' endpoint
+export const MoveListSchema = z.object({
+  params: ListParamsSchema,
+  body: z.object({
+    position: z
+      .number()
+      .int()
+      .min(0)
+      .openapi({ description: 'Target zero-based index among the lists of the board; larger values move it last' }),
+  }),
+});
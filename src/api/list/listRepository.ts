@@ -0,0 +1,103 @@
+import { EntityManager, IsNull, Not } from 'typeorm';
+
+import { cardSelect } from '@/api/card/cardRepository';
+import { List, ListWithCards, TrashedList } from '@/api/list/listModel';
+import { Board } from '@/common/entities/board.entity';
+import { List as ListEntity } from '@/common/entities/list.entity';
+import { renumber, reorder, savePositions } from '@/common/utils/positioning';
+import { withRowLock } from '@/common/utils/transactions';
+import { cascadeDeletedAt } from '@/common/utils/trash';
+import dataSource from '@/configs/typeorm.config';
+
+type ListWriteData = Partial<Pick<ListEntity, 'title'>>;
+
+const repository = () => dataSource.getRepository(ListEntity);
+
+// List positions change under a lock on the board row, like card positions do
+const withBoardLock = <T>(boardId: string, work: (manager: EntityManager) => Promise<T>): Promise<T> =>
+  withRowLock(Board, boardId, work);
+
+const findBoardLists = (manager: EntityManager, boardId: string) =>
+  manager.find(ListEntity, { where: { boardId }, order: { position: 'ASC' }, select: { id: true, position: true } });
+
+export const listRepository = {
+  // Lists of the board in order, each with its cards in order
+  findAllByBoardAsync: async (boardId: string): Promise<ListWithCards[]> => {
+    return repository().find({
+      where: { boardId },
+      relations: { cards: { assignees: true } },
+      select: {
+        id: true,
+        boardId: true,
+        title: true,
+        position: true,
+        createdAt: true,
+        updatedAt: true,
+        cards: cardSelect,
+      },
+      order: { position: 'ASC', cards: { position: 'ASC' } },
+    });
+  },
+
+  findByIdAsync: async (boardId: string, id: string): Promise<List | null> => {
+    return repository().findOneBy({ id, boardId });
+  },
+
+  // Creates the list after the existing lists of the board
+  createAsync: async (boardId: string, data: ListWriteData): Promise<List> => {
+    return withBoardLock(boardId, async (manager) => {
+      const position = await manager.count(ListEntity, { where: { boardId } });
+      return manager.save(manager.create(ListEntity, { ...data, boardId, position }));
+    });
+  },
+
+  updateAsync: async (boardId: string, id: string, data: ListWriteData): Promise<List | null> => {
+    await repository().update({ id, boardId }, data);
+    return repository().findOneBy({ id, boardId });
+  },
+
+  moveAsync: async (boardId: string, id: string, position: number): Promise<List | null> => {
+    return withBoardLock(boardId, async (manager) => {
+      await savePositions(manager, ListEntity, reorder(await findBoardLists(manager, boardId), id, position));
+      return manager.findOneBy(ListEntity, { id, boardId });
+    });
+  },
+
+  // Moves the list to the trash with its cards and closes the gap it leaves
+  softDeleteAsync: async (boardId: string, id: string): Promise<boolean> => {
+    return withBoardLock(boardId, async (manager) => {
+      if (!(await manager.existsBy(ListEntity, { id, boardId }))) return false;
+      const deletedAt = new Date();
+      await manager.update(ListEntity, { id }, { deletedAt });
+      await cascadeDeletedAt(manager, { listId: id }, null, deletedAt);
+      await savePositions(manager, ListEntity, renumber(await findBoardLists(manager, boardId)));
+      return true;
+    });
+  },
+
+  // Takes the list out of the trash with the cards deleted along with it, at the end of its board
+  restoreAsync: async (boardId: string, id: string): Promise<List | null> => {
+    return withBoardLock(boardId, async (manager) => {
+      const list = await manager.findOne(ListEntity, {
+        where: { id, boardId, deletedAt: Not(IsNull()) },
+        withDeleted: true,
+      });
+      if (!list) return null;
+      await cascadeDeletedAt(manager, { listId: id }, list.deletedAt, null);
+      const position = await manager.count(ListEntity, { where: { boardId } });
+      await manager.update(ListEntity, { id }, { deletedAt: null, position });
+      return manager.findOneBy(ListEntity, { id, boardId });
+    });
+  },
+
+  // Lists of the project in the trash, most recently deleted first. The lists of boards in
+  // the trash are left out, as they come back with their board.
+  findDeletedByProjectAsync: async (projectId: string): Promise<TrashedList[]> => {
+    const lists = await repository().find({
+      where: { board: { projectId, deletedAt: IsNull() }, deletedAt: Not(IsNull()) },
+      order: { deletedAt: 'DESC' },
+      withDeleted: true,
+    });
+    return lists.map((list) => ({ ...list, deletedAt: list.deletedAt! }));
+  },
+};
@@ -0,0 +1,171 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import {
+  CreateListSchema,
+  DeleteListSchema,
+  ListListsSchema,
+  ListSchema,
+  ListWithCardsSchema,
+  MoveListSchema,
+  RestoreListSchema,
+  UpdateListSchema,
+} from '@/api/list/listModel';
+import { listService } from '@/api/list/listService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const listRegistry = new OpenAPIRegistry();
+
+listRegistry.register('List', ListSchema);
+listRegistry.register('ListWithCards', ListWithCardsSchema);
+
+// Mounted under '/projects/:projectId/boards/:boardId/lists'
+export const listRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  registerApiRoute(listRegistry, {
+    method: 'get',
+    path: '/projects/{projectId}/boards/{boardId}/lists',
+    tags: ['List'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Lists the columns of the board in order, each with its cards in order',
+    request: { params: ListListsSchema.shape.params },
+    responses: createApiResponse(z.array(ListWithCardsSchema), 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListListsSchema, z.array(ListWithCardsSchema)),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof ListListsSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await listService.findAll(projectId, boardId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(listRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/lists',
+    tags: ['List'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: CreateListSchema.shape.params,
+      body: { content: { 'application/json': { schema: CreateListSchema.shape.body } } },
+    },
+    responses: createApiResponse(ListSchema, 'Created', StatusCodes.CREATED),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.post(
+    '/',
+    validateRequest(CreateListSchema, ListSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof CreateListSchema>, res: Response) => {
+      const { projectId, boardId } = req.params;
+      const serviceResponse = await listService.create(projectId, boardId, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(listRegistry, {
+    method: 'patch',
+    path: '/projects/{projectId}/boards/{boardId}/lists/{listId}',
+    tags: ['List'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: UpdateListSchema.shape.params,
+      body: { content: { 'application/json': { schema: UpdateListSchema.shape.body } } },
+    },
+    responses: createApiResponse(ListSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.patch(
+    '/:listId',
+    validateRequest(UpdateListSchema, ListSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof UpdateListSchema>, res: Response) => {
+      const { projectId, boardId, listId } = req.params;
+      const serviceResponse = await listService.update(projectId, boardId, listId, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(listRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/lists/{listId}/move',
+    tags: ['List'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: MoveListSchema.shape.params,
+      body: { content: { 'application/json': { schema: MoveListSchema.shape.body } } },
+    },
+    responses: createApiResponse(ListSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.post(
+    '/:listId/move',
+    validateRequest(MoveListSchema, ListSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof MoveListSchema>, res: Response) => {
+      const { projectId, boardId, listId } = req.params;
+      const serviceResponse = await listService.move(projectId, boardId, listId, req.body.position);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(listRegistry, {
+    method: 'delete',
+    path: '/projects/{projectId}/boards/{boardId}/lists/{listId}',
+    tags: ['List'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Moves the list to the trash together with its cards',
+    request: { params: DeleteListSchema.shape.params },
+    responses: createApiResponse(z.null(), 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.delete(
+    '/:listId',
+    validateRequest(DeleteListSchema, z.null()),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof DeleteListSchema>, res: Response) => {
+      const { projectId, boardId, listId } = req.params;
+      const serviceResponse = await listService.delete(projectId, boardId, listId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(listRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/boards/{boardId}/lists/{listId}/restore',
+    tags: ['List'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Takes the list out of the trash with the cards deleted along with it, at the end of its board',
+    request: { params: RestoreListSchema.shape.params },
+    responses: createApiResponse(ListSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:listId/restore',
+    validateRequest(RestoreListSchema, ListSchema),
+    requireProjectRole(ProjectRole.Member),
+    async (req: ValidatedRequest<typeof RestoreListSchema>, res: Response) => {
+      const { projectId, boardId, listId } = req.params;
+      const serviceResponse = await listService.restore(projectId, boardId, listId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
@@ -0,0 +1,73 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { boardRepository } from '@/api/board/boardRepository';
+import { CreateListInput, List, ListWithCards, UpdateListInput } from '@/api/list/listModel';
+import { listRepository } from '@/api/list/listRepository';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { realtimeEvents, RealtimeEventType } from '@/common/realtime/realtimeEvents';
+import { traceService } from '@/common/tracing/tracing';
+
+const assertBoardExists = async (projectId: string, boardId: string): Promise<void> => {
+  if (!(await boardRepository.findByIdAsync(projectId, boardId))) throw new NotFoundError('Board not found');
+};
+
+const listNotFound = () => new NotFoundError('List not found');
+
+export const listService = traceService('listService', {
+  // Retrieves the lists of a board with their cards, in display order
+  findAll: async (projectId: string, boardId: string): Promise<ServiceResponse<ListWithCards[]>> => {
+    await assertBoardExists(projectId, boardId);
+    const lists = await listRepository.findAllByBoardAsync(boardId);
+    return new ServiceResponse<ListWithCards[]>(ResponseStatus.Success, 'Lists found', lists, StatusCodes.OK);
+  },
+
+  // Creates a list after the existing lists of the board
+  create: async (projectId: string, boardId: string, input: CreateListInput): Promise<ServiceResponse<List>> => {
+    await assertBoardExists(projectId, boardId);
+    const list = await listRepository.createAsync(boardId, { title: input.title });
+    realtimeEvents.publish(RealtimeEventType.ListCreated, { projectId, boardId }, list);
+    return new ServiceResponse<List>(ResponseStatus.Success, 'List created', list, StatusCodes.CREATED);
+  },
+
+  // Renames a list
+  update: async (
+    projectId: string,
+    boardId: string,
+    id: string,
+    input: UpdateListInput
+  ): Promise<ServiceResponse<List>> => {
+    await assertBoardExists(projectId, boardId);
+    const list = await listRepository.updateAsync(boardId, id, { title: input.title });
+    if (!list) throw listNotFound();
+    realtimeEvents.publish(RealtimeEventType.ListUpdated, { projectId, boardId }, list);
+    return new ServiceResponse(ResponseStatus.Success, 'List updated', list, StatusCodes.OK);
+  },
+
+  // Moves a list to a new position among the lists of its board
+  move: async (projectId: string, boardId: string, id: string, position: number): Promise<ServiceResponse<List>> => {
+    await assertBoardExists(projectId, boardId);
+    const list = await listRepository.moveAsync(boardId, id, position);
+    if (!list) throw listNotFound();
+    realtimeEvents.publish(RealtimeEventType.ListMoved, { projectId, boardId }, list);
+    return new ServiceResponse(ResponseStatus.Success, 'List moved', list, StatusCodes.OK);
+  },
+
+  // Moves a list to the trash with its cards
+  delete: async (projectId: string, boardId: string, id: string): Promise<ServiceResponse> => {
+    await assertBoardExists(projectId, boardId);
+    if (!(await listRepository.softDeleteAsync(boardId, id))) throw listNotFound();
+    realtimeEvents.publish(RealtimeEventType.ListDeleted, { projectId, boardId }, { id });
+    return new ServiceResponse(ResponseStatus.Success, 'List deleted', null, StatusCodes.OK);
+  },
+
+  // Takes a list out of the trash with the cards deleted along with it, at the end of its board
+  restore: async (projectId: string, boardId: string, id: string): Promise<ServiceResponse<List | null>> => {
+    await assertBoardExists(projectId, boardId);
+    if (await listRepository.findByIdAsync(boardId, id)) throw new ConflictError('List is not in the trash');
+    const list = await listRepository.restoreAsync(boardId, id);
+    if (!list) throw listNotFound();
+    realtimeEvents.publish(RealtimeEventType.ListRestored, { projectId, boardId }, list);
+    return new ServiceResponse(ResponseStatus.Success, 'List restored', list, StatusCodes.OK);
+  },
+});
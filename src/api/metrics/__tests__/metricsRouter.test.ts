@@ -0,0 +1,85 @@
+import { randomUUID } from 'node:crypto';
+
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { Project } from '@/api/project/projectModel';
+import { projectRepository } from '@/api/project/projectRepository';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { signAccessToken } from '@/common/utils/jwt';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+vi.mock('@/common/utils/envConfig', async (importOriginal) => {
+  const { env } = await importOriginal<typeof import('@/common/utils/envConfig')>();
+  return { env: { ...env, METRICS_TOKEN: 'metrics-token' } };
+});
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+describe('Metrics API Endpoints', () => {
+  let alice: User;
+  let project: Project;
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    alice = await userRepository.createAsync({ email: 'alice@example.com', password: 'hash', name: 'Alice' });
+    project = await projectRepository.createAsync(alice.id, { title: 'Website redesign' });
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('counts requests by route template, including those that fail', async () => {
+    // Arrange
+    await request(app).get(`/projects/${project.id}`).set('Authorization', authorization(alice));
+    await request(app).get(`/projects/${randomUUID()}/boards`).set('Authorization', authorization(alice));
+    await request(app).get('/unknown-path');
+
+    // Act
+    const response = await request(app).get('/metrics');
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    expect(response.headers['content-type']).toMatch(/^text\/plain/);
+    expect(response.text).toContain('http_requests_total{method="GET",route="/projects/:id",status="200"} 1');
+    expect(response.text).toContain(
+      'http_requests_total{method="GET",route="/projects/:projectId/boards",status="404"} 1'
+    );
+    // Paths outside the routes, here answered by the documentation, share a label
+    expect(response.text).toMatch(/http_requests_total\{method="GET",route="unmatched",status="\d+"\} 1/);
+    expect(response.text).not.toContain('unknown-path');
+    expect(response.text).toMatch(
+      /http_request_duration_seconds_count\{method="GET",route="\/projects\/:id",status="200"\} 1/
+    );
+  });
+
+  it('reports database query timings and process metrics', async () => {
+    const response = await request(app).get('/metrics');
+
+    expect(response.text).toMatch(/db_query_duration_seconds_count\{command="select"\} [1-9]/);
+    expect(response.text).toContain('process_cpu_user_seconds_total');
+    expect(response.text).toContain('nodejs_eventloop_lag_seconds');
+  });
+
+  it('is forbidden to requests relayed by a proxy without the token', async () => {
+    // Act
+    const forbidden = await request(app).get('/metrics').set('X-Forwarded-For', '203.0.113.7');
+    const wrongToken = await request(app)
+      .get('/metrics')
+      .set('X-Forwarded-For', '203.0.113.7')
+      .set('Authorization', 'Bearer wrong-token');
+    const allowed = await request(app)
+      .get('/metrics')
+      .set('X-Forwarded-For', '203.0.113.7')
+      .set('Authorization', 'Bearer metrics-token');
+
+    // Assert
+    expect(forbidden.statusCode).toEqual(StatusCodes.FORBIDDEN);
+    expect(wrongToken.statusCode).toEqual(StatusCodes.FORBIDDEN);
+    expect(allowed.statusCode).toEqual(StatusCodes.OK);
+  });
+});
@@ -0,0 +1,35 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import { registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import { prometheusRegistry } from '@/common/metrics/metrics';
+
+export const metricsRegistry = new OpenAPIRegistry();
+
+// Mounted at /metrics behind `requireMetricsAccess`
+export const metricsRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(metricsRegistry, {
+    method: 'get',
+    path: '/metrics',
+    tags: ['Metrics'],
+    description:
+      'Request counts and latencies by route, database query timings and pool usage, and process metrics, for Prometheus. Requires the metrics token, unless requested from an internal network.',
+    responses: {
+      [StatusCodes.OK]: {
+        description: 'Metrics in the Prometheus text format',
+        content: { [prometheusRegistry.contentType]: { schema: z.string() } },
+      },
+    },
+    errors: [StatusCodes.FORBIDDEN],
+  });
+
+  router.get('/', async (_req: Request, res: Response) => {
+    res.type(prometheusRegistry.contentType).send(await prometheusRegistry.metrics());
+  });
+
+  return router;
+})();
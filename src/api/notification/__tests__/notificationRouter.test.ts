@@ -0,0 +1,171 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { boardRepository } from '@/api/board/boardRepository';
+import { listRepository } from '@/api/list/listRepository';
+import { Notification } from '@/api/notification/notificationModel';
+import { notificationService } from '@/api/notification/notificationService';
+import { projectRepository } from '@/api/project/projectRepository';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { emailTransport } from '@/common/email/email';
+import { MemoryEmailTransport } from '@/common/email/memoryEmailTransport';
+import { JobWorker } from '@/common/jobs/jobWorker';
+import { EmailFrequency, NotificationType } from '@/common/models/notificationType';
+import { ProjectRole } from '@/common/models/projectRole';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+import { jobDefinitions } from '@/jobs';
+import { app } from '@/server';
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+describe('Notification API Endpoints', () => {
+  const sent = (emailTransport as MemoryEmailTransport).sent;
+  // Emails are sent by the job queue
+  const worker = new JobWorker(jobDefinitions);
+  let alice: User;
+  let bob: User;
+  let cardsPath: string;
+  let listId: string;
+
+  // Alice assigns Bob to a new card, which notifies Bob
+  const assignBob = (title: string) =>
+    request(app)
+      .post(cardsPath)
+      .set('Authorization', authorization(alice))
+      .send({ listId, title, assigneeIds: [bob.id] });
+
+  const inbox = async (user: User, query = ''): Promise<Paginated<Notification>> => {
+    const response = await request(app).get(`/notifications${query}`).set('Authorization', authorization(user));
+    return (response.body as ServiceResponse<Paginated<Notification>>).responseObject;
+  };
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    alice = await userRepository.createAsync({ email: 'alice@example.com', password: 'hash', name: 'Alice' });
+    bob = await userRepository.createAsync({ email: 'bob@example.com', password: 'hash', name: 'Bob' });
+    const project = await projectRepository.createAsync(alice.id, { title: 'Website redesign' });
+    await projectMemberRepository.createAsync(project.id, bob.id, ProjectRole.Member);
+    const board = await boardRepository.createAsync(project.id, { title: 'Sprint 1' });
+    listId = (await listRepository.createAsync(board.id, { title: 'To do' })).id;
+    cardsPath = `/projects/${project.id}/boards/${board.id}/cards`;
+  });
+
+  beforeEach(async () => {
+    await worker.runDueJobs();
+    sent.splice(0);
+    await request(app).post('/notifications/read-all').set('Authorization', authorization(bob));
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('notifies assignees in their inbox and by email', async () => {
+    // Act
+    await assignBob('Mockups');
+
+    // Assert
+    await worker.runDueJobs();
+    const { items } = await inbox(bob);
+    expect(items[0]).toMatchObject({
+      type: NotificationType.CardAssigned,
+      actor: { id: alice.id, name: 'Alice' },
+      data: { cardTitle: 'Mockups' },
+      readAt: null,
+    });
+    expect(sent).toEqual([
+      expect.objectContaining({ to: 'bob@example.com', subject: 'Alice assigned you to "Mockups"' }),
+    ]);
+  });
+
+  it('counts and marks unread notifications', async () => {
+    // Arrange
+    await assignBob('Copy');
+    await assignBob('Logo');
+    const [latest] = (await inbox(bob, '?unread=true')).items;
+
+    // Act
+    const readResponse = await request(app)
+      .post(`/notifications/${latest.id}/read`)
+      .set('Authorization', authorization(bob));
+    const countResponse = await request(app)
+      .get('/notifications/unread-count')
+      .set('Authorization', authorization(bob));
+    const readAllResponse = await request(app).post('/notifications/read-all').set('Authorization', authorization(bob));
+
+    // Assert
+    expect(readResponse.body.responseObject.readAt).not.toBeNull();
+    expect(countResponse.body.responseObject).toEqual({ count: 1 });
+    expect(readAllResponse.body.responseObject).toEqual({ updated: 1 });
+    expect((await inbox(bob, '?unread=true')).items).toEqual([]);
+  });
+
+  it('does not let users read the notifications of others', async () => {
+    // Arrange
+    await assignBob('Icons');
+    const [notification] = (await inbox(bob)).items;
+
+    // Act
+    const response = await request(app)
+      .post(`/notifications/${notification.id}/read`)
+      .set('Authorization', authorization(alice));
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.NOT_FOUND);
+    expect((await inbox(alice)).items).toEqual([]);
+  });
+
+  it('skips muted types', async () => {
+    // Arrange
+    await request(app)
+      .patch('/notifications/preferences')
+      .set('Authorization', authorization(bob))
+      .send({ mutedTypes: [NotificationType.CardAssigned] });
+
+    // Act
+    await assignBob('Fonts');
+
+    // Assert
+    await worker.runDueJobs();
+    const countResponse = await request(app)
+      .get('/notifications/unread-count')
+      .set('Authorization', authorization(bob));
+    expect(countResponse.body.responseObject).toEqual({ count: 0 });
+    expect(sent).toEqual([]);
+
+    await request(app)
+      .patch('/notifications/preferences')
+      .set('Authorization', authorization(bob))
+      .send({ mutedTypes: [] });
+  });
+
+  it('holds the emails of daily digest users for a single email', async () => {
+    // Arrange
+    const preferencesResponse = await request(app)
+      .patch('/notifications/preferences')
+      .set('Authorization', authorization(bob))
+      .send({ emailFrequency: EmailFrequency.Daily });
+    await assignBob('Banner');
+    await assignBob('Footer');
+    await worker.runDueJobs();
+    expect(sent).toEqual([]);
+
+    // Act
+    const digests = await notificationService.sendDailyDigests();
+    await worker.runDueJobs();
+
+    // Assert
+    expect(preferencesResponse.body.responseObject).toEqual({ emailFrequency: EmailFrequency.Daily, mutedTypes: [] });
+    expect(digests).toEqual(1);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: 'bob@example.com', subject: 'You have 2 new notifications' });
+    expect(sent[0].text).toContain('Alice assigned you to "Banner"');
+    expect(await notificationService.sendDailyDigests()).toEqual(0);
+  });
+});
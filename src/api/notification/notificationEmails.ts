@@ -0,0 +1,86 @@
+import { Notification, NotificationData } from '@/api/notification/notificationModel';
+import { User } from '@/api/user/userModel';
+import { NotificationType } from '@/common/models/notificationType';
+import { env } from '@/common/utils/envConfig';
+
+export type EmailContent = { subject: string; text: string; html: string };
+
+type Recipient = Pick<User, 'email' | 'name'>;
+
+// A notification in one sentence, with an optional quote and the page of the web client it is about
+type Summary = { sentence: string; quote?: string; path: string };
+
+const FOOTER = 'You can change which notifications you receive, and how often they are emailed, in your preferences.';
+
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const summarize = (notification: Notification): Summary => {
+  const actor = notification.actor?.name ?? notification.actor?.email ?? 'Someone';
+  const projectPath = `/projects/${notification.projectId}`;
+  switch (notification.type) {
+    case NotificationType.CardAssigned: {
+      const { boardId, cardId, cardTitle } = notification.data as NotificationData[NotificationType.CardAssigned];
+      return {
+        sentence: `${actor} assigned you to "${cardTitle}"`,
+        path: `${projectPath}/boards/${boardId}/cards/${cardId}`,
+      };
+    }
+    case NotificationType.CommentMention: {
+      const { boardId, cardId, cardTitle, excerpt } =
+        notification.data as NotificationData[NotificationType.CommentMention];
+      return {
+        sentence: `${actor} mentioned you in a comment on "${cardTitle}"`,
+        quote: excerpt,
+        path: `${projectPath}/boards/${boardId}/cards/${cardId}`,
+      };
+    }
+    case NotificationType.ProjectInvitation: {
+      const { projectTitle, role } = notification.data as NotificationData[NotificationType.ProjectInvitation];
+      return { sentence: `${actor} added you to "${projectTitle}" as a ${role}`, path: projectPath };
+    }
+  }
+};
+
+// Links are only included once the web client is known
+const linkTo = (path: string): string | null => (env.APP_URL ? `${env.APP_URL.replace(/\/$/, '')}${path}` : null);
+
+const toText = ({ sentence, quote, path }: Summary): string => {
+  const link = linkTo(path);
+  return [sentence, quote && `> ${quote}`, link].filter(Boolean).join('\n');
+};
+
+const toHtml = ({ sentence, quote, path }: Summary): string => {
+  const link = linkTo(path);
+  return [
+    `<p>${link ? `<a href="${escapeHtml(link)}">${escapeHtml(sentence)}</a>` : escapeHtml(sentence)}</p>`,
+    quote ? `<blockquote>${escapeHtml(quote)}</blockquote>` : '',
+  ].join('');
+};
+
+const layout = (recipient: Recipient, textBody: string, htmlBody: string): Omit<EmailContent, 'subject'> => {
+  const greeting = `Hi ${recipient.name ?? recipient.email},`;
+  return {
+    text: `${greeting}\n\n${textBody}\n\n${FOOTER}\n`,
+    html: `<p>${escapeHtml(greeting)}</p>${htmlBody}<p><small>${escapeHtml(FOOTER)}</small></p>`,
+  };
+};
+
+// The email sent as soon as a notification is created
+export const renderNotificationEmail = (recipient: Recipient, notification: Notification): EmailContent => {
+  const summary = summarize(notification);
+  return { subject: summary.sentence, ...layout(recipient, toText(summary), toHtml(summary)) };
+};
+
+// The daily email listing the notifications of the past day, oldest first
+export const renderDigestEmail = (recipient: Recipient, notifications: Notification[]): EmailContent => {
+  const summaries = notifications.map(summarize);
+  const count = notifications.length;
+  return {
+    subject: count === 1 ? 'You have 1 new notification' : `You have ${count} new notifications`,
+    ...layout(
+      recipient,
+      summaries.map((summary) => `- ${toText(summary).replace(/\n/g, '\n  ')}`).join('\n'),
+      `<ul>${summaries.map((summary) => `<li>${toHtml(summary)}</li>`).join('')}</ul>`
+    ),
+  };
+};
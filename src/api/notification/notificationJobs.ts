@@ -0,0 +1,6 @@
+import { notificationService } from '@/api/notification/notificationService';
+import { defineJob } from '@/common/jobs/jobs';
+
+export const sendDailyDigestsJob = defineJob('notification.send-daily-digests', async () => {
+  await notificationService.sendDailyDigests();
+});
@@ -0,0 +1,86 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { PublicUserSchema } from '@/api/user/userModel';
+import { EmailFrequency, NotificationType } from '@/common/models/notificationType';
+import { createPageQuerySchema } from '@/common/utils/pagination';
+
+extendZodWithOpenApi(z);
+
+export type Notification = z.infer<typeof NotificationSchema>;
+export const NotificationSchema = z.object({
+  id: z.number().int(),
+  type: z.nativeEnum(NotificationType),
+  projectId: z.string().uuid(),
+  data: z.record(z.unknown()).openapi({ description: 'Details of the notification, depending on its type' }),
+  actorId: z.string().uuid().nullable(),
+  actor: PublicUserSchema.nullable().openapi({ description: 'The user whose action caused the notification' }),
+  readAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
+export const NotificationPreferencesSchema = z.object({
+  emailFrequency: z
+    .nativeEnum(EmailFrequency)
+    .openapi({ description: 'Whether notifications are emailed as they happen, once a day, or not at all' }),
+  mutedTypes: z
+    .array(z.nativeEnum(NotificationType))
+    .openapi({ description: 'Types the user is notified of neither in the inbox nor by email' }),
+});
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailFrequency: EmailFrequency.Instant,
+  mutedTypes: [],
+};
+
+// The details stored with each type of notification
+export type NotificationData = {
+  [NotificationType.CardAssigned]: { boardId: string; cardId: string; cardTitle: string };
+  [NotificationType.CommentMention]: {
+    boardId: string;
+    cardId: string;
+    cardTitle: string;
+    commentId: string;
+    excerpt: string;
+  };
+  [NotificationType.ProjectInvitation]: { projectTitle: string; role: string };
+};
+
+// A notification to deliver; `userId` is the recipient and `actorId` the user who caused it
+export type NotificationEntry = {
+  [T in NotificationType]: { type: T; userId: string; actorId: string; projectId: string; data: NotificationData[T] };
+}[NotificationType];
+
+export type UpdateNotificationPreferencesInput = z.infer<typeof UpdateNotificationPreferencesSchema>['body'];
+
+// Input Validation for 'GET notifications' endpoint
+export const ListNotificationsSchema = z.object({
+  query: createPageQuerySchema({
+    sortFields: ['id'],
+    defaultSort: '-id',
+    filters: {
+      unread: z
+        .enum(['true', 'false'])
+        .default('false')
+        .transform((value) => value === 'true')
+        .openapi({ description: 'Only list unread notifications' }),
+    },
+  }),
+});
+
+// Input Validation for 'POST notifications/:id/read' endpoint
+export const ReadNotificationSchema = z.object({
+  params: z.object({ id: z.coerce.number().int().positive() }),
+});
+
+// Input Validation for 'PATCH notifications/preferences' endpoint
+export const UpdateNotificationPreferencesSchema = z.object({
+  body: NotificationPreferencesSchema.partial(),
+});
+
+export const UnreadCountSchema = z.object({ count: z.number().int() });
+
+export const ReadAllNotificationsSchema = z.object({
+  updated: z.number().int().openapi({ description: 'Number of notifications marked as read' }),
+});
@@ -0,0 +1,20 @@
+import { NotificationPreferences } from '@/api/notification/notificationModel';
+import { NotificationPreference } from '@/common/entities/notificationpreference.entity';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(NotificationPreference);
+
+const select = { userId: true, emailFrequency: true, mutedTypes: true } as const;
+
+export const notificationPreferenceRepository = {
+  // Resolves to null for users who kept the defaults
+  findByUserAsync: async (userId: string): Promise<NotificationPreferences | null> => {
+    const preferences = await repository().findOne({ select, where: { userId } });
+    return preferences && { emailFrequency: preferences.emailFrequency, mutedTypes: preferences.mutedTypes };
+  },
+
+  saveAsync: async (userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> => {
+    await repository().save(repository().create({ userId, ...preferences }));
+    return preferences;
+  },
+};
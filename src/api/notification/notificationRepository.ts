@@ -0,0 +1,71 @@
+import { In, IsNull } from 'typeorm';
+
+import { Notification, NotificationEntry } from '@/api/notification/notificationModel';
+import { User } from '@/api/user/userModel';
+import { Notification as NotificationEntity } from '@/common/entities/notification.entity';
+import { findPage, PageQuery, Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(NotificationEntity);
+
+// Only the public profile of the actor is loaded alongside the notification
+const withActor = {
+  relations: { actor: true },
+  select: {
+    id: true,
+    type: true,
+    projectId: true,
+    data: true,
+    actorId: true,
+    readAt: true,
+    createdAt: true,
+    actor: { id: true, email: true, name: true, avatarUrl: true },
+  },
+} as const;
+
+// A notification waiting for the daily digest, with its recipient
+export type PendingDigestNotification = Notification & { userId: string; user: User };
+
+// Notifications are only ever read by their recipient, so every query is scoped by `userId`
+export const notificationRepository = {
+  createAsync: async (entry: NotificationEntry, digestPending: boolean): Promise<Notification> => {
+    const { id } = await repository().save(repository().create({ ...entry, digestPending }));
+    return repository().findOneOrFail({ ...withActor, where: { id } });
+  },
+
+  findPageAsync: async (userId: string, page: PageQuery, unread: boolean): Promise<Paginated<Notification>> => {
+    return findPage(repository(), page, {
+      ...withActor,
+      where: { userId, readAt: unread ? IsNull() : undefined },
+    });
+  },
+
+  countUnreadAsync: async (userId: string): Promise<number> => {
+    return repository().countBy({ userId, readAt: IsNull() });
+  },
+
+  // Resolves to null if the user has no such notification; one already read keeps its `readAt`
+  markReadAsync: async (userId: string, id: number): Promise<Notification | null> => {
+    await repository().update({ id, userId, readAt: IsNull() }, { readAt: new Date() });
+    return repository().findOne({ ...withActor, where: { id, userId } });
+  },
+
+  // Resolves to the number of notifications that were unread
+  markAllReadAsync: async (userId: string): Promise<number> => {
+    const result = await repository().update({ userId, readAt: IsNull() }, { readAt: new Date() });
+    return result.affected ?? 0;
+  },
+
+  findDigestPendingAsync: async (): Promise<PendingDigestNotification[]> => {
+    return repository().find({
+      relations: { actor: true, user: true },
+      select: { ...withActor.select, userId: true, user: { id: true, email: true, name: true } },
+      where: { digestPending: true },
+      order: { id: 'ASC' },
+    });
+  },
+
+  clearDigestPendingAsync: async (ids: number[]): Promise<void> => {
+    await repository().update({ id: In(ids) }, { digestPending: false });
+  },
+};
@@ -0,0 +1,128 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+
+import {
+  ListNotificationsSchema,
+  NotificationPreferencesSchema,
+  NotificationSchema,
+  ReadAllNotificationsSchema,
+  ReadNotificationSchema,
+  UnreadCountSchema,
+  UpdateNotificationPreferencesSchema,
+} from '@/api/notification/notificationModel';
+import { notificationService } from '@/api/notification/notificationService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+import { PaginatedSchema } from '@/common/utils/pagination';
+
+export const notificationRegistry = new OpenAPIRegistry();
+
+notificationRegistry.register('Notification', NotificationSchema);
+notificationRegistry.register('NotificationPreferences', NotificationPreferencesSchema);
+
+// The inbox of the requesting user
+export const notificationRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(notificationRegistry, {
+    method: 'get',
+    path: '/notifications',
+    tags: ['Notification'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Lists the notifications of the requesting user, newest first by default',
+    request: { query: ListNotificationsSchema.shape.query },
+    responses: createApiResponse(PaginatedSchema(NotificationSchema), 'Success'),
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListNotificationsSchema, PaginatedSchema(NotificationSchema)),
+    async (req: ValidatedRequest<typeof ListNotificationsSchema>, res: Response) => {
+      const serviceResponse = await notificationService.findAll(req.user!.id, req.query);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(notificationRegistry, {
+    method: 'get',
+    path: '/notifications/unread-count',
+    tags: ['Notification'],
+    security: [{ [bearerAuth.name]: [] }],
+    responses: createApiResponse(UnreadCountSchema, 'Success'),
+  });
+
+  router.get('/unread-count', async (req: Request, res: Response) => {
+    const serviceResponse = await notificationService.countUnread(req.user!.id);
+    handleServiceResponse(serviceResponse, res);
+  });
+
+  registerApiRoute(notificationRegistry, {
+    method: 'post',
+    path: '/notifications/read-all',
+    tags: ['Notification'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Marks every unread notification of the requesting user as read',
+    responses: createApiResponse(ReadAllNotificationsSchema, 'Success'),
+  });
+
+  router.post('/read-all', async (req: Request, res: Response) => {
+    const serviceResponse = await notificationService.markAllRead(req.user!.id);
+    handleServiceResponse(serviceResponse, res);
+  });
+
+  registerApiRoute(notificationRegistry, {
+    method: 'post',
+    path: '/notifications/{id}/read',
+    tags: ['Notification'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: { params: ReadNotificationSchema.shape.params },
+    responses: createApiResponse(NotificationSchema, 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.post(
+    '/:id/read',
+    validateRequest(ReadNotificationSchema, NotificationSchema),
+    async (req: ValidatedRequest<typeof ReadNotificationSchema>, res: Response) => {
+      const serviceResponse = await notificationService.markRead(req.user!.id, req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(notificationRegistry, {
+    method: 'get',
+    path: '/notifications/preferences',
+    tags: ['Notification'],
+    security: [{ [bearerAuth.name]: [] }],
+    responses: createApiResponse(NotificationPreferencesSchema, 'Success'),
+  });
+
+  router.get('/preferences', async (req: Request, res: Response) => {
+    const serviceResponse = await notificationService.findPreferences(req.user!.id);
+    handleServiceResponse(serviceResponse, res);
+  });
+
+  registerApiRoute(notificationRegistry, {
+    method: 'patch',
+    path: '/notifications/preferences',
+    tags: ['Notification'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      body: { content: { 'application/json': { schema: UpdateNotificationPreferencesSchema.shape.body } } },
+    },
+    responses: createApiResponse(NotificationPreferencesSchema, 'Success'),
+  });
+
+  router.patch(
+    '/preferences',
+    validateRequest(UpdateNotificationPreferencesSchema, NotificationPreferencesSchema),
+    async (req: ValidatedRequest<typeof UpdateNotificationPreferencesSchema>, res: Response) => {
+      const serviceResponse = await notificationService.updatePreferences(req.user!.id, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
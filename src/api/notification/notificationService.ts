@@ -0,0 +1,120 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { renderDigestEmail, renderNotificationEmail } from '@/api/notification/notificationEmails';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  Notification,
+  NotificationEntry,
+  NotificationPreferences,
+  UpdateNotificationPreferencesInput,
+} from '@/api/notification/notificationModel';
+import { notificationPreferenceRepository } from '@/api/notification/notificationPreferenceRepository';
+import { notificationRepository, PendingDigestNotification } from '@/api/notification/notificationRepository';
+import { userRepository } from '@/api/user/userRepository';
+import { sendEmailJob } from '@/common/email/emailJobs';
+import { enqueueJob } from '@/common/jobs/jobs';
+import { NotFoundError } from '@/common/models/errors';
+import { EmailFrequency } from '@/common/models/notificationType';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { PageQuery, Paginated } from '@/common/utils/pagination';
+import { logger } from '@/server';
+
+const findPreferences = async (userId: string): Promise<NotificationPreferences> =>
+  (await notificationPreferenceRepository.findByUserAsync(userId)) ?? DEFAULT_NOTIFICATION_PREFERENCES;
+
+// `userId` is the requesting user, who only ever sees their own notifications
+export const notificationService = traceService('notificationService', {
+  // Notifies a user of a change made by someone else, in the inbox and by email as their
+  // preferences allow. The change has already been made, so a failure is logged instead
+  // of being reported to the user who made it.
+  notify: async (entry: NotificationEntry): Promise<void> => {
+    if (entry.userId === entry.actorId) return;
+    try {
+      const { emailFrequency, mutedTypes } = await findPreferences(entry.userId);
+      if (mutedTypes.includes(entry.type)) return;
+      const notification = await notificationRepository.createAsync(entry, emailFrequency === EmailFrequency.Daily);
+      if (emailFrequency !== EmailFrequency.Instant) return;
+      const recipient = await userRepository.findByIdAsync(entry.userId);
+      if (!recipient) return;
+      await enqueueJob(sendEmailJob, { to: recipient.email, ...renderNotificationEmail(recipient, notification) });
+    } catch (ex) {
+      logger.error(`Error creating notification ${entry.type}: ${(ex as Error).message}`);
+    }
+  },
+
+  // Retrieves a page of the inbox, newest first by default
+  findAll: async (
+    userId: string,
+    query: PageQuery & { unread: boolean }
+  ): Promise<ServiceResponse<Paginated<Notification>>> => {
+    const { unread, ...page } = query;
+    const notifications = await notificationRepository.findPageAsync(userId, page, unread);
+    return new ServiceResponse<Paginated<Notification>>(
+      ResponseStatus.Success,
+      'Notifications found',
+      notifications,
+      StatusCodes.OK
+    );
+  },
+
+  countUnread: async (userId: string): Promise<ServiceResponse<{ count: number }>> => {
+    const count = await notificationRepository.countUnreadAsync(userId);
+    return new ServiceResponse(ResponseStatus.Success, 'Unread notifications counted', { count }, StatusCodes.OK);
+  },
+
+  markRead: async (userId: string, id: number): Promise<ServiceResponse<Notification>> => {
+    const notification = await notificationRepository.markReadAsync(userId, id);
+    if (!notification) throw new NotFoundError('Notification not found');
+    return new ServiceResponse(ResponseStatus.Success, 'Notification marked as read', notification, StatusCodes.OK);
+  },
+
+  markAllRead: async (userId: string): Promise<ServiceResponse<{ updated: number }>> => {
+    const updated = await notificationRepository.markAllReadAsync(userId);
+    return new ServiceResponse(ResponseStatus.Success, 'Notifications marked as read', { updated }, StatusCodes.OK);
+  },
+
+  findPreferences: async (userId: string): Promise<ServiceResponse<NotificationPreferences>> => {
+    const preferences = await findPreferences(userId);
+    return new ServiceResponse(ResponseStatus.Success, 'Notification preferences found', preferences, StatusCodes.OK);
+  },
+
+  // Changes the given preferences; the others keep their current value
+  updatePreferences: async (
+    userId: string,
+    input: UpdateNotificationPreferencesInput
+  ): Promise<ServiceResponse<NotificationPreferences>> => {
+    const current = await findPreferences(userId);
+    const preferences = await notificationPreferenceRepository.saveAsync(userId, {
+      emailFrequency: input.emailFrequency ?? current.emailFrequency,
+      mutedTypes: input.mutedTypes ? [...new Set(input.mutedTypes)] : current.mutedTypes,
+    });
+    return new ServiceResponse(ResponseStatus.Success, 'Notification preferences updated', preferences, StatusCodes.OK);
+  },
+
+  // Queues an email to each user with the notifications held for their digest, and resolves
+  // to the number of emails queued. Notifications of users who turned emails off since are
+  // dropped; sending is retried by the job queue.
+  sendDailyDigests: async (): Promise<number> => {
+    const byUser = new Map<string, PendingDigestNotification[]>();
+    (await notificationRepository.findDigestPendingAsync()).forEach((notification) => {
+      byUser.set(notification.userId, [...(byUser.get(notification.userId) ?? []), notification]);
+    });
+
+    let sent = 0;
+    for (const [userId, notifications] of byUser) {
+      try {
+        const { emailFrequency } = await findPreferences(userId);
+        if (emailFrequency !== EmailFrequency.Never) {
+          const { user } = notifications[0];
+          await enqueueJob(sendEmailJob, { to: user.email, ...renderDigestEmail(user, notifications) });
+          sent += 1;
+        }
+        await notificationRepository.clearDigestPendingAsync(notifications.map(({ id }) => id));
+      } catch (ex) {
+        logger.error(`Error queueing the notification digest of user ${userId}: ${(ex as Error).message}`);
+      }
+    }
+    return sent;
+  },
+});
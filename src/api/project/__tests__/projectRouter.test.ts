@@ -0,0 +1,121 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { Project } from '@/api/project/projectModel';
+import { projectRepository } from '@/api/project/projectRepository';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { app } from '@/server';
+
+vi.mock('@/api/project/projectRepository');
+vi.mock('@/common/middleware/requireProjectRole', () => ({
+  default: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+describe('Project API Endpoints', () => {
+  const ownerId = '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01';
+  const authorization = `Bearer ${signAccessToken({ sub: ownerId, email: 'alice@example.com' })}`;
+  const mockProject: Project = {
+    id: '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05',
+    title: 'Website redesign',
+    description: 'Refresh the marketing site',
+    ownerId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+  };
+
+  describe('GET /projects', () => {
+    it('should list the projects of the authenticated user', async () => {
+      // Arrange
+      (projectRepository.findAllForMemberAsync as Mock).mockResolvedValue([mockProject]);
+
+      // Act
+      const response = await request(app).get('/projects').set('Authorization', authorization);
+      const responseBody: ServiceResponse<Project[]> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(responseBody.responseObject).toHaveLength(1);
+      expect(responseBody.responseObject[0].id).toEqual(mockProject.id);
+      expect(projectRepository.findAllForMemberAsync).toHaveBeenCalledWith(ownerId);
+    });
+
+    it('should require an access token', async () => {
+      // Act
+      const response = await request(app).get('/projects');
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.UNAUTHORIZED);
+    });
+  });
+
+  describe('GET /projects/:id', () => {
+    it('should return a bad request for invalid ID format', async () => {
+      // Act
+      const response = await request(app).get('/projects/abc').set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('POST /projects', () => {
+    it('should create a project', async () => {
+      // Arrange
+      (projectRepository.createAsync as Mock).mockResolvedValue(mockProject);
+
+      // Act
+      const response = await request(app)
+        .post('/projects')
+        .set('Authorization', authorization)
+        .send({ title: mockProject.title, description: mockProject.description });
+      const responseBody: ServiceResponse<Project> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.CREATED);
+      expect(responseBody.responseObject.title).toEqual(mockProject.title);
+    });
+
+    it('should return a bad request for a missing title', async () => {
+      // Act
+      const response = await request(app).post('/projects').set('Authorization', authorization).send({});
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('PATCH /projects/:id', () => {
+    it('should update a project', async () => {
+      // Arrange
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(mockProject);
+      (projectRepository.updateAsync as Mock).mockResolvedValue({ ...mockProject, title: 'Renamed' });
+
+      // Act
+      const response = await request(app)
+        .patch(`/projects/${mockProject.id}`)
+        .set('Authorization', authorization)
+        .send({ title: 'Renamed' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(response.body.responseObject.title).toEqual('Renamed');
+    });
+  });
+
+  describe('DELETE /projects/:id', () => {
+    it('should delete a project', async () => {
+      // Arrange
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(mockProject);
+      (projectRepository.softDeleteAsync as Mock).mockResolvedValue(true);
+
+      // Act
+      const response = await request(app).delete(`/projects/${mockProject.id}`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { StatusCodes } from 'http-status-codes';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { activityRepository } from '@/api/activity/activityRepository';
+import { Project } from '@/api/project/projectModel';
+import { projectRepository } from '@/api/project/projectRepository';
+import { projectService } from '@/api/project/projectService';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
+
+vi.mock('@/api/activity/activityRepository');
+vi.mock('@/api/project/projectRepository');
+vi.mock('@/server', () => ({
+  ...vi.importActual('@/server'),
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('projectService', () => {
+  const ownerId = '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01';
+  const memberId = '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02';
+  const mockProject: Project = {
+    id: '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05',
+    title: 'Website redesign',
+    description: null,
+    ownerId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+  };
+
+  describe('findAllForUser', () => {
+    it('returns the projects of the user', async () => {
+      // Arrange
+      (projectRepository.findAllForMemberAsync as Mock).mockResolvedValue([mockProject]);
+
+      // Act
+      const result = await projectService.findAllForUser(memberId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual([mockProject]);
+      expect(projectRepository.findAllForMemberAsync).toHaveBeenCalledWith(memberId);
+    });
+
+    it('propagates errors from findAllForMemberAsync', async () => {
+      // Arrange
+      (projectRepository.findAllForMemberAsync as Mock).mockRejectedValue(new Error('Database error'));
+
+      // Act
+      const result = projectService.findAllForUser(memberId);
+
+      // Assert
+      await expect(result).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('findById', () => {
+    it('returns a project for a valid ID', async () => {
+      // Arrange
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(mockProject);
+
+      // Act
+      const result = await projectService.findById(mockProject.id);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual(mockProject);
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = projectService.findById(mockProject.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('create', () => {
+    it('creates a project owned by the user', async () => {
+      // Arrange
+      (projectRepository.createAsync as Mock).mockResolvedValue(mockProject);
+
+      // Act
+      const result = await projectService.create(ownerId, { title: mockProject.title });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(projectRepository.createAsync).toHaveBeenCalledWith(
+        ownerId,
+        expect.objectContaining({ title: mockProject.title })
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('updates the project and records the rename', async () => {
+      // Arrange
+      const updatedProject = { ...mockProject, title: 'New title' };
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(mockProject);
+      (projectRepository.updateAsync as Mock).mockResolvedValue(updatedProject);
+
+      // Act
+      const result = await projectService.update(ownerId, mockProject.id, { title: 'New title', description: null });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual(updatedProject);
+      expect(activityRepository.createAsync).toHaveBeenCalledTimes(1);
+      expect(activityRepository.createAsync).toHaveBeenCalledWith({
+        userId: ownerId,
+        projectId: mockProject.id,
+        action: ActivityAction.ProjectRenamed,
+        data: { from: mockProject.title, to: 'New title' },
+      });
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = projectService.update(ownerId, mockProject.id, { title: 'New title' });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(projectRepository.updateAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('moves the project to the trash', async () => {
+      // Arrange
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(mockProject);
+      (projectRepository.softDeleteAsync as Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await projectService.delete(ownerId, mockProject.id);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(projectRepository.softDeleteAsync).toHaveBeenCalledWith(mockProject.id);
+      expect(activityRepository.createAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ action: ActivityAction.ProjectDeleted, data: { title: mockProject.title } })
+      );
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = projectService.delete(ownerId, mockProject.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(projectRepository.softDeleteAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('records the restore of the project', async () => {
+      // Arrange
+      (projectRepository.restoreAsync as Mock).mockResolvedValue(mockProject);
+
+      // Act
+      const result = await projectService.restore(ownerId, mockProject.id);
+
+      // Assert
+      expect(result.responseObject).toEqual(mockProject);
+      expect(activityRepository.createAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ action: ActivityAction.ProjectRestored, projectId: mockProject.id })
+      );
+    });
+
+    it('returns a conflict error for projects that are not in the trash', async () => {
+      // Arrange
+      (projectRepository.restoreAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = projectService.restore(ownerId, mockProject.id);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type Project = z.infer<typeof ProjectSchema>;
+export const ProjectSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  description: z.string().nullable(),
+  ownerId: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  deletedAt: z.date().nullable().openapi({ description: 'When the project was moved to the trash' }),
+});
+
+export type CreateProjectInput = z.infer<typeof CreateProjectSchema>['body'];
+export type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>['body'];
+
+const ProjectFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+  description: z.string().nullable().optional(),
+});
+
+// Input Validation for 'GET projects/:id' endpoint
+export const GetProjectSchema = z.object({
+  params: z.object({ id: commonValidations.id }),
+});
+
+// Input Validation for 'POST projects' endpoint
+export const CreateProjectSchema = z.object({
+  body: ProjectFieldsSchema,
+});
+
+// Input Validation for 'PATCH projects/:id' endpoint
+export const UpdateProjectSchema = z.object({
+  params: z.object({ id: commonValidations.id }),
+  body: ProjectFieldsSchema.partial(),
+});
+
+// Input Validation for 'DELETE projects/:id' endpoint
+export const DeleteProjectSchema = GetProjectSchema;
+
+// Input Validation for 'POST projects/:id/restore' endpoint
+export const RestoreProjectSchema = GetProjectSchema;
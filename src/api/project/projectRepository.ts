@@ -0,0 +1,80 @@
+import { IsNull, Not } from 'typeorm';
+
+import { Project } from '@/api/project/projectModel';
+import { Project as ProjectEntity } from '@/common/entities/project.entity';
+import { ProjectMembers } from '@/common/entities/projectmembers.entity';
+import { ProjectRole } from '@/common/models/projectRole';
+import { cascadeDeletedAt } from '@/common/utils/trash';
+import dataSource from '@/configs/typeorm.config';
+
+type ProjectWriteData = Partial<Pick<ProjectEntity, 'title' | 'description'>>;
+
+const repository = () => dataSource.getRepository(ProjectEntity);
+
+export const projectRepository = {
+  // Projects the user has been added to as a member, including the ones they own
+  findAllForMemberAsync: async (userId: string): Promise<Project[]> => {
+    return repository()
+      .createQueryBuilder('project')
+      .innerJoin('project.projectMembers', 'member', 'member.userId = :userId', { userId })
+      .orderBy('project.createdAt', 'ASC')
+      .getMany();
+  },
+
+  findByIdAsync: async (id: string): Promise<Project | null> => {
+    return repository().findOneBy({ id });
+  },
+
+  // Projects in the trash owned by the user, most recently deleted first
+  findDeletedForOwnerAsync: async (ownerId: string): Promise<Project[]> => {
+    return repository().find({
+      where: { ownerId, deletedAt: Not(IsNull()) },
+      order: { deletedAt: 'DESC' },
+      withDeleted: true,
+    });
+  },
+
+  // Creates the project together with the owner's membership
+  createAsync: async (ownerId: string, data: ProjectWriteData): Promise<Project> => {
+    return dataSource.transaction(async (manager) => {
+      const project = await manager.save(manager.create(ProjectEntity, { ...data, ownerId }));
+      await manager.save(
+        manager.create(ProjectMembers, { projectId: project.id, userId: ownerId, role: ProjectRole.Owner })
+      );
+      return project;
+    });
+  },
+
+  updateAsync: async (id: string, data: ProjectWriteData): Promise<Project | null> => {
+    const project = await repository().findOneBy({ id });
+    if (!project) return null;
+    await repository().save(repository().merge(project, data));
+    return repository().findOneBy({ id });
+  },
+
+  // Moves the project to the trash together with its boards and cards
+  softDeleteAsync: async (id: string): Promise<boolean> => {
+    return dataSource.transaction(async (manager) => {
+      const project = await manager.findOneBy(ProjectEntity, { id });
+      if (!project) return false;
+      const deletedAt = new Date();
+      await manager.save(manager.merge(ProjectEntity, project, { deletedAt }));
+      await cascadeDeletedAt(manager, { projectId: id }, null, deletedAt);
+      return true;
+    });
+  },
+
+  // Takes the project out of the trash with the boards and cards that were deleted with it
+  restoreAsync: async (id: string): Promise<Project | null> => {
+    return dataSource.transaction(async (manager) => {
+      const project = await manager.findOne(ProjectEntity, {
+        where: { id, deletedAt: Not(IsNull()) },
+        withDeleted: true,
+      });
+      if (!project) return null;
+      await cascadeDeletedAt(manager, { projectId: id }, project.deletedAt, null);
+      await manager.save(manager.merge(ProjectEntity, project, { deletedAt: null }));
+      return manager.findOneBy(ProjectEntity, { id });
+    });
+  },
+};
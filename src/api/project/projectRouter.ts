@@ -0,0 +1,177 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import { activityRouter } from '@/api/activity/activityRouter';
+import { attachmentRouter } from '@/api/attachment/attachmentRouter';
+import { boardRouter } from '@/api/board/boardRouter';
+import {
+  CreateProjectSchema,
+  DeleteProjectSchema,
+  GetProjectSchema,
+  ProjectSchema,
+  RestoreProjectSchema,
+  UpdateProjectSchema,
+} from '@/api/project/projectModel';
+import { projectService } from '@/api/project/projectService';
+import { projectMemberRouter } from '@/api/projectMember/projectMemberRouter';
+import { trashRouter } from '@/api/trash/trashRouter';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const projectRegistry = new OpenAPIRegistry();
+
+projectRegistry.register('Project', ProjectSchema);
+
+export const projectRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(projectRegistry, {
+    method: 'get',
+    path: '/projects',
+    tags: ['Project'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Lists the projects the authenticated user owns or is a member of',
+    responses: createApiResponse(z.array(ProjectSchema), 'Success'),
+  });
+
+  router.get('/', async (req: Request, res: Response) => {
+    const serviceResponse = await projectService.findAllForUser(req.user!.id);
+    handleServiceResponse(serviceResponse, res);
+  });
+
+  registerApiRoute(projectRegistry, {
+    method: 'get',
+    path: '/projects/trash',
+    tags: ['Project'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Lists the deleted projects the authenticated user owns, most recently deleted first. They are purged after TRASH_RETENTION_DAYS.',
+    responses: createApiResponse(z.array(ProjectSchema), 'Success'),
+  });
+
+  // Declared before '/:id', which would otherwise take 'trash' as a project id
+  router.get('/trash', async (req: Request, res: Response) => {
+    const serviceResponse = await projectService.findDeletedForUser(req.user!.id);
+    handleServiceResponse(serviceResponse, res);
+  });
+
+  registerApiRoute(projectRegistry, {
+    method: 'get',
+    path: '/projects/{id}',
+    tags: ['Project'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: { params: GetProjectSchema.shape.params },
+    responses: createApiResponse(ProjectSchema, 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/:id',
+    validateRequest(GetProjectSchema, ProjectSchema),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof GetProjectSchema>, res: Response) => {
+      const serviceResponse = await projectService.findById(req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(projectRegistry, {
+    method: 'post',
+    path: '/projects',
+    tags: ['Project'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      body: { content: { 'application/json': { schema: CreateProjectSchema.shape.body } } },
+    },
+    responses: createApiResponse(ProjectSchema, 'Created', StatusCodes.CREATED),
+  });
+
+  router.post(
+    '/',
+    validateRequest(CreateProjectSchema, ProjectSchema),
+    async (req: ValidatedRequest<typeof CreateProjectSchema>, res: Response) => {
+      const serviceResponse = await projectService.create(req.user!.id, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(projectRegistry, {
+    method: 'patch',
+    path: '/projects/{id}',
+    tags: ['Project'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Requires the admin role',
+    request: {
+      params: UpdateProjectSchema.shape.params,
+      body: { content: { 'application/json': { schema: UpdateProjectSchema.shape.body } } },
+    },
+    responses: createApiResponse(ProjectSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.patch(
+    '/:id',
+    validateRequest(UpdateProjectSchema, ProjectSchema),
+    requireProjectRole(ProjectRole.Admin),
+    async (req: ValidatedRequest<typeof UpdateProjectSchema>, res: Response) => {
+      const serviceResponse = await projectService.update(req.user!.id, req.params.id, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(projectRegistry, {
+    method: 'delete',
+    path: '/projects/{id}',
+    tags: ['Project'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Moves the project to the trash with its boards and cards. Requires the owner role',
+    request: { params: DeleteProjectSchema.shape.params },
+    responses: createApiResponse(z.null(), 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.delete(
+    '/:id',
+    validateRequest(DeleteProjectSchema, z.null()),
+    requireProjectRole(ProjectRole.Owner),
+    async (req: ValidatedRequest<typeof DeleteProjectSchema>, res: Response) => {
+      const serviceResponse = await projectService.delete(req.user!.id, req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(projectRegistry, {
+    method: 'post',
+    path: '/projects/{id}/restore',
+    tags: ['Project'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Takes the project out of the trash with the boards and cards deleted along with it. Requires the owner role',
+    request: { params: RestoreProjectSchema.shape.params },
+    responses: createApiResponse(ProjectSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/:id/restore',
+    validateRequest(RestoreProjectSchema, ProjectSchema),
+    requireProjectRole(ProjectRole.Owner, { includeDeleted: true }),
+    async (req: ValidatedRequest<typeof RestoreProjectSchema>, res: Response) => {
+      const serviceResponse = await projectService.restore(req.user!.id, req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  router.use('/:projectId/members', projectMemberRouter);
+  router.use('/:projectId/boards', boardRouter);
+  router.use('/:projectId/activity', activityRouter);
+  router.use('/:projectId/attachments', attachmentRouter);
+  router.use('/:projectId/trash', trashRouter);
+
+  return router;
+})();
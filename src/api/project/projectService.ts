@@ -0,0 +1,91 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { activityService } from '@/api/activity/activityService';
+import { CreateProjectInput, Project, UpdateProjectInput } from '@/api/project/projectModel';
+import { projectRepository } from '@/api/project/projectRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { changedFields } from '@/common/utils/changedFields';
+
+const projectNotFound = () => new NotFoundError('Project not found');
+
+// Access to single projects is checked by the `requireProjectRole` middleware
+// before these methods are called. `userId` is the requesting user.
+export const projectService = traceService('projectService', {
+  // Retrieves the projects the user is a member of
+  findAllForUser: async (userId: string): Promise<ServiceResponse<Project[]>> => {
+    const projects = await projectRepository.findAllForMemberAsync(userId);
+    return new ServiceResponse<Project[]>(ResponseStatus.Success, 'Projects found', projects, StatusCodes.OK);
+  },
+
+  // Retrieves the projects in the trash that the user owns
+  findDeletedForUser: async (userId: string): Promise<ServiceResponse<Project[]>> => {
+    const projects = await projectRepository.findDeletedForOwnerAsync(userId);
+    return new ServiceResponse<Project[]>(ResponseStatus.Success, 'Deleted projects found', projects, StatusCodes.OK);
+  },
+
+  // Retrieves a single project by its ID
+  findById: async (id: string): Promise<ServiceResponse<Project>> => {
+    const project = await projectRepository.findByIdAsync(id);
+    if (!project) throw projectNotFound();
+    return new ServiceResponse<Project>(ResponseStatus.Success, 'Project found', project, StatusCodes.OK);
+  },
+
+  // Creates a project and makes the user its owner
+  create: async (userId: string, input: CreateProjectInput): Promise<ServiceResponse<Project>> => {
+    const { title, description } = input;
+    const project = await projectRepository.createAsync(userId, { title, description });
+    await activityService.record({
+      userId,
+      projectId: project.id,
+      action: ActivityAction.ProjectCreated,
+      data: { title },
+    });
+    return new ServiceResponse<Project>(ResponseStatus.Success, 'Project created', project, StatusCodes.CREATED);
+  },
+
+  // Updates the given fields of a project
+  update: async (userId: string, id: string, input: UpdateProjectInput): Promise<ServiceResponse<Project | null>> => {
+    const project = await projectRepository.findByIdAsync(id);
+    if (!project) throw projectNotFound();
+    const { title, description } = input;
+    const fields = changedFields(project, { title, description });
+    const updatedProject = await projectRepository.updateAsync(id, { title, description });
+    await activityService.recordEdit(
+      { userId, projectId: id },
+      { renamed: ActivityAction.ProjectRenamed, updated: ActivityAction.ProjectUpdated },
+      { from: project.title, to: title },
+      fields
+    );
+    return new ServiceResponse(ResponseStatus.Success, 'Project updated', updatedProject, StatusCodes.OK);
+  },
+
+  // Moves a project to the trash with its boards and cards; it is purged with its
+  // memberships and attached files once TRASH_RETENTION_DAYS have passed
+  delete: async (userId: string, id: string): Promise<ServiceResponse> => {
+    const project = await projectRepository.findByIdAsync(id);
+    if (!project || !(await projectRepository.softDeleteAsync(id))) throw projectNotFound();
+    await activityService.record({
+      userId,
+      projectId: id,
+      action: ActivityAction.ProjectDeleted,
+      data: { title: project.title },
+    });
+    return new ServiceResponse(ResponseStatus.Success, 'Project deleted', null, StatusCodes.OK);
+  },
+
+  // Takes a project out of the trash with the boards and cards deleted along with it
+  restore: async (userId: string, id: string): Promise<ServiceResponse<Project | null>> => {
+    const project = await projectRepository.restoreAsync(id);
+    if (!project) throw new ConflictError('Project is not in the trash');
+    await activityService.record({
+      userId,
+      projectId: id,
+      action: ActivityAction.ProjectRestored,
+      data: { title: project.title },
+    });
+    return new ServiceResponse(ResponseStatus.Success, 'Project restored', project, StatusCodes.OK);
+  },
+});
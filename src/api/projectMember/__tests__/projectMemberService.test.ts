@@ -0,0 +1,191 @@
+import { StatusCodes } from 'http-status-codes';
+import { describe, expect, it, Mock, vi } from 'vitest';
+
+import { notificationService } from '@/api/notification/notificationService';
+import { projectRepository } from '@/api/project/projectRepository';
+import { ProjectMember } from '@/api/projectMember/projectMemberModel';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { projectMemberService } from '@/api/projectMember/projectMemberService';
+import { userRepository } from '@/api/user/userRepository';
+import { ConflictError, ForbiddenError, NotFoundError } from '@/common/models/errors';
+import { NotificationType } from '@/common/models/notificationType';
+import { ProjectRole } from '@/common/models/projectRole';
+
+vi.mock('@/api/activity/activityRepository');
+vi.mock('@/api/notification/notificationService');
+vi.mock('@/api/project/projectRepository');
+vi.mock('@/api/projectMember/projectMemberRepository');
+vi.mock('@/api/user/userRepository');
+vi.mock('@/server', () => ({
+  ...vi.importActual('@/server'),
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('projectMemberService', () => {
+  const projectId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c05';
+  const ownerId = '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01';
+  const userId = '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02';
+
+  const memberWithRole = (role: ProjectRole, memberUserId = userId): ProjectMember => ({
+    id: '0d6f3c1a-2b4e-4c8d-9e1f-3a5b7c9d1e03',
+    projectId,
+    userId: memberUserId,
+    role,
+    user: { id: memberUserId, email: 'bob@example.com', name: 'Bob', avatarUrl: null },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  describe('invite', () => {
+    it('adds an existing user as a member by default', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockResolvedValue({ id: userId });
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(null);
+      (projectMemberRepository.createAsync as Mock).mockResolvedValue(memberWithRole(ProjectRole.Member));
+      (projectRepository.findByIdAsync as Mock).mockResolvedValue({ id: projectId, title: 'Website redesign' });
+
+      // Act
+      const result = await projectMemberService.invite(projectId, ownerId, ProjectRole.Admin, {
+        email: 'bob@example.com',
+      });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(projectMemberRepository.createAsync).toHaveBeenCalledWith(projectId, userId, ProjectRole.Member);
+      expect(notificationService.notify).toHaveBeenCalledWith({
+        type: NotificationType.ProjectInvitation,
+        userId,
+        actorId: ownerId,
+        projectId,
+        data: { projectTitle: 'Website redesign', role: ProjectRole.Member },
+      });
+    });
+
+    it('only lets the owner add admins', async () => {
+      // Act
+      const result = projectMemberService.invite(projectId, ownerId, ProjectRole.Admin, {
+        email: 'bob@example.com',
+        role: ProjectRole.Admin,
+      });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+      expect(projectMemberRepository.createAsync).not.toHaveBeenCalled();
+    });
+
+    it('returns a conflict error for existing members', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockResolvedValue({ id: userId });
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(memberWithRole(ProjectRole.Viewer));
+
+      // Act
+      const result = projectMemberService.invite(projectId, ownerId, ProjectRole.Owner, {
+        email: 'bob@example.com',
+      });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('returns a not found error for unknown emails', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = projectMemberService.invite(projectId, ownerId, ProjectRole.Owner, {
+        email: 'nobody@example.com',
+      });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('updateRole', () => {
+    it('lets admins change the role of members', async () => {
+      // Arrange
+      const member = memberWithRole(ProjectRole.Member);
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(member);
+      (projectMemberRepository.updateRoleAsync as Mock).mockResolvedValue({ ...member, role: ProjectRole.Viewer });
+
+      // Act
+      const result = await projectMemberService.updateRole(
+        projectId,
+        userId,
+        ownerId,
+        ProjectRole.Admin,
+        ProjectRole.Viewer
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(projectMemberRepository.updateRoleAsync).toHaveBeenCalledWith(member.id, ProjectRole.Viewer);
+    });
+
+    it('does not let admins demote other admins', async () => {
+      // Arrange
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(memberWithRole(ProjectRole.Admin));
+
+      // Act
+      const result = projectMemberService.updateRole(projectId, userId, ownerId, ProjectRole.Admin, ProjectRole.Member);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it("never changes the owner's role", async () => {
+      // Arrange
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(
+        memberWithRole(ProjectRole.Owner, ownerId)
+      );
+
+      // Act
+      const result = projectMemberService.updateRole(projectId, ownerId, ownerId, ProjectRole.Owner, ProjectRole.Admin);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+      expect(projectMemberRepository.updateRoleAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('lets members leave a project', async () => {
+      // Arrange
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(memberWithRole(ProjectRole.Viewer));
+
+      // Act
+      const result = await projectMemberService.remove(projectId, userId, userId, ProjectRole.Viewer);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(projectMemberRepository.deleteAsync).toHaveBeenCalled();
+    });
+
+    it('does not let members remove others', async () => {
+      // Arrange
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(memberWithRole(ProjectRole.Viewer));
+
+      // Act
+      const result = projectMemberService.remove(projectId, userId, ownerId, ProjectRole.Member);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+      expect(projectMemberRepository.deleteAsync).not.toHaveBeenCalled();
+    });
+
+    it('never removes the owner', async () => {
+      // Arrange
+      (projectMemberRepository.findByProjectAndUserAsync as Mock).mockResolvedValue(
+        memberWithRole(ProjectRole.Owner, ownerId)
+      );
+
+      // Act
+      const result = projectMemberService.remove(projectId, ownerId, ownerId, ProjectRole.Owner);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+});
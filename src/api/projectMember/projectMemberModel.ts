@@ -0,0 +1,52 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { PublicUserSchema } from '@/api/user/userModel';
+import { ProjectRole } from '@/common/models/projectRole';
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type ProjectMember = z.infer<typeof ProjectMemberSchema>;
+export const ProjectMemberSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  userId: z.string().uuid(),
+  role: z.nativeEnum(ProjectRole),
+  user: PublicUserSchema,
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// The owner role is given to the creator of a project and cannot be assigned
+const AssignableRoleSchema = z.enum([ProjectRole.Admin, ProjectRole.Member, ProjectRole.Viewer]);
+
+export type InviteProjectMemberInput = z.infer<typeof InviteProjectMemberSchema>['body'];
+
+const ProjectParamsSchema = z.object({ projectId: commonValidations.id });
+const ProjectMemberParamsSchema = ProjectParamsSchema.extend({ userId: commonValidations.id });
+
+// Input Validation for 'GET projects/:projectId/members' endpoint
+export const ListProjectMembersSchema = z.object({
+  params: ProjectParamsSchema,
+});
+
+// Input Validation for 'POST projects/:projectId/members' endpoint
+export const InviteProjectMemberSchema = z.object({
+  params: ProjectParamsSchema,
+  body: z.object({
+    email: commonValidations.email,
+    role: AssignableRoleSchema.optional().openapi({ description: `Defaults to ${ProjectRole.Member}` }),
+  }),
+});
+
+// Input Validation for 'PATCH projects/:projectId/members/:userId' endpoint
+export const UpdateProjectMemberSchema = z.object({
+  params: ProjectMemberParamsSchema,
+  body: z.object({ role: AssignableRoleSchema }),
+});
+
+// Input Validation for 'DELETE projects/:projectId/members/:userId' endpoint
+export const RemoveProjectMemberSchema = z.object({
+  params: ProjectMemberParamsSchema,
+});
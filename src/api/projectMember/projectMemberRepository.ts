@@ -0,0 +1,49 @@
+import { ProjectMember } from '@/api/projectMember/projectMemberModel';
+import { ProjectMembers } from '@/common/entities/projectmembers.entity';
+import { ProjectRole } from '@/common/models/projectRole';
+import dataSource from '@/configs/typeorm.config';
+
+const repository = () => dataSource.getRepository(ProjectMembers);
+
+// Only the public profile of the member is loaded alongside the membership
+const withUser = {
+  relations: { user: true },
+  select: {
+    id: true,
+    projectId: true,
+    userId: true,
+    role: true,
+    createdAt: true,
+    updatedAt: true,
+    user: { id: true, email: true, name: true, avatarUrl: true },
+  },
+} as const;
+
+export const projectMemberRepository = {
+  findAllByProjectAsync: async (projectId: string): Promise<ProjectMember[]> => {
+    return repository().find({ ...withUser, where: { projectId }, order: { createdAt: 'ASC' } });
+  },
+
+  findByProjectAndUserAsync: async (projectId: string, userId: string): Promise<ProjectMember | null> => {
+    return repository().findOne({ ...withUser, where: { projectId, userId } });
+  },
+
+  createAsync: async (projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember> => {
+    const { id } = await repository().save(repository().create({ projectId, userId, role }));
+    return repository().findOneOrFail({ ...withUser, where: { id } });
+  },
+
+  updateRoleAsync: async (id: string, role: ProjectRole): Promise<ProjectMember | null> => {
+    const member = await repository().findOneBy({ id });
+    if (!member) return null;
+    await repository().save(repository().merge(member, { role }));
+    return repository().findOne({ ...withUser, where: { id } });
+  },
+
+  deleteAsync: async (id: string): Promise<boolean> => {
+    const member = await repository().findOneBy({ id });
+    if (!member) return false;
+    await repository().remove(member);
+    return true;
+  },
+};
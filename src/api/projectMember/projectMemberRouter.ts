@@ -0,0 +1,133 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+
+import {
+  InviteProjectMemberSchema,
+  ListProjectMembersSchema,
+  ProjectMemberSchema,
+  RemoveProjectMemberSchema,
+  UpdateProjectMemberSchema,
+} from '@/api/projectMember/projectMemberModel';
+import { projectMemberService } from '@/api/projectMember/projectMemberService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const projectMemberRegistry = new OpenAPIRegistry();
+
+projectMemberRegistry.register('ProjectMember', ProjectMemberSchema);
+
+// Mounted under '/projects/:projectId/members'
+export const projectMemberRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  registerApiRoute(projectMemberRegistry, {
+    method: 'get',
+    path: '/projects/{projectId}/members',
+    tags: ['Project Member'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: { params: ListProjectMembersSchema.shape.params },
+    responses: createApiResponse(z.array(ProjectMemberSchema), 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/',
+    validateRequest(ListProjectMembersSchema, z.array(ProjectMemberSchema)),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof ListProjectMembersSchema>, res: Response) => {
+      const serviceResponse = await projectMemberService.findAll(req.params.projectId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(projectMemberRegistry, {
+    method: 'post',
+    path: '/projects/{projectId}/members',
+    tags: ['Project Member'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Adds an existing user to the project. Requires the admin role; adding admins requires the owner role.',
+    request: {
+      params: InviteProjectMemberSchema.shape.params,
+      body: { content: { 'application/json': { schema: InviteProjectMemberSchema.shape.body } } },
+    },
+    responses: createApiResponse(ProjectMemberSchema, 'Created', StatusCodes.CREATED),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/',
+    validateRequest(InviteProjectMemberSchema, ProjectMemberSchema),
+    requireProjectRole(ProjectRole.Admin),
+    async (req: ValidatedRequest<typeof InviteProjectMemberSchema>, res: Response) => {
+      const serviceResponse = await projectMemberService.invite(
+        req.params.projectId,
+        req.user!.id,
+        req.projectRole!,
+        req.body
+      );
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(projectMemberRegistry, {
+    method: 'patch',
+    path: '/projects/{projectId}/members/{userId}',
+    tags: ['Project Member'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Changes the role of a member. Requires the admin role; granting or revoking admin requires the owner role.',
+    request: {
+      params: UpdateProjectMemberSchema.shape.params,
+      body: { content: { 'application/json': { schema: UpdateProjectMemberSchema.shape.body } } },
+    },
+    responses: createApiResponse(ProjectMemberSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.patch(
+    '/:userId',
+    validateRequest(UpdateProjectMemberSchema, ProjectMemberSchema),
+    requireProjectRole(ProjectRole.Admin),
+    async (req: ValidatedRequest<typeof UpdateProjectMemberSchema>, res: Response) => {
+      const { projectId, userId } = req.params;
+      const serviceResponse = await projectMemberService.updateRole(
+        projectId,
+        userId,
+        req.user!.id,
+        req.projectRole!,
+        req.body.role
+      );
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(projectMemberRegistry, {
+    method: 'delete',
+    path: '/projects/{projectId}/members/{userId}',
+    tags: ['Project Member'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Removes a member. Members may remove themselves; removing others requires the admin role.',
+    request: { params: RemoveProjectMemberSchema.shape.params },
+    responses: createApiResponse(z.null(), 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.delete(
+    '/:userId',
+    validateRequest(RemoveProjectMemberSchema, z.null()),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof RemoveProjectMemberSchema>, res: Response) => {
+      const { projectId, userId } = req.params;
+      const serviceResponse = await projectMemberService.remove(projectId, userId, req.user!.id, req.projectRole!);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
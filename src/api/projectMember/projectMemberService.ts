@@ -0,0 +1,131 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { activityService } from '@/api/activity/activityService';
+import { notificationService } from '@/api/notification/notificationService';
+import { projectRepository } from '@/api/project/projectRepository';
+import { InviteProjectMemberInput, ProjectMember } from '@/api/projectMember/projectMemberModel';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { userRepository } from '@/api/user/userRepository';
+import { ActivityAction } from '@/common/models/activityAction';
+import { ConflictError, ForbiddenError, NotFoundError } from '@/common/models/errors';
+import { NotificationType } from '@/common/models/notificationType';
+import { hasProjectRole, ProjectRole } from '@/common/models/projectRole';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { realtimeEvents, RealtimeEventType } from '@/common/realtime/realtimeEvents';
+import { traceService } from '@/common/tracing/tracing';
+
+const findMemberOrThrow = async (projectId: string, userId: string): Promise<ProjectMember> => {
+  const member = await projectMemberRepository.findByProjectAndUserAsync(projectId, userId);
+  if (!member) throw new NotFoundError('Project member not found');
+  return member;
+};
+
+// Admins manage members and viewers; only the owner can grant, change or revoke the admin role.
+// `actingRole` is the role of the requesting user, as resolved by `requireProjectRole`.
+export const projectMemberService = traceService('projectMemberService', {
+  // Retrieves all members of a project
+  findAll: async (projectId: string): Promise<ServiceResponse<ProjectMember[]>> => {
+    const members = await projectMemberRepository.findAllByProjectAsync(projectId);
+    return new ServiceResponse<ProjectMember[]>(
+      ResponseStatus.Success,
+      'Project members found',
+      members,
+      StatusCodes.OK
+    );
+  },
+
+  // Adds an existing user to a project
+  invite: async (
+    projectId: string,
+    actingUserId: string,
+    actingRole: ProjectRole,
+    input: InviteProjectMemberInput
+  ): Promise<ServiceResponse<ProjectMember>> => {
+    const role = input.role ?? ProjectRole.Member;
+    if (role === ProjectRole.Admin && actingRole !== ProjectRole.Owner) {
+      throw new ForbiddenError('Only the project owner can add admins');
+    }
+    const user = await userRepository.findByEmailAsync(input.email);
+    if (!user) throw new NotFoundError('User not found');
+    if (await projectMemberRepository.findByProjectAndUserAsync(projectId, user.id)) {
+      throw new ConflictError('User is already a member');
+    }
+    const member = await projectMemberRepository.createAsync(projectId, user.id, role);
+    await activityService.record({
+      userId: actingUserId,
+      projectId,
+      action: ActivityAction.MemberAdded,
+      data: { userId: user.id, role },
+    });
+    const project = await projectRepository.findByIdAsync(projectId);
+    if (project) {
+      await notificationService.notify({
+        type: NotificationType.ProjectInvitation,
+        userId: user.id,
+        actorId: actingUserId,
+        projectId,
+        data: { projectTitle: project.title, role },
+      });
+    }
+    realtimeEvents.publish(RealtimeEventType.MemberAdded, { projectId, boardId: null }, member);
+    return new ServiceResponse<ProjectMember>(ResponseStatus.Success, 'Member added', member, StatusCodes.CREATED);
+  },
+
+  // Changes the role of a member
+  updateRole: async (
+    projectId: string,
+    userId: string,
+    actingUserId: string,
+    actingRole: ProjectRole,
+    role: ProjectRole
+  ): Promise<ServiceResponse<ProjectMember | null>> => {
+    const member = await findMemberOrThrow(projectId, userId);
+    if (member.role === ProjectRole.Owner) {
+      throw new ForbiddenError("The project owner's role cannot be changed");
+    }
+    if ((member.role === ProjectRole.Admin || role === ProjectRole.Admin) && actingRole !== ProjectRole.Owner) {
+      throw new ForbiddenError('Only the project owner can grant or revoke the admin role');
+    }
+    const updatedMember = await projectMemberRepository.updateRoleAsync(member.id, role);
+    await activityService.record({
+      userId: actingUserId,
+      projectId,
+      action: ActivityAction.MemberRoleChanged,
+      data: { userId, from: member.role, to: role },
+    });
+    if (updatedMember) {
+      realtimeEvents.publish(RealtimeEventType.MemberUpdated, { projectId, boardId: null }, updatedMember);
+    }
+    return new ServiceResponse(ResponseStatus.Success, 'Member role updated', updatedMember, StatusCodes.OK);
+  },
+
+  // Removes a member from a project; any member other than the owner may also remove themselves
+  remove: async (
+    projectId: string,
+    userId: string,
+    actingUserId: string,
+    actingRole: ProjectRole
+  ): Promise<ServiceResponse> => {
+    const member = await findMemberOrThrow(projectId, userId);
+    if (member.role === ProjectRole.Owner) {
+      throw new ForbiddenError('The project owner cannot be removed');
+    }
+    if (userId !== actingUserId) {
+      if (!hasProjectRole(actingRole, ProjectRole.Admin)) {
+        throw new ForbiddenError('Only project admins can remove other members');
+      }
+      if (member.role === ProjectRole.Admin && actingRole !== ProjectRole.Owner) {
+        throw new ForbiddenError('Only the project owner can remove admins');
+      }
+    }
+    await projectMemberRepository.deleteAsync(member.id);
+    await activityService.record({
+      userId: actingUserId,
+      projectId,
+      action: ActivityAction.MemberRemoved,
+      data: { userId },
+    });
+    realtimeEvents.publish(RealtimeEventType.MemberRemoved, { projectId, boardId: null }, { userId });
+    return new ServiceResponse(ResponseStatus.Success, 'Member removed', null, StatusCodes.OK);
+  },
+});
@@ -0,0 +1,170 @@
+import { randomUUID } from 'node:crypto';
+
+import { QueryRunner } from 'typeorm';
+import { describe, expect, it, vi } from 'vitest';
+
+import { searchRepository } from '@/api/search/searchRepository';
+import { MATCH_END, MATCH_START } from '@/api/search/searchSnippets';
+import { SearchIndexes1792400900000 } from '@/common/migrations/1792400900000-SearchIndexes';
+import { NotImplementedError } from '@/common/models/errors';
+import { SearchResultType } from '@/common/models/searchResultType';
+import dataSource from '@/configs/typeorm.config';
+
+// The suite runs on pg-mem, which lacks full-text search, so the SQL built for Postgres is
+// checked here against a stubbed `query`
+const database = vi.hoisted(() => ({ type: 'postgres' }));
+
+vi.mock('@/common/utils/envConfig', async (importOriginal) => {
+  const { env } = await importOriginal<typeof import('@/common/utils/envConfig')>();
+  return {
+    env: {
+      ...env,
+      get DB_TYPE() {
+        return database.type;
+      },
+    },
+  };
+});
+
+// The expression indexed by the SearchIndexes migration for `table`
+const indexedExpression = async (table: string): Promise<string> => {
+  const statements: string[] = [];
+  await new SearchIndexes1792400900000().up({
+    query: async (sql: string) => statements.push(sql),
+  } as unknown as QueryRunner);
+  const statement = statements.find((sql) => sql.includes(`ON "${table}"`))!;
+  return statement.match(/USING GIN \(\((.*)\)\)$/)![1];
+};
+
+describe('searchRepository', () => {
+  const userId = randomUUID();
+  const page = { limit: 10, offset: 20 };
+
+  describe('on Postgres', () => {
+    it('builds a full-text query of the requested types scoped to the memberships of the user', async () => {
+      // Arrange
+      const query = vi.spyOn(dataSource, 'query').mockResolvedValue([]);
+      const assigneeId = randomUUID();
+      const filters = {
+        assigneeId,
+        label: 'urgent',
+        dueAfter: '2030-01-01T00:00:00.000Z',
+        dueBefore: '2030-02-01T00:00:00.000Z',
+      };
+
+      // Act
+      await searchRepository.searchAsync(
+        userId,
+        '"design review" -draft',
+        [SearchResultType.Card, SearchResultType.Comment],
+        filters,
+        page
+      );
+
+      // Assert
+      const [sql, params] = query.mock.calls[0];
+      expect(params).toEqual([
+        userId,
+        '"design review" -draft',
+        assigneeId,
+        'urgent',
+        new Date(filters.dueAfter),
+        new Date(filters.dueBefore),
+        10,
+        20,
+        expect.stringContaining(`StartSel="${MATCH_START}", StopSel="${MATCH_END}"`),
+      ]);
+      expect(sql).toContain(`websearch_to_tsquery('english', $2)`);
+      expect(sql).toContain(`SELECT 'card' AS "type"`);
+      expect(sql).toContain(`SELECT 'comment' AS "type"`);
+      expect(sql).not.toContain(`SELECT 'project' AS "type"`);
+      expect(sql.match(/m\."user_id" = \$1/g)).toHaveLength(2);
+      expect(sql.match(/c\."deletedAt" IS NULL/g)).toHaveLength(2);
+      expect(sql).toContain(`a."user_id" = $3`);
+      expect(sql).toContain(`c."labels"::jsonb @> jsonb_build_array($4::text)`);
+      expect(sql).toContain(`c."dueDate" >= $5 AND c."dueDate" <= $6`);
+      expect(sql).toContain('LIMIT $7 OFFSET $8');
+      expect(sql).toContain(`q."query", $9) AS "snippet"`);
+    });
+
+    it('queries the expressions of the search indexes', async () => {
+      // Arrange
+      const query = vi.spyOn(dataSource, 'query').mockResolvedValue([]);
+      const qualified = (expression: string, alias: string) =>
+        expression.replace(/"(title|description|body)"/g, `${alias}."$1"`);
+
+      // Act
+      await searchRepository.searchAsync(userId, 'design', Object.values(SearchResultType), {}, page);
+
+      // Assert
+      const [sql] = query.mock.calls[0];
+      expect(sql).toContain(`${qualified(await indexedExpression('projects'), 'p')}) @@ q."query"`);
+      expect(sql).toContain(`${qualified(await indexedExpression('boards'), 'b')}) @@ q."query"`);
+      expect(sql).toContain(`${qualified(await indexedExpression('cards'), 'c')}) @@ q."query"`);
+      expect(sql).toContain(`${qualified(await indexedExpression('comments'), 'cm')} @@ q."query"`);
+      expect(sql).toContain(`p."deletedAt" IS NULL`);
+      expect(sql).toContain(`b."deletedAt" IS NULL`);
+    });
+
+    it('turns the rows into results with their highlights and the total', async () => {
+      // Arrange
+      const card = {
+        type: SearchResultType.Card,
+        id: randomUUID(),
+        projectId: randomUUID(),
+        boardId: randomUUID(),
+        cardId: randomUUID(),
+        title: 'Design review',
+        updatedAt: new Date(),
+      };
+      vi.spyOn(dataSource, 'query').mockResolvedValue([
+        {
+          ...card,
+          total: '21',
+          text: 'Design review — Friday',
+          rank: '0.6',
+          snippet: `${MATCH_START}Design${MATCH_END} review — Friday`,
+        },
+      ]);
+
+      // Act
+      const results = await searchRepository.searchAsync(userId, 'design', [SearchResultType.Card], {}, page);
+
+      // Assert
+      expect(results).toEqual({
+        items: [{ ...card, rank: 0.6, snippet: 'Design review — Friday', highlights: [{ start: 0, end: 6 }] }],
+        pageInfo: { limit: 10, hasMore: false, nextCursor: null, offset: 20, total: 21 },
+      });
+    });
+
+    it('reports the total past the last page', async () => {
+      // Arrange
+      const empty = { type: null, id: null, projectId: null, boardId: null, cardId: null, title: null, rank: null };
+      vi.spyOn(dataSource, 'query').mockResolvedValue([{ ...empty, total: '3', snippet: null }]);
+
+      // Act
+      const results = await searchRepository.searchAsync(userId, 'design', [SearchResultType.Card], {}, page);
+
+      // Assert
+      expect(results).toEqual({
+        items: [],
+        pageInfo: { limit: 10, hasMore: false, nextCursor: null, offset: 20, total: 3 },
+      });
+    });
+  });
+
+  describe('on MySQL', () => {
+    it('is not available', async () => {
+      // Arrange
+      database.type = 'mysql';
+      const query = vi.spyOn(dataSource, 'query');
+
+      // Act
+      const result = searchRepository.searchAsync(userId, 'design', [SearchResultType.Card], {}, page);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotImplementedError);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
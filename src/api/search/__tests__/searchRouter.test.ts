@@ -0,0 +1,150 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { boardRepository } from '@/api/board/boardRepository';
+import { Card } from '@/api/card/cardModel';
+import { cardRepository } from '@/api/card/cardRepository';
+import { commentRepository } from '@/api/comment/commentRepository';
+import { listRepository } from '@/api/list/listRepository';
+import { projectRepository } from '@/api/project/projectRepository';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { SearchResult } from '@/api/search/searchModel';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { ProjectRole } from '@/common/models/projectRole';
+import { SearchResultType } from '@/common/models/searchResultType';
+import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+// Runs against pg-mem, so these cover the in-memory fallback of the search
+describe('Search API Endpoints', () => {
+  let alice: User;
+  let bob: User;
+  let mockups: Card;
+  let checkout: Card;
+
+  const search = async (user: User, query: string): Promise<Paginated<SearchResult>> => {
+    const response = await request(app).get(`/search?${query}`).set('Authorization', authorization(user));
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    return (response.body as ServiceResponse<Paginated<SearchResult>>).responseObject;
+  };
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    alice = await userRepository.createAsync({ email: 'alice@example.com', password: 'hash', name: 'Alice' });
+    bob = await userRepository.createAsync({ email: 'bob@example.com', password: 'hash', name: 'Bob' });
+
+    const project = await projectRepository.createAsync(alice.id, {
+      title: 'Website redesign',
+      description: 'New design of the marketing website',
+    });
+    await projectMemberRepository.createAsync(project.id, bob.id, ProjectRole.Member);
+    const board = await boardRepository.createAsync(project.id, { title: 'Design sprint' });
+    const list = await listRepository.createAsync(board.id, { title: 'To do' });
+    mockups = await cardRepository.createAsync(
+      board.id,
+      list.id,
+      {
+        title: 'Mockups',
+        description: 'Design of the home page',
+        labels: ['ui'],
+        dueDate: new Date('2030-01-10T00:00:00Z'),
+      },
+      [bob.id]
+    );
+    checkout = await cardRepository.createAsync(board.id, list.id, {
+      title: 'Checkout flow',
+      description: 'Follow the design system for the payment form',
+      labels: ['frontend'],
+      dueDate: new Date('2030-02-10T00:00:00Z'),
+    });
+    await commentRepository.createAsync(checkout.id, alice.id, 'The design review is on Friday');
+
+    // Only Alice is a member of this one
+    const privateProject = await projectRepository.createAsync(alice.id, { title: 'Private design notes' });
+    await boardRepository.createAsync(privateProject.id, { title: 'Design ideas' });
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('searches the projects of the user, with title matches ranked first', async () => {
+    // Act
+    const { items, pageInfo } = await search(bob, 'q=design');
+
+    // Assert
+    expect(pageInfo).toMatchObject({ total: 5, offset: 0, hasMore: false });
+    expect(items.slice(0, 2).map(({ title }) => title)).toEqual(
+      expect.arrayContaining(['Website redesign', 'Design sprint'])
+    );
+    expect(items.map(({ type }) => type).sort()).toEqual(
+      [
+        SearchResultType.Board,
+        SearchResultType.Card,
+        SearchResultType.Card,
+        SearchResultType.Comment,
+        SearchResultType.Project,
+      ].sort()
+    );
+    expect(items.map(({ title }) => title)).not.toContain('Design ideas');
+  });
+
+  it('highlights the matching words in snippets', async () => {
+    // Act
+    const { items } = await search(bob, 'q=review%20friday');
+
+    // Assert
+    expect(items).toHaveLength(1);
+    const [comment] = items;
+    expect(comment).toMatchObject({
+      type: SearchResultType.Comment,
+      cardId: checkout.id,
+      title: 'Checkout flow',
+      snippet: 'The design review is on Friday',
+    });
+    expect(comment.highlights.map(({ start, end }) => comment.snippet.slice(start, end))).toEqual(['review', 'Friday']);
+  });
+
+  it('filters by type', async () => {
+    const { items } = await search(bob, `q=design&type=${SearchResultType.Board}`);
+
+    expect(items.map(({ title }) => title)).toEqual(['Design sprint']);
+  });
+
+  it('filters cards and their comments by assignee, label and due date', async () => {
+    // Act
+    const byAssignee = await search(bob, `q=design&assigneeId=${bob.id}`);
+    const byLabel = await search(bob, 'q=design&label=frontend');
+    const byDueDate = await search(bob, 'q=design&dueAfter=2030-02-01T00:00:00Z&dueBefore=2030-03-01T00:00:00Z');
+
+    // Assert
+    expect(byAssignee.items.map(({ id }) => id)).toEqual([mockups.id]);
+    expect(byLabel.items.map(({ cardId }) => cardId)).toEqual([checkout.id, checkout.id]);
+    expect(byDueDate.items.map(({ type }) => type).sort()).toEqual([SearchResultType.Card, SearchResultType.Comment]);
+  });
+
+  it('pages through the results', async () => {
+    // Act
+    const first = await search(bob, 'q=design&limit=2');
+    const last = await search(bob, 'q=design&limit=2&offset=4');
+
+    // Assert
+    expect(first.items).toHaveLength(2);
+    expect(first.pageInfo).toMatchObject({ limit: 2, hasMore: true, total: 5 });
+    expect(last.items).toHaveLength(1);
+    expect(last.pageInfo).toMatchObject({ offset: 4, hasMore: false, total: 5 });
+  });
+
+  it('requires a query', async () => {
+    const response = await request(app).get('/search?q=%20').set('Authorization', authorization(bob));
+
+    expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+  });
+});
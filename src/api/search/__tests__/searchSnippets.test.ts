@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildSnippet,
+  findMatches,
+  MATCH_END,
+  MATCH_START,
+  parseMarkedSnippet,
+  searchTerms,
+} from '@/api/search/searchSnippets';
+
+describe('searchSnippets', () => {
+  describe('parseMarkedSnippet', () => {
+    it('turns the delimited matches of a headline into ranges', () => {
+      const marked = `The ${MATCH_START}design${MATCH_END} review is on ${MATCH_START}Friday${MATCH_END}`;
+
+      expect(parseMarkedSnippet(marked)).toEqual({
+        snippet: 'The design review is on Friday',
+        highlights: [
+          { start: 4, end: 10 },
+          { start: 24, end: 30 },
+        ],
+      });
+    });
+  });
+
+  describe('searchTerms', () => {
+    it('keeps the words of a query without web search operators', () => {
+      expect(searchTerms('"Design review" or -draft Design')).toEqual(['design', 'review', 'or', 'draft']);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('merges overlapping matches', () => {
+      expect(findMatches('Redesigned', ['design', 'signed'])).toEqual([{ start: 2, end: 10 }]);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('cuts long texts around the first match', () => {
+      const text = `${'Lorem ipsum dolor sit amet. '.repeat(10)}The design is final. ${'Lorem ipsum. '.repeat(20)}`;
+
+      const { snippet, highlights } = buildSnippet(text, findMatches(text, ['design']));
+
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet.length).toBeLessThanOrEqual(162);
+      expect(highlights.map(({ start, end }) => snippet.slice(start, end))).toEqual(['design']);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { SearchResultType } from '@/common/models/searchResultType';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/common/utils/pagination';
+
+extendZodWithOpenApi(z);
+
+export type Highlight = z.infer<typeof HighlightSchema>;
+export const HighlightSchema = z.object({
+  start: z.number().int(),
+  end: z.number().int().openapi({ description: 'Exclusive' }),
+});
+
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+export const SearchResultSchema = z.object({
+  type: z.nativeEnum(SearchResultType),
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  boardId: z.string().uuid().nullable(),
+  cardId: z.string().uuid().nullable().openapi({ description: 'The card of a card or of a comment' }),
+  title: z.string().openapi({ description: 'Title of the item, or of the card of a comment' }),
+  snippet: z.string().openapi({ description: 'Excerpt of the matching text' }),
+  highlights: z
+    .array(HighlightSchema)
+    .openapi({ description: 'Ranges of the snippet, in UTF-16 code units, that match the query' }),
+  rank: z.number().openapi({ description: 'Relevance to the query; only comparable within one search' }),
+  updatedAt: z.date(),
+});
+
+export type SearchQuery = z.infer<typeof SearchSchema>['query'];
+
+// Card filters also apply to comments, through the card they are on
+const cardFilterDescription = (filter: string) => `${filter}; limits the results to cards and their comments`;
+
+// Input Validation for 'GET search' endpoint
+export const SearchSchema = z.object({
+  query: z.object({
+    q: z.string().trim().min(1).max(200).openapi({
+      description: 'Words to search for. Quoted phrases, "or" and -excluded words are supported on Postgres.',
+    }),
+    type: z.nativeEnum(SearchResultType).optional(),
+    assigneeId: z
+      .string()
+      .uuid()
+      .optional()
+      .openapi({ description: cardFilterDescription('Only cards assigned to this user') }),
+    label: z
+      .string()
+      .trim()
+      .min(1)
+      .max(50)
+      .optional()
+      .openapi({ description: cardFilterDescription('Only cards with this label') }),
+    dueAfter: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .openapi({ description: cardFilterDescription('Only cards due at or after this time') }),
+    dueBefore: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .openapi({ description: cardFilterDescription('Only cards due at or before this time') }),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_PAGE_SIZE)
+      .default(DEFAULT_PAGE_SIZE)
+      .openapi({ description: `Page size, at most ${MAX_PAGE_SIZE}` }),
+    offset: z.coerce.number().int().min(0).default(0).openapi({ description: 'Number of results to skip' }),
+  }),
+});
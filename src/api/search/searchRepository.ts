@@ -0,0 +1,329 @@
+import { SearchQuery, SearchResult } from '@/api/search/searchModel';
+import {
+  buildSnippet,
+  findMatches,
+  MATCH_END,
+  MATCH_START,
+  parseMarkedSnippet,
+  searchTerms,
+} from '@/api/search/searchSnippets';
+import { Board } from '@/common/entities/board.entity';
+import { Card } from '@/common/entities/card.entity';
+import { Comment } from '@/common/entities/comment.entity';
+import { Project } from '@/common/entities/project.entity';
+import { ProjectMembers } from '@/common/entities/projectmembers.entity';
+import { NotImplementedError } from '@/common/models/errors';
+import { SearchResultType } from '@/common/models/searchResultType';
+import { env } from '@/common/utils/envConfig';
+import { Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
+
+export type SearchFilters = Pick<SearchQuery, 'assigneeId' | 'label' | 'dueAfter' | 'dueBefore'>;
+export type SearchPage = Pick<SearchQuery, 'limit' | 'offset'>;
+
+type Match = Omit<SearchResult, 'snippet' | 'highlights'>;
+
+const TEXT_SEARCH_CONFIG = 'english';
+const HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}", MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "`;
+
+// The text searched and quoted in snippets: the title and description, or the comment body
+const titledText = (alias: string) => `concat_ws(' — ', ${alias}."title", ${alias}."description")`;
+
+// These must stay identical to the expressions of the indexes created by the SearchIndexes
+// migration, or Postgres scans the tables instead of using them. Titles weigh the most.
+const titledVector = (alias: string) =>
+  `(setweight(to_tsvector('${TEXT_SEARCH_CONFIG}', ${alias}."title"), 'A') || ` +
+  `setweight(to_tsvector('${TEXT_SEARCH_CONFIG}', coalesce(${alias}."description", '')), 'B'))`;
+const commentVector = (alias: string) => `setweight(to_tsvector('${TEXT_SEARCH_CONFIG}', ${alias}."body"), 'B')`;
+
+const page = (items: SearchResult[], { limit, offset }: SearchPage, total: number): Paginated<SearchResult> => ({
+  items,
+  pageInfo: { limit, hasMore: offset + items.length < total, nextCursor: null, offset, total },
+});
+
+/**
+ * Full-text search of Postgres: the query is parsed with `websearch_to_tsquery`, matches
+ * are ranked with `ts_rank` and snippets are built with `ts_headline`, for the returned
+ * page only. `$1` is the user, whose memberships scope every source. Items in the trash
+ * are left out; those deleted with their project or board are in the trash themselves.
+ */
+const searchPostgres = async (
+  userId: string,
+  text: string,
+  types: SearchResultType[],
+  filters: SearchFilters,
+  searchPage: SearchPage
+): Promise<Paginated<SearchResult>> => {
+  const params: unknown[] = [userId, text];
+  const param = (value: unknown) => `$${params.push(value)}`;
+
+  const cardConditions = [
+    'c."deletedAt" IS NULL',
+    filters.assigneeId &&
+      `EXISTS (SELECT 1 FROM "card_assignees" a WHERE a."card_id" = c."id" AND a."user_id" = ${param(filters.assigneeId)})`,
+    filters.label && `c."labels"::jsonb @> jsonb_build_array(${param(filters.label)}::text)`,
+    filters.dueAfter && `c."dueDate" >= ${param(new Date(filters.dueAfter))}`,
+    filters.dueBefore && `c."dueDate" <= ${param(new Date(filters.dueBefore))}`,
+  ].filter((condition): condition is string => !!condition);
+
+  const membership = (projectId: string) =>
+    `JOIN "project_members" m ON m."project_id" = ${projectId} AND m."user_id" = $1`;
+  const cardJoins = `JOIN "lists" l ON l."id" = c."list_id" JOIN "boards" b ON b."id" = l."board_id" ${membership('b."project_id"')}`;
+
+  const select = (
+    type: SearchResultType,
+    // Alias of the table of the matched item, which gives the id and updatedAt of the result
+    item: string,
+    columns: { projectId: string; boardId: string; cardId: string; title: string; text: string },
+    vector: string,
+    from: string,
+    conditions: string[] = []
+  ) =>
+    `SELECT '${type}' AS "type", ${item}."id", ${columns.projectId} AS "projectId", ` +
+    `${columns.boardId} AS "boardId", ${columns.cardId} AS "cardId", ${columns.title} AS "title", ` +
+    `${columns.text} AS "text", ts_rank(${vector}, q."query") AS "rank", ${item}."updatedAt" ` +
+    `FROM ${from} CROSS JOIN q WHERE ${[`${vector} @@ q."query"`, ...conditions].join(' AND ')}`;
+
+  const sources: Record<SearchResultType, () => string> = {
+    [SearchResultType.Project]: () =>
+      select(
+        SearchResultType.Project,
+        'p',
+        {
+          projectId: 'p."id"',
+          boardId: 'NULL::uuid',
+          cardId: 'NULL::uuid',
+          title: 'p."title"',
+          text: titledText('p'),
+        },
+        titledVector('p'),
+        `"projects" p ${membership('p."id"')}`,
+        ['p."deletedAt" IS NULL']
+      ),
+    [SearchResultType.Board]: () =>
+      select(
+        SearchResultType.Board,
+        'b',
+        {
+          projectId: 'b."project_id"',
+          boardId: 'b."id"',
+          cardId: 'NULL::uuid',
+          title: 'b."title"',
+          text: titledText('b'),
+        },
+        titledVector('b'),
+        `"boards" b ${membership('b."project_id"')}`,
+        ['b."deletedAt" IS NULL']
+      ),
+    [SearchResultType.Card]: () =>
+      select(
+        SearchResultType.Card,
+        'c',
+        {
+          projectId: 'b."project_id"',
+          boardId: 'b."id"',
+          cardId: 'c."id"',
+          title: 'c."title"',
+          text: titledText('c'),
+        },
+        titledVector('c'),
+        `"cards" c ${cardJoins}`,
+        cardConditions
+      ),
+    [SearchResultType.Comment]: () =>
+      select(
+        SearchResultType.Comment,
+        'cm',
+        { projectId: 'b."project_id"', boardId: 'b."id"', cardId: 'c."id"', title: 'c."title"', text: 'cm."body"' },
+        commentVector('cm'),
+        `"comments" cm JOIN "cards" c ON c."id" = cm."card_id" ${cardJoins}`,
+        cardConditions
+      ),
+  };
+
+  const order = `"rank" DESC, "updatedAt" DESC, "id"`;
+  const rows: (Match & { snippet: string | null; total: string })[] = await dataSource.query(
+    `WITH q AS (SELECT websearch_to_tsquery('${TEXT_SEARCH_CONFIG}', $2) AS "query"), ` +
+      `matches AS (${types.map((type) => sources[type]()).join(' UNION ALL ')}), ` +
+      `page AS (SELECT * FROM matches ORDER BY ${order} LIMIT ${param(searchPage.limit)} OFFSET ${param(searchPage.offset)}) ` +
+      // Left joined so that the total is known even past the last page
+      `SELECT t."total", page.*, ts_headline('${TEXT_SEARCH_CONFIG}', page."text", q."query", ${param(HEADLINE_OPTIONS)}) AS "snippet" ` +
+      `FROM (SELECT count(*) AS "total" FROM matches) t LEFT JOIN page ON true CROSS JOIN q ORDER BY ${order}`,
+    params
+  );
+
+  const items = rows
+    .filter((row) => row.id !== null)
+    .map((row) => ({
+      type: row.type,
+      id: row.id,
+      projectId: row.projectId,
+      boardId: row.boardId,
+      cardId: row.cardId,
+      title: row.title,
+      rank: Number(row.rank),
+      updatedAt: row.updatedAt,
+      ...parseMarkedSnippet(row.snippet ?? ''),
+    }));
+  return page(items, searchPage, Number(rows[0]?.total ?? 0));
+};
+
+type Candidate = Omit<Match, 'rank'> & {
+  text: string;
+  // The start of `text` that weighs the most, i.e. the title; empty for comments
+  heading: string;
+  card?: Card;
+};
+
+const matchesCardFilters = (card: Card, filters: SearchFilters): boolean =>
+  (!filters.assigneeId || card.assignees.some((assignee) => assignee.id === filters.assigneeId)) &&
+  (!filters.label || card.labels.includes(filters.label)) &&
+  (!filters.dueAfter || (!!card.dueDate && card.dueDate >= new Date(filters.dueAfter))) &&
+  (!filters.dueBefore || (!!card.dueDate && card.dueDate <= new Date(filters.dueBefore)));
+
+const joinText = (...parts: (string | null)[]): string => parts.filter(Boolean).join(' — ');
+
+// Loads everything of the given type that the user can see, to be matched in memory
+const findCandidates = async (userId: string, type: SearchResultType): Promise<Candidate[]> => {
+  const memberOf = (projectId: string) =>
+    [ProjectMembers, 'member', `member.projectId = ${projectId} AND member.userId = :userId`, { userId }] as const;
+
+  switch (type) {
+    case SearchResultType.Project: {
+      const projects = await dataSource
+        .getRepository(Project)
+        .createQueryBuilder('project')
+        .innerJoin(...memberOf('project.id'))
+        .getMany();
+      return projects.map((project) => ({
+        type,
+        id: project.id,
+        projectId: project.id,
+        boardId: null,
+        cardId: null,
+        title: project.title,
+        heading: project.title,
+        text: joinText(project.title, project.description),
+        updatedAt: project.updatedAt,
+      }));
+    }
+    case SearchResultType.Board: {
+      const boards = await dataSource
+        .getRepository(Board)
+        .createQueryBuilder('board')
+        .innerJoin(...memberOf('board.projectId'))
+        .getMany();
+      return boards.map((board) => ({
+        type,
+        id: board.id,
+        projectId: board.projectId,
+        boardId: board.id,
+        cardId: null,
+        title: board.title,
+        heading: board.title,
+        text: joinText(board.title, board.description),
+        updatedAt: board.updatedAt,
+      }));
+    }
+    case SearchResultType.Card: {
+      const cards = await dataSource
+        .getRepository(Card)
+        .createQueryBuilder('card')
+        .innerJoinAndSelect('card.list', 'list')
+        .innerJoinAndSelect('list.board', 'board')
+        .innerJoin(...memberOf('board.projectId'))
+        .leftJoinAndSelect('card.assignees', 'assignee')
+        .getMany();
+      return cards.map((card) => ({
+        type,
+        id: card.id,
+        projectId: card.list.board.projectId,
+        boardId: card.list.boardId,
+        cardId: card.id,
+        title: card.title,
+        heading: card.title,
+        text: joinText(card.title, card.description),
+        updatedAt: card.updatedAt,
+        card,
+      }));
+    }
+    case SearchResultType.Comment: {
+      const comments = await dataSource
+        .getRepository(Comment)
+        .createQueryBuilder('comment')
+        .innerJoinAndSelect('comment.card', 'card')
+        .innerJoinAndSelect('card.list', 'list')
+        .innerJoinAndSelect('list.board', 'board')
+        .innerJoin(...memberOf('board.projectId'))
+        .leftJoinAndSelect('card.assignees', 'assignee')
+        .getMany();
+      return comments.map((comment) => ({
+        type,
+        id: comment.id,
+        projectId: comment.card.list.board.projectId,
+        boardId: comment.card.list.boardId,
+        cardId: comment.cardId,
+        title: comment.card.title,
+        heading: '',
+        text: comment.body,
+        updatedAt: comment.updatedAt,
+        card: comment.card,
+      }));
+    }
+  }
+};
+
+/**
+ * Fallback for pg-mem, which lacks the full-text features used above: every item the user
+ * can see is loaded and kept if it contains all the words of the query. Matches in titles
+ * rank higher. Meant for the small data sets of tests and demos only.
+ */
+const searchInMemory = async (
+  userId: string,
+  text: string,
+  types: SearchResultType[],
+  filters: SearchFilters,
+  searchPage: SearchPage
+): Promise<Paginated<SearchResult>> => {
+  const terms = searchTerms(text);
+  const cardFiltered = !!(filters.assigneeId || filters.label || filters.dueAfter || filters.dueBefore);
+
+  const matches: (Match & { text: string })[] = [];
+  for (const type of types) {
+    for (const { heading, card, ...candidate } of await findCandidates(userId, type)) {
+      if (cardFiltered && (!card || !matchesCardFilters(card, filters))) continue;
+      const lowerText = candidate.text.toLowerCase();
+      if (!terms.length || !terms.every((term) => lowerText.includes(term))) continue;
+      const headingMatches = findMatches(heading, terms).length;
+      const otherMatches = findMatches(candidate.text, terms).length - headingMatches;
+      matches.push({ ...candidate, rank: headingMatches + 0.4 * otherMatches });
+    }
+  }
+
+  matches.sort(
+    (a, b) =>
+      b.rank - a.rank || b.updatedAt.getTime() - a.updatedAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+  const items = matches
+    .slice(searchPage.offset, searchPage.offset + searchPage.limit)
+    .map(({ text: matchText, ...match }) => ({ ...match, ...buildSnippet(matchText, findMatches(matchText, terms)) }));
+  return page(items, searchPage, matches.length);
+};
+
+export const searchRepository = {
+  // Searches the projects of `userId` and their boards, cards and comments for `text`,
+  // best matches first
+  searchAsync: async (
+    userId: string,
+    text: string,
+    types: SearchResultType[],
+    filters: SearchFilters,
+    searchPage: SearchPage
+  ): Promise<Paginated<SearchResult>> => {
+    // MySQL has no index of the search, and loading every item in memory does not scale
+    if (env.DB_TYPE === 'mysql') throw new NotImplementedError('Search is not available on MySQL');
+    if (!types.length) return page([], searchPage, 0);
+    const search = env.DB_TYPE === 'postgres' ? searchPostgres : searchInMemory;
+    return search(userId, text, types, filters, searchPage);
+  },
+};
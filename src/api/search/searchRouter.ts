@@ -0,0 +1,41 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+
+import { SearchResultSchema, SearchSchema } from '@/api/search/searchModel';
+import { searchService } from '@/api/search/searchService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+import { PaginatedSchema } from '@/common/utils/pagination';
+
+export const searchRegistry = new OpenAPIRegistry();
+
+searchRegistry.register('SearchResult', SearchResultSchema);
+
+export const searchRouter: Router = (() => {
+  const router = express.Router();
+
+  registerApiRoute(searchRegistry, {
+    method: 'get',
+    path: '/search',
+    tags: ['Search'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Searches the titles and descriptions of the projects the requesting user is a member of, of their boards and cards, and the comments on those cards. Results are ranked by relevance, best first. Not available on MySQL, which is unsupported.',
+    request: { query: SearchSchema.shape.query },
+    responses: createApiResponse(PaginatedSchema(SearchResultSchema), 'Success'),
+    errors: [StatusCodes.NOT_IMPLEMENTED],
+  });
+
+  router.get(
+    '/',
+    validateRequest(SearchSchema, PaginatedSchema(SearchResultSchema)),
+    async (req: ValidatedRequest<typeof SearchSchema>, res: Response) => {
+      const serviceResponse = await searchService.search(req.user!.id, req.query);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
@@ -0,0 +1,30 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { SearchQuery, SearchResult } from '@/api/search/searchModel';
+import { searchRepository } from '@/api/search/searchRepository';
+import { SearchResultType } from '@/common/models/searchResultType';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceService } from '@/common/tracing/tracing';
+import { Paginated } from '@/common/utils/pagination';
+
+const CARD_TYPES = [SearchResultType.Card, SearchResultType.Comment];
+
+export const searchService = traceService('searchService', {
+  // Searches the projects the user is a member of, and everything in them, best matches first
+  search: async (userId: string, query: SearchQuery): Promise<ServiceResponse<Paginated<SearchResult>>> => {
+    const { q, type, limit, offset, ...filters } = query;
+    // Projects and boards have no assignees, labels or due date, so card filters leave them out
+    const cardFiltered = Object.values(filters).some((value) => value !== undefined);
+    const types = Object.values(SearchResultType).filter(
+      (candidate) => (!type || candidate === type) && (!cardFiltered || CARD_TYPES.includes(candidate))
+    );
+
+    const results = await searchRepository.searchAsync(userId, q, types, filters, { limit, offset });
+    return new ServiceResponse<Paginated<SearchResult>>(
+      ResponseStatus.Success,
+      'Search completed',
+      results,
+      StatusCodes.OK
+    );
+  },
+});
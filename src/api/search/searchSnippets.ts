@@ -0,0 +1,81 @@
+import { Highlight } from '@/api/search/searchModel';
+
+// Delimiters of the matching words in snippets built by the database; control characters
+// that typed text does not contain
+export const MATCH_START = '\u0002';
+export const MATCH_END = '\u0003';
+
+const SNIPPET_LENGTH = 160;
+// Characters kept before the first match, so that it is read in context
+const SNIPPET_LEAD = 40;
+const ELLIPSIS = '…';
+
+export type Snippet = { snippet: string; highlights: Highlight[] };
+
+// Splits a snippet whose matches are wrapped in MATCH_START and MATCH_END into its text
+// and the ranges of the matches
+export const parseMarkedSnippet = (marked: string): Snippet => {
+  let snippet = '';
+  let start: number | null = null;
+  const highlights: Highlight[] = [];
+  for (const char of marked) {
+    if (char === MATCH_START) {
+      start = snippet.length;
+    } else if (char === MATCH_END) {
+      if (start !== null && start < snippet.length) highlights.push({ start, end: snippet.length });
+      start = null;
+    } else {
+      snippet += char;
+    }
+  }
+  return { snippet, highlights };
+};
+
+// Words of a query, lowercased and without the quotes and operators of web search syntax
+export const searchTerms = (query: string): string[] => [
+  ...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []),
+];
+
+// Ranges of `text` where one of the lowercased `terms` occurs, merged where they overlap
+export const findMatches = (text: string, terms: string[]): Highlight[] => {
+  const lower = text.toLowerCase();
+  const ranges = terms
+    .flatMap((term) => {
+      const found: Highlight[] = [];
+      for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+        found.push({ start: index, end: index + term.length });
+      }
+      return found;
+    })
+    .sort((a, b) => a.start - b.start);
+
+  return ranges.reduce<Highlight[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+// An excerpt of `text` of about SNIPPET_LENGTH characters around its first match
+export const buildSnippet = (text: string, matches: Highlight[]): Snippet => {
+  const firstMatch = matches[0]?.start ?? 0;
+  let start = Math.max(0, firstMatch - SNIPPET_LEAD);
+  // Starts at a word rather than within one
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (start > firstMatch) start = firstMatch;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const suffix = end < text.length ? ELLIPSIS : '';
+  const highlights = matches
+    .filter((match) => match.start < end && match.end > start)
+    .map((match) => ({
+      start: Math.max(match.start, start) - start + prefix.length,
+      end: Math.min(match.end, end) - start + prefix.length,
+    }));
+  return { snippet: `${prefix}${text.slice(start, end)}${suffix}`, highlights };
+};
@@ -0,0 +1,203 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { Board } from '@/api/board/boardModel';
+import { boardRepository } from '@/api/board/boardRepository';
+import { Card } from '@/api/card/cardModel';
+import { cardRepository } from '@/api/card/cardRepository';
+import { List } from '@/api/list/listModel';
+import { listRepository } from '@/api/list/listRepository';
+import { Project } from '@/api/project/projectModel';
+import { projectRepository } from '@/api/project/projectRepository';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { Trash } from '@/api/trash/trashModel';
+import { trashService } from '@/api/trash/trashService';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { Board as BoardEntity } from '@/common/entities/board.entity';
+import { ProjectRole } from '@/common/models/projectRole';
+import { env } from '@/common/utils/envConfig';
+import { signAccessToken } from '@/common/utils/jwt';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+describe('Trash API Endpoints', () => {
+  let alice: User;
+  let bob: User;
+  let project: Project;
+  let board: Board;
+  let list: List;
+  let cards: Card[];
+
+  const boardPath = () => `/projects/${project.id}/boards/${board.id}`;
+  const cardPath = (card: Card) => `${boardPath()}/cards/${card.id}`;
+  const findTrash = async (user: User): Promise<Trash> => {
+    const response = await request(app).get(`/projects/${project.id}/trash`).set('Authorization', authorization(user));
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    return response.body.responseObject;
+  };
+  const findCardTitles = async (user: User): Promise<string[]> => {
+    const response = await request(app).get(`${boardPath()}/lists`).set('Authorization', authorization(user));
+    return response.body.responseObject[0].cards.map(({ title }: Card) => title);
+  };
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    alice = await userRepository.createAsync({ email: 'alice@example.com', password: 'hash', name: 'Alice' });
+    bob = await userRepository.createAsync({ email: 'bob@example.com', password: 'hash', name: 'Bob' });
+    project = await projectRepository.createAsync(alice.id, { title: 'Website redesign' });
+    await projectMemberRepository.createAsync(project.id, bob.id, ProjectRole.Member);
+    board = await boardRepository.createAsync(project.id, { title: 'Sprint 1' });
+    list = await listRepository.createAsync(board.id, { title: 'To do' });
+    cards = [];
+    for (const title of ['Mockups', 'Copy', 'Checkout']) {
+      cards.push(await cardRepository.createAsync(board.id, list.id, { title }));
+    }
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('moves a deleted card to the trash and restores it at the end of its list', async () => {
+    // Arrange
+    const [mockups] = cards;
+
+    // Act
+    const deleted = await request(app).delete(cardPath(mockups)).set('Authorization', authorization(bob));
+    const titlesAfterDelete = await findCardTitles(bob);
+    const trash = await findTrash(bob);
+    const restored = await request(app)
+      .post(`${cardPath(mockups)}/restore`)
+      .set('Authorization', authorization(bob));
+
+    // Assert
+    expect(deleted.statusCode).toEqual(StatusCodes.OK);
+    expect(titlesAfterDelete).toEqual(['Copy', 'Checkout']);
+    expect(trash.boards).toEqual([]);
+    expect(trash.cards).toEqual([expect.objectContaining({ id: mockups.id, boardId: board.id })]);
+    expect(restored.statusCode).toEqual(StatusCodes.OK);
+    expect(restored.body.responseObject).toMatchObject({ id: mockups.id, position: 2 });
+    expect(await findCardTitles(bob)).toEqual(['Copy', 'Checkout', 'Mockups']);
+  });
+
+  it('only restores cards that are in the trash', async () => {
+    // Act
+    const response = await request(app)
+      .post(`${cardPath(cards[0])}/restore`)
+      .set('Authorization', authorization(bob));
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.CONFLICT);
+  });
+
+  it('restores a board with the cards deleted along with it', async () => {
+    // Arrange
+    const [, copy] = cards;
+    await request(app).delete(cardPath(copy)).set('Authorization', authorization(bob));
+
+    // Act
+    const deleted = await request(app).delete(boardPath()).set('Authorization', authorization(alice));
+    const hidden = await request(app).get(boardPath()).set('Authorization', authorization(alice));
+    const trash = await findTrash(alice);
+    const restored = await request(app).post(`${boardPath()}/restore`).set('Authorization', authorization(alice));
+
+    // Assert
+    expect(deleted.statusCode).toEqual(StatusCodes.OK);
+    expect(hidden.statusCode).toEqual(StatusCodes.NOT_FOUND);
+    expect(trash.boards.map(({ id }) => id)).toEqual([board.id]);
+    // Cards of boards in the trash come back with their board
+    expect(trash.cards).toEqual([]);
+    expect(restored.statusCode).toEqual(StatusCodes.OK);
+    expect(await findCardTitles(alice)).toEqual(['Checkout', 'Mockups']);
+    expect((await findTrash(alice)).cards.map(({ id }) => id)).toEqual([copy.id]);
+  });
+
+  it('requires the admin role to restore a board', async () => {
+    // Act
+    const response = await request(app).post(`${boardPath()}/restore`).set('Authorization', authorization(bob));
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+  });
+
+  it('lists deleted projects to their owner and restores them', async () => {
+    // Act
+    const deleted = await request(app).delete(`/projects/${project.id}`).set('Authorization', authorization(alice));
+    const projects = await request(app).get('/projects').set('Authorization', authorization(bob));
+    const hidden = await request(app).get(`/projects/${project.id}/trash`).set('Authorization', authorization(bob));
+    const ownerTrash = await request(app).get('/projects/trash').set('Authorization', authorization(alice));
+    const memberTrash = await request(app).get('/projects/trash').set('Authorization', authorization(bob));
+    const forbidden = await request(app)
+      .post(`/projects/${project.id}/restore`)
+      .set('Authorization', authorization(bob));
+    const restored = await request(app)
+      .post(`/projects/${project.id}/restore`)
+      .set('Authorization', authorization(alice));
+
+    // Assert
+    expect(deleted.statusCode).toEqual(StatusCodes.OK);
+    expect(projects.body.responseObject).toEqual([]);
+    expect(hidden.statusCode).toEqual(StatusCodes.NOT_FOUND);
+    expect(ownerTrash.body.responseObject.map(({ id }: Project) => id)).toEqual([project.id]);
+    expect(memberTrash.body.responseObject).toEqual([]);
+    expect(forbidden.statusCode).toEqual(StatusCodes.FORBIDDEN);
+    expect(restored.statusCode).toEqual(StatusCodes.OK);
+    expect(await findCardTitles(bob)).toEqual(['Checkout', 'Mockups']);
+    // The card deleted before the project stays in the trash
+    expect((await findTrash(bob)).cards.map(({ title }) => title)).toEqual(['Copy']);
+  });
+
+  it('purges what has been in the trash for longer than the retention', async () => {
+    // Arrange
+    const other = await boardRepository.createAsync(project.id, { title: 'Sprint 2' });
+    await request(app).delete(`/projects/${project.id}/boards/${other.id}`).set('Authorization', authorization(alice));
+    const expiredAt = new Date(Date.now() - (env.TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000);
+    await dataSource.getRepository(BoardEntity).update({ id: other.id }, { deletedAt: expiredAt });
+
+    // Act
+    const purged = await trashService.purgeExpired();
+
+    // Assert
+    expect(purged).toEqual(1);
+    expect(
+      await dataSource.getRepository(BoardEntity).findOne({ where: { id: other.id }, withDeleted: true })
+    ).toBeNull();
+    expect((await findTrash(alice)).cards).toHaveLength(1);
+  });
+
+  it('moves a deleted list to the trash with its cards and restores them with it', async () => {
+    // Arrange
+    const other = await listRepository.createAsync(board.id, { title: 'Doing' });
+    const [inTrash, deletedWithList] = await Promise.all(
+      ['Review', 'Release'].map((title) => cardRepository.createAsync(board.id, other.id, { title }))
+    );
+    await request(app).delete(cardPath(inTrash)).set('Authorization', authorization(bob));
+    const listPath = `${boardPath()}/lists/${other.id}`;
+
+    // Act
+    const deleted = await request(app).delete(listPath).set('Authorization', authorization(bob));
+    const lists = await request(app).get(`${boardPath()}/lists`).set('Authorization', authorization(bob));
+    const trash = await findTrash(bob);
+    const cardRestored = await request(app)
+      .post(`${cardPath(deletedWithList)}/restore`)
+      .set('Authorization', authorization(bob));
+    const restored = await request(app).post(`${listPath}/restore`).set('Authorization', authorization(bob));
+
+    // Assert
+    expect(deleted.statusCode).toEqual(StatusCodes.OK);
+    expect(lists.body.responseObject.map(({ id }: List) => id)).toEqual([list.id]);
+    expect(trash.lists.map(({ id }) => id)).toEqual([other.id]);
+    // Cards of lists in the trash come back with their list
+    expect(trash.cards.map(({ id }) => id)).toEqual([cards[1].id]);
+    expect(cardRestored.statusCode).toEqual(StatusCodes.NOT_FOUND);
+    expect(restored.statusCode).toEqual(StatusCodes.OK);
+    expect(restored.body.responseObject).toMatchObject({ id: other.id, position: 1 });
+    const restoredLists = await request(app).get(`${boardPath()}/lists`).set('Authorization', authorization(bob));
+    expect(restoredLists.body.responseObject[1].cards.map(({ id }: Card) => id)).toEqual([deletedWithList.id]);
+    expect((await findTrash(bob)).cards.map(({ id }) => id)).toEqual([inTrash.id, cards[1].id]);
+  });
+});
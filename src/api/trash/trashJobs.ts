@@ -0,0 +1,6 @@
+import { trashService } from '@/api/trash/trashService';
+import { defineJob } from '@/common/jobs/jobs';
+
+export const purgeExpiredTrashJob = defineJob('trash.purge-expired', async () => {
+  await trashService.purgeExpired();
+});
@@ -0,0 +1,25 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+import { BoardSchema } from '@/api/board/boardModel';
+import { TrashedCardSchema } from '@/api/card/cardModel';
+import { TrashedListSchema } from '@/api/list/listModel';
+import { commonValidations } from '@/common/utils/commonValidation';
+
+extendZodWithOpenApi(z);
+
+export type Trash = z.infer<typeof TrashSchema>;
+export const TrashSchema = z.object({
+  boards: z.array(BoardSchema),
+  lists: z
+    .array(TrashedListSchema)
+    .openapi({ description: 'Lists deleted on their own; the lists of deleted boards come back with their board' }),
+  cards: z.array(TrashedCardSchema).openapi({
+    description: 'Cards deleted on their own; the cards of deleted boards and lists come back with their board or list',
+  }),
+});
+
+// Input Validation for 'GET projects/:projectId/trash' endpoint
+export const GetTrashSchema = z.object({
+  params: z.object({ projectId: commonValidations.id }),
+});
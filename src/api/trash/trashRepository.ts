@@ -0,0 +1,53 @@
+import { EntityTarget, IsNull, LessThan, Not } from 'typeorm';
+
+import { SoftDeletableEntity } from '@/common/entities/base/softDeletableEntity';
+import { Board } from '@/common/entities/board.entity';
+import { Card } from '@/common/entities/card.entity';
+import { List } from '@/common/entities/list.entity';
+import { Project } from '@/common/entities/project.entity';
+import dataSource from '@/configs/typeorm.config';
+
+// A project, board, list or card in the trash, keyed like the parents of attachments
+export type TrashedItem = { projectId: string } | { boardId: string } | { listId: string } | { cardId: string };
+
+type TrashedEntity = SoftDeletableEntity & { id: string };
+
+// Parents come first, so that purging them also purges the children deleted along with them
+const trashedEntities: {
+  key: 'projectId' | 'boardId' | 'listId' | 'cardId';
+  entity: EntityTarget<TrashedEntity>;
+}[] = [
+  { key: 'projectId', entity: Project },
+  { key: 'boardId', entity: Board },
+  { key: 'listId', entity: List },
+  { key: 'cardId', entity: Card },
+];
+
+const entityOf = (item: TrashedItem) => trashedEntities.find(({ key }) => key in item)!.entity;
+
+export const trashRepository = {
+  // Items deleted before `cutoff`, projects first, then boards, lists and cards
+  findDeletedBeforeAsync: async (cutoff: Date): Promise<TrashedItem[]> => {
+    const items: TrashedItem[] = [];
+    for (const { key, entity } of trashedEntities) {
+      const rows = await dataSource.getRepository(entity).find({
+        where: { deletedAt: LessThan(cutoff) },
+        select: { id: true },
+        withDeleted: true,
+      });
+      items.push(...rows.map(({ id }) => ({ [key]: id }) as TrashedItem));
+    }
+    return items;
+  },
+
+  // Deletes an item in the trash for good, with everything it contains. Resolves to false
+  // when it has been restored or purged in the meantime.
+  purgeAsync: async (item: TrashedItem): Promise<boolean> => {
+    const [id] = Object.values(item);
+    const repository = dataSource.getRepository(entityOf(item));
+    const row = await repository.findOne({ where: { id, deletedAt: Not(IsNull()) }, withDeleted: true });
+    if (!row) return false;
+    await repository.remove(row);
+    return true;
+  },
+};
@@ -0,0 +1,44 @@
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+
+import { GetTrashSchema, TrashSchema } from '@/api/trash/trashModel';
+import { trashService } from '@/api/trash/trashService';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+export const trashRegistry = new OpenAPIRegistry();
+
+trashRegistry.register('Trash', TrashSchema);
+
+// Mounted under '/projects/:projectId/trash'
+export const trashRouter: Router = (() => {
+  const router = express.Router({ mergeParams: true });
+
+  registerApiRoute(trashRegistry, {
+    method: 'get',
+    path: '/projects/{projectId}/trash',
+    tags: ['Trash'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      'Lists the deleted boards, lists and cards of the project, most recently deleted first. They are purged after TRASH_RETENTION_DAYS.',
+    request: { params: GetTrashSchema.shape.params },
+    responses: createApiResponse(TrashSchema, 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/',
+    validateRequest(GetTrashSchema, TrashSchema),
+    requireProjectRole(ProjectRole.Viewer),
+    async (req: ValidatedRequest<typeof GetTrashSchema>, res: Response) => {
+      const serviceResponse = await trashService.findByProject(req.params.projectId);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  return router;
+})();
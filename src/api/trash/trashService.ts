@@ -0,0 +1,43 @@
+import { StatusCodes } from 'http-status-codes';
+
+import { attachmentRepository } from '@/api/attachment/attachmentRepository';
+import { boardRepository } from '@/api/board/boardRepository';
+import { cardRepository } from '@/api/card/cardRepository';
+import { listRepository } from '@/api/list/listRepository';
+import { Trash } from '@/api/trash/trashModel';
+import { trashRepository } from '@/api/trash/trashRepository';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { deleteStoredFiles } from '@/common/storage/storage';
+import { traceService } from '@/common/tracing/tracing';
+import { env } from '@/common/utils/envConfig';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const trashService = traceService('trashService', {
+  // Retrieves the boards, lists and cards of a project that are in the trash
+  findByProject: async (projectId: string): Promise<ServiceResponse<Trash>> => {
+    const [boards, lists, cards] = await Promise.all([
+      boardRepository.findDeletedByProjectAsync(projectId),
+      listRepository.findDeletedByProjectAsync(projectId),
+      cardRepository.findDeletedByProjectAsync(projectId),
+    ]);
+    return new ServiceResponse<Trash>(ResponseStatus.Success, 'Trash found', { boards, lists, cards }, StatusCodes.OK);
+  },
+
+  // Deletes the projects, boards, lists and cards that have been in the trash for longer than
+  // TRASH_RETENTION_DAYS, with their attached files, and resolves to the number purged
+  purgeExpired: async (): Promise<number> => {
+    const items = await trashRepository.findDeletedBeforeAsync(
+      new Date(Date.now() - env.TRASH_RETENTION_DAYS * DAY_MS)
+    );
+    let purged = 0;
+    for (const item of items) {
+      const fileKeys = await attachmentRepository.findFileKeysAsync(item);
+      if (await trashRepository.purgeAsync(item)) {
+        await deleteStoredFiles(fileKeys);
+        purged += 1;
+      }
+    }
+    return purged;
+  },
+});
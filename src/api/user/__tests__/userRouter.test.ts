@@ -1,52 +1,153 @@
+import { randomUUID } from 'crypto';
 import { StatusCodes } from 'http-status-codes';
 import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it, Mock, vi } from 'vitest';
 
 import { User } from '@/api/user/userModel';
-import { users } from '@/api/user/userRepository';
+import { userRepository } from '@/api/user/userRepository';
+import { User as UserEntity } from '@/common/entities/user.entity';
 import { ServiceResponse } from '@/common/models/serviceResponse';
+import { signAccessToken } from '@/common/utils/jwt';
+import { Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
 import { app } from '@/server';
-import { describe, it, expect } from 'vitest';
+
+vi.mock('@/api/user/userRepository');
+
+const users: User[] = [
+  {
+    id: '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01',
+    name: 'Alice',
+    email: 'alice@example.com',
+    bio: null,
+    avatarUrl: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  {
+    id: '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02',
+    name: 'Bob',
+    email: 'bob@example.com',
+    bio: 'Backend developer',
+    avatarUrl: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+];
+
+const authorization = `Bearer ${signAccessToken({ sub: users[0].id, email: users[0].email })}`;
 
 describe('User API Endpoints', () => {
-  describe('GET /users', () => {
-    it('should return a list of users', async () => {
+  // The repository is mocked, but `requireAdmin` reads the flag from the database
+  let adminAuthorization: string;
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    const admin = await dataSource
+      .getRepository(UserEntity)
+      .save({ email: 'admin@example.com', password: 'hash', name: 'Admin', isAdmin: true });
+    adminAuthorization = `Bearer ${signAccessToken({ sub: admin.id, email: admin.email })}`;
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  describe('Authentication', () => {
+    it('should reject requests without an access token', async () => {
       // Act
       const response = await request(app).get('/users');
-      const responseBody: ServiceResponse<User[]> = response.body;
+      const responseBody: ServiceResponse = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.UNAUTHORIZED);
+      expect(responseBody.success).toBeFalsy();
+      expect(userRepository.findPageAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /users', () => {
+    it('should return a page of users', async () => {
+      // Arrange
+      const pageInfo = { limit: 20, hasMore: false, nextCursor: null, offset: null, total: null };
+      (userRepository.findPageAsync as Mock).mockResolvedValue({ items: users, pageInfo });
+
+      // Act
+      const response = await request(app).get('/users').set('Authorization', authorization);
+      const responseBody: ServiceResponse<Paginated<User>> = response.body;
 
       // Assert
       expect(response.statusCode).toEqual(StatusCodes.OK);
       expect(responseBody.success).toBeTruthy();
       expect(responseBody.message).toContain('Users found');
-      expect(responseBody.responseObject.length).toEqual(users.length);
-      responseBody.responseObject.forEach((user, index) => compareUsers(users[index] as User, user));
+      expect(responseBody.responseObject.items.length).toEqual(users.length);
+      responseBody.responseObject.items.forEach((user, index) => compareUsers(users[index] as User, user));
+      expect(userRepository.findPageAsync).toHaveBeenCalledWith(
+        { limit: 20, sort: 'createdAt', cursor: undefined, offset: undefined },
+        { email: undefined, name: undefined }
+      );
+    });
+
+    it('should apply the page, sort and filter parameters', async () => {
+      // Arrange
+      const pageInfo = { limit: 5, hasMore: false, nextCursor: null, offset: 10, total: 11 };
+      (userRepository.findPageAsync as Mock).mockResolvedValue({ items: [users[0]], pageInfo });
+
+      // Act
+      const response = await request(app)
+        .get('/users?limit=5&offset=10&sort=-email&name=Alice')
+        .set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(userRepository.findPageAsync).toHaveBeenCalledWith(
+        { limit: 5, sort: '-email', cursor: undefined, offset: 10 },
+        { email: undefined, name: 'Alice' }
+      );
+    });
+
+    it('should return a bad request for a sort field that is not allowed', async () => {
+      // Act
+      const response = await request(app).get('/users?sort=password').set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+      expect(userRepository.findPageAsync).not.toHaveBeenCalled();
+    });
+
+    it('should return a bad request when combining a cursor and an offset', async () => {
+      // Act
+      const cursor = Buffer.from(JSON.stringify({ value: 'a', id: 'b' })).toString('base64url');
+      const response = await request(app).get(`/users?cursor=${cursor}&offset=5`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
     });
   });
 
   describe('GET /users/:id', () => {
     it('should return a user for a valid ID', async () => {
       // Arrange
-      const testId = 1;
-      const expectedUser = users.find((user) => user.id === testId) as User;
+      const expectedUser = users[0];
+      (userRepository.findByIdAsync as Mock).mockResolvedValue(expectedUser);
 
       // Act
-      const response = await request(app).get(`/users/${testId}`);
+      const response = await request(app).get(`/users/${expectedUser.id}`).set('Authorization', authorization);
       const responseBody: ServiceResponse<User> = response.body;
 
       // Assert
       expect(response.statusCode).toEqual(StatusCodes.OK);
       expect(responseBody.success).toBeTruthy();
       expect(responseBody.message).toContain('User found');
-      if (!expectedUser) throw new Error('Invalid test data: expectedUser is undefined');
       compareUsers(expectedUser, responseBody.responseObject);
     });
 
     it('should return a not found error for non-existent ID', async () => {
       // Arrange
-      const testId = Number.MAX_SAFE_INTEGER;
+      (userRepository.findByIdAsync as Mock).mockResolvedValue(null);
 
       // Act
-      const response = await request(app).get(`/users/${testId}`);
+      const response = await request(app).get(`/users/${randomUUID()}`).set('Authorization', authorization);
       const responseBody: ServiceResponse = response.body;
 
       // Assert
@@ -59,7 +160,7 @@ describe('User API Endpoints', () => {
     it('should return a bad request for invalid ID format', async () => {
       // Act
       const invalidInput = 'abc';
-      const response = await request(app).get(`/users/${invalidInput}`);
+      const response = await request(app).get(`/users/${invalidInput}`).set('Authorization', authorization);
       const responseBody: ServiceResponse = response.body;
 
       // Assert
@@ -69,6 +170,152 @@ describe('User API Endpoints', () => {
       expect(responseBody.responseObject).toBeNull();
     });
   });
+
+  describe('POST /users', () => {
+    it('should create a user without returning the password', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockResolvedValue(null);
+      (userRepository.createAsync as Mock).mockResolvedValue(users[0]);
+
+      // Act
+      const response = await request(app)
+        .post('/users')
+        .set('Authorization', adminAuthorization)
+        .send({ email: 'alice@example.com', password: 'correct-horse', name: 'Alice' });
+      const responseBody: ServiceResponse<User> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.CREATED);
+      expect(responseBody.success).toBeTruthy();
+      expect(responseBody.responseObject).not.toHaveProperty('password');
+      compareUsers(users[0], responseBody.responseObject);
+    });
+
+    it('should only let administrators create users', async () => {
+      // Act
+      const response = await request(app)
+        .post('/users')
+        .set('Authorization', authorization)
+        .send({ email: 'mallory@example.com', password: 'correct-horse', name: 'Mallory' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+      expect(userRepository.createAsync).not.toHaveBeenCalled();
+    });
+
+    it('should return a bad request for a short password', async () => {
+      // Act
+      const response = await request(app)
+        .post('/users')
+        .set('Authorization', adminAuthorization)
+        .send({ email: 'alice@example.com', password: 'short' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+      expect(userRepository.createAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /users/:id', () => {
+    it('should update a user without returning the password', async () => {
+      // Arrange
+      const updatedUser = { ...users[0], name: 'Alicia' };
+      (userRepository.findByIdAsync as Mock).mockResolvedValue(users[0]);
+      (userRepository.updateAsync as Mock).mockResolvedValue(updatedUser);
+
+      // Act
+      const response = await request(app)
+        .patch(`/users/${users[0].id}`)
+        .set('Authorization', authorization)
+        .send({ name: 'Alicia', password: 'new-secret' });
+      const responseBody: ServiceResponse<User> = response.body;
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(responseBody.responseObject).not.toHaveProperty('password');
+      compareUsers(updatedUser, responseBody.responseObject);
+    });
+
+    it('should let administrators update other users', async () => {
+      // Arrange
+      const updatedUser = { ...users[1], name: 'Robert' };
+      (userRepository.findByIdAsync as Mock).mockResolvedValue(users[1]);
+      (userRepository.updateAsync as Mock).mockResolvedValue(updatedUser);
+
+      // Act
+      const response = await request(app)
+        .patch(`/users/${users[1].id}`)
+        .set('Authorization', adminAuthorization)
+        .send({ name: 'Robert' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      compareUsers(updatedUser, response.body.responseObject);
+    });
+
+    it('should forbid updating another user', async () => {
+      // Act
+      const response = await request(app)
+        .patch(`/users/${users[1].id}`)
+        .set('Authorization', authorization)
+        .send({ email: 'alice@example.com', password: 'taken-over' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+      expect(userRepository.updateAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /users/:id', () => {
+    it('should delete a user', async () => {
+      // Arrange
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue({
+        id: users[0].id,
+        avatarKey: null,
+        avatarThumbnailKey: null,
+      });
+      (userRepository.deleteAsync as Mock).mockResolvedValue(true);
+
+      // Act
+      const response = await request(app).delete(`/users/${users[0].id}`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.OK);
+      expect(userRepository.deleteAsync).toHaveBeenCalledWith(users[0].id);
+    });
+
+    it('should forbid deleting another user', async () => {
+      // Act
+      const response = await request(app).delete(`/users/${users[1].id}`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+      expect(userRepository.deleteAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/users/:id/avatar', () => {
+    it("should forbid replacing another user's avatar", async () => {
+      // Act
+      const response = await request(app)
+        .post(`/users/${users[1].id}/avatar`)
+        .set('Authorization', authorization)
+        .attach('file', Buffer.from('not an image'), { filename: 'avatar.png', contentType: 'image/png' });
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+      expect(userRepository.updateAsync).not.toHaveBeenCalled();
+    });
+
+    it("should forbid deleting another user's avatar", async () => {
+      // Act
+      const response = await request(app).delete(`/users/${users[1].id}/avatar`).set('Authorization', authorization);
+
+      // Assert
+      expect(response.statusCode).toEqual(StatusCodes.FORBIDDEN);
+      expect(userRepository.updateAsync).not.toHaveBeenCalled();
+    });
+  });
 });
 
 function compareUsers(mockUser: User, responseUser: User) {
@@ -79,7 +326,7 @@ function compareUsers(mockUser: User, responseUser: User) {
   expect(responseUser.id).toEqual(mockUser.id);
   expect(responseUser.name).toEqual(mockUser.name);
   expect(responseUser.email).toEqual(mockUser.email);
-  expect(responseUser.age).toEqual(mockUser.age);
+  expect(responseUser.bio).toEqual(mockUser.bio);
   expect(new Date(responseUser.createdAt)).toEqual(mockUser.createdAt);
   expect(new Date(responseUser.updatedAt)).toEqual(mockUser.updatedAt);
 }
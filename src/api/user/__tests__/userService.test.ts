@@ -1,72 +1,90 @@
 import { StatusCodes } from 'http-status-codes';
-import { Mock, describe, expect, it, vi } from 'vitest';
+import sharp from 'sharp';
+import { describe, expect, it, Mock, vi } from 'vitest';
 
+import { attachmentRepository } from '@/api/attachment/attachmentRepository';
+import { refreshTokenRepository } from '@/api/auth/refreshTokenRepository';
 import { User } from '@/api/user/userModel';
 import { userRepository } from '@/api/user/userRepository';
 import { userService } from '@/api/user/userService';
+import { ConflictError, NotFoundError, ValidationError } from '@/common/models/errors';
+import { storage } from '@/common/storage/storage';
+import { verifyPassword } from '@/common/utils/password';
 
 vi.mock('@/api/user/userRepository');
-vi.mock('@/server', () => ({
-  ...vi.importActual('@/server'),
-  logger: {
-    error: vi.fn(),
-  },
-}));
+vi.mock('@/api/auth/refreshTokenRepository');
+vi.mock('@/api/attachment/attachmentRepository');
 
 describe('userService', () => {
   const mockUsers: User[] = [
-    { id: 1, name: 'Alice', email: 'alice@example.com', age: 42, createdAt: new Date(), updatedAt: new Date() },
-    { id: 2, name: 'Bob', email: 'bob@example.com', age: 21, createdAt: new Date(), updatedAt: new Date() },
+    {
+      id: '6f1c1b52-8d0f-4b8e-9a4f-0a7c3a1f5e01',
+      name: 'Alice',
+      email: 'alice@example.com',
+      bio: null,
+      avatarUrl: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    {
+      id: '2b8f4c1e-3a5d-4f6b-8c7e-9d0a1b2c3d02',
+      name: 'Bob',
+      email: 'bob@example.com',
+      bio: 'Backend developer',
+      avatarUrl: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
   ];
+  const noAvatar = { id: mockUsers[0].id, avatarKey: null, avatarThumbnailKey: null };
 
   describe('findAll', () => {
-    it('return all users', async () => {
+    const pageInfo = { limit: 20, hasMore: false, nextCursor: null, offset: null, total: null };
+
+    it('return a page of users', async () => {
       // Arrange
-      (userRepository.findAllAsync as Mock).mockReturnValue(mockUsers);
+      (userRepository.findPageAsync as Mock).mockResolvedValue({ items: mockUsers, pageInfo });
 
       // Act
-      const result = await userService.findAll();
+      const result = await userService.findAll({ limit: 20, sort: 'createdAt' });
 
       // Assert
       expect(result.statusCode).toEqual(StatusCodes.OK);
       expect(result.success).toBeTruthy();
       expect(result.message).toContain('Users found');
-      expect(result.responseObject).toEqual(mockUsers);
+      expect(result.responseObject).toEqual({ items: mockUsers, pageInfo });
     });
 
-    it('returns a not found error for no users found', async () => {
+    it('passes the filters separately from the page', async () => {
       // Arrange
-      (userRepository.findAllAsync as Mock).mockReturnValue(null);
+      (userRepository.findPageAsync as Mock).mockResolvedValue({ items: [mockUsers[1]], pageInfo });
 
       // Act
-      const result = await userService.findAll();
+      await userService.findAll({ limit: 10, sort: '-email', offset: 20, name: 'Bob' });
 
       // Assert
-      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
-      expect(result.success).toBeFalsy();
-      expect(result.message).toContain('No Users found');
-      expect(result.responseObject).toBeNull();
+      expect(userRepository.findPageAsync).toHaveBeenCalledWith(
+        { limit: 10, sort: '-email', offset: 20, cursor: undefined },
+        { name: 'Bob' }
+      );
     });
 
-    it('handles errors for findAllAsync', async () => {
+    it('propagates errors from findPageAsync', async () => {
       // Arrange
-      (userRepository.findAllAsync as Mock).mockRejectedValue(new Error('Database error'));
+      (userRepository.findPageAsync as Mock).mockRejectedValue(new Error('Database error'));
 
       // Act
-      const result = await userService.findAll();
+      const result = userService.findAll({ limit: 20, sort: 'createdAt' });
 
       // Assert
-      expect(result.statusCode).toEqual(StatusCodes.INTERNAL_SERVER_ERROR);
-      expect(result.success).toBeFalsy();
-      expect(result.message).toContain('Error finding all users');
-      expect(result.responseObject).toBeNull();
+      await expect(result).rejects.toThrow('Database error');
     });
   });
 
   describe('findById', () => {
     it('returns a user for a valid ID', async () => {
       // Arrange
-      const testId = 1;
+      const testId = mockUsers[0].id;
       const mockUser = mockUsers.find((user) => user.id === testId);
       (userRepository.findByIdAsync as Mock).mockReturnValue(mockUser);
 
@@ -80,34 +98,216 @@ describe('userService', () => {
       expect(result.responseObject).toEqual(mockUser);
     });
 
-    it('handles errors for findByIdAsync', async () => {
+    it('propagates errors from findByIdAsync', async () => {
       // Arrange
-      const testId = 1;
+      const testId = mockUsers[0].id;
       (userRepository.findByIdAsync as Mock).mockRejectedValue(new Error('Database error'));
 
       // Act
-      const result = await userService.findById(testId);
+      const result = userService.findById(testId);
 
       // Assert
-      expect(result.statusCode).toEqual(StatusCodes.INTERNAL_SERVER_ERROR);
-      expect(result.success).toBeFalsy();
-      expect(result.message).toContain(`Error finding user with id ${testId}`);
-      expect(result.responseObject).toBeNull();
+      await expect(result).rejects.toThrow('Database error');
     });
 
     it('returns a not found error for non-existent ID', async () => {
       // Arrange
-      const testId = 1;
+      const testId = mockUsers[0].id;
       (userRepository.findByIdAsync as Mock).mockReturnValue(null);
 
       // Act
-      const result = await userService.findById(testId);
+      const result = userService.findById(testId);
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      await expect(result).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('create', () => {
+    it('hashes the password before storing the user', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockReturnValue(null);
+      (userRepository.createAsync as Mock).mockReturnValue(mockUsers[0]);
+
+      // Act
+      const result = await userService.create({ email: 'alice@example.com', password: 'correct-horse', name: 'Alice' });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(result.responseObject).toEqual(mockUsers[0]);
+      const stored = (userRepository.createAsync as Mock).mock.calls[0][0];
+      expect(stored.password).not.toEqual('correct-horse');
+      expect(await verifyPassword('correct-horse', stored.password)).toBeTruthy();
+    });
+
+    it('returns a conflict error for a taken email', async () => {
+      // Arrange
+      (userRepository.findByEmailAsync as Mock).mockReturnValue(mockUsers[0]);
+
+      // Act
+      const result = userService.create({ email: 'alice@example.com', password: 'correct-horse' });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ConflictError);
+      expect(userRepository.createAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('updates an existing user', async () => {
+      // Arrange
+      const updatedUser = { ...mockUsers[1], name: 'Robert' };
+      (userRepository.findByIdAsync as Mock).mockReturnValue(mockUsers[1]);
+      (userRepository.updateAsync as Mock).mockReturnValue(updatedUser);
+
+      // Act
+      const result = await userService.update(mockUsers[1].id, { name: 'Robert' });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual(updatedUser);
+      expect((userRepository.updateAsync as Mock).mock.calls[0][1].password).toBeUndefined();
+      expect(refreshTokenRepository.revokeAllForUserAsync).not.toHaveBeenCalled();
+    });
+
+    it("hashes a new password and ends the user's sessions", async () => {
+      // Arrange
+      (userRepository.findByIdAsync as Mock).mockReturnValue(mockUsers[1]);
+      (userRepository.updateAsync as Mock).mockReturnValue(mockUsers[1]);
+
+      // Act
+      await userService.update(mockUsers[1].id, { password: 'new-secret' });
+
+      // Assert
+      const stored = (userRepository.updateAsync as Mock).mock.calls[0][1];
+      expect(await verifyPassword('new-secret', stored.password)).toBeTruthy();
+      expect(refreshTokenRepository.revokeAllForUserAsync).toHaveBeenCalledWith(mockUsers[1].id);
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (userRepository.findByIdAsync as Mock).mockReturnValue(null);
+
+      // Act
+      const result = userService.update(mockUsers[1].id, { name: 'Robert' });
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(userRepository.updateAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('uploadAvatar', () => {
+    it('stores a square image and its thumbnail, replacing the previous avatar', async () => {
+      // Arrange
+      const image = await sharp({
+        create: { width: 800, height: 600, channels: 3, background: '#3366ff' },
+      })
+        .png()
+        .toBuffer();
+      await storage.put('avatars/previous.webp', Buffer.from('old'), 'image/webp');
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue({
+        ...noAvatar,
+        avatarKey: 'avatars/previous.webp',
+      });
+      (userRepository.updateAsync as Mock).mockImplementation(async (id, data) => ({ ...mockUsers[0], ...data }));
+
+      // Act
+      const result = await userService.uploadAvatar(mockUsers[0].id, image);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      const { avatarKey, avatarThumbnailKey, avatarUrl } = (userRepository.updateAsync as Mock).mock.calls[0][1];
+      expect(avatarUrl).toMatch(new RegExp(`^/users/${mockUsers[0].id}/avatar\\?v=`));
+      const avatar = await sharp(Buffer.concat(await (await storage.get(avatarKey)).toArray())).metadata();
+      expect(avatar).toMatchObject({ format: 'webp', width: 512, height: 512 });
+      const thumbnail = await sharp(Buffer.concat(await (await storage.get(avatarThumbnailKey)).toArray())).metadata();
+      expect(thumbnail).toMatchObject({ width: 128, height: 128 });
+      await expect(storage.get('avatars/previous.webp')).rejects.toThrow();
+    });
+
+    it('rejects a file that is not an image', async () => {
+      // Arrange
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue(noAvatar);
+
+      // Act
+      const result = userService.uploadAvatar(mockUsers[0].id, Buffer.from('not an image'));
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(ValidationError);
+      expect(userRepository.updateAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAvatarUrl', () => {
+    it('returns a signed link to the thumbnail', async () => {
+      // Arrange
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue({
+        ...noAvatar,
+        avatarKey: 'avatars/a.webp',
+        avatarThumbnailKey: 'avatars/a-thumbnail.webp',
+      });
+
+      // Act
+      const result = await userService.findAvatarUrl(mockUsers[0].id, 'thumbnail');
+
+      // Assert
+      expect(result.responseObject).toMatch(/^\/files\/avatars\/a-thumbnail\.webp\?expires=/);
+    });
+
+    it('returns a not found error when no avatar was uploaded', async () => {
+      // Arrange
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue(noAvatar);
+
+      // Act
+      const result = userService.findAvatarUrl(mockUsers[0].id, 'original');
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('delete', () => {
+    it('deletes an existing user', async () => {
+      // Arrange
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue(noAvatar);
+      (attachmentRepository.findFileKeysAsync as Mock).mockResolvedValue([]);
+      (userRepository.deleteAsync as Mock).mockReturnValue(true);
+
+      // Act
+      const result = await userService.delete(mockUsers[0].id);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.message).toContain('User deleted');
+    });
+
+    it('deletes the files attached to the projects the user owns', async () => {
+      // Arrange
+      await storage.put('attachments/project/file/original', Buffer.from('file'), 'text/plain');
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue(noAvatar);
+      (attachmentRepository.findFileKeysAsync as Mock).mockResolvedValue(['attachments/project/file/original']);
+      (userRepository.deleteAsync as Mock).mockReturnValue(true);
+
+      // Act
+      await userService.delete(mockUsers[0].id);
+
+      // Assert
+      expect(attachmentRepository.findFileKeysAsync).toHaveBeenCalledWith({ ownerId: mockUsers[0].id });
+      await expect(storage.get('attachments/project/file/original')).rejects.toThrow();
+    });
+
+    it('returns a not found error for non-existent ID', async () => {
+      // Arrange
+      (userRepository.findAvatarKeysAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = userService.delete(mockUsers[0].id);
 
       // Assert
-      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
-      expect(result.success).toBeFalsy();
-      expect(result.message).toContain('User not found');
-      expect(result.responseObject).toBeNull();
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      expect(userRepository.deleteAsync).not.toHaveBeenCalled();
     });
   });
 });
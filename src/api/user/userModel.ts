@@ -2,20 +2,84 @@ import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
 import { z } from 'zod';
 
 import { commonValidations } from '@/common/utils/commonValidation';
+import { createPageQuerySchema } from '@/common/utils/pagination';
 
 extendZodWithOpenApi(z);
 
 export type User = z.infer<typeof UserSchema>;
 export const UserSchema = z.object({
-  id: z.number(),
-  name: z.string(),
+  id: z.string().uuid(),
   email: z.string().email(),
-  age: z.number(),
+  name: z.string().nullable(),
+  bio: z.string().nullable(),
+  avatarUrl: z.string().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
+// The part of a user's profile shown to other users, e.g. as a card assignee
+export type PublicUser = z.infer<typeof PublicUserSchema>;
+export const PublicUserSchema = UserSchema.pick({ id: true, email: true, name: true, avatarUrl: true });
+
+export type ListUsersQuery = z.infer<typeof ListUsersSchema>['query'];
+export type CreateUserInput = z.infer<typeof CreateUserSchema>['body'];
+export type UpdateUserInput = z.infer<typeof UpdateUserSchema>['body'];
+export type AvatarSize = z.infer<typeof GetAvatarSchema>['query']['size'];
+
+const UserProfileSchema = z.object({
+  name: z.string().min(1).max(100).nullable().optional(),
+  bio: z.string().nullable().optional(),
+  avatarUrl: z.string().url().max(255).nullable().optional(),
+});
+
+// Input Validation for 'GET users' endpoint
+export const ListUsersSchema = z.object({
+  query: createPageQuerySchema({
+    sortFields: ['createdAt', 'email'],
+    defaultSort: 'createdAt',
+    filters: {
+      email: commonValidations.email.optional().openapi({ description: 'Only the user with this email' }),
+      name: z.string().optional().openapi({ description: 'Only users with exactly this name' }),
+    },
+  }),
+});
+
 // Input Validation for 'GET users/:id' endpoint
 export const GetUserSchema = z.object({
   params: z.object({ id: commonValidations.id }),
 });
+
+// Input Validation for 'POST users' endpoint
+export const CreateUserSchema = z.object({
+  body: UserProfileSchema.extend({
+    email: commonValidations.email,
+    password: commonValidations.password,
+  }),
+});
+
+// Input Validation for 'PATCH users/:id' endpoint
+export const UpdateUserSchema = z.object({
+  params: z.object({ id: commonValidations.id }),
+  body: UserProfileSchema.extend({
+    email: commonValidations.email.optional(),
+    password: commonValidations.password.optional(),
+  }),
+});
+
+// Input Validation for 'DELETE users/:id' endpoint
+export const DeleteUserSchema = GetUserSchema;
+
+// Input Validation for 'GET users/:id/avatar' endpoint
+export const GetAvatarSchema = z.object({
+  params: z.object({ id: commonValidations.id }),
+  query: z.object({
+    size: z.enum(['original', 'thumbnail']).default('original').openapi({ description: 'A 512 or 128 pixels square' }),
+  }),
+});
+
+// Input Validation for the 'POST' and 'DELETE users/:id/avatar' endpoints
+export const AvatarSchema = GetUserSchema;
+
+export const AvatarUploadSchema = z.object({
+  file: z.string().openapi({ type: 'string', format: 'binary' }),
+});
@@ -1,16 +1,62 @@
 import { User } from '@/api/user/userModel';
+import { User as UserEntity } from '@/common/entities/user.entity';
+import { findPage, PageQuery, Paginated } from '@/common/utils/pagination';
+import dataSource from '@/configs/typeorm.config';
 
-export const users: User[] = [
-  { id: 1, name: 'Alice', email: 'alice@example.com', age: 42, createdAt: new Date(), updatedAt: new Date() },
-  { id: 2, name: 'Bob', email: 'bob@example.com', age: 21, createdAt: new Date(), updatedAt: new Date() },
-];
+type UserWriteData = Partial<
+  Pick<UserEntity, 'email' | 'password' | 'name' | 'bio' | 'avatarUrl' | 'avatarKey' | 'avatarThumbnailKey'>
+>;
 
+export type AvatarKeys = Pick<UserEntity, 'avatarKey' | 'avatarThumbnailKey'>;
+
+const repository = () => dataSource.getRepository(UserEntity);
+
+// The `password` and avatar key columns are excluded from selects at the entity level, so
+// only `findByEmailWithPasswordAsync` and `findAvatarKeysAsync` return them. Users are
+// written with `save` and `remove`, which the audit trail records.
 export const userRepository = {
-  findAllAsync: async (): Promise<User[]> => {
-    return users;
+  findPageAsync: async (page: PageQuery, filters: { email?: string; name?: string }): Promise<Paginated<User>> => {
+    return findPage(repository(), page, { where: filters });
+  },
+
+  findByIdAsync: async (id: string): Promise<User | null> => {
+    return repository().findOneBy({ id });
+  },
+
+  findByEmailAsync: async (email: string): Promise<User | null> => {
+    return repository().findOneBy({ email });
+  },
+
+  // Only used to check credentials, as it is the one query that selects the password hash
+  findByEmailWithPasswordAsync: async (email: string): Promise<UserEntity | null> => {
+    return repository()
+      .createQueryBuilder('user')
+      .addSelect('user.password')
+      .where('user.email = :email', { email })
+      .getOne();
+  },
+
+  // Resolves to null if the user does not exist
+  findAvatarKeysAsync: async (id: string): Promise<AvatarKeys | null> => {
+    return repository().findOne({ where: { id }, select: { id: true, avatarKey: true, avatarThumbnailKey: true } });
+  },
+
+  createAsync: async (data: UserWriteData): Promise<User> => {
+    const { id } = await repository().save(repository().create(data));
+    return repository().findOneByOrFail({ id });
+  },
+
+  updateAsync: async (id: string, data: UserWriteData): Promise<User | null> => {
+    const user = await repository().findOneBy({ id });
+    if (!user) return null;
+    await repository().save(repository().merge(user, data));
+    return repository().findOneBy({ id });
   },
 
-  findByIdAsync: async (id: number): Promise<User | null> => {
-    return users.find((user) => user.id === id) || null;
+  deleteAsync: async (id: string): Promise<boolean> => {
+    const user = await repository().findOneBy({ id });
+    if (!user) return false;
+    await repository().remove(user);
+    return true;
   },
 };
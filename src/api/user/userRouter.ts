@@ -1,11 +1,29 @@
 import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
-import express, { Request, Response, Router } from 'express';
+import express, { Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
 import { z } from 'zod';
 
-import { GetUserSchema, UserSchema } from '@/api/user/userModel';
+import {
+  AvatarSchema,
+  AvatarUploadSchema,
+  CreateUserSchema,
+  DeleteUserSchema,
+  GetAvatarSchema,
+  GetUserSchema,
+  ListUsersSchema,
+  UpdateUserSchema,
+  UserSchema,
+} from '@/api/user/userModel';
 import { userService } from '@/api/user/userService';
-import { createApiResponse } from '@/api-docs/openAPIResponseBuilders';
-import { handleServiceResponse, validateRequest } from '@/common/utils/httpHandlers';
+import { bearerAuth } from '@/api-docs/openAPIComponents';
+import { createApiResponse, registerApiRoute } from '@/api-docs/openAPIResponseBuilders';
+import requireAdmin from '@/common/middleware/requireAdmin';
+import requireSelfOrAdmin from '@/common/middleware/requireSelfOrAdmin';
+import uploadFile from '@/common/middleware/uploadFile';
+import { env } from '@/common/utils/envConfig';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+import { IMAGE_MIME_TYPES } from '@/common/utils/images';
+import { PaginatedSchema } from '@/common/utils/pagination';
 
 export const userRegistry = new OpenAPIRegistry();
 
@@ -14,31 +32,182 @@ userRegistry.register('User', UserSchema);
 export const userRouter: Router = (() => {
   const router = express.Router();
 
-  userRegistry.registerPath({
+  registerApiRoute(userRegistry, {
     method: 'get',
     path: '/users',
     tags: ['User'],
-    responses: createApiResponse(z.array(UserSchema), 'Success'),
+    security: [{ [bearerAuth.name]: [] }],
+    request: { query: ListUsersSchema.shape.query },
+    responses: createApiResponse(PaginatedSchema(UserSchema), 'Success'),
   });
 
-  router.get('/', async (_req: Request, res: Response) => {
-    const serviceResponse = await userService.findAll();
-    handleServiceResponse(serviceResponse, res);
-  });
+  router.get(
+    '/',
+    validateRequest(ListUsersSchema, PaginatedSchema(UserSchema)),
+    async (req: ValidatedRequest<typeof ListUsersSchema>, res: Response) => {
+      const serviceResponse = await userService.findAll(req.query);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
 
-  userRegistry.registerPath({
+  registerApiRoute(userRegistry, {
     method: 'get',
     path: '/users/{id}',
     tags: ['User'],
+    security: [{ [bearerAuth.name]: [] }],
     request: { params: GetUserSchema.shape.params },
     responses: createApiResponse(UserSchema, 'Success'),
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/:id',
+    validateRequest(GetUserSchema, UserSchema),
+    async (req: ValidatedRequest<typeof GetUserSchema>, res: Response) => {
+      const serviceResponse = await userService.findById(req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(userRegistry, {
+    method: 'post',
+    path: '/users',
+    tags: ['User'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      body: { content: { 'application/json': { schema: CreateUserSchema.shape.body } } },
+    },
+    description: 'Creates a user on behalf of an administrator; others register through /auth/register',
+    responses: createApiResponse(UserSchema, 'Created', StatusCodes.CREATED),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.CONFLICT],
+  });
+
+  router.post(
+    '/',
+    validateRequest(CreateUserSchema, UserSchema),
+    requireAdmin,
+    async (req: ValidatedRequest<typeof CreateUserSchema>, res: Response) => {
+      const serviceResponse = await userService.create(req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(userRegistry, {
+    method: 'patch',
+    path: '/users/{id}',
+    tags: ['User'],
+    security: [{ [bearerAuth.name]: [] }],
+    request: {
+      params: UpdateUserSchema.shape.params,
+      body: { content: { 'application/json': { schema: UpdateUserSchema.shape.body } } },
+    },
+    description: 'Users may only update themselves, unless they are administrators',
+    responses: createApiResponse(UserSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.CONFLICT],
   });
 
-  router.get('/:id', validateRequest(GetUserSchema), async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id as string, 10);
-    const serviceResponse = await userService.findById(id);
-    handleServiceResponse(serviceResponse, res);
+  router.patch(
+    '/:id',
+    validateRequest(UpdateUserSchema, UserSchema),
+    requireSelfOrAdmin,
+    async (req: ValidatedRequest<typeof UpdateUserSchema>, res: Response) => {
+      const serviceResponse = await userService.update(req.params.id, req.body);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(userRegistry, {
+    method: 'delete',
+    path: '/users/{id}',
+    tags: ['User'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Users may only delete themselves, unless they are administrators',
+    request: { params: DeleteUserSchema.shape.params },
+    responses: createApiResponse(z.null(), 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
   });
 
+  router.delete(
+    '/:id',
+    validateRequest(DeleteUserSchema, z.null()),
+    requireSelfOrAdmin,
+    async (req: ValidatedRequest<typeof DeleteUserSchema>, res: Response) => {
+      const serviceResponse = await userService.delete(req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(userRegistry, {
+    method: 'post',
+    path: '/users/{id}/avatar',
+    tags: ['User'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: `Uploads an image as the avatar of the user, cropped to a square; only the user and administrators may. Accepted types: ${IMAGE_MIME_TYPES.join(', ')}`,
+    request: {
+      params: AvatarSchema.shape.params,
+      body: { content: { 'multipart/form-data': { schema: AvatarUploadSchema } } },
+    },
+    responses: createApiResponse(UserSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND, StatusCodes.REQUEST_TOO_LONG],
+  });
+
+  router.post(
+    '/:id/avatar',
+    validateRequest(AvatarSchema, UserSchema),
+    requireSelfOrAdmin,
+    uploadFile({ maxSize: env.AVATAR_MAX_FILE_SIZE_BYTES, mimeTypes: IMAGE_MIME_TYPES }),
+    async (req: ValidatedRequest<typeof AvatarSchema>, res: Response) => {
+      const serviceResponse = await userService.uploadAvatar(req.params.id, req.file!.buffer);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
+  registerApiRoute(userRegistry, {
+    method: 'get',
+    path: '/users/{id}/avatar',
+    tags: ['User'],
+    security: [{ [bearerAuth.name]: [] }],
+    description:
+      "Redirects to a signed, expiring link to the uploaded avatar; this is the user's 'avatarUrl' after an upload",
+    request: { params: GetAvatarSchema.shape.params, query: GetAvatarSchema.shape.query },
+    responses: {
+      [StatusCodes.MOVED_TEMPORARILY]: {
+        description: 'Redirect to the image',
+        headers: { Location: { description: 'Signed link to the WebP image', schema: { type: 'string' } } },
+      },
+    },
+    errors: [StatusCodes.NOT_FOUND],
+  });
+
+  router.get(
+    '/:id/avatar',
+    validateRequest(GetAvatarSchema),
+    async (req: ValidatedRequest<typeof GetAvatarSchema>, res: Response) => {
+      const { responseObject: url } = await userService.findAvatarUrl(req.params.id, req.query.size);
+      res.redirect(StatusCodes.MOVED_TEMPORARILY, url);
+    }
+  );
+
+  registerApiRoute(userRegistry, {
+    method: 'delete',
+    path: '/users/{id}/avatar',
+    tags: ['User'],
+    security: [{ [bearerAuth.name]: [] }],
+    description: 'Removes the avatar of the user, whether uploaded or set as a URL',
+    request: { params: AvatarSchema.shape.params },
+    responses: createApiResponse(UserSchema, 'Success'),
+    errors: [StatusCodes.FORBIDDEN, StatusCodes.NOT_FOUND],
+  });
+
+  router.delete(
+    '/:id/avatar',
+    validateRequest(AvatarSchema, UserSchema),
+    requireSelfOrAdmin,
+    async (req: ValidatedRequest<typeof AvatarSchema>, res: Response) => {
+      const serviceResponse = await userService.deleteAvatar(req.params.id);
+      handleServiceResponse(serviceResponse, res);
+    }
+  );
+
   return router;
 })();
@@ -1,38 +1,121 @@
+import { randomUUID } from 'node:crypto';
+
 import { StatusCodes } from 'http-status-codes';
 
-import { User } from '@/api/user/userModel';
-import { userRepository } from '@/api/user/userRepository';
+import { attachmentRepository } from '@/api/attachment/attachmentRepository';
+import { refreshTokenRepository } from '@/api/auth/refreshTokenRepository';
+import { AvatarSize, CreateUserInput, ListUsersQuery, UpdateUserInput, User } from '@/api/user/userModel';
+import { AvatarKeys, userRepository } from '@/api/user/userRepository';
+import { ConflictError, NotFoundError } from '@/common/models/errors';
 import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
-import { logger } from '@/server';
-
-export const userService = {
-  // Retrieves all users from the database
-  findAll: async (): Promise<ServiceResponse<User[] | null>> => {
-    try {
-      const users = await userRepository.findAllAsync();
-      if (!users) {
-        return new ServiceResponse(ResponseStatus.Failed, 'No Users found', null, StatusCodes.NOT_FOUND);
-      }
-      return new ServiceResponse<User[]>(ResponseStatus.Success, 'Users found', users, StatusCodes.OK);
-    } catch (ex) {
-      const errorMessage = `Error finding all users: $${(ex as Error).message}`;
-      logger.error(errorMessage);
-      return new ServiceResponse(ResponseStatus.Failed, errorMessage, null, StatusCodes.INTERNAL_SERVER_ERROR);
-    }
+import { deleteStoredFiles, getDownloadUrl, storage } from '@/common/storage/storage';
+import { traceService } from '@/common/tracing/tracing';
+import { resizeImage } from '@/common/utils/images';
+import { Paginated } from '@/common/utils/pagination';
+import { hashPassword } from '@/common/utils/password';
+
+const AVATAR_SIZE = 512;
+const AVATAR_THUMBNAIL_SIZE = 128;
+
+const findAvatarKeysOrThrow = async (id: string): Promise<AvatarKeys> => {
+  const keys = await userRepository.findAvatarKeysAsync(id);
+  if (!keys) throw new NotFoundError('User not found');
+  return keys;
+};
+
+const avatarFileKeys = ({ avatarKey, avatarThumbnailKey }: AvatarKeys): string[] =>
+  [avatarKey, avatarThumbnailKey].filter((key): key is string => !!key);
+
+export const userService = traceService('userService', {
+  // Retrieves a page of the users matching the filters of the query
+  findAll: async (query: ListUsersQuery): Promise<ServiceResponse<Paginated<User>>> => {
+    const { limit, cursor, offset, sort, ...filters } = query;
+    const users = await userRepository.findPageAsync({ limit, cursor, offset, sort }, filters);
+    return new ServiceResponse<Paginated<User>>(ResponseStatus.Success, 'Users found', users, StatusCodes.OK);
   },
 
   // Retrieves a single user by their ID
-  findById: async (id: number): Promise<ServiceResponse<User | null>> => {
-    try {
-      const user = await userRepository.findByIdAsync(id);
-      if (!user) {
-        return new ServiceResponse(ResponseStatus.Failed, 'User not found', null, StatusCodes.NOT_FOUND);
-      }
-      return new ServiceResponse<User>(ResponseStatus.Success, 'User found', user, StatusCodes.OK);
-    } catch (ex) {
-      const errorMessage = `Error finding user with id ${id}:, ${(ex as Error).message}`;
-      logger.error(errorMessage);
-      return new ServiceResponse(ResponseStatus.Failed, errorMessage, null, StatusCodes.INTERNAL_SERVER_ERROR);
+  findById: async (id: string): Promise<ServiceResponse<User>> => {
+    const user = await userRepository.findByIdAsync(id);
+    if (!user) throw new NotFoundError('User not found');
+    return new ServiceResponse<User>(ResponseStatus.Success, 'User found', user, StatusCodes.OK);
+  },
+
+  // Creates a new user, storing a hash of the given password
+  create: async (input: CreateUserInput): Promise<ServiceResponse<User>> => {
+    if (await userRepository.findByEmailAsync(input.email)) throw new ConflictError('Email is already in use');
+    const { email, name, bio, avatarUrl } = input;
+    const password = await hashPassword(input.password);
+    const user = await userRepository.createAsync({ email, password, name, bio, avatarUrl });
+    return new ServiceResponse<User>(ResponseStatus.Success, 'User created', user, StatusCodes.CREATED);
+  },
+
+  // Updates the given fields of an existing user. A new password ends the user's sessions.
+  update: async (id: string, input: UpdateUserInput): Promise<ServiceResponse<User | null>> => {
+    const existingUser = await userRepository.findByIdAsync(id);
+    if (!existingUser) throw new NotFoundError('User not found');
+    if (input.email && input.email !== existingUser.email && (await userRepository.findByEmailAsync(input.email))) {
+      throw new ConflictError('Email is already in use');
     }
+    const { email, name, bio, avatarUrl } = input;
+    const password = input.password ? await hashPassword(input.password) : undefined;
+    // A new avatar URL replaces any uploaded avatar
+    const replacedAvatar = avatarUrl !== undefined ? await findAvatarKeysOrThrow(id) : null;
+    const avatarKeys = replacedAvatar ? { avatarKey: null, avatarThumbnailKey: null } : {};
+    const user = await userRepository.updateAsync(id, { email, password, name, bio, avatarUrl, ...avatarKeys });
+    if (password) await refreshTokenRepository.revokeAllForUserAsync(id);
+    if (replacedAvatar) await deleteStoredFiles(avatarFileKeys(replacedAvatar));
+    return new ServiceResponse(ResponseStatus.Success, 'User updated', user, StatusCodes.OK);
   },
-};
+
+  // Stores an uploaded image as the avatar of a user, cropped to a square, and points
+  // `avatarUrl` at it. The URL changes with every upload so that clients refetch it.
+  uploadAvatar: async (id: string, image: Buffer): Promise<ServiceResponse<User | null>> => {
+    const previousAvatar = await findAvatarKeysOrThrow(id);
+    const [avatar, thumbnail] = await Promise.all([
+      resizeImage(image, AVATAR_SIZE, { cover: true }),
+      resizeImage(image, AVATAR_THUMBNAIL_SIZE, { cover: true }),
+    ]);
+
+    const version = randomUUID();
+    const avatarKey = `avatars/${id}/${version}.webp`;
+    const avatarThumbnailKey = `avatars/${id}/${version}-thumbnail.webp`;
+    await storage.put(avatarKey, avatar, 'image/webp');
+    await storage.put(avatarThumbnailKey, thumbnail, 'image/webp');
+    const user = await userRepository.updateAsync(id, {
+      avatarKey,
+      avatarThumbnailKey,
+      avatarUrl: `/users/${id}/avatar?v=${version}`,
+    });
+    await deleteStoredFiles(avatarFileKeys(previousAvatar));
+    return new ServiceResponse(ResponseStatus.Success, 'Avatar uploaded', user, StatusCodes.OK);
+  },
+
+  // Retrieves a signed download link to the uploaded avatar of a user
+  findAvatarUrl: async (id: string, size: AvatarSize): Promise<ServiceResponse<string>> => {
+    const { avatarKey, avatarThumbnailKey } = await findAvatarKeysOrThrow(id);
+    const key = size === 'thumbnail' ? avatarThumbnailKey : avatarKey;
+    if (!key) throw new NotFoundError('User has no uploaded avatar');
+    const url = await getDownloadUrl(key, { contentType: 'image/webp' });
+    return new ServiceResponse<string>(ResponseStatus.Success, 'Avatar found', url, StatusCodes.OK);
+  },
+
+  // Removes the avatar of a user, whether uploaded or a URL
+  deleteAvatar: async (id: string): Promise<ServiceResponse<User | null>> => {
+    const avatar = await findAvatarKeysOrThrow(id);
+    const user = await userRepository.updateAsync(id, { avatarUrl: null, avatarKey: null, avatarThumbnailKey: null });
+    await deleteStoredFiles(avatarFileKeys(avatar));
+    return new ServiceResponse(ResponseStatus.Success, 'Avatar deleted', user, StatusCodes.OK);
+  },
+
+  // Deletes a user by their ID, along with their uploaded avatar. The projects they own are
+  // deleted with them, so the files attached to those projects are deleted as well.
+  delete: async (id: string): Promise<ServiceResponse> => {
+    const avatar = await userRepository.findAvatarKeysAsync(id);
+    if (!avatar) throw new NotFoundError('User not found');
+    const projectFileKeys = await attachmentRepository.findFileKeysAsync({ ownerId: id });
+    if (!(await userRepository.deleteAsync(id))) throw new NotFoundError('User not found');
+    await deleteStoredFiles([...avatarFileKeys(avatar), ...projectFileKeys]);
+    return new ServiceResponse(ResponseStatus.Success, 'User deleted', null, StatusCodes.OK);
+  },
+});
@@ -0,0 +1,34 @@
+import { pino } from 'pino';
+import { describe, expect, it, vi } from 'vitest';
+
+import { connectDatabase } from '@/common/utils/database';
+import dataSource from '@/configs/typeorm.config';
+
+vi.mock('@/common/utils/envConfig', async (importOriginal) => {
+  const { env } = await importOriginal<typeof import('@/common/utils/envConfig')>();
+  return {
+    env: { ...env, DB_CONNECT_RETRIES: 2, DB_CONNECT_RETRY_DELAY_MS: 1, DB_CONNECT_RETRY_MAX_DELAY_MS: 1 },
+  };
+});
+
+describe('connectDatabase', () => {
+  const logger = pino({ enabled: false });
+
+  it('retries until the database is up', async () => {
+    const initialize = vi
+      .spyOn(dataSource, 'initialize')
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(dataSource);
+
+    await connectDatabase(logger);
+
+    expect(initialize).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const initialize = vi.spyOn(dataSource, 'initialize').mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(connectDatabase(logger)).rejects.toThrow('ECONNREFUSED');
+    expect(initialize).toHaveBeenCalledTimes(3);
+  });
+});
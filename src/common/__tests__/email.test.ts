@@ -0,0 +1,99 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { AddressInfo, createServer, Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { EmailMessage } from '@/common/email/emailTransport';
+import { FileEmailTransport } from '@/common/email/fileEmailTransport';
+import { SmtpEmailTransport } from '@/common/email/smtpEmailTransport';
+
+const message: EmailMessage = {
+  from: 'Training <no-reply@example.com>',
+  to: 'bob@example.com',
+  subject: 'Alice assigned you to a card',
+  text: 'Hi Bob,',
+  html: '<p>Hi Bob,</p>',
+};
+
+// Just enough of SMTP to accept messages, without authentication or TLS
+const createFakeSmtp = () => {
+  const received: string[] = [];
+  const server = createServer((socket) => {
+    let data: string | null = null;
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      if (data !== null) {
+        data += chunk.toString();
+        if (data.endsWith('\r\n.\r\n')) {
+          received.push(data);
+          data = null;
+          socket.write('250 OK\r\n');
+        }
+        return;
+      }
+      const command = chunk.toString().slice(0, 4).toUpperCase();
+      if (command === 'DATA') {
+        data = '';
+        socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+      } else if (command === 'QUIT') {
+        socket.end('221 Bye\r\n');
+      } else {
+        socket.write('250 OK\r\n');
+      }
+    });
+  });
+  return { server, received };
+};
+
+describe('FileEmailTransport', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'emails-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes each email to a file', async () => {
+    // Act
+    await new FileEmailTransport(dir).send(message);
+
+    // Assert
+    const [fileName] = await readdir(dir);
+    expect(fileName).toMatch(/\.eml$/);
+    const content = await readFile(path.join(dir, fileName), 'utf8');
+    expect(content).toContain('To: bob@example.com');
+    expect(content).toContain('Subject: Alice assigned you to a card');
+  });
+});
+
+describe('SmtpEmailTransport', () => {
+  let server: Server;
+  let received: string[];
+
+  beforeAll(async () => {
+    ({ server, received } = createFakeSmtp());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('relays emails to the SMTP server', async () => {
+    // Arrange
+    const { port } = server.address() as AddressInfo;
+    const transport = new SmtpEmailTransport({ host: '127.0.0.1', port, secure: false });
+
+    // Act
+    await transport.send(message);
+
+    // Assert
+    expect(received).toHaveLength(1);
+    expect(received[0]).toContain('Subject: Alice assigned you to a card');
+  });
+});
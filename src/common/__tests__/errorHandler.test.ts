@@ -1,15 +1,25 @@
 import express, { Express } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import request from 'supertest';
+import { QueryFailedError } from 'typeorm';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
 
 import errorHandler from '@/common/middleware/errorHandler';
-import { describe, beforeAll, it, expect } from 'vitest';
+import { ErrorCode, NotFoundError, ValidationError } from '@/common/models/errors';
+
+const mockEnv = vi.hoisted(() => ({ isProduction: false, isTest: true }));
+vi.mock('@/common/utils/envConfig', () => ({ env: mockEnv }));
 
 describe('Error Handler Middleware', () => {
   let app: Express;
 
   beforeAll(() => {
     app = express();
+    app.use((req, _res, next) => {
+      req.id = 'test-request-id';
+      next();
+    });
+    app.use(express.json());
 
     app.get('/error', () => {
       throw new Error('Test error');
@@ -18,15 +28,28 @@ describe('Error Handler Middleware', () => {
       const error = new Error('Error passed to next()');
       next(error);
     });
+    app.get('/not-found', async () => {
+      throw new NotFoundError('Board not found');
+    });
+    app.get('/invalid', () => {
+      throw new ValidationError('Invalid input', [{ path: 'body.title', message: 'Required' }]);
+    });
+    app.get('/duplicate', () => {
+      const driverError = Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' });
+      throw new QueryFailedError('INSERT INTO "users"', [], driverError);
+    });
+    app.post('/json', (_req, res) => {
+      res.sendStatus(StatusCodes.OK);
+    });
 
     app.use(errorHandler());
-    app.use('*', (req, res) => res.status(StatusCodes.NOT_FOUND).send('Not Found'));
   });
 
   describe('Handling unknown routes', () => {
     it('returns 404 for unknown routes', async () => {
       const response = await request(app).get('/this-route-does-not-exist');
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
+      expect(response.body.error.code).toEqual(ErrorCode.NotFound);
     });
   });
 
@@ -34,6 +57,24 @@ describe('Error Handler Middleware', () => {
     it('handles thrown errors with a 500 status code', async () => {
       const response = await request(app).get('/error');
       expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+      expect(response.body).toEqual({
+        success: false,
+        message: 'Test error',
+        responseObject: null,
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        error: { code: ErrorCode.InternalError, requestId: 'test-request-id' },
+      });
+    });
+
+    it('hides the messages of unexpected errors in production', async () => {
+      mockEnv.isProduction = true;
+      try {
+        const response = await request(app).get('/error');
+        expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+        expect(response.body.message).toEqual('An unexpected error occurred');
+      } finally {
+        mockEnv.isProduction = false;
+      }
     });
   });
 
@@ -43,4 +84,33 @@ describe('Error Handler Middleware', () => {
       expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
     });
   });
+
+  describe('Handling domain errors', () => {
+    it('answers with the status, code and message of the error', async () => {
+      const response = await request(app).get('/not-found');
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+      expect(response.body.message).toEqual('Board not found');
+      expect(response.body.error).toEqual({ code: ErrorCode.NotFound, requestId: 'test-request-id' });
+    });
+
+    it('includes the details of validation errors', async () => {
+      const response = await request(app).get('/invalid');
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.error.code).toEqual(ErrorCode.ValidationFailed);
+      expect(response.body.error.details).toEqual([{ path: 'body.title', message: 'Required' }]);
+    });
+
+    it('maps unique constraint violations to a conflict', async () => {
+      const response = await request(app).get('/duplicate');
+      expect(response.status).toBe(StatusCodes.CONFLICT);
+      expect(response.body.error.code).toEqual(ErrorCode.Conflict);
+      expect(response.body.message).not.toContain('INSERT');
+    });
+
+    it('answers malformed JSON bodies with a 400', async () => {
+      const response = await request(app).post('/json').set('Content-Type', 'application/json').send('{"title":');
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.error.code).toEqual(ErrorCode.BadRequest);
+    });
+  });
 });
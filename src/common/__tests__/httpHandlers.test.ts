@@ -0,0 +1,98 @@
+import express, { Express, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import errorHandler from '@/common/middleware/errorHandler';
+import { ErrorCode } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { handleServiceResponse, ValidatedRequest, validateRequest } from '@/common/utils/httpHandlers';
+
+const mockEnv = vi.hoisted(() => ({ isProduction: false, isTest: true }));
+vi.mock('@/common/utils/envConfig', () => ({ env: mockEnv }));
+
+const ItemSchema = z.object({ id: z.number().int(), name: z.string() });
+
+const UpdateItemSchema = z.object({
+  params: z.object({ id: z.coerce.number().int() }),
+  query: z.object({ notify: z.enum(['true', 'false']).default('false') }),
+  body: z.object({ name: z.string().trim().min(1), tags: z.array(z.string()).default([]) }),
+});
+
+describe('validateRequest', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+
+    app.put(
+      '/items/:id',
+      validateRequest(UpdateItemSchema),
+      (req: ValidatedRequest<typeof UpdateItemSchema>, res: Response) => {
+        res.send({ params: req.params, query: req.query, body: req.body });
+      }
+    );
+    app.get('/items/:id', validateRequest(UpdateItemSchema.pick({ params: true }), ItemSchema), (req, res) => {
+      const name = req.params.id === 1 ? 'First' : 42;
+      handleServiceResponse(new ServiceResponse(ResponseStatus.Success, 'Item found', { id: 1, name }, 200), res);
+    });
+
+    app.use(errorHandler());
+  });
+
+  it('replaces the request input with the parsed values', async () => {
+    const response = await request(app).put('/items/7').send({ name: '  Item ', unknown: true });
+
+    expect(response.status).toBe(StatusCodes.OK);
+    expect(response.body).toEqual({
+      params: { id: 7 },
+      query: { notify: 'false' },
+      body: { name: 'Item', tags: [] },
+    });
+  });
+
+  it('reports the path of every invalid field', async () => {
+    const response = await request(app)
+      .put('/items/abc?notify=maybe')
+      .send({ name: '', tags: [1] });
+
+    expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    expect(response.body.message).toBe('Invalid input');
+    expect(response.body.error.code).toBe(ErrorCode.ValidationFailed);
+    expect(response.body.error.details).toEqual([
+      { path: 'params.id', message: expect.any(String) },
+      { path: 'query.notify', message: expect.any(String) },
+      { path: 'body.name', message: expect.any(String) },
+      { path: 'body.tags.0', message: expect.any(String) },
+    ]);
+  });
+
+  it('accepts responses matching the response schema', async () => {
+    const response = await request(app).get('/items/1');
+
+    expect(response.status).toBe(StatusCodes.OK);
+    expect(response.body.responseObject).toEqual({ id: 1, name: 'First' });
+  });
+
+  it('rejects responses not matching the response schema outside production', async () => {
+    const response = await request(app).get('/items/2');
+
+    expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+    expect(response.body.error.code).toBe(ErrorCode.InternalError);
+    expect(response.body.error.details).toEqual([{ path: 'responseObject.name', message: expect.any(String) }]);
+  });
+
+  it('does not check responses in production', async () => {
+    mockEnv.isProduction = true;
+    try {
+      const response = await request(app).get('/items/2');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.responseObject).toEqual({ id: 1, name: 42 });
+    } finally {
+      mockEnv.isProduction = false;
+    }
+  });
+});
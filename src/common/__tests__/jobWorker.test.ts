@@ -0,0 +1,215 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { jobRepository } from '@/api/job/jobRepository';
+import { jobScheduleRepository } from '@/api/job/jobScheduleRepository';
+import { defineJob, enqueueJob, retryDelayMs } from '@/common/jobs/jobs';
+import { JobWorker } from '@/common/jobs/jobWorker';
+import { JobStatus } from '@/common/models/jobStatus';
+import { env } from '@/common/utils/envConfig';
+import dataSource from '@/configs/typeorm.config';
+
+describe('JobWorker', () => {
+  beforeAll(async () => {
+    await dataSource.initialize();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('runs due jobs with their payload', async () => {
+    // Arrange
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const greet = defineJob<{ name: string }>('test.greet', handler);
+    const due = await enqueueJob(greet, { name: 'Alice' });
+    const later = await enqueueJob(greet, { name: 'Bob' }, { delayMs: 60 * 1000 });
+
+    // Act
+    await new JobWorker([greet]).runDueJobs();
+
+    // Assert
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler).toHaveBeenCalledWith({ name: 'Alice' }, expect.objectContaining({ id: due.id, attempts: 1 }));
+    expect(await jobRepository.findByIdAsync(due.id)).toMatchObject({ status: JobStatus.Completed, attempts: 1 });
+    expect(await jobRepository.findByIdAsync(later.id)).toMatchObject({ status: JobStatus.Pending, attempts: 0 });
+  });
+
+  it('retries failed attempts with exponential backoff, then leaves the job failed', async () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const handler = vi.fn().mockRejectedValue(new Error('Mail server unavailable'));
+    const flaky = defineJob('test.flaky', handler, { maxAttempts: 3 });
+    const worker = new JobWorker([flaky]);
+    const { id } = await enqueueJob(flaky, undefined);
+
+    // Act
+    await worker.runDueJobs();
+    const afterFirstAttempt = await jobRepository.findByIdAsync(id);
+    await worker.runDueJobs(); // Not due yet
+    vi.setSystemTime(Date.now() + retryDelayMs(1));
+    await worker.runDueJobs();
+    const afterSecondAttempt = await jobRepository.findByIdAsync(id);
+    vi.setSystemTime(Date.now() + retryDelayMs(2));
+    await worker.runDueJobs();
+
+    // Assert
+    expect(retryDelayMs(2)).toEqual(2 * retryDelayMs(1));
+    expect(afterFirstAttempt).toMatchObject({ status: JobStatus.Pending, attempts: 1 });
+    expect(afterSecondAttempt).toMatchObject({ status: JobStatus.Pending, attempts: 2 });
+    expect(afterSecondAttempt!.runAt.getTime() - afterFirstAttempt!.runAt.getTime()).toBeGreaterThanOrEqual(
+      retryDelayMs(1)
+    );
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(await jobRepository.findByIdAsync(id)).toMatchObject({
+      status: JobStatus.Failed,
+      attempts: 3,
+      lastError: 'Mail server unavailable',
+    });
+  });
+
+  it('gives retried jobs a new set of attempts', async () => {
+    // Arrange
+    const handler = vi.fn().mockRejectedValueOnce(new Error('Failed')).mockResolvedValue(undefined);
+    const once = defineJob('test.once', handler, { maxAttempts: 1 });
+    const worker = new JobWorker([once]);
+    const { id } = await enqueueJob(once, undefined);
+    await worker.runDueJobs();
+
+    // Act
+    const retried = await jobRepository.retryAsync(id);
+    const retriedAgain = await jobRepository.retryAsync(id);
+    await worker.runDueJobs();
+
+    // Assert
+    expect(retried).toBe(true);
+    expect(retriedAgain).toBe(false);
+    expect(await jobRepository.findByIdAsync(id)).toMatchObject({ status: JobStatus.Completed, attempts: 1 });
+  });
+
+  it('runs each job once when several workers poll it', async () => {
+    // Arrange
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const report = defineJob('test.report', handler);
+    await enqueueJob(report, undefined);
+
+    // Act
+    await Promise.all([new JobWorker([report]).runDueJobs(), new JobWorker([report]).runDueJobs()]);
+
+    // Assert
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('fails attempts that run longer than the timeout', async () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const stuck = defineJob('test.stuck', () => new Promise<void>(() => {}), { maxAttempts: 1 });
+    const { id } = await enqueueJob(stuck, undefined);
+    // Never awaited, like a worker that crashed during the attempt
+    void new JobWorker([stuck]).runDueJobs();
+    await vi.waitFor(async () => {
+      expect(await jobRepository.findByIdAsync(id)).toMatchObject({ status: JobStatus.Running });
+    });
+
+    // Act
+    vi.setSystemTime(Date.now() + env.JOB_TIMEOUT_MS + 1);
+    await new JobWorker([stuck]).runDueJobs();
+
+    // Assert
+    expect(await jobRepository.findByIdAsync(id)).toMatchObject({
+      status: JobStatus.Failed,
+      lastError: `Timed out after ${env.JOB_TIMEOUT_MS} ms`,
+    });
+  });
+
+  it('leaves a job to its new attempt when a timed out attempt finishes', async () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ['Date'] });
+    let finishFirstAttempt = () => {};
+    const handler = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<void>((resolve) => (finishFirstAttempt = resolve)))
+      .mockImplementation(() => new Promise<void>(() => {}));
+    const slow = defineJob('test.slow', handler, { maxAttempts: 2 });
+    const { id } = await enqueueJob(slow, undefined);
+    const firstAttempt = new JobWorker([slow]).runDueJobs();
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce());
+    vi.setSystemTime(Date.now() + env.JOB_TIMEOUT_MS + 1);
+    await new JobWorker([slow]).runDueJobs();
+    vi.setSystemTime(Date.now() + retryDelayMs(1));
+    void new JobWorker([slow]).runDueJobs();
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+
+    // Act
+    finishFirstAttempt();
+    await firstAttempt;
+
+    // Assert
+    expect(await jobRepository.findByIdAsync(id)).toMatchObject({ status: JobStatus.Running, attempts: 2 });
+  });
+
+  it('claims no jobs once stopped, and waits for the poll under way', async () => {
+    // Arrange
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const late = defineJob('test.late', handler);
+    const { id } = await enqueueJob(late, undefined);
+    let releasePoll = () => {};
+    const findDue = jobRepository.findDueAsync;
+    const findDueSpy = vi.spyOn(jobRepository, 'findDueAsync').mockImplementation(async (...args) => {
+      await new Promise<void>((resolve) => (releasePoll = resolve));
+      return findDue(...args);
+    });
+    const worker = new JobWorker([late]);
+    worker.start();
+    await vi.waitFor(() => expect(findDueSpy).toHaveBeenCalled(), { timeout: env.JOB_POLL_INTERVAL_MS + 1000 });
+
+    // Act
+    let stopped = false;
+    const stopping = worker.stop().then(() => (stopped = true));
+    await new Promise((resolve) => setImmediate(resolve));
+    const stoppedBeforePoll = stopped;
+    releasePoll();
+    await stopping;
+
+    // Assert
+    expect(stoppedBeforePoll).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+    expect(await jobRepository.findByIdAsync(id)).toMatchObject({ status: JobStatus.Pending, attempts: 0 });
+  });
+
+  it('enqueues scheduled jobs once per run of their cron expression', async () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-01-01T07:30:00Z'));
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const digest = defineJob('test.digest', handler);
+    const schedules = [{ job: digest, cron: '0 8 * * *' }];
+    await new JobWorker([digest], schedules).runDueJobs();
+    const schedule = await jobScheduleRepository.findByNameAsync(digest.name);
+
+    // Act
+    vi.setSystemTime(new Date('2030-01-01T08:00:05Z'));
+    await Promise.all([
+      new JobWorker([digest], schedules).runDueJobs(),
+      new JobWorker([digest], schedules).runDueJobs(),
+    ]);
+    await new JobWorker([digest], schedules).runDueJobs();
+
+    // Assert
+    expect(schedule!.nextRunAt).toEqual(new Date('2030-01-01T08:00:00Z'));
+    expect(handler).toHaveBeenCalledOnce();
+    expect(await jobScheduleRepository.findByNameAsync(digest.name)).toMatchObject({
+      nextRunAt: new Date('2030-01-02T08:00:00Z'),
+    });
+  });
+
+  it('rejects schedules of undefined jobs and invalid cron expressions', () => {
+    const digest = defineJob('test.digest', async () => {});
+
+    expect(() => new JobWorker([], [{ job: digest, cron: '0 8 * * *' }])).toThrow('not defined');
+    expect(() => new JobWorker([digest], [{ job: digest, cron: 'every day' }])).toThrow();
+  });
+});
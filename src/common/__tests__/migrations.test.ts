@@ -0,0 +1,65 @@
+import { DataSource } from 'typeorm';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import dataSource, { createInMemoryDatabase, MIGRATIONS } from '@/configs/typeorm.config';
+
+type Schema = { columns: Record<string, string>[]; enums: Map<string, string> };
+
+// pg-mem has no full-text search, and cannot change the type of a column as migrations
+// replacing an enum type do. Those statements are skipped; the enum types keep their first
+// definition in the database, so their definitions are read from the statements instead.
+const POSTGRES_ONLY = [
+  / USING GIN /,
+  /^ALTER TYPE .* RENAME TO /,
+  /^ALTER TABLE .* ALTER COLUMN .* TYPE .* USING /,
+  /^DROP TYPE /,
+];
+
+const dataSources: DataSource[] = [];
+
+// Builds the schema in an empty database, either with the migrations or by synchronizing it
+// from the entities, and reads back its columns and enum types
+const buildSchema = async (withMigrations: boolean): Promise<Schema> => {
+  const db = createInMemoryDatabase();
+  const enums = new Map<string, string>();
+  db.public.interceptQueries((sql) => {
+    const createdEnum = sql.match(/^CREATE TYPE (\S+) AS ENUM\((.*)\)$/);
+    if (createdEnum) {
+      const replaced = enums.has(createdEnum[1]);
+      enums.set(createdEnum[1], createdEnum[2]);
+      return replaced ? [] : null;
+    }
+    return POSTGRES_ONLY.some((statement) => statement.test(sql)) ? [] : null;
+  });
+  const schemaDataSource: DataSource = db.adapters.createTypeormDataSource({
+    ...dataSource.options,
+    synchronize: !withMigrations,
+    migrations: withMigrations ? MIGRATIONS : [],
+  });
+  dataSources.push(schemaDataSource);
+
+  await schemaDataSource.initialize();
+  if (withMigrations) await schemaDataSource.runMigrations();
+  const columns = await schemaDataSource.query(
+    `SELECT "table_name", "column_name", "data_type", "is_nullable" FROM "information_schema"."columns"
+     WHERE "table_schema" = 'public' AND "table_name" <> 'migrations' ORDER BY "table_name", "column_name"`
+  );
+  return { columns, enums };
+};
+
+describe('Migrations', () => {
+  afterEach(async () => {
+    await Promise.all(dataSources.splice(0).map((schemaDataSource) => schemaDataSource.destroy()));
+  });
+
+  it('build the schema of the entities', async () => {
+    // Act
+    const migrated = await buildSchema(true);
+    const synchronized = await buildSchema(false);
+
+    // Assert
+    expect(migrated.columns).toContainEqual(expect.objectContaining({ table_name: 'users', column_name: 'email' }));
+    expect(migrated.columns).toEqual(synchronized.columns);
+    expect(migrated.enums).toEqual(synchronized.enums);
+  });
+});
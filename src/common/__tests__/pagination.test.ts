@@ -0,0 +1,112 @@
+import { Equal, MoreThan, Repository } from 'typeorm';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { createPageQuerySchema, findPage } from '@/common/utils/pagination';
+
+type Row = { id: string; createdAt: Date; title: string };
+
+describe('pagination', () => {
+  const QuerySchema = createPageQuerySchema({
+    sortFields: ['createdAt', 'title'],
+    defaultSort: '-createdAt',
+    filters: { title: z.string().optional() },
+  });
+
+  const rows: Row[] = [
+    { id: 'a', createdAt: new Date('2026-01-01T00:00:00.000Z'), title: 'First' },
+    { id: 'b', createdAt: new Date('2026-01-02T00:00:00.000Z'), title: 'Second' },
+    { id: 'c', createdAt: new Date('2026-01-03T00:00:00.000Z'), title: 'Third' },
+  ];
+
+  const repositoryReturning = (result: Row[], total = result.length) =>
+    ({
+      find: vi.fn().mockResolvedValue(result),
+      findAndCount: vi.fn().mockResolvedValue([result, total]),
+    }) as unknown as Repository<Row>;
+
+  describe('createPageQuerySchema', () => {
+    it('applies the defaults and coerces numbers', () => {
+      expect(QuerySchema.parse({})).toEqual({ limit: 20, sort: '-createdAt' });
+      expect(QuerySchema.parse({ limit: '5', offset: '10', title: 'First' })).toEqual({
+        limit: 5,
+        offset: 10,
+        sort: '-createdAt',
+        title: 'First',
+      });
+    });
+
+    it('rejects sort fields that are not allowed', () => {
+      expect(QuerySchema.safeParse({ sort: 'id' }).success).toBeFalsy();
+      expect(QuerySchema.safeParse({ sort: '-title' }).success).toBeTruthy();
+    });
+
+    it('rejects malformed cursors and cursors combined with an offset', () => {
+      const cursor = Buffer.from(JSON.stringify({ value: 'x', id: 'a' })).toString('base64url');
+      expect(QuerySchema.safeParse({ cursor: 'not-a-cursor' }).success).toBeFalsy();
+      expect(QuerySchema.safeParse({ cursor, offset: '0' }).success).toBeFalsy();
+      expect(QuerySchema.safeParse({ cursor }).success).toBeTruthy();
+    });
+
+    it('rejects page sizes above the maximum', () => {
+      expect(QuerySchema.safeParse({ limit: '101' }).success).toBeFalsy();
+    });
+  });
+
+  describe('findPage', () => {
+    it('returns a cursor when there are more rows', async () => {
+      // Arrange
+      const repository = repositoryReturning(rows);
+
+      // Act
+      const page = await findPage(repository, { limit: 2, sort: 'createdAt' }, { where: { title: 'x' } });
+
+      // Assert
+      expect(page.items).toEqual(rows.slice(0, 2));
+      expect(page.pageInfo).toMatchObject({ limit: 2, hasMore: true, offset: null, total: null });
+      expect(repository.find).toHaveBeenCalledWith({
+        where: { title: 'x' },
+        order: { createdAt: 'ASC', id: 'ASC' },
+        take: 3,
+      });
+    });
+
+    it('continues after the row of the cursor', async () => {
+      // Arrange
+      const first = await findPage(repositoryReturning(rows), { limit: 2, sort: 'createdAt' });
+      const repository = repositoryReturning(rows.slice(2));
+
+      // Act
+      const page = await findPage(repository, { limit: 2, sort: 'createdAt', cursor: first.pageInfo.nextCursor! });
+
+      // Assert
+      expect(page.pageInfo).toMatchObject({ hasMore: false, nextCursor: null });
+      expect(repository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [
+            { createdAt: MoreThan(rows[1].createdAt) },
+            { createdAt: Equal(rows[1].createdAt), id: MoreThan('b') },
+          ],
+        })
+      );
+    });
+
+    it('counts the total for offset pages', async () => {
+      // Arrange
+      const repository = repositoryReturning(rows.slice(1, 2), 3);
+
+      // Act
+      const page = await findPage(repository, { limit: 1, sort: '-title', offset: 1 });
+
+      // Assert
+      expect(page.pageInfo).toMatchObject({ limit: 1, hasMore: true, offset: 1, total: 3 });
+      expect(page.pageInfo.nextCursor).not.toBeNull();
+      expect(repository.findAndCount).toHaveBeenCalledWith({
+        where: {},
+        order: { title: 'DESC', id: 'DESC' },
+        skip: 1,
+        take: 1,
+      });
+    });
+  });
+});
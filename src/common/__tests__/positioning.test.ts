@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { renumber, reorder } from '@/common/utils/positioning';
+
+describe('positioning', () => {
+  const items = [
+    { id: 'a', position: 0 },
+    { id: 'b', position: 1 },
+    { id: 'c', position: 2 },
+    { id: 'd', position: 3 },
+  ];
+
+  describe('reorder', () => {
+    it('moves an item forward and shifts the ones in between', () => {
+      expect(reorder(items, 'a', 2)).toEqual([
+        { id: 'b', position: 0 },
+        { id: 'c', position: 1 },
+        { id: 'a', position: 2 },
+      ]);
+    });
+
+    it('moves an item backward', () => {
+      expect(reorder(items, 'd', 0)).toEqual([
+        { id: 'd', position: 0 },
+        { id: 'a', position: 1 },
+        { id: 'b', position: 2 },
+        { id: 'c', position: 3 },
+      ]);
+    });
+
+    it('clamps out of range positions to the end', () => {
+      expect(reorder(items, 'b', 99)).toEqual([
+        { id: 'c', position: 1 },
+        { id: 'd', position: 2 },
+        { id: 'b', position: 3 },
+      ]);
+    });
+
+    it('ignores unknown ids', () => {
+      expect(reorder(items, 'x', 0)).toEqual([]);
+    });
+  });
+
+  describe('renumber', () => {
+    it('closes gaps', () => {
+      expect(
+        renumber([
+          { id: 'a', position: 0 },
+          { id: 'c', position: 2 },
+        ])
+      ).toEqual([{ id: 'c', position: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import express, { Express } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { RateLimitCounter } from '@/common/entities/ratelimitcounter.entity';
+import errorHandler from '@/common/middleware/errorHandler';
+import { createRateLimiter } from '@/common/middleware/rateLimiter';
+import { ErrorCode } from '@/common/models/errors';
+import { DatabaseStore, deleteExpiredRateLimitCounters } from '@/common/utils/rateLimitStore';
+import dataSource from '@/configs/typeorm.config';
+
+describe('Rate Limiter Middleware', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    // Stands in for `authenticate`: the 'X-User' header names the signed-in user
+    app.use((req, _res, next) => {
+      const userId = req.header('X-User');
+      if (userId) req.user = { id: userId, email: `${userId}@example.com` };
+      next();
+    });
+    app.use(createRateLimiter({ name: 'test', limit: 2, windowMs: 60 * 1000 }));
+    app.get('/', (_req, res) => {
+      res.sendStatus(StatusCodes.OK);
+    });
+    app.use(errorHandler());
+  });
+
+  it('sends the standard RateLimit headers', async () => {
+    const response = await request(app).get('/').set('X-User', 'headers');
+
+    expect(response.status).toBe(StatusCodes.OK);
+    expect(response.headers['ratelimit-policy']).toMatch(/^"test"; q=2; w=60;/);
+    expect(response.headers['ratelimit']).toBe('"test"; r=1; t=60');
+  });
+
+  it('rejects requests over the limit with a 429', async () => {
+    await request(app).get('/').set('X-User', 'over');
+    await request(app).get('/').set('X-User', 'over');
+    const response = await request(app).get('/').set('X-User', 'over');
+
+    expect(response.status).toBe(StatusCodes.TOO_MANY_REQUESTS);
+    expect(response.body.error.code).toBe(ErrorCode.TooManyRequests);
+    expect(response.headers['retry-after']).toBe('60');
+  });
+
+  it('counts authenticated requests per user', async () => {
+    await request(app).get('/').set('X-User', 'first');
+    await request(app).get('/').set('X-User', 'first');
+    const response = await request(app).get('/').set('X-User', 'second');
+
+    expect(response.status).toBe(StatusCodes.OK);
+  });
+});
+
+describe('DatabaseStore', () => {
+  const store = new DatabaseStore('test:');
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    store.init({ windowMs: 60 * 1000 } as Parameters<DatabaseStore['init']>[0]);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('counts the hits of a key within the window', async () => {
+    await store.increment('client');
+    const result = await store.increment('client');
+
+    expect(result.totalHits).toBe(2);
+    expect(result.resetTime!.getTime()).toBeGreaterThan(Date.now());
+    await expect(store.get('client')).resolves.toEqual({ totalHits: 2, resetTime: result.resetTime });
+  });
+
+  it('starts a new window once the previous one has ended', async () => {
+    await store.increment('expired');
+    await dataSource.query(`UPDATE "rate_limit_counters" SET "resetAt" = '2000-01-01' WHERE "key" = 'test:expired'`);
+
+    await expect(store.get('expired')).resolves.toBeUndefined();
+    await expect(store.increment('expired')).resolves.toMatchObject({ totalHits: 1 });
+  });
+
+  it('decrements and resets a key', async () => {
+    await store.increment('reset');
+    await store.increment('reset');
+    await store.decrement('reset');
+    await expect(store.get('reset')).resolves.toMatchObject({ totalHits: 1 });
+
+    await store.resetKey('reset');
+    await expect(store.get('reset')).resolves.toBeUndefined();
+  });
+
+  it('prefixes the keys with the policy name', async () => {
+    await new DatabaseStore('other:').increment('client');
+
+    await expect(store.get('client')).resolves.toMatchObject({ totalHits: 2 });
+  });
+
+  it('deletes the counters whose window has ended', async () => {
+    await store.increment('stale');
+    await dataSource.query(`UPDATE "rate_limit_counters" SET "resetAt" = '2000-01-01' WHERE "key" = 'test:stale'`);
+
+    await deleteExpiredRateLimitCounters();
+
+    const keys = (await dataSource.getRepository(RateLimitCounter).find()).map(({ key }) => key);
+    expect(keys).not.toContain('test:stale');
+    expect(keys).toContain('test:client');
+  });
+});
@@ -0,0 +1,214 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import request from 'supertest';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+
+import { boardRepository } from '@/api/board/boardRepository';
+import { projectRepository } from '@/api/project/projectRepository';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { ErrorCode } from '@/common/models/errors';
+import { ProjectRole } from '@/common/models/projectRole';
+import { RealtimeEventHub, RealtimeEventType } from '@/common/realtime/realtimeEvents';
+import { ServerMessage } from '@/common/realtime/realtimeModel';
+import { REALTIME_PATH, RealtimeServer } from '@/common/realtime/realtimeServer';
+import { signAccessToken } from '@/common/utils/jwt';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+// A client that collects the messages it receives, to be awaited in order
+type TestClient = { socket: WebSocket; next: (type: ServerMessage['type']) => Promise<ServerMessage> };
+
+describe('RealtimeServer', () => {
+  let server: Server;
+  let realtime: RealtimeServer;
+  let url: string;
+  let alice: User;
+  let bob: User;
+  let carol: User;
+  let projectId: string;
+  let boardId: string;
+  const clients: WebSocket[] = [];
+
+  const connect = async (user: User): Promise<TestClient> => {
+    const socket = new WebSocket(url, { headers: { Authorization: authorization(user) } });
+    clients.push(socket);
+    const received: ServerMessage[] = [];
+    const waiting: (() => void)[] = [];
+    socket.on('message', (data) => {
+      received.push(JSON.parse(data.toString()));
+      waiting.splice(0).forEach((wake) => wake());
+    });
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+
+    // Resolves with the first unread message of the type, skipping those before it
+    const next = async (type: ServerMessage['type']): Promise<ServerMessage> => {
+      for (;;) {
+        const index = received.findIndex((message) => message.type === type);
+        if (index >= 0) return received.splice(0, index + 1)[index];
+        await new Promise<void>((resolve, reject) => {
+          const timeout = setTimeout(() => reject(new Error(`No '${type}' message received`)), 2000);
+          waiting.push(() => {
+            clearTimeout(timeout);
+            resolve();
+          });
+        });
+      }
+    };
+    return { socket, next };
+  };
+
+  const send = (client: TestClient, message: object) => client.socket.send(JSON.stringify(message));
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    alice = await userRepository.createAsync({ email: 'alice@example.com', password: 'hash', name: 'Alice' });
+    bob = await userRepository.createAsync({ email: 'bob@example.com', password: 'hash', name: 'Bob' });
+    carol = await userRepository.createAsync({ email: 'carol@example.com', password: 'hash', name: 'Carol' });
+    const project = await projectRepository.createAsync(alice.id, { title: 'Website redesign' });
+    await projectMemberRepository.createAsync(project.id, bob.id, ProjectRole.Member);
+    projectId = project.id;
+    boardId = (await boardRepository.createAsync(project.id, { title: 'Sprint 1' })).id;
+
+    server = app.listen(0);
+    realtime = new RealtimeServer(server);
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${REALTIME_PATH}`;
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach((socket) => socket.terminate());
+  });
+
+  afterAll(async () => {
+    realtime.close();
+    await new Promise((resolve) => server.close(resolve));
+    await dataSource.destroy();
+  });
+
+  it('refuses connections without a valid access token', async () => {
+    const socket = new WebSocket(url, { headers: { Authorization: 'Bearer invalid' } });
+
+    const status = await new Promise((resolve) =>
+      socket.once('unexpected-response', (_req, res) => resolve(res.statusCode))
+    );
+
+    expect(status).toEqual(401);
+  });
+
+  it('accepts the access token as a query parameter', async () => {
+    const token = authorization(alice).slice('Bearer '.length);
+    const socket = new WebSocket(`${url}?access_token=${token}`);
+    clients.push(socket);
+
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+
+    expect(socket.readyState).toEqual(WebSocket.OPEN);
+  });
+
+  it('delivers the events of a board to its room', async () => {
+    const client = await connect(alice);
+    send(client, { type: 'subscribe', projectId, boardId });
+    await client.next('subscribed');
+
+    await request(server)
+      .post(`/projects/${projectId}/boards/${boardId}/lists`)
+      .set('Authorization', authorization(alice))
+      .send({ title: 'To do' });
+
+    expect(await client.next('event')).toMatchObject({
+      event: { type: RealtimeEventType.ListCreated, projectId, boardId, data: { title: 'To do' } },
+    });
+  });
+
+  it('does not let non-members subscribe', async () => {
+    const client = await connect(carol);
+    send(client, { type: 'subscribe', projectId });
+
+    expect(await client.next('error')).toMatchObject({ code: ErrorCode.NotFound, message: 'Project not found' });
+  });
+
+  it('reports invalid messages', async () => {
+    const client = await connect(alice);
+    send(client, { type: 'subscribe', projectId: 'not-a-uuid' });
+
+    expect(await client.next('error')).toMatchObject({
+      code: ErrorCode.ValidationFailed,
+      details: [{ path: 'projectId', message: 'ID must be a valid UUID' }],
+    });
+  });
+
+  it('shares who is viewing a board', async () => {
+    const aliceClient = await connect(alice);
+    send(aliceClient, { type: 'subscribe', projectId, boardId });
+    await aliceClient.next('presence');
+
+    const bobClient = await connect(bob);
+    send(bobClient, { type: 'subscribe', projectId, boardId });
+
+    const viewers = (await aliceClient.next('presence')) as Extract<ServerMessage, { type: 'presence' }>;
+    expect(viewers.users.map(({ name }) => name).sort()).toEqual(['Alice', 'Bob']);
+
+    bobClient.socket.close();
+    const remaining = (await aliceClient.next('presence')) as Extract<ServerMessage, { type: 'presence' }>;
+    expect(remaining.users.map(({ name }) => name)).toEqual(['Alice']);
+  });
+
+  it('replays the events missed before reconnecting', async () => {
+    const client = await connect(alice);
+    send(client, { type: 'subscribe', projectId });
+    const { resumeToken } = (await client.next('subscribed')) as Extract<ServerMessage, { type: 'subscribed' }>;
+    client.socket.close();
+
+    await request(server)
+      .post(`/projects/${projectId}/boards`)
+      .set('Authorization', authorization(alice))
+      .send({ title: 'Sprint 2' });
+
+    const reconnected = await connect(alice);
+    send(reconnected, { type: 'subscribe', projectId, resumeToken });
+
+    expect(await reconnected.next('event')).toMatchObject({
+      event: { type: RealtimeEventType.BoardCreated, data: { title: 'Sprint 2' } },
+    });
+    await reconnected.next('subscribed');
+  });
+
+  it('asks clients to reload when their resume token cannot be replayed', async () => {
+    const client = await connect(alice);
+    send(client, { type: 'subscribe', projectId, resumeToken: 'unknown.1' });
+
+    expect(await client.next('resync')).toMatchObject({ projectId, boardId: null });
+  });
+
+  it('unsubscribes members removed from the project', async () => {
+    const client = await connect(bob);
+    send(client, { type: 'subscribe', projectId });
+    await client.next('subscribed');
+
+    await request(server).delete(`/projects/${projectId}/members/${bob.id}`).set('Authorization', authorization(alice));
+
+    expect(await client.next('event')).toMatchObject({ event: { type: RealtimeEventType.MemberRemoved } });
+    expect(await client.next('unsubscribed')).toMatchObject({ projectId });
+  });
+});
+
+describe('RealtimeEventHub', () => {
+  it('cannot resume from events no longer kept', () => {
+    const hub = new RealtimeEventHub(2);
+    const scope = { projectId: 'project', boardId: null };
+    const resumeToken = hub.resumeToken;
+
+    hub.publish(RealtimeEventType.MemberRemoved, scope, { userId: 'a' });
+    hub.publish(RealtimeEventType.MemberRemoved, scope, { userId: 'b' });
+    expect(hub.eventsSince(resumeToken)).toHaveLength(2);
+
+    hub.publish(RealtimeEventType.MemberRemoved, scope, { userId: 'c' });
+    expect(hub.eventsSince(resumeToken)).toBeNull();
+    expect(hub.eventsSince(hub.resumeToken)).toEqual([]);
+  });
+});
@@ -1,10 +1,10 @@
 import express from 'express';
 import { StatusCodes } from 'http-status-codes';
 import request from 'supertest';
+import { beforeAll, describe, expect, it } from 'vitest';
 
 import errorHandler from '@/common/middleware/errorHandler';
-import requestLogger from '@/common/middleware/requestLogger';
-import { describe, beforeAll, it, expect } from 'vitest';
+import requestLogger, { createRequestLogger, RequestLogSettings } from '@/common/middleware/requestLogger';
 
 describe('Request Logger Middleware', () => {
   const app = express();
@@ -12,6 +12,7 @@ describe('Request Logger Middleware', () => {
   beforeAll(() => {
     app.use(requestLogger);
     app.get('/success', (req, res) => res.status(StatusCodes.OK).send('Success'));
+    app.get('/request-id', (req, res) => res.status(StatusCodes.OK).send(req.id));
     app.get('/redirect', (req, res) => res.redirect('/success'));
     app.get('/error', () => {
       throw new Error('Test error');
@@ -30,6 +31,20 @@ describe('Request Logger Middleware', () => {
       const response = await request(app).get('/success').set('X-Request-Id', requestId);
       expect(response.status).toBe(StatusCodes.OK);
     });
+
+    it('keeps the request id sent by the client', async () => {
+      const response = await request(app).get('/request-id').set('X-Request-Id', 'client.request-id_1');
+      expect(response.text).toBe('client.request-id_1');
+    });
+
+    it.each([
+      ['too long', 'a'.repeat(101)],
+      ['with other characters', 'id with spaces'],
+    ])('replaces a request id %s with a generated one', async (_case, requestId) => {
+      const response = await request(app).get('/request-id').set('X-Request-Id', requestId);
+      expect(response.text).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.headers['x-request-id']).toBe(response.text);
+    });
   });
 
   describe('Re-directions', () => {
@@ -51,3 +66,90 @@ describe('Request Logger Middleware', () => {
     });
   });
 });
+
+describe('Request Logger settings', () => {
+  const settings: RequestLogSettings = {
+    level: 'info',
+    pretty: false,
+    redactPaths: ['request.headers["x-api-key"]'],
+    redactFields: ['secret'],
+    responseBodies: true,
+    maxBodyLength: 200,
+    routeLevels: [{ prefix: '/health', level: 'silent' }],
+    successSampleRate: 1,
+  };
+
+  // Logs of requests to a test app using the logger with `overrides` of `settings`
+  const logRequests = async (
+    overrides: Partial<RequestLogSettings>,
+    send: (app: express.Express) => Promise<unknown>
+  ) => {
+    const logs: Record<string, any>[] = [];
+    const app = express();
+    app.use(
+      createRequestLogger({ ...settings, ...overrides }, { stream: { write: (line) => logs.push(JSON.parse(line)) } })
+    );
+    app.get('/health', (_req, res) => res.send('OK'));
+    app.get('/session', (_req, res) =>
+      res.json({
+        user: { name: 'Alice', password: 'hash', secret: 'shh' },
+        accessToken: 'token',
+        notes: 'x'.repeat(300),
+      })
+    );
+    app.get('/items', (_req, res) => res.json({ items: [{ id: 1 }] }));
+    app.get('/missing', (_req, res) => res.status(StatusCodes.NOT_FOUND).json({ message: 'Not found' }));
+    await send(app);
+    // Responses are logged once they are finished
+    await new Promise((resolve) => setImmediate(resolve));
+    return logs.filter((log) => log.msg !== 'request received: GET');
+  };
+
+  it('redacts credential headers and sensitive body fields, and cuts long bodies', async () => {
+    // Act
+    const [log] = await logRequests({}, (app) =>
+      request(app).get('/session').set('Authorization', 'Bearer token').set('X-Api-Key', 'key')
+    );
+
+    // Assert
+    expect(log.request.headers.authorization).toEqual('[REDACTED]');
+    expect(log.request.headers['x-api-key']).toEqual('[REDACTED]');
+    expect(log.responseBody).toMatch(/^\{"user":\{"name":"Alice","password":"\[REDACTED\]","secret":"\[REDACTED\]"\}/);
+    expect(log.responseBody).toContain('"accessToken":"[REDACTED]"');
+    expect(log.responseBody).toMatch(/… \[\d+ more characters\]$/);
+  });
+
+  it('logs short bodies as they are sent', async () => {
+    const [log] = await logRequests({}, (app) => request(app).get('/items'));
+
+    expect(log.responseBody).toEqual({ items: [{ id: 1 }] });
+  });
+
+  it('leaves bodies out when they are not captured', async () => {
+    const [log] = await logRequests({ responseBodies: false }, (app) => request(app).get('/items'));
+
+    expect(log).not.toHaveProperty('responseBody');
+  });
+
+  it('applies the level of the route', async () => {
+    // Act
+    const logs = await logRequests({}, async (app) => {
+      await request(app).get('/health');
+      await request(app).get('/items');
+    });
+
+    // Assert
+    expect(logs.map(({ request }) => request.url)).toEqual(['/items']);
+  });
+
+  it('samples successful requests but logs every failed one', async () => {
+    // Act
+    const logs = await logRequests({ successSampleRate: 0 }, async (app) => {
+      await request(app).get('/items');
+      await request(app).get('/missing');
+    });
+
+    // Assert
+    expect(logs.map(({ request, level }) => [request.url, level])).toEqual([['/missing', 40]]);
+  });
+});
@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+import express, { Express } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import requireProjectRole from '@/common/middleware/requireProjectRole';
+import { ProjectRole } from '@/common/models/projectRole';
+import dataSource from '@/configs/typeorm.config';
+
+describe('requireProjectRole Middleware', () => {
+  let app: Express;
+  const findOne = vi.fn();
+
+  beforeAll(() => {
+    app = express();
+    app.use((req, _res, next) => {
+      req.user = { id: randomUUID(), email: 'alice@example.com' };
+      next();
+    });
+    app.get('/projects/:projectId', requireProjectRole(ProjectRole.Admin), (req, res) => {
+      res.status(StatusCodes.OK).send({ role: req.projectRole });
+    });
+  });
+
+  const mockMembership = (membership: { role: ProjectRole } | null) => {
+    vi.spyOn(dataSource, 'getRepository').mockReturnValue({ findOne } as never);
+    findOne.mockResolvedValue(membership);
+  };
+
+  it('allows members with a sufficient role', async () => {
+    mockMembership({ role: ProjectRole.Owner });
+
+    const response = await request(app).get(`/projects/${randomUUID()}`);
+
+    expect(response.status).toBe(StatusCodes.OK);
+    expect(response.body.role).toEqual(ProjectRole.Owner);
+  });
+
+  it('forbids members with a lower role', async () => {
+    mockMembership({ role: ProjectRole.Member });
+
+    const response = await request(app).get(`/projects/${randomUUID()}`);
+
+    expect(response.status).toBe(StatusCodes.FORBIDDEN);
+  });
+
+  it('reports the project as missing to non-members', async () => {
+    mockMembership(null);
+
+    const response = await request(app).get(`/projects/${randomUUID()}`);
+
+    expect(response.status).toBe(StatusCodes.NOT_FOUND);
+  });
+});
@@ -0,0 +1,144 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer, IncomingMessage } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { LocalStorageDriver } from '@/common/storage/localStorageDriver';
+import { S3StorageDriver } from '@/common/storage/s3StorageDriver';
+
+const readAll = async (stream: Readable) => Buffer.concat(await stream.toArray()).toString();
+
+const readQuery = (url: string) => Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+// Just enough of the S3 API, path-style, to stand in for a bucket
+const createFakeS3 = () => {
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+  const readBody = async (req: IncomingMessage) => Buffer.concat(await req.toArray());
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    const objectPath = decodeURIComponent(url.pathname);
+    if (req.method === 'PUT') {
+      objects.set(objectPath, { body: await readBody(req), contentType: req.headers['content-type'] ?? '' });
+      res.writeHead(200, { ETag: '"etag"' }).end();
+    } else if (req.method === 'DELETE') {
+      objects.delete(objectPath);
+      res.writeHead(204).end();
+    } else {
+      const object = objects.get(objectPath);
+      if (!object)
+        return res.writeHead(404, { 'Content-Type': 'application/xml' }).end('<Error><Code>NoSuchKey</Code></Error>');
+      res
+        .writeHead(200, {
+          'Content-Type': url.searchParams.get('response-content-type') ?? object.contentType,
+          'Content-Disposition': url.searchParams.get('response-content-disposition') ?? '',
+          'Content-Length': object.body.length,
+        })
+        .end(object.body);
+    }
+  });
+  return { server, objects };
+};
+
+describe('LocalStorageDriver', () => {
+  let rootDir: string;
+  let storage: LocalStorageDriver;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'storage-test-'));
+    storage = new LocalStorageDriver(rootDir, 'secret');
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores, reads and deletes files', async () => {
+    await storage.put('a/b/file.txt', Buffer.from('contents'));
+    expect(await readAll(await storage.get('a/b/file.txt'))).toEqual('contents');
+
+    await storage.delete(['a/b/file.txt', 'a/b/missing.txt']);
+    await expect(storage.get('a/b/file.txt')).rejects.toThrow();
+  });
+
+  it('refuses keys outside of its directory', async () => {
+    await expect(storage.put('../escaped.txt', Buffer.from('contents'))).rejects.toThrow('Invalid storage key');
+  });
+
+  it('verifies the links it signs', async () => {
+    const url = await storage.getSignedUrl('a/report.pdf', {
+      expiresInSeconds: 60,
+      fileName: 'Report.pdf',
+      contentType: 'application/pdf',
+    });
+
+    expect(url).toMatch(/^\/files\/a\/report\.pdf\?/);
+    expect(storage.verifySignedUrl('a/report.pdf', readQuery(url))).toEqual({
+      fileName: 'Report.pdf',
+      contentType: 'application/pdf',
+    });
+    expect(storage.verifySignedUrl('a/other.pdf', readQuery(url))).toBeNull();
+    expect(storage.verifySignedUrl('a/report.pdf', { ...readQuery(url), name: 'Other.pdf' })).toBeNull();
+  });
+
+  it('rejects expired links', async () => {
+    const url = await storage.getSignedUrl('a/report.pdf', { expiresInSeconds: 60 });
+
+    vi.useFakeTimers({ now: Date.now() + 61_000 });
+    try {
+      expect(storage.verifySignedUrl('a/report.pdf', readQuery(url))).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('S3StorageDriver', () => {
+  const { server, objects } = createFakeS3();
+  let endpoint: string;
+  let storage: S3StorageDriver;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    storage = new S3StorageDriver('bucket', {
+      region: 'us-east-1',
+      endpoint,
+      forcePathStyle: true,
+      credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('stores, reads and deletes objects in the bucket', async () => {
+    await storage.put('a/file.txt', Buffer.from('contents'), 'text/plain');
+    expect(objects.get('/bucket/a/file.txt')).toMatchObject({ contentType: 'text/plain' });
+    expect(await readAll(await storage.get('a/file.txt'))).toEqual('contents');
+
+    await storage.delete(['a/file.txt']);
+    expect(objects.has('/bucket/a/file.txt')).toBe(false);
+    await expect(storage.get('a/file.txt')).rejects.toThrow();
+  });
+
+  it('presigns download links that expire', async () => {
+    await storage.put('a/report.pdf', Buffer.from('%PDF'), 'application/pdf');
+
+    const url = await storage.getSignedUrl('a/report.pdf', {
+      expiresInSeconds: 300,
+      fileName: 'Q3 report.pdf',
+      contentType: 'application/pdf',
+    });
+    const response = await fetch(url);
+
+    expect(url.startsWith(`${endpoint}/bucket/a/report.pdf?`)).toBe(true);
+    expect(readQuery(url)).toMatchObject({ 'X-Amz-Expires': '300' });
+    expect(response.headers.get('content-disposition')).toEqual("attachment; filename*=UTF-8''Q3%20report.pdf");
+    expect(await response.text()).toEqual('%PDF');
+  });
+});
@@ -0,0 +1,147 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter, ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import express from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Project } from '@/api/project/projectModel';
+import { projectRepository } from '@/api/project/projectRepository';
+import { User } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { defineJob, enqueueJob } from '@/common/jobs/jobs';
+import { JobWorker } from '@/common/jobs/jobWorker';
+import { createRequestLogger } from '@/common/middleware/requestLogger';
+import requestTracing from '@/common/middleware/requestTracing';
+import { spanExporter } from '@/common/tracing/tracing';
+import { signAccessToken } from '@/common/utils/jwt';
+import dataSource from '@/configs/typeorm.config';
+import { app } from '@/server';
+
+const authorization = (user: User) => `Bearer ${signAccessToken({ sub: user.id, email: user.email })}`;
+
+const traceId = '0af7651916cd43dd8448eb211c80319c';
+const parentSpanId = 'b7ad6b7169203331';
+const traceparent = `00-${traceId}-${parentSpanId}-01`;
+
+// Tests export spans to memory
+const exporter = spanExporter as InMemorySpanExporter;
+
+const parentOf = (span: ReadableSpan) => span.parentSpanContext?.spanId;
+
+describe('Tracing', () => {
+  let alice: User;
+  let project: Project;
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    alice = await userRepository.createAsync({ email: 'alice@example.com', password: 'hash', name: 'Alice' });
+    project = await projectRepository.createAsync(alice.id, { title: 'Website redesign' });
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it('continues the trace of the caller through the service and its queries', async () => {
+    // Act
+    const response = await request(app)
+      .get(`/projects/${project.id}`)
+      .set('Authorization', authorization(alice))
+      .set('traceparent', traceparent);
+
+    // Assert
+    expect(response.statusCode).toEqual(StatusCodes.OK);
+    const spans = exporter.getFinishedSpans();
+    const server = spans.find(({ kind }) => kind === SpanKind.SERVER)!;
+    const service = spans.find(({ name }) => name === 'projectService.findById')!;
+    const queries = spans.filter(({ kind }) => kind === SpanKind.CLIENT);
+    expect(server.name).toEqual('GET /projects/:id');
+    expect(server.attributes).toMatchObject({ 'http.route': '/projects/:id', 'http.response.status_code': 200 });
+    expect(spans.every((span) => span.spanContext().traceId === traceId)).toBe(true);
+    expect(parentOf(server)).toEqual(parentSpanId);
+    expect(parentOf(service)).toEqual(server.spanContext().spanId);
+    expect(queries.some((query) => parentOf(query) === service.spanContext().spanId)).toBe(true);
+    expect(queries[0].attributes).toMatchObject({ 'db.operation.name': 'SELECT' });
+  });
+
+  it('starts a new trace without a traceparent and marks server errors', async () => {
+    // Arrange
+    const failing = express();
+    failing.use(requestTracing);
+    failing.get('/fail', (_req, res) => res.status(StatusCodes.INTERNAL_SERVER_ERROR).send('Failed'));
+
+    // Act
+    await request(failing).get('/fail');
+
+    // Assert
+    const [server] = exporter.getFinishedSpans();
+    expect(server.name).toEqual('GET /fail');
+    expect(server.spanContext().traceId).not.toEqual(traceId);
+    expect(parentOf(server)).toBeUndefined();
+    expect(server.status.code).toEqual(SpanStatusCode.ERROR);
+  });
+
+  it('adds the ids of the request span to its logs', async () => {
+    // Arrange
+    const logs: Record<string, any>[] = [];
+    const logged = express();
+    logged.use(requestTracing);
+    logged.use(
+      createRequestLogger(
+        {
+          level: 'info',
+          pretty: false,
+          redactPaths: [],
+          redactFields: [],
+          responseBodies: false,
+          maxBodyLength: 200,
+          routeLevels: [],
+          successSampleRate: 1,
+        },
+        { stream: { write: (line) => logs.push(JSON.parse(line)) } }
+      )
+    );
+    logged.get('/items', (_req, res) => res.json([]));
+
+    // Act
+    await request(logged).get('/items').set('traceparent', traceparent);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Assert
+    const [server] = exporter.getFinishedSpans();
+    expect(logs.length).toBeGreaterThan(0);
+    for (const log of logs) {
+      expect(log).toMatchObject({ trace_id: traceId, span_id: server.spanContext().spanId, trace_flags: '01' });
+    }
+  });
+
+  it('traces each job the worker runs, but not its polls', async () => {
+    // Arrange
+    const lookup = defineJob('test.lookup', async () => {
+      await projectRepository.findByIdAsync(project.id);
+    });
+    const worker = new JobWorker([lookup]);
+    await worker.runDueJobs();
+    const idleSpans = [...exporter.getFinishedSpans()];
+    const { id } = await enqueueJob(lookup, undefined);
+    exporter.reset();
+
+    // Act
+    await worker.runDueJobs();
+
+    // Assert
+    const spans = exporter.getFinishedSpans();
+    const job = spans.find(({ name }) => name === 'job test.lookup')!;
+    expect(idleSpans).toEqual([]);
+    expect(job.attributes).toMatchObject({ 'job.id': id, 'job.name': 'test.lookup', 'job.attempt': 1 });
+    expect(parentOf(job)).toBeUndefined();
+    expect(spans.filter((span) => span !== job).every((span) => parentOf(span) === job.spanContext().spanId)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { EmailMessage, EmailTransport } from '@/common/email/emailTransport';
+import { FileEmailTransport } from '@/common/email/fileEmailTransport';
+import { MemoryEmailTransport } from '@/common/email/memoryEmailTransport';
+import { SmtpEmailTransport } from '@/common/email/smtpEmailTransport';
+import { env } from '@/common/utils/envConfig';
+
+const createEmailTransport = (): EmailTransport => {
+  if (env.EMAIL_TRANSPORT === 'smtp') {
+    return new SmtpEmailTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+    });
+  }
+  if (env.EMAIL_TRANSPORT === 'file') return new FileEmailTransport(env.EMAIL_FILE_DIR);
+  return new MemoryEmailTransport();
+};
+
+// The transport selected by EMAIL_TRANSPORT
+export const emailTransport = createEmailTransport();
+
+// An email sent from EMAIL_FROM
+export type Email = Omit<EmailMessage, 'from'>;
+
+export const sendEmail = (email: Email): Promise<void> => emailTransport.send({ from: env.EMAIL_FROM, ...email });
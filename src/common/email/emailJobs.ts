@@ -0,0 +1,5 @@
+import { Email, sendEmail } from '@/common/email/email';
+import { defineJob } from '@/common/jobs/jobs';
+
+// Sends an email in the background, retrying while the mail server is unavailable
+export const sendEmailJob = defineJob<Email>('email.send', sendEmail);
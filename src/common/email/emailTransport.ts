@@ -0,0 +1,12 @@
+export type EmailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// How emails leave the server
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import nodemailer, { Transporter } from 'nodemailer';
+
+import { EmailMessage, EmailTransport } from '@/common/email/emailTransport';
+
+/**
+ * Writes each email to a `.eml` file of a directory instead of sending it, so that
+ * development needs no mail server. The files open in most mail clients.
+ */
+export class FileEmailTransport implements EmailTransport {
+  private readonly dir: string;
+  private readonly transporter: Transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail(message);
+    await mkdir(this.dir, { recursive: true });
+    // Named by time first so that a directory listing is in sending order
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    await writeFile(path.join(this.dir, fileName), info.message as Buffer);
+  }
+}
@@ -0,0 +1,10 @@
+import { EmailMessage, EmailTransport } from '@/common/email/emailTransport';
+
+// Keeps the emails in `sent`, for tests to inspect
+export class MemoryEmailTransport implements EmailTransport {
+  readonly sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
@@ -0,0 +1,17 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+import { EmailMessage, EmailTransport } from '@/common/email/emailTransport';
+
+// Relays emails through an SMTP server
+export class SmtpEmailTransport implements EmailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SMTPTransport.Options) {
+    this.transporter = nodemailer.createTransport(options);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
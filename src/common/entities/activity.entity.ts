@@ -0,0 +1,38 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+import { ActivityAction } from '@/common/models/activityAction';
+
+import { UserRelatedEntity } from './base/userRelatedEntity';
+import { Project } from './project.entity';
+
+// Append-only log of changes; `userId` is the user who made the change
+@Entity('activities')
+@Index(['projectId', 'id'])
+@Index(['boardId', 'id'])
+@Index(['cardId', 'id'])
+export class Activity extends UserRelatedEntity {
+  // Ids increase in insertion order, which the feeds use for ordering and as their cursor
+  @PrimaryGeneratedColumn('increment')
+  public id: number;
+
+  @Column({ type: 'simple-enum', enum: ActivityAction })
+  public action: ActivityAction;
+
+  @Column({ type: 'uuid', name: 'project_id' })
+  public projectId: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  public project: Project;
+
+  // Boards and cards are referenced without a foreign key so that their history outlives them
+  @Column({ type: 'uuid', name: 'board_id', nullable: true })
+  public boardId: string | null;
+
+  @Column({ type: 'uuid', name: 'card_id', nullable: true })
+  public cardId: string | null;
+
+  // Details of the change, e.g. the previous and new title of a rename
+  @Column({ type: 'simple-json' })
+  public data: Record<string, unknown>;
+}
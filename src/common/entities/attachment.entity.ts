@@ -0,0 +1,54 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+import { DateTimeEntity } from './base/dateTimeEntity';
+import { Card } from './card.entity';
+import { Project } from './project.entity';
+import { User } from './user.entity';
+
+// A file attached to a card, or to the project itself when `cardId` is null. The rows
+// cascade with their parent; the stored files are deleted by the services.
+@Entity('attachments')
+@Index(['projectId', 'cardId'])
+export class Attachment extends DateTimeEntity {
+  @PrimaryGeneratedColumn('uuid')
+  public id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  public fileName: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  public contentType: string;
+
+  // In bytes
+  @Column({ type: 'int' })
+  public size: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  public storageKey: string;
+
+  // Only images have a thumbnail
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  public thumbnailKey: string | null;
+
+  @Column({ type: 'uuid', name: 'project_id' })
+  public projectId: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  public project: Project;
+
+  @Column({ type: 'uuid', name: 'card_id', nullable: true })
+  public cardId: string | null;
+
+  @ManyToOne(() => Card, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'card_id' })
+  public card: Card | null;
+
+  // Attachments stay with the project when their uploader's account is deleted
+  @Column({ type: 'uuid', name: 'uploaded_by_id', nullable: true })
+  public uploadedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'uploaded_by_id' })
+  public uploadedBy: User | null;
+}
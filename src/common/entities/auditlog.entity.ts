@@ -0,0 +1,40 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { AuditAction } from '@/common/models/auditAction';
+
+// A change to an audited row, recorded by the AuditSubscriber in the transaction making it.
+// Rows are never updated, and reference the changed row and the actor without a foreign
+// key so that they outlive both.
+@Entity('audit_logs')
+@Index(['entityType', 'entityId', 'id'])
+@Index(['actorId', 'id'])
+export class AuditLog {
+  @PrimaryGeneratedColumn('increment')
+  public id: number;
+
+  // Name of the entity class, e.g. 'Project'
+  @Column({ type: 'varchar', length: 50 })
+  public entityType: string;
+
+  @Column({ type: 'uuid' })
+  public entityId: string;
+
+  @Column({ type: 'simple-enum', enum: AuditAction })
+  public action: AuditAction;
+
+  // The changed columns with their value before and after; null before an insert and
+  // after a delete
+  @Column({ type: 'simple-json' })
+  public changes: Record<string, { from: unknown; to: unknown }>;
+
+  // The authenticated user of the request that made the change; null for changes made
+  // outside of requests, e.g. by jobs and scripts, or before signing in
+  @Column({ type: 'uuid', nullable: true })
+  public actorId: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  public requestId: string | null;
+
+  @CreateDateColumn({ precision: 3 })
+  public createdAt: Date;
+}
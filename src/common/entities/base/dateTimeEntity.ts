@@ -1,9 +1,11 @@
 import { CreateDateColumn, UpdateDateColumn } from 'typeorm';
 
+// Millisecond precision lets the timestamps round-trip through `Date`, which
+// pagination cursors on these columns rely on
 export class DateTimeEntity {
-  @CreateDateColumn()
+  @CreateDateColumn({ precision: 3 })
   createdAt: Date;
 
-  @UpdateDateColumn()
+  @UpdateDateColumn({ precision: 3 })
   updatedAt: Date;
 }
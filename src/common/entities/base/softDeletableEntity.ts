@@ -0,0 +1,11 @@
+import { DeleteDateColumn } from 'typeorm';
+
+import { DateTimeEntity } from './dateTimeEntity';
+
+// Deleting a row moves it to the trash by setting `deletedAt`. TypeORM leaves such rows
+// out of every find and query builder, joins included, unless `withDeleted` is set; the
+// trash purge deletes them for good once TRASH_RETENTION_DAYS have passed.
+export class SoftDeletableEntity extends DateTimeEntity {
+  @DeleteDateColumn({ precision: 3, nullable: true })
+  deletedAt: Date | null;
+}
@@ -1,12 +1,16 @@
 import { Column, JoinColumn, ManyToOne } from 'typeorm';
 
-import { User } from '../user.entity';
+import type { User } from '../user.entity';
+import { DateTimeEntity } from './dateTimeEntity';
 
-export class UserRelatedEntity {
-  @Column()
-  userId: number;
+// Base for rows written by a user, such as comments or activity log entries.
+// `User` is referenced by name: importing it here would make the entities that
+// `User` itself imports extend this class before it is defined.
+export class UserRelatedEntity extends DateTimeEntity {
+  @Column({ type: 'uuid', name: 'user_id' })
+  userId: string;
 
-  @ManyToOne(type => User)
-  @JoinColumn({ name: 'userId' })
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
   user: User;
 }
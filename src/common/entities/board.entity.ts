@@ -1,10 +1,14 @@
-import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Column, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
 
-import { DateTimeEntity } from './base/dateTimeEntity';
+import { SoftDeletableEntity } from './base/softDeletableEntity';
+import { List } from './list.entity';
 import { Project } from './project.entity';
 
 @Entity('boards')
-export class Board extends DateTimeEntity {
+// Full-text index of the search, see Project
+@Index('IDX_boards_search', { synchronize: false })
+@Index(['projectId', 'position'])
+export class Board extends SoftDeletableEntity {
   @PrimaryGeneratedColumn('uuid')
   public id: string;
 
@@ -12,9 +16,22 @@ export class Board extends DateTimeEntity {
   public title: string;
 
   @Column({ type: 'text', nullable: true })
-  public description: string;
+  public description: string | null;
 
-  @ManyToOne(() => Project, (project) => project.id, { onDelete: 'CASCADE' })
+  // Zero-based index among the project's active boards; archived boards keep their last value
+  @Column({ type: 'int', default: 0 })
+  public position: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  public archivedAt: Date | null;
+
+  @Column({ type: 'uuid', name: 'project_id' })
+  public projectId: string;
+
+  @ManyToOne(() => Project, (project) => project.boards, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'project_id' })
   public project: Project;
+
+  @OneToMany(() => List, (list) => list.board)
+  public lists: List[];
 }
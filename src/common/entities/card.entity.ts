@@ -0,0 +1,59 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { SoftDeletableEntity } from './base/softDeletableEntity';
+import { Comment } from './comment.entity';
+import { List } from './list.entity';
+import { User } from './user.entity';
+
+@Entity('cards')
+// Full-text index of the search, see Project
+@Index('IDX_cards_search', { synchronize: false })
+@Index(['listId', 'position'])
+export class Card extends SoftDeletableEntity {
+  @PrimaryGeneratedColumn('uuid')
+  public id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  public title: string;
+
+  @Column({ type: 'text', nullable: true })
+  public description: string | null;
+
+  // Zero-based index among the cards of the list
+  @Column({ type: 'int', default: 0 })
+  public position: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  public dueDate: Date | null;
+
+  @Column({ type: 'simple-json' })
+  public labels: string[];
+
+  @Column({ type: 'uuid', name: 'list_id' })
+  public listId: string;
+
+  @ManyToOne(() => List, (list) => list.cards, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'list_id' })
+  public list: List;
+
+  @ManyToMany(() => User)
+  @JoinTable({
+    name: 'card_assignees',
+    joinColumn: { name: 'card_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  public assignees: User[];
+
+  @OneToMany(() => Comment, (comment) => comment.card)
+  public comments: Comment[];
+}
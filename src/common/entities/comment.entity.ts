@@ -0,0 +1,28 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+import { UserRelatedEntity } from './base/userRelatedEntity';
+import { Card } from './card.entity';
+
+// `userId` is the author of the comment
+@Entity('comments')
+// Full-text index of the search, see Project
+@Index('IDX_comments_search', { synchronize: false })
+@Index(['cardId', 'createdAt'])
+export class Comment extends UserRelatedEntity {
+  @PrimaryGeneratedColumn('uuid')
+  public id: string;
+
+  @Column({ type: 'text' })
+  public body: string;
+
+  // Set when the author changes the body, unlike `updatedAt` which any write touches
+  @Column({ type: 'timestamp', nullable: true })
+  public editedAt: Date | null;
+
+  @Column({ type: 'uuid', name: 'card_id' })
+  public cardId: string;
+
+  @ManyToOne(() => Card, (card) => card.comments, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'card_id' })
+  public card: Card;
+}
@@ -0,0 +1,43 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { JobStatus } from '@/common/models/jobStatus';
+
+import { DateTimeEntity } from './base/dateTimeEntity';
+
+// A unit of work run by the job worker outside of the request that enqueued it
+@Entity('jobs')
+@Index(['status', 'runAt'])
+export class Job extends DateTimeEntity {
+  @PrimaryGeneratedColumn('increment')
+  public id: number;
+
+  // The name of the job definition whose handler runs it
+  @Column({ type: 'varchar', length: 100 })
+  public name: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  public payload: unknown;
+
+  @Column({ type: 'simple-enum', enum: JobStatus, default: JobStatus.Pending })
+  public status: JobStatus;
+
+  @Column({ type: 'int', default: 0 })
+  public attempts: number;
+
+  @Column({ type: 'int' })
+  public maxAttempts: number;
+
+  // When the job, or its next attempt, is due
+  @Column({ type: 'timestamp', precision: 3 })
+  public runAt: Date;
+
+  // When the running attempt started; attempts running for too long are taken as failed
+  @Column({ type: 'timestamp', precision: 3, nullable: true })
+  public lockedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  public lastError: string | null;
+
+  @Column({ type: 'timestamp', precision: 3, nullable: true })
+  public completedAt: Date | null;
+}
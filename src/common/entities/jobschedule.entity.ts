@@ -0,0 +1,16 @@
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+
+// The next run of a recurring job, shared by every instance so that each run is only
+// enqueued once
+@Entity('job_schedules')
+export class JobSchedule {
+  @PrimaryColumn({ type: 'varchar', length: 100 })
+  public name: string;
+
+  // The cron expression `nextRunAt` was computed from
+  @Column({ type: 'varchar', length: 100 })
+  public cron: string;
+
+  @Column({ type: 'timestamp', precision: 3 })
+  public nextRunAt: Date;
+}
@@ -0,0 +1,29 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
+
+import { SoftDeletableEntity } from './base/softDeletableEntity';
+import { Board } from './board.entity';
+import { Card } from './card.entity';
+
+@Entity('lists')
+@Index(['boardId', 'position'])
+export class List extends SoftDeletableEntity {
+  @PrimaryGeneratedColumn('uuid')
+  public id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  public title: string;
+
+  // Zero-based index among the lists of the board
+  @Column({ type: 'int', default: 0 })
+  public position: number;
+
+  @Column({ type: 'uuid', name: 'board_id' })
+  public boardId: string;
+
+  @ManyToOne(() => Board, (board) => board.lists, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'board_id' })
+  public board: Board;
+
+  @OneToMany(() => Card, (card) => card.list)
+  public cards: Card[];
+}
@@ -0,0 +1,44 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+import { NotificationType } from '@/common/models/notificationType';
+
+import { UserRelatedEntity } from './base/userRelatedEntity';
+import { Project } from './project.entity';
+import { User } from './user.entity';
+
+// An entry of the inbox of `userId`; `actorId` is the user whose action caused it
+@Entity('notifications')
+@Index(['userId', 'id'])
+export class Notification extends UserRelatedEntity {
+  // Ids increase in insertion order, which the inbox uses for ordering and as its cursor
+  @PrimaryGeneratedColumn('increment')
+  public id: number;
+
+  @Column({ type: 'simple-enum', enum: NotificationType })
+  public type: NotificationType;
+
+  @Column({ type: 'uuid', name: 'actor_id', nullable: true })
+  public actorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  public actor: User | null;
+
+  @Column({ type: 'uuid', name: 'project_id' })
+  public projectId: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  public project: Project;
+
+  // What the notification is about, e.g. the ids and title of the assigned card
+  @Column({ type: 'simple-json' })
+  public data: Record<string, unknown>;
+
+  @Column({ type: 'timestamp', precision: 3, nullable: true })
+  public readAt: Date | null;
+
+  // Set while the notification waits for the daily digest email
+  @Column({ type: 'boolean', default: false })
+  public digestPending: boolean;
+}
@@ -0,0 +1,24 @@
+import { Column, Entity, JoinColumn, OneToOne, PrimaryColumn } from 'typeorm';
+
+import { EmailFrequency, NotificationType } from '@/common/models/notificationType';
+
+import { DateTimeEntity } from './base/dateTimeEntity';
+import { User } from './user.entity';
+
+// Users without a row get the defaults: every type, emailed instantly
+@Entity('notification_preferences')
+export class NotificationPreference extends DateTimeEntity {
+  @PrimaryColumn({ type: 'uuid', name: 'user_id' })
+  public userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  public user: User;
+
+  @Column({ type: 'simple-enum', enum: EmailFrequency, default: EmailFrequency.Instant })
+  public emailFrequency: EmailFrequency;
+
+  // Types the user is neither notified of in the inbox nor by email
+  @Column({ type: 'simple-json' })
+  public mutedTypes: NotificationType[];
+}
@@ -1,9 +1,14 @@
-import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
-import { DateTimeEntity } from './base/dateTimeEntity';
+import { Column, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
+
+import { SoftDeletableEntity } from './base/softDeletableEntity';
+import { Board } from './board.entity';
 import { ProjectMembers } from './projectmembers.entity';
+import { User } from './user.entity';
 
 @Entity('projects')
-export class Project extends DateTimeEntity {
+// Full-text index of the search, created by the SearchIndexes migration as TypeORM cannot express it
+@Index('IDX_projects_search', { synchronize: false })
+export class Project extends SoftDeletableEntity {
   @PrimaryGeneratedColumn('uuid')
   public id: string;
 
@@ -11,8 +16,18 @@ export class Project extends DateTimeEntity {
   public title: string;
 
   @Column({ type: 'varchar', nullable: true })
-  public description: string;
+  public description: string | null;
+
+  @Column({ type: 'uuid', name: 'owner_id' })
+  public ownerId: string;
 
-  @OneToMany(() => ProjectMembers, (projectMember) => projectMember.user)
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'owner_id' })
+  public owner: User;
+
+  @OneToMany(() => ProjectMembers, (projectMember) => projectMember.project)
   public projectMembers: ProjectMembers[];
+
+  @OneToMany(() => Board, (board) => board.project)
+  public boards: Board[];
 }
@@ -1,20 +1,31 @@
-import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, Unique } from 'typeorm';
+
+import { ProjectRole } from '@/common/models/projectRole';
 
 import { DateTimeEntity } from './base/dateTimeEntity';
 import { Project } from './project.entity';
 import { User } from './user.entity';
 
-@Entity('projects')
+@Entity('project_members')
+@Unique(['projectId', 'userId'])
 export class ProjectMembers extends DateTimeEntity {
   @PrimaryGeneratedColumn('uuid')
   public id: string;
 
-  @Column({ type: 'int' })
-  public role: number;
+  @Column({ type: 'simple-enum', enum: ProjectRole, default: ProjectRole.Member })
+  public role: ProjectRole;
+
+  @Column({ type: 'uuid', name: 'user_id' })
+  public userId: string;
+
+  @Column({ type: 'uuid', name: 'project_id' })
+  public projectId: string;
 
-  @ManyToOne(() => User, (user) => user.projectMembers)
+  @ManyToOne(() => User, (user) => user.projectMembers, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
   public user: User;
 
-  @ManyToOne(() => Project, (project) => project.projectMembers)
+  @ManyToOne(() => Project, (project) => project.projectMembers, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
   public project: Project;
 }
@@ -0,0 +1,15 @@
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+
+// Request counter of one client of a rate limit, shared by every instance of the API
+@Entity('rate_limit_counters')
+export class RateLimitCounter {
+  // The client key prefixed by the name of the rate limit policy
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  public key: string;
+
+  @Column({ type: 'int' })
+  public hits: number;
+
+  @Column({ type: 'timestamp', precision: 3 })
+  public resetAt: Date;
+}
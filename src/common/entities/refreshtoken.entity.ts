@@ -0,0 +1,23 @@
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+import { DateTimeEntity } from './base/dateTimeEntity';
+import { User } from './user.entity';
+
+@Entity('refresh_tokens')
+export class RefreshToken extends DateTimeEntity {
+  @PrimaryGeneratedColumn('uuid')
+  public id: string;
+
+  @Column({ type: 'uuid', name: 'user_id' })
+  public userId: string;
+
+  @Column({ type: 'timestamp' })
+  public expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  public revokedAt: Date | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  public user: User;
+}
@@ -1,4 +1,5 @@
-import { Column, Entity, PrimaryGeneratedColumn, OneToMany } from 'typeorm';
+import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
+
 import { DateTimeEntity } from './base/dateTimeEntity';
 import { ProjectMembers } from './projectmembers.entity';
 
@@ -10,18 +11,30 @@ export class User extends DateTimeEntity {
   @Column({ type: 'varchar', unique: true, length: 255 })
   public email: string;
 
-  @Column({ type: 'varchar', length: 255 })
+  @Column({ type: 'varchar', length: 255, select: false })
   public password: string;
 
   @Column({ type: 'varchar', length: 100, nullable: true })
-  public name: string;
+  public name: string | null;
 
   @Column({ type: 'text', nullable: true })
-  public bio: string;
+  public bio: string | null;
 
   @Column({ type: 'varchar', length: 255, nullable: true })
-  public avatarUrl: string;
+  public avatarUrl: string | null;
+
+  // Storage keys of an uploaded avatar, in which case `avatarUrl` is the API route
+  // redirecting to it. Like the password, they are never sent to clients.
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  public avatarKey: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  public avatarThumbnailKey: string | null;
+
+  // Administrators of the whole API, e.g. of its background jobs; granted with `pnpm db:grant-admin`
+  @Column({ type: 'boolean', default: false, select: false })
+  public isAdmin: boolean;
 
-  @OneToMany(() => ProjectMembers, (projectMember) => projectMember.project)
+  @OneToMany(() => ProjectMembers, (projectMember) => projectMember.user)
   public projectMembers: ProjectMembers[];
 }
@@ -0,0 +1,151 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { CronExpressionParser } from 'cron-parser';
+import { pino } from 'pino';
+
+import { Job } from '@/api/job/jobModel';
+import { jobRepository } from '@/api/job/jobRepository';
+import { jobScheduleRepository } from '@/api/job/jobScheduleRepository';
+import { enqueueJob, JobDefinition, JobScheduleDefinition, retryDelayMs } from '@/common/jobs/jobs';
+import { withoutTracing, withSpan } from '@/common/tracing/tracing';
+import { env } from '@/common/utils/envConfig';
+
+const logger = pino({ name: 'jobs', enabled: !env.isTest });
+
+const nextCronRun = (cron: string, after: Date): Date =>
+  CronExpressionParser.parse(cron, { currentDate: after, tz: 'UTC' }).next().toDate();
+
+/**
+ * Polls the jobs table and runs the due jobs of the given definitions, at most
+ * JOB_CONCURRENCY at a time. Failed attempts are retried with exponential backoff until
+ * the job has used its attempts, after which it stays failed. Schedules enqueue their job
+ * at each run of their cron expression; the next run is kept in the database, so each
+ * run is enqueued once whatever the number of instances.
+ */
+export class JobWorker {
+  private readonly definitions: Map<string, JobDefinition>;
+  private readonly running = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | undefined;
+  // The poll under way, which may still claim jobs
+  private polling: Promise<unknown> | undefined;
+  private stopped = false;
+
+  constructor(
+    definitions: JobDefinition[],
+    private readonly schedules: JobScheduleDefinition[] = []
+  ) {
+    this.definitions = new Map(definitions.map((definition) => [definition.name, definition]));
+    schedules.forEach(({ job, cron }) => {
+      if (!this.definitions.has(job.name)) throw new Error(`Scheduled job ${job.name} is not defined`);
+      CronExpressionParser.parse(cron); // Throws on invalid expressions
+    });
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.poll();
+  }
+
+  // Stops taking jobs and resolves once the poll under way and the running jobs have finished
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.polling;
+    await Promise.allSettled(this.running);
+  }
+
+  // Enqueues the scheduled jobs that are due and runs the due jobs that fit in the free
+  // slots, resolving once they have finished
+  async runDueJobs(): Promise<void> {
+    await Promise.all(await this.startDueJobs());
+  }
+
+  private poll(): void {
+    this.timer = setTimeout(async () => {
+      this.polling = this.startDueJobs().catch((err) => logger.error({ err }, 'Error polling jobs'));
+      await this.polling;
+      this.polling = undefined;
+      if (!this.stopped) this.poll();
+    }, env.JOB_POLL_INTERVAL_MS);
+  }
+
+  // The queries of the poll are not traced, as most polls find nothing to do; each job
+  // started gets a trace of its own
+  private async startDueJobs(): Promise<Promise<void>[]> {
+    const claimed = await withoutTracing(() => this.claimDueJobs());
+    return claimed.map((job) => {
+      const run = this.run(job).finally(() => this.running.delete(run));
+      this.running.add(run);
+      return run;
+    });
+  }
+
+  private async claimDueJobs(): Promise<Job[]> {
+    await this.enqueueScheduledJobs();
+    await this.failTimedOutJobs();
+    const freeSlots = env.JOB_CONCURRENCY - this.running.size;
+    if (freeSlots <= 0) return [];
+
+    const claimed: Job[] = [];
+    for (const job of await jobRepository.findDueAsync([...this.definitions.keys()], freeSlots)) {
+      // `stop` may have been called while waiting on the database
+      if (this.stopped) break;
+      if (await jobRepository.claimAsync(job)) claimed.push({ ...job, attempts: job.attempts + 1 });
+    }
+    return claimed;
+  }
+
+  private run(job: Job): Promise<void> {
+    const { handler } = this.definitions.get(job.name)!;
+    return withSpan(
+      `job ${job.name}`,
+      async (span) => {
+        try {
+          await handler(job.payload, job);
+          if (!(await jobRepository.completeAsync(job))) {
+            logger.warn(
+              { jobId: job.id, name: job.name, attempts: job.attempts },
+              'Job attempt finished after timing out'
+            );
+          }
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: error });
+          await this.fail(job, error);
+        }
+      },
+      { attributes: { 'job.id': job.id, 'job.name': job.name, 'job.attempt': job.attempts } }
+    );
+  }
+
+  private async fail(job: Job, error: string): Promise<void> {
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + retryDelayMs(job.attempts)) : null;
+    logger.warn({ jobId: job.id, name: job.name, attempts: job.attempts, error }, 'Job attempt failed');
+    await jobRepository.failAsync(job, error, retryAt).catch((err) => {
+      logger.error({ err, jobId: job.id }, 'Error recording a failed job attempt');
+    });
+  }
+
+  // Attempts of crashed or stuck workers are failed so that the job is retried elsewhere
+  private async failTimedOutJobs(): Promise<void> {
+    const timedOut = await jobRepository.findTimedOutAsync(new Date(Date.now() - env.JOB_TIMEOUT_MS));
+    for (const job of timedOut) {
+      await this.fail(job, `Timed out after ${env.JOB_TIMEOUT_MS} ms`);
+    }
+  }
+
+  private async enqueueScheduledJobs(): Promise<void> {
+    const now = new Date();
+    for (const { job, cron } of this.schedules) {
+      const schedule = await jobScheduleRepository.findByNameAsync(job.name);
+      if (!schedule || schedule.cron !== cron) {
+        await jobScheduleRepository.saveAsync({ name: job.name, cron, nextRunAt: nextCronRun(cron, now) });
+        continue;
+      }
+      if (schedule.nextRunAt > now) continue;
+      // Runs missed while no instance was up are not caught up: the job is enqueued once
+      if (await jobScheduleRepository.advanceAsync(job.name, schedule.nextRunAt, nextCronRun(cron, now))) {
+        await enqueueJob(job, undefined);
+      }
+    }
+  }
+}
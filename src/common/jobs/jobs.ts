@@ -0,0 +1,44 @@
+import { Job } from '@/api/job/jobModel';
+import { jobRepository } from '@/api/job/jobRepository';
+import { env } from '@/common/utils/envConfig';
+
+// Runs one attempt of a job; a rejection fails the attempt
+export type JobHandler<P> = (payload: P, job: Job) => Promise<void>;
+
+export type JobDefinition<P = any> = {
+  // Unique among the jobs, named `<subject>.<task>`
+  name: string;
+  handler: JobHandler<P>;
+  maxAttempts: number;
+};
+
+// A job enqueued on a cron schedule, e.g. '0 3 * * *' for every day at 03:00 UTC
+export type JobScheduleDefinition = { job: JobDefinition<void>; cron: string };
+
+export const defineJob = <P = void>(
+  name: string,
+  handler: JobHandler<P>,
+  options: { maxAttempts?: number } = {}
+): JobDefinition<P> => ({ name, handler, maxAttempts: options.maxAttempts ?? env.JOB_MAX_ATTEMPTS });
+
+// Stores a job for a worker to run once it is due, by default right away
+export const enqueueJob = async <P>(
+  definition: JobDefinition<P>,
+  payload: P,
+  options: { delayMs?: number } = {}
+): Promise<Job> =>
+  jobRepository.createAsync({
+    name: definition.name,
+    payload: payload ?? null,
+    maxAttempts: definition.maxAttempts,
+    runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+  });
+
+// Exponential backoff: the delay before the retry following attempt number `attempts`
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(env.JOB_RETRY_DELAY_MS * 2 ** (attempts - 1), env.JOB_RETRY_MAX_DELAY_MS);
+
+// Deletes the completed jobs older than JOB_RETENTION_DAYS
+export const purgeCompletedJobsJob = defineJob('jobs.purge-completed', async () => {
+  await jobRepository.deleteCompletedAsync(new Date(Date.now() - env.JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+});
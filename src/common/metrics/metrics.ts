@@ -0,0 +1,66 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { DataSource } from 'typeorm';
+
+// Metrics served at /metrics in the Prometheus exposition format, alongside the process
+// metrics of Node (CPU, memory, event loop lag, garbage collection)
+export const prometheusRegistry = new Registry();
+
+collectDefaultMetrics({ register: prometheusRegistry });
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests answered, by method, route template and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [prometheusRegistry],
+});
+
+export const httpRequestDurationSeconds = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time taken to answer HTTP requests, by method, route template and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [prometheusRegistry],
+});
+
+export const dbQueryDurationSeconds = new Histogram({
+  name: 'db_query_duration_seconds',
+  help: 'Time taken by database queries, by SQL command',
+  labelNames: ['command'] as const,
+  buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [prometheusRegistry],
+});
+
+export const dbQueryErrorsTotal = new Counter({
+  name: 'db_query_errors_total',
+  help: 'Database queries that failed, by SQL command',
+  labelNames: ['command'] as const,
+  registers: [prometheusRegistry],
+});
+
+// The usage counters of node-postgres pools; other drivers do not expose theirs
+type PgPool = { totalCount: number; idleCount: number; waitingCount: number };
+
+const isPgPool = (pool: unknown): pool is PgPool =>
+  !!pool && typeof pool === 'object' && 'totalCount' in pool && 'idleCount' in pool && 'waitingCount' in pool;
+
+// Reports the connections of the pool of `dataSource` when metrics are collected
+export const trackConnectionPool = (dataSource: DataSource): void => {
+  const pool = () => {
+    const { master } = dataSource.driver as { master?: unknown };
+    return isPgPool(master) ? master : null;
+  };
+
+  new Gauge({
+    name: 'db_pool_connections',
+    help: "Connections of the database pool that are idle or in use, and queries 'waiting' for one",
+    labelNames: ['state'] as const,
+    registers: [prometheusRegistry],
+    collect() {
+      const stats = pool();
+      if (!stats) return;
+      this.set({ state: 'idle' }, stats.idleCount);
+      this.set({ state: 'in_use' }, stats.totalCount - stats.idleCount);
+      this.set({ state: 'waiting' }, stats.waitingCount);
+    },
+  });
+};
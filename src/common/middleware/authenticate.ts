@@ -0,0 +1,19 @@
+import { RequestHandler } from 'express';
+
+import { UnauthorizedError } from '@/common/models/errors';
+import { verifyAccessToken } from '@/common/utils/jwt';
+
+const BEARER_PREFIX = 'Bearer ';
+
+const authenticate: RequestHandler = (req, _res, next) => {
+  const header = req.headers.authorization;
+  const payload = header?.startsWith(BEARER_PREFIX) ? verifyAccessToken(header.slice(BEARER_PREFIX.length)) : null;
+  if (!payload) {
+    next(new UnauthorizedError());
+    return;
+  }
+  req.user = { id: payload.sub, email: payload.email };
+  next();
+};
+
+export default authenticate;
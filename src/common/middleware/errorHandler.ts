@@ -1,8 +1,47 @@
 import { ErrorRequestHandler, RequestHandler } from 'express';
 import { StatusCodes } from 'http-status-codes';
+import { pino } from 'pino';
+import { EntityNotFoundError, QueryFailedError } from 'typeorm';
 
-const unexpectedRequest: RequestHandler = (_req, res) => {
-  res.sendStatus(StatusCodes.NOT_FOUND);
+import { AppError, ConflictError, ErrorCode, NotFoundError } from '@/common/models/errors';
+import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { traceFields } from '@/common/tracing/tracing';
+import { env } from '@/common/utils/envConfig';
+
+// Tests provoke unexpected errors on purpose, so they are not logged there
+const logger = pino({ name: 'error handler', enabled: !env.isTest, mixin: traceFields });
+
+// Driver codes of unique constraint violations: Postgres, then MySQL
+const UNIQUE_VIOLATION_CODES = ['23505', 'ER_DUP_ENTRY'];
+
+// Errors raised by Express and body-parser (e.g. a malformed JSON body) carry the status
+// to answer and whether their message is safe to show
+type HttpError = Error & { status: number; expose?: boolean };
+
+const isHttpError = (err: unknown): err is HttpError =>
+  err instanceof Error && typeof (err as HttpError).status === 'number';
+
+// Maps any thrown value to the error reported to the client
+const toAppError = (err: unknown): AppError => {
+  if (err instanceof AppError) return err;
+  if (err instanceof QueryFailedError && UNIQUE_VIOLATION_CODES.includes(err.driverError?.code)) {
+    return new ConflictError('A resource with the same unique values already exists');
+  }
+  if (err instanceof EntityNotFoundError) return new NotFoundError('Resource not found');
+  if (isHttpError(err) && err.expose && err.status < StatusCodes.INTERNAL_SERVER_ERROR) {
+    return new AppError(err.message, err.status, ErrorCode.BadRequest);
+  }
+  // Internal messages may reveal queries or stack details, so production only gets a generic one
+  const message = env.isProduction ? 'An unexpected error occurred' : (err as Error)?.message;
+  return new AppError(
+    message || 'An unexpected error occurred',
+    StatusCodes.INTERNAL_SERVER_ERROR,
+    ErrorCode.InternalError
+  );
+};
+
+const unexpectedRequest: RequestHandler = (req, _res, next) => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`));
 };
 
 const addErrorToRequestLog: ErrorRequestHandler = (err, _req, res, next) => {
@@ -10,4 +49,22 @@ const addErrorToRequestLog: ErrorRequestHandler = (err, _req, res, next) => {
   next(err);
 };
 
-export default () => [unexpectedRequest, addErrorToRequestLog];
+// Answers every error with a ServiceResponse extended by an `error` object holding the
+// error code and the request id, which is also the `X-Request-Id` of the request log
+const sendErrorResponse: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  const error = toAppError(err);
+  if (error.statusCode >= StatusCodes.INTERNAL_SERVER_ERROR) {
+    logger.error({ err, requestId: req.id }, `Unhandled error on ${req.method} ${req.originalUrl}`);
+  }
+  const response = new ServiceResponse(ResponseStatus.Failed, error.message, null, error.statusCode);
+  res.status(error.statusCode).send({
+    ...response,
+    error: { code: error.code, requestId: req.id === undefined ? undefined : String(req.id), details: error.details },
+  });
+};
+
+export default () => [unexpectedRequest, addErrorToRequestLog, sendErrorResponse];
@@ -0,0 +1,22 @@
+import { RequestHandler } from 'express';
+
+import { httpRequestDurationSeconds, httpRequestsTotal } from '@/common/metrics/metrics';
+import { trackRouteTemplate } from '@/common/utils/routeTemplate';
+
+// Label of the requests that matched no route, which would otherwise add a label value per path
+const UNMATCHED = 'unmatched';
+
+// Counts and times the requests by method, route template and status
+const httpMetrics: RequestHandler = (req, res, next) => {
+  const start = process.hrtime.bigint();
+  const routeTemplate = trackRouteTemplate(req);
+
+  res.on('finish', () => {
+    const labels = { method: req.method, route: routeTemplate() ?? UNMATCHED, status: String(res.statusCode) };
+    httpRequestsTotal.inc(labels);
+    httpRequestDurationSeconds.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  });
+  next();
+};
+
+export default httpMetrics;
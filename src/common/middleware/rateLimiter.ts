@@ -1,10 +1,46 @@
+import { Request } from 'express';
 import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+
+import { TooManyRequestsError } from '@/common/models/errors';
 import { env } from '@/common/utils/envConfig';
+import { createRateLimitStore } from '@/common/utils/rateLimitStore';
+
+type RateLimitPolicy = {
+  // Names the policy in the RateLimit-Policy header and prefixes its keys in a shared store
+  name: string;
+  limit: number;
+  windowMs: number;
+};
+
+// Authenticated clients are counted per user, whatever their address; others per IP,
+// grouping IPv6 addresses by subnet
+const clientKey = (req: Request) => (req.user ? `user:${req.user.id}` : `ip:${ipKeyGenerator(req.ip ?? '')}`);
 
-const rateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 100,
-  keyGenerator: (req, res) => ipKeyGenerator(req.ip as string), // ✅ Wrap
+/**
+ * Limits the requests of each client to `limit` per `windowMs`. Responses carry the
+ * standard RateLimit-Policy and RateLimit headers; rejected requests get a 429 with a
+ * Retry-After header. To count per user, mount the limiter after `authenticate`.
+ */
+export const createRateLimiter = ({ name, limit, windowMs }: RateLimitPolicy) =>
+  rateLimit({
+    limit,
+    windowMs,
+    identifier: name,
+    standardHeaders: 'draft-8',
+    legacyHeaders: false,
+    store: createRateLimitStore(name),
+    keyGenerator: clientKey,
+    handler: (_req, _res, next) => next(new TooManyRequestsError()),
+  });
+
+export const commonRateLimiter = createRateLimiter({
+  name: 'common',
+  limit: env.COMMON_RATE_LIMIT_MAX_REQUESTS,
+  windowMs: env.COMMON_RATE_LIMIT_WINDOW_MS,
 });
 
-export default rateLimiter;
+export const authRateLimiter = createRateLimiter({
+  name: 'auth',
+  limit: env.AUTH_RATE_LIMIT_MAX_REQUESTS,
+  windowMs: env.AUTH_RATE_LIMIT_WINDOW_MS,
+});
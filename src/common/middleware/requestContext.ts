@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { Request, RequestHandler } from 'express';
+
+const storage = new AsyncLocalStorage<Request>();
+
+// The request being handled, for code that is not passed it, such as TypeORM subscribers;
+// undefined outside of requests, e.g. in jobs
+export const currentRequest = (): Request | undefined => storage.getStore();
+
+// Makes the request available through `currentRequest` to everything that runs while it is
+// handled. Must come after the request logger, which assigns the request id.
+const requestContext: RequestHandler = (req, _res, next) => storage.run(req, next);
+
+export default requestContext;
@@ -5,6 +5,7 @@ import { getReasonPhrase, StatusCodes } from 'http-status-codes';
 import { LevelWithSilent } from 'pino';
 import { CustomAttributeKeys, Options, pinoHttp } from 'pino-http';
 
+import { traceFields } from '@/common/tracing/tracing';
 import { env } from '@/common/utils/envConfig';
 
 enum LogLevel {
@@ -24,20 +25,56 @@ type PinoCustomProps = {
   responseBody: unknown;
 };
 
-const requestLogger = (options?: Options): RequestHandler[] => {
+export type RequestLogSettings = {
+  level: LevelWithSilent;
+  pretty: boolean;
+  // Pino redaction paths, added to REDACTED_PATHS
+  redactPaths: string[];
+  // Fields censored at any depth of logged bodies, added to REDACTED_FIELDS
+  redactFields: string[];
+  responseBodies: boolean;
+  maxBodyLength: number;
+  routeLevels: { prefix: string; level: LevelWithSilent }[];
+  successSampleRate: number;
+};
+
+const REDACTED_PATHS = ['request.headers.authorization', 'request.headers.cookie', 'response.headers["set-cookie"]'];
+const REDACTED_FIELDS = ['password', 'accessToken', 'refreshToken', 'token'];
+const CENSOR = '[REDACTED]';
+
+const envSettings: RequestLogSettings = {
+  level: env.LOG_LEVEL,
+  pretty: env.LOG_PRETTY,
+  redactPaths: env.LOG_REDACT_PATHS,
+  redactFields: env.LOG_REDACT_FIELDS,
+  responseBodies: env.LOG_RESPONSE_BODIES,
+  maxBodyLength: env.LOG_MAX_BODY_LENGTH,
+  routeLevels: env.LOG_ROUTE_LEVELS,
+  successSampleRate: env.LOG_SUCCESS_SAMPLE_RATE,
+};
+
+export const createRequestLogger = (
+  settings: RequestLogSettings = envSettings,
+  options?: Options
+): RequestHandler[] => {
   const pinoOptions: Options = {
-    enabled: env.isProduction,
-    customProps: customProps as unknown as Options['customProps'],
-    redact: [],
+    level: settings.level,
+    // pino-pretty is a development dependency, only loaded when asked for
+    transport: settings.pretty ? { target: 'pino-pretty', options: { ignore: 'pid,hostname' } } : undefined,
+    // Ids of the span of the request, which `requestTracing` starts before
+    mixin: traceFields,
+    customProps: customProps(settings) as unknown as Options['customProps'],
+    redact: { paths: [...REDACTED_PATHS, ...settings.redactPaths], censor: CENSOR },
     genReqId,
-    customLogLevel,
+    customLogLevel: customLogLevel(settings),
     customSuccessMessage,
     customReceivedMessage: (req) => `request received: ${req.method}`,
     customErrorMessage: (_req, res) => `request errored with status code: ${res.statusCode}`,
     customAttributeKeys,
     ...options,
   };
-  return [responseBodyMiddleware, pinoHttp(pinoOptions)];
+  const logger = pinoHttp(pinoOptions);
+  return settings.responseBodies ? [responseBodyMiddleware, logger] : [logger];
 };
 
 const customAttributeKeys: CustomAttributeKeys = {
@@ -47,44 +84,99 @@ const customAttributeKeys: CustomAttributeKeys = {
   responseTime: 'timeTaken',
 };
 
-const customProps = (req: Request, res: Response): PinoCustomProps => ({
-  request: req,
-  response: res,
-  error: res.locals.err,
-  responseBody: res.locals.responseBody,
-});
+const customProps =
+  (settings: RequestLogSettings) =>
+  (req: Request, res: Response): PinoCustomProps => ({
+    request: req,
+    response: res,
+    error: res.locals.err,
+    responseBody: formatBody(res.locals.responseBody, settings),
+  });
 
+// Keeps the body passed to `res.json`, or else to `res.send`, for the log of the response
 const responseBodyMiddleware: RequestHandler = (_req, res, next) => {
-  const isNotProduction = !env.isProduction;
-  if (isNotProduction) {
-    const originalSend = res.send;
-    res.send = function (content) {
-      res.locals.responseBody = content;
-      res.send = originalSend;
-      return originalSend.call(res, content);
-    };
-  }
+  const originalJson = res.json;
+  const originalSend = res.send;
+  res.json = function (body) {
+    res.locals.responseBody = body;
+    res.json = originalJson;
+    return originalJson.call(res, body);
+  };
+  res.send = function (content) {
+    res.locals.responseBody ??= content;
+    res.send = originalSend;
+    return originalSend.call(res, content);
+  };
   next();
 };
 
-const customLogLevel = (_req: IncomingMessage, res: ServerResponse<IncomingMessage>, err?: Error): LevelWithSilent => {
-  if (err || res.statusCode >= StatusCodes.INTERNAL_SERVER_ERROR) return LogLevel.Error;
-  if (res.statusCode >= StatusCodes.BAD_REQUEST) return LogLevel.Warn;
-  if (res.statusCode >= StatusCodes.MULTIPLE_CHOICES) return LogLevel.Silent;
-  return LogLevel.Info;
+// Replaces the values of `fields`, compared without case, at any depth of `value`
+const redactFields = (value: unknown, fields: Set<string>): unknown => {
+  if (Array.isArray(value)) return value.map((item) => redactFields(item, fields));
+  if (!value || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      fields.has(key.toLowerCase()) ? CENSOR : redactFields(item, fields),
+    ])
+  );
+};
+
+// The body with its sensitive fields censored; bodies longer than `maxBodyLength` once
+// serialized are logged as their truncated serialization
+const formatBody = (body: unknown, settings: RequestLogSettings): unknown => {
+  if (body === undefined) return undefined;
+  if (Buffer.isBuffer(body)) return `[${body.length} bytes]`;
+  const fields = new Set([...REDACTED_FIELDS, ...settings.redactFields].map((field) => field.toLowerCase()));
+  const redacted = typeof body === 'string' ? body : redactFields(body, fields);
+  const text = typeof redacted === 'string' ? redacted : JSON.stringify(redacted);
+  if (text.length <= settings.maxBodyLength) return redacted;
+  return `${text.slice(0, settings.maxBodyLength)}… [${text.length - settings.maxBodyLength} more characters]`;
+};
+
+// The level set in `routeLevels` for the longest prefix of the path of the request
+const routeLevel = (req: IncomingMessage, settings: RequestLogSettings): LevelWithSilent | undefined => {
+  const [path] = ((req as Request).originalUrl ?? req.url ?? '').split('?');
+  const matches = settings.routeLevels.filter(
+    ({ prefix }) => path === prefix || path.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+  );
+  return matches.sort((a, b) => b.prefix.length - a.prefix.length)[0]?.level;
+};
+
+// Whether the request is among the successful ones that are logged, decided once per request
+// so that its received and completed logs go together
+const sampled = new WeakMap<IncomingMessage, boolean>();
+const isSampled = (req: IncomingMessage, settings: RequestLogSettings): boolean => {
+  if (!sampled.has(req)) sampled.set(req, Math.random() < settings.successSampleRate);
+  return sampled.get(req)!;
 };
 
+const customLogLevel =
+  (settings: RequestLogSettings) =>
+  (req: IncomingMessage, res: ServerResponse<IncomingMessage>, err?: Error): LevelWithSilent => {
+    if (err || res.statusCode >= StatusCodes.INTERNAL_SERVER_ERROR) return LogLevel.Error;
+    if (res.statusCode >= StatusCodes.BAD_REQUEST) return LogLevel.Warn;
+    if (res.statusCode >= StatusCodes.MULTIPLE_CHOICES) return LogLevel.Silent;
+    if (!isSampled(req, settings)) return LogLevel.Silent;
+    return routeLevel(req, settings) ?? LogLevel.Info;
+  };
+
 const customSuccessMessage = (req: IncomingMessage, res: ServerResponse<IncomingMessage>) => {
   if (res.statusCode === StatusCodes.NOT_FOUND) return getReasonPhrase(StatusCodes.NOT_FOUND);
   return `${req.method} completed`;
 };
 
+// Request ids sent by clients end up in the logs and the audit trail, so only short ids of
+// plain characters are kept; others are replaced by a generated one
+const CLIENT_REQUEST_ID = /^[A-Za-z0-9._-]{1,100}$/;
+
 const genReqId = (req: IncomingMessage, res: ServerResponse<IncomingMessage>) => {
-  const existingID = req.id ?? req.headers['x-request-id'];
-  if (existingID) return existingID;
+  if (req.id) return req.id;
+  const clientId = req.headers['x-request-id'];
+  if (typeof clientId === 'string' && CLIENT_REQUEST_ID.test(clientId)) return clientId;
   const id = randomUUID();
   res.setHeader('X-Request-Id', id);
   return id;
 };
 
-export default requestLogger();
+export default createRequestLogger();
@@ -0,0 +1,54 @@
+import { context, propagation, ROOT_CONTEXT, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+  ATTR_URL_SCHEME,
+  ATTR_USER_AGENT_ORIGINAL,
+} from '@opentelemetry/semantic-conventions';
+import { RequestHandler } from 'express';
+import { StatusCodes } from 'http-status-codes';
+
+import { tracer } from '@/common/tracing/tracing';
+import { trackRouteTemplate } from '@/common/utils/routeTemplate';
+
+// Runs the request in a server span, continuing the trace of the caller when it sends a
+// W3C `traceparent` header. The span is named after the route once one has matched.
+const requestTracing: RequestHandler = (req, res, next) => {
+  const parent = propagation.extract(ROOT_CONTEXT, req.headers);
+  const span = tracer.startSpan(
+    req.method,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [ATTR_HTTP_REQUEST_METHOD]: req.method,
+        [ATTR_URL_PATH]: req.path,
+        [ATTR_URL_SCHEME]: req.protocol,
+        [ATTR_USER_AGENT_ORIGINAL]: req.get('user-agent'),
+      },
+    },
+    parent
+  );
+  const routeTemplate = trackRouteTemplate(req);
+
+  let ended = false;
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    const route = routeTemplate();
+    if (route) {
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= StatusCodes.INTERNAL_SERVER_ERROR) span.setStatus({ code: SpanStatusCode.ERROR });
+    span.end();
+  };
+  res.on('finish', end);
+  res.on('close', end);
+
+  context.with(trace.setSpan(parent, span), next);
+};
+
+export default requestTracing;
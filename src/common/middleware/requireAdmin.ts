@@ -0,0 +1,18 @@
+import { RequestHandler } from 'express';
+
+import { User } from '@/common/entities/user.entity';
+import { ForbiddenError } from '@/common/models/errors';
+import dataSource from '@/configs/typeorm.config';
+
+// Restricts a route to administrators of the API. Must run after `authenticate`; the flag
+// is read from the database on each request so that revoking it takes effect at once.
+const requireAdmin: RequestHandler = async (req, _res, next) => {
+  const user = await dataSource
+    .getRepository(User)
+    .findOne({ where: { id: req.user!.id }, select: { id: true, isAdmin: true } });
+
+  if (!user?.isAdmin) throw new ForbiddenError('This action requires an administrator');
+  next();
+};
+
+export default requireAdmin;
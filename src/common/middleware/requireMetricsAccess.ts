@@ -0,0 +1,47 @@
+import { timingSafeEqual } from 'node:crypto';
+import { isIP } from 'node:net';
+
+import { Request, RequestHandler } from 'express';
+
+import { ForbiddenError } from '@/common/models/errors';
+import { env } from '@/common/utils/envConfig';
+
+const BEARER_PREFIX = 'Bearer ';
+
+const hasMetricsToken = (req: Request): boolean => {
+  const header = req.headers.authorization;
+  if (!env.METRICS_TOKEN || !header?.startsWith(BEARER_PREFIX)) return false;
+  const token = Buffer.from(header.slice(BEARER_PREFIX.length));
+  const expected = Buffer.from(env.METRICS_TOKEN);
+  return token.length === expected.length && timingSafeEqual(token, expected);
+};
+
+// Loopback and private addresses, e.g. of a Prometheus server next to the API
+const isInternalAddress = (address: string): boolean => {
+  const ip = address.replace(/^::ffff:/, '');
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 10 || a === 127 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+  }
+  return ip === '::1' || /^f[cd]/i.test(ip) || /^fe[89ab]/i.test(ip);
+};
+
+// Requests made straight from an internal address. Requests relayed by a proxy carry
+// forwarding headers, which clients can add too, so they are never taken as internal.
+const isInternalRequest = (req: Request): boolean =>
+  !req.headers['x-forwarded-for'] &&
+  !req.headers.forwarded &&
+  !!req.socket.remoteAddress &&
+  isInternalAddress(req.socket.remoteAddress);
+
+// Restricts the metrics to requests with METRICS_TOKEN, or from internal networks when
+// METRICS_ALLOW_INTERNAL is set
+const requireMetricsAccess: RequestHandler = (req, _res, next) => {
+  if (hasMetricsToken(req) || (env.METRICS_ALLOW_INTERNAL && isInternalRequest(req))) {
+    next();
+    return;
+  }
+  next(new ForbiddenError('The metrics are only available with the metrics token or from internal networks'));
+};
+
+export default requireMetricsAccess;
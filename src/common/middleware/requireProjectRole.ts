@@ -0,0 +1,34 @@
+import { RequestHandler } from 'express';
+
+import { ProjectMembers } from '@/common/entities/projectmembers.entity';
+import { ForbiddenError, NotFoundError } from '@/common/models/errors';
+import { hasProjectRole, ProjectRole } from '@/common/models/projectRole';
+import dataSource from '@/configs/typeorm.config';
+
+// Restricts a route to members of the project identified by the `projectId` (or `id`)
+// route param holding at least `minRole`. Must run after `authenticate` and after the
+// param has been validated. Non-members get a 404 so that the project's existence is
+// not leaked; members with a lower role get a 403. The request is left untyped so that
+// the middleware fits between `validateRequest` and a handler taking a `ValidatedRequest`.
+// Projects in the trash are reported as missing unless `includeDeleted` is set.
+const requireProjectRole =
+  (minRole: ProjectRole, { includeDeleted = false } = {}): RequestHandler<any, any, any, any> =>
+  async (req, _res, next) => {
+    const projectId = (req.params.projectId ?? req.params.id) as string;
+    // The condition on the joined project fails for projects in the trash, which TypeORM
+    // leaves out of joins unless `withDeleted` is set
+    const membership = await dataSource.getRepository(ProjectMembers).findOne({
+      where: { projectId, userId: req.user!.id, project: { id: projectId } },
+      select: { id: true, role: true },
+      withDeleted: includeDeleted,
+    });
+
+    if (!membership) throw new NotFoundError('Project not found');
+    if (!hasProjectRole(membership.role, minRole)) {
+      throw new ForbiddenError(`This action requires the ${minRole} role or higher`);
+    }
+    req.projectRole = membership.role;
+    next();
+  };
+
+export default requireProjectRole;
@@ -0,0 +1,14 @@
+import { RequestHandler } from 'express';
+
+import requireAdmin from '@/common/middleware/requireAdmin';
+
+// Restricts a route on the user identified by the `id` route param to that user and to
+// administrators. Must run after `authenticate` and after the param has been validated.
+// The request is left untyped so that the middleware fits between `validateRequest` and a
+// handler taking a `ValidatedRequest`.
+const requireSelfOrAdmin: RequestHandler<any, any, any, any> = async (req, res, next) => {
+  if (req.params.id === req.user!.id) return next();
+  await requireAdmin(req, res, next);
+};
+
+export default requireSelfOrAdmin;
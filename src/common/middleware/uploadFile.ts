@@ -0,0 +1,56 @@
+import { RequestHandler } from 'express';
+import multer, { MulterError } from 'multer';
+
+import { PayloadTooLargeError, ValidationError } from '@/common/models/errors';
+
+type UploadOptions = {
+  maxSize: number;
+  // Accepted values of the Content-Type that the client declares for the file
+  mimeTypes: readonly string[];
+};
+
+const formatSize = (bytes: number) => `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`;
+
+/**
+ * Parses a multipart/form-data request carrying one file in its 'file' field into
+ * `req.file`, kept in memory. Files larger than `maxSize` are refused with a 413 and
+ * files of other types than `mimeTypes` with a 400, before they are read to the end.
+ */
+const uploadFile = ({ maxSize, mimeTypes }: UploadOptions): RequestHandler => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSize, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (mimeTypes.includes(file.mimetype)) {
+        callback(null, true);
+        return;
+      }
+      const message = `Unsupported file type ${file.mimetype}; expected one of ${mimeTypes.join(', ')}`;
+      callback(new ValidationError(message, [{ path: 'file', message }]));
+    },
+  }).single('file');
+
+  return (req, res, next) => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof MulterError) {
+        next(
+          err.code === 'LIMIT_FILE_SIZE'
+            ? new PayloadTooLargeError(`The file exceeds the maximum size of ${formatSize(maxSize)}`)
+            : new ValidationError(err.message, [{ path: err.field ?? 'file', message: err.message }])
+        );
+        return;
+      }
+      if (err) {
+        next(err);
+        return;
+      }
+      if (!req.file) {
+        next(new ValidationError('A file is required', [{ path: 'file', message: 'Required' }]));
+        return;
+      }
+      next();
+    });
+  };
+};
+
+export default uploadFile;
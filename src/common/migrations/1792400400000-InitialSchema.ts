@@ -0,0 +1,130 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InitialSchema1792400400000 implements MigrationInterface {
+  name = 'InitialSchema1792400400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+    await queryRunner.query(
+      `CREATE TABLE "comments" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "user_id" uuid NOT NULL, "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "body" text NOT NULL, "editedAt" TIMESTAMP, "card_id" uuid NOT NULL, CONSTRAINT "PK_8bf68bc960f2b69e818bdb90dcb" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_ecdb08247495f18611150d5069" ON "comments" ("card_id", "createdAt")`);
+    await queryRunner.query(
+      `CREATE TYPE "public"."project_members_role_enum" AS ENUM('owner', 'admin', 'member', 'viewer')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "project_members" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "role" "public"."project_members_role_enum" NOT NULL DEFAULT 'member', "user_id" uuid NOT NULL, "project_id" uuid NOT NULL, CONSTRAINT "UQ_b3f491d3a3f986106d281d8eb4b" UNIQUE ("project_id", "user_id"), CONSTRAINT "PK_0b2f46f804be4aea9234c78bcc9" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "users" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "email" character varying(255) NOT NULL, "password" character varying(255) NOT NULL, "name" character varying(100), "bio" text, "avatarUrl" character varying(255), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"), CONSTRAINT "PK_a3ffb1c0c8416b9fc6f907b7433" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "cards" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "title" character varying(255) NOT NULL, "description" text, "position" integer NOT NULL DEFAULT '0', "dueDate" TIMESTAMP, "labels" text NOT NULL, "list_id" uuid NOT NULL, CONSTRAINT "PK_5f3269634705fdff4a9935860fc" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_04e26aa34cd12efd898b491bec" ON "cards" ("list_id", "position")`);
+    await queryRunner.query(
+      `CREATE TABLE "lists" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "title" character varying(255) NOT NULL, "position" integer NOT NULL DEFAULT '0', "board_id" uuid NOT NULL, CONSTRAINT "PK_268b525e9a6dd04d0685cb2aaaa" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_6ac82262465bc9aac9c3615fea" ON "lists" ("board_id", "position")`);
+    await queryRunner.query(
+      `CREATE TABLE "boards" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "title" character varying(255) NOT NULL, "description" text, "position" integer NOT NULL DEFAULT '0', "archivedAt" TIMESTAMP, "project_id" uuid NOT NULL, CONSTRAINT "PK_606923b0b068ef262dfdcd18f44" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_8fa62d22b337a01ad74e5aaad8" ON "boards" ("project_id", "position")`);
+    await queryRunner.query(
+      `CREATE TABLE "projects" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "title" character varying(255) NOT NULL, "description" character varying, "owner_id" uuid NOT NULL, CONSTRAINT "PK_6271df0a7aed1d6c0691ce6ac50" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."activities_action_enum" AS ENUM('project.created', 'project.renamed', 'project.updated', 'member.added', 'member.role_changed', 'member.removed', 'board.created', 'board.renamed', 'board.updated', 'board.moved', 'board.archived', 'board.unarchived', 'board.deleted', 'card.created', 'card.renamed', 'card.updated', 'card.moved', 'card.assigned', 'card.unassigned', 'card.deleted', 'comment.added', 'comment.deleted')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "activities" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "user_id" uuid NOT NULL, "id" SERIAL NOT NULL, "action" "public"."activities_action_enum" NOT NULL, "project_id" uuid NOT NULL, "board_id" uuid, "card_id" uuid, "data" text NOT NULL, CONSTRAINT "PK_7f4004429f731ffb9c88eb486a8" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_efe671005bf32ffbe63e67feb1" ON "activities" ("card_id", "id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_fe7d904e192104eb520d7fcb66" ON "activities" ("board_id", "id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_44480dbf9065eb8b027c241ed8" ON "activities" ("project_id", "id")`);
+    await queryRunner.query(
+      `CREATE TABLE "refresh_tokens" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" uuid NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "revokedAt" TIMESTAMP, CONSTRAINT "PK_7d8bee0204106019488c4c50ffa" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "card_assignees" ("card_id" uuid NOT NULL, "user_id" uuid NOT NULL, CONSTRAINT "PK_ce4f8397c5099f23f139b95fafa" PRIMARY KEY ("card_id", "user_id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_f39ef72a99581dc838f4c1aa18" ON "card_assignees" ("card_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_2eaf05612a4cef33ad1a651d55" ON "card_assignees" ("user_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "comments" ADD CONSTRAINT "FK_4c675567d2a58f0b07cef09c13d" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "comments" ADD CONSTRAINT "FK_93d9a3773334ccc328e38cec696" FOREIGN KEY ("card_id") REFERENCES "cards"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "project_members" ADD CONSTRAINT "FK_e89aae80e010c2faa72e6a49ce8" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "project_members" ADD CONSTRAINT "FK_b5729113570c20c7e214cf3f58d" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cards" ADD CONSTRAINT "FK_2d636e34938aee366ba98cf1fe9" FOREIGN KEY ("list_id") REFERENCES "lists"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "lists" ADD CONSTRAINT "FK_df6934914bb17e5783e6850a854" FOREIGN KEY ("board_id") REFERENCES "boards"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "boards" ADD CONSTRAINT "FK_1542ae826c0dfeaf4c79e07fc57" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "projects" ADD CONSTRAINT "FK_b1bd2fbf5d0ef67319c91acb5cf" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "activities" ADD CONSTRAINT "FK_b82f1d8368dd5305ae7e7e664c2" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "activities" ADD CONSTRAINT "FK_7297db78eb572fa29db5aaf8158" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD CONSTRAINT "FK_3ddc983c5f7bcf132fd8732c3f4" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "card_assignees" ADD CONSTRAINT "FK_f39ef72a99581dc838f4c1aa18c" FOREIGN KEY ("card_id") REFERENCES "cards"("id") ON DELETE CASCADE ON UPDATE CASCADE`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "card_assignees" ADD CONSTRAINT "FK_2eaf05612a4cef33ad1a651d55c" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "card_assignees" DROP CONSTRAINT "FK_2eaf05612a4cef33ad1a651d55c"`);
+    await queryRunner.query(`ALTER TABLE "card_assignees" DROP CONSTRAINT "FK_f39ef72a99581dc838f4c1aa18c"`);
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP CONSTRAINT "FK_3ddc983c5f7bcf132fd8732c3f4"`);
+    await queryRunner.query(`ALTER TABLE "activities" DROP CONSTRAINT "FK_7297db78eb572fa29db5aaf8158"`);
+    await queryRunner.query(`ALTER TABLE "activities" DROP CONSTRAINT "FK_b82f1d8368dd5305ae7e7e664c2"`);
+    await queryRunner.query(`ALTER TABLE "projects" DROP CONSTRAINT "FK_b1bd2fbf5d0ef67319c91acb5cf"`);
+    await queryRunner.query(`ALTER TABLE "boards" DROP CONSTRAINT "FK_1542ae826c0dfeaf4c79e07fc57"`);
+    await queryRunner.query(`ALTER TABLE "lists" DROP CONSTRAINT "FK_df6934914bb17e5783e6850a854"`);
+    await queryRunner.query(`ALTER TABLE "cards" DROP CONSTRAINT "FK_2d636e34938aee366ba98cf1fe9"`);
+    await queryRunner.query(`ALTER TABLE "project_members" DROP CONSTRAINT "FK_b5729113570c20c7e214cf3f58d"`);
+    await queryRunner.query(`ALTER TABLE "project_members" DROP CONSTRAINT "FK_e89aae80e010c2faa72e6a49ce8"`);
+    await queryRunner.query(`ALTER TABLE "comments" DROP CONSTRAINT "FK_93d9a3773334ccc328e38cec696"`);
+    await queryRunner.query(`ALTER TABLE "comments" DROP CONSTRAINT "FK_4c675567d2a58f0b07cef09c13d"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_2eaf05612a4cef33ad1a651d55"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_f39ef72a99581dc838f4c1aa18"`);
+    await queryRunner.query(`DROP TABLE "card_assignees"`);
+    await queryRunner.query(`DROP TABLE "refresh_tokens"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_44480dbf9065eb8b027c241ed8"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_fe7d904e192104eb520d7fcb66"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_efe671005bf32ffbe63e67feb1"`);
+    await queryRunner.query(`DROP TABLE "activities"`);
+    await queryRunner.query(`DROP TYPE "public"."activities_action_enum"`);
+    await queryRunner.query(`DROP TABLE "projects"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_8fa62d22b337a01ad74e5aaad8"`);
+    await queryRunner.query(`DROP TABLE "boards"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_6ac82262465bc9aac9c3615fea"`);
+    await queryRunner.query(`DROP TABLE "lists"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_04e26aa34cd12efd898b491bec"`);
+    await queryRunner.query(`DROP TABLE "cards"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`DROP TABLE "project_members"`);
+    await queryRunner.query(`DROP TYPE "public"."project_members_role_enum"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ecdb08247495f18611150d5069"`);
+    await queryRunner.query(`DROP TABLE "comments"`);
+  }
+}
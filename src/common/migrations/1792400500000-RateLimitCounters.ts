@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class RateLimitCounters1792400500000 implements MigrationInterface {
+  name = 'RateLimitCounters1792400500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "rate_limit_counters" ("key" character varying(255) NOT NULL, "hits" integer NOT NULL, "resetAt" TIMESTAMP(3) NOT NULL, CONSTRAINT "PK_ad665f1998311a7bd0e8265365d" PRIMARY KEY ("key"))`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "rate_limit_counters"`);
+  }
+}
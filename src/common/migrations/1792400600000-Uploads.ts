@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class Uploads1792400600000 implements MigrationInterface {
+  name = 'Uploads1792400600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD "avatarKey" character varying(255)`);
+    await queryRunner.query(`ALTER TABLE "users" ADD "avatarThumbnailKey" character varying(255)`);
+    await queryRunner.query(
+      `CREATE TABLE "attachments" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" uuid NOT NULL DEFAULT uuid_generate_v4(), "fileName" character varying(255) NOT NULL, "contentType" character varying(100) NOT NULL, "size" integer NOT NULL, "storageKey" character varying(255) NOT NULL, "thumbnailKey" character varying(255), "project_id" uuid NOT NULL, "card_id" uuid, "uploaded_by_id" uuid, CONSTRAINT "PK_5e1f050bcff31e3084a1d662412" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_ef2e5d3541fb7503e35b999a67" ON "attachments" ("project_id", "card_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "attachments" ADD CONSTRAINT "FK_fe78d8a39780832c17d451b1085" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "attachments" ADD CONSTRAINT "FK_05c66beffba247608253fa846c0" FOREIGN KEY ("card_id") REFERENCES "cards"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "attachments" ADD CONSTRAINT "FK_70a38fc450d3b433c86b67e69d6" FOREIGN KEY ("uploaded_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "attachments" DROP CONSTRAINT "FK_70a38fc450d3b433c86b67e69d6"`);
+    await queryRunner.query(`ALTER TABLE "attachments" DROP CONSTRAINT "FK_05c66beffba247608253fa846c0"`);
+    await queryRunner.query(`ALTER TABLE "attachments" DROP CONSTRAINT "FK_fe78d8a39780832c17d451b1085"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ef2e5d3541fb7503e35b999a67"`);
+    await queryRunner.query(`DROP TABLE "attachments"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "avatarThumbnailKey"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "avatarKey"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class Notifications1792400700000 implements MigrationInterface {
+  name = 'Notifications1792400700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."notifications_type_enum" AS ENUM('card.assigned', 'comment.mention', 'project.invitation')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "notifications" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "user_id" uuid NOT NULL, "id" SERIAL NOT NULL, "type" "public"."notifications_type_enum" NOT NULL, "actor_id" uuid, "project_id" uuid NOT NULL, "data" text NOT NULL, "readAt" TIMESTAMP(3), "digestPending" boolean NOT NULL DEFAULT false, CONSTRAINT "PK_6a72c3c0f683f6462415e653c3a" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_42a3b53ed1260d584bca380188" ON "notifications" ("user_id", "id") `);
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_preferences_emailfrequency_enum" AS ENUM('instant', 'daily', 'never')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "notification_preferences" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "user_id" uuid NOT NULL, "emailFrequency" "public"."notification_preferences_emailfrequency_enum" NOT NULL DEFAULT 'instant', "mutedTypes" text NOT NULL, CONSTRAINT "PK_64c90edc7310c6be7c10c96f675" PRIMARY KEY ("user_id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notifications" ADD CONSTRAINT "FK_9a8a82462cab47c73d25f49261f" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notifications" ADD CONSTRAINT "FK_20f8b51fd9655c0b69feed5efc6" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notifications" ADD CONSTRAINT "FK_95464140d7dc04d7efb0afd6be0" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preferences" ADD CONSTRAINT "FK_64c90edc7310c6be7c10c96f675" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "notification_preferences" DROP CONSTRAINT "FK_64c90edc7310c6be7c10c96f675"`);
+    await queryRunner.query(`ALTER TABLE "notifications" DROP CONSTRAINT "FK_95464140d7dc04d7efb0afd6be0"`);
+    await queryRunner.query(`ALTER TABLE "notifications" DROP CONSTRAINT "FK_20f8b51fd9655c0b69feed5efc6"`);
+    await queryRunner.query(`ALTER TABLE "notifications" DROP CONSTRAINT "FK_9a8a82462cab47c73d25f49261f"`);
+    await queryRunner.query(`DROP TABLE "notification_preferences"`);
+    await queryRunner.query(`DROP TYPE "public"."notification_preferences_emailfrequency_enum"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_42a3b53ed1260d584bca380188"`);
+    await queryRunner.query(`DROP TABLE "notifications"`);
+    await queryRunner.query(`DROP TYPE "public"."notifications_type_enum"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class Jobs1792400800000 implements MigrationInterface {
+  name = 'Jobs1792400800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD "isAdmin" boolean NOT NULL DEFAULT false`);
+    await queryRunner.query(
+      `CREATE TYPE "public"."jobs_status_enum" AS ENUM('pending', 'running', 'completed', 'failed')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "jobs" ("createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "payload" text, "status" "public"."jobs_status_enum" NOT NULL DEFAULT 'pending', "attempts" integer NOT NULL DEFAULT '0', "maxAttempts" integer NOT NULL, "runAt" TIMESTAMP(3) NOT NULL, "lockedAt" TIMESTAMP(3), "lastError" text, "completedAt" TIMESTAMP(3), CONSTRAINT "PK_cf0a6c42b72fcc7f7c237def345" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_f0517eec3f63f617ee5138edeb" ON "jobs" ("status", "runAt") `);
+    await queryRunner.query(
+      `CREATE TABLE "job_schedules" ("name" character varying(100) NOT NULL, "cron" character varying(100) NOT NULL, "nextRunAt" TIMESTAMP(3) NOT NULL, CONSTRAINT "PK_95638964ede449d5f4cc3c7301d" PRIMARY KEY ("name"))`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "job_schedules"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_f0517eec3f63f617ee5138edeb"`);
+    await queryRunner.query(`DROP TABLE "jobs"`);
+    await queryRunner.query(`DROP TYPE "public"."jobs_status_enum"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "isAdmin"`);
+  }
+}
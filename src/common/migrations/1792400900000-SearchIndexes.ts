@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Full-text indexes of the search; the expressions are the ones searchRepository queries
+export class SearchIndexes1792400900000 implements MigrationInterface {
+  name = 'SearchIndexes1792400900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['projects', 'boards', 'cards']) {
+      await queryRunner.query(
+        `CREATE INDEX "IDX_${table}_search" ON "${table}" USING GIN ((setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')))`
+      );
+    }
+    await queryRunner.query(
+      `CREATE INDEX "IDX_comments_search" ON "comments" USING GIN ((setweight(to_tsvector('english', "body"), 'B')))`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_comments_search"`);
+    for (const table of ['cards', 'boards', 'projects']) {
+      await queryRunner.query(`DROP INDEX "public"."IDX_${table}_search"`);
+    }
+  }
+}
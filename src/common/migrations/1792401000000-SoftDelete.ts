@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// The values of activities_action_enum before and after this migration, in the order of ActivityAction
+const PREVIOUS_ACTIONS = [
+  'project.created',
+  'project.renamed',
+  'project.updated',
+  'member.added',
+  'member.role_changed',
+  'member.removed',
+  'board.created',
+  'board.renamed',
+  'board.updated',
+  'board.moved',
+  'board.archived',
+  'board.unarchived',
+  'board.deleted',
+  'card.created',
+  'card.renamed',
+  'card.updated',
+  'card.moved',
+  'card.assigned',
+  'card.unassigned',
+  'card.deleted',
+  'comment.added',
+  'comment.deleted',
+];
+const ADDED_ACTIONS = ['project.deleted', 'project.restored', 'board.restored', 'card.restored'];
+const ACTIONS = PREVIOUS_ACTIONS.flatMap((action) => {
+  if (action === 'project.updated') return [action, 'project.deleted', 'project.restored'];
+  if (action === 'board.deleted') return [action, 'board.restored'];
+  if (action === 'card.deleted') return [action, 'card.restored'];
+  return [action];
+});
+
+const enumValues = (values: string[]) => values.map((value) => `'${value}'`).join(', ');
+
+export class SoftDelete1792401000000 implements MigrationInterface {
+  name = 'SoftDelete1792401000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['projects', 'boards', 'cards']) {
+      await queryRunner.query(`ALTER TABLE "${table}" ADD "deletedAt" TIMESTAMP(3)`);
+    }
+    await this.replaceActionEnum(queryRunner, ACTIONS);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "activities" WHERE "action" IN (${enumValues(ADDED_ACTIONS)})`);
+    await this.replaceActionEnum(queryRunner, PREVIOUS_ACTIONS);
+    // Rows in the trash would come back, so they are deleted for good
+    for (const table of ['cards', 'boards', 'projects']) {
+      await queryRunner.query(`DELETE FROM "${table}" WHERE "deletedAt" IS NOT NULL`);
+      await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "deletedAt"`);
+    }
+  }
+
+  private async replaceActionEnum(queryRunner: QueryRunner, values: string[]): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "public"."activities_action_enum" RENAME TO "activities_action_enum_old"`);
+    await queryRunner.query(`CREATE TYPE "public"."activities_action_enum" AS ENUM(${enumValues(values)})`);
+    await queryRunner.query(
+      `ALTER TABLE "activities" ALTER COLUMN "action" TYPE "public"."activities_action_enum" USING "action"::"text"::"public"."activities_action_enum"`
+    );
+    await queryRunner.query(`DROP TYPE "public"."activities_action_enum_old"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AuditLogs1792401100000 implements MigrationInterface {
+  name = 'AuditLogs1792401100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TYPE "public"."audit_logs_action_enum" AS ENUM('insert', 'update', 'delete')`);
+    await queryRunner.query(
+      `CREATE TABLE "audit_logs" ("id" SERIAL NOT NULL, "entityType" character varying(50) NOT NULL, "entityId" uuid NOT NULL, "action" "public"."audit_logs_action_enum" NOT NULL, "changes" text NOT NULL, "actorId" uuid, "requestId" character varying(100), "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "PK_1bb179d048bbc581caa3b013439" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_1ba838d493b9d8c991b21af8cb" ON "audit_logs" ("entityType", "entityId", "id") `
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_7430e591f9d8cc685a08c5962a" ON "audit_logs" ("actorId", "id") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_7430e591f9d8cc685a08c5962a"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_1ba838d493b9d8c991b21af8cb"`);
+    await queryRunner.query(`DROP TABLE "audit_logs"`);
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum"`);
+  }
+}
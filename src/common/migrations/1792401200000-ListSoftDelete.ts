@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ListSoftDelete1792401200000 implements MigrationInterface {
+  name = 'ListSoftDelete1792401200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "lists" ADD "deletedAt" TIMESTAMP(3)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Lists in the trash would come back, so they are deleted for good with their cards
+    await queryRunner.query(`DELETE FROM "lists" WHERE "deletedAt" IS NOT NULL`);
+    await queryRunner.query(`ALTER TABLE "lists" DROP COLUMN "deletedAt"`);
+  }
+}
@@ -0,0 +1,29 @@
+// Changes recorded in the activity log, named `<subject>.<change>`
+export enum ActivityAction {
+  ProjectCreated = 'project.created',
+  ProjectRenamed = 'project.renamed',
+  ProjectUpdated = 'project.updated',
+  ProjectDeleted = 'project.deleted',
+  ProjectRestored = 'project.restored',
+  MemberAdded = 'member.added',
+  MemberRoleChanged = 'member.role_changed',
+  MemberRemoved = 'member.removed',
+  BoardCreated = 'board.created',
+  BoardRenamed = 'board.renamed',
+  BoardUpdated = 'board.updated',
+  BoardMoved = 'board.moved',
+  BoardArchived = 'board.archived',
+  BoardUnarchived = 'board.unarchived',
+  BoardDeleted = 'board.deleted',
+  BoardRestored = 'board.restored',
+  CardCreated = 'card.created',
+  CardRenamed = 'card.renamed',
+  CardUpdated = 'card.updated',
+  CardMoved = 'card.moved',
+  CardAssigned = 'card.assigned',
+  CardUnassigned = 'card.unassigned',
+  CardDeleted = 'card.deleted',
+  CardRestored = 'card.restored',
+  CommentAdded = 'comment.added',
+  CommentDeleted = 'comment.deleted',
+}
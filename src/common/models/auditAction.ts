@@ -0,0 +1,7 @@
+// Kinds of changes recorded in the audit trail. Moving a row to the trash is an update of
+// its `deletedAt`.
+export enum AuditAction {
+  Insert = 'insert',
+  Update = 'update',
+  Delete = 'delete',
+}
@@ -0,0 +1,81 @@
+import { StatusCodes } from 'http-status-codes';
+
+// Machine-readable codes sent in the `error.code` field of error responses
+export enum ErrorCode {
+  BadRequest = 'BAD_REQUEST',
+  ValidationFailed = 'VALIDATION_FAILED',
+  Unauthorized = 'UNAUTHORIZED',
+  Forbidden = 'FORBIDDEN',
+  NotFound = 'NOT_FOUND',
+  Conflict = 'CONFLICT',
+  PayloadTooLarge = 'PAYLOAD_TOO_LARGE',
+  TooManyRequests = 'TOO_MANY_REQUESTS',
+  InternalError = 'INTERNAL_ERROR',
+  NotImplemented = 'NOT_IMPLEMENTED',
+}
+
+// A field of the request that failed validation
+export type ErrorDetail = { path: string; message: string };
+
+// Base of the errors thrown for expected failures. Their messages are meant for the
+// client and are sent as is; any other error is answered with a 500.
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: StatusCodes,
+    public readonly code: ErrorCode,
+    public readonly details?: ErrorDetail[]
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: ErrorDetail[]) {
+    super(message, StatusCodes.BAD_REQUEST, ErrorCode.ValidationFailed, details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Authentication required') {
+    super(message, StatusCodes.UNAUTHORIZED, ErrorCode.Unauthorized);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(message, StatusCodes.FORBIDDEN, ErrorCode.Forbidden);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, StatusCodes.NOT_FOUND, ErrorCode.NotFound);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, StatusCodes.CONFLICT, ErrorCode.Conflict);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string) {
+    super(message, StatusCodes.REQUEST_TOO_LONG, ErrorCode.PayloadTooLarge);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message = 'Too many requests, please try again later') {
+    super(message, StatusCodes.TOO_MANY_REQUESTS, ErrorCode.TooManyRequests);
+  }
+}
+
+// A feature that the configured database does not support
+export class NotImplementedError extends AppError {
+  constructor(message: string) {
+    super(message, StatusCodes.NOT_IMPLEMENTED, ErrorCode.NotImplemented);
+  }
+}
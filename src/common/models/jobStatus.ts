@@ -0,0 +1,8 @@
+// Lifecycle of a background job. A job whose attempt fails goes back to pending until it
+// has used all its attempts; it then stays failed, as a dead letter, until retried.
+export enum JobStatus {
+  Pending = 'pending',
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+}
@@ -0,0 +1,13 @@
+// Events a user is notified of, named `<subject>.<change>`
+export enum NotificationType {
+  CardAssigned = 'card.assigned',
+  CommentMention = 'comment.mention',
+  ProjectInvitation = 'project.invitation',
+}
+
+// How often notifications are also sent by email
+export enum EmailFrequency {
+  Instant = 'instant',
+  Daily = 'daily',
+  Never = 'never',
+}
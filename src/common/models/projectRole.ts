@@ -0,0 +1,18 @@
+// Roles a user can hold within a project, from most to least privileged
+export enum ProjectRole {
+  Owner = 'owner',
+  Admin = 'admin',
+  Member = 'member',
+  Viewer = 'viewer',
+}
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  [ProjectRole.Owner]: 3,
+  [ProjectRole.Admin]: 2,
+  [ProjectRole.Member]: 1,
+  [ProjectRole.Viewer]: 0,
+};
+
+// Whether `role` grants at least the permissions of `minRole`
+export const hasProjectRole = (role: ProjectRole, minRole: ProjectRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[minRole];
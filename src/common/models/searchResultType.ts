@@ -0,0 +1,7 @@
+// Kinds of items returned by the search
+export enum SearchResultType {
+  Project = 'project',
+  Board = 'board',
+  Card = 'card',
+  Comment = 'comment',
+}
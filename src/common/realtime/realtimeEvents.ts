@@ -0,0 +1,110 @@
+import { randomUUID } from 'node:crypto';
+
+import { Board } from '@/api/board/boardModel';
+import { Card } from '@/api/card/cardModel';
+import { List } from '@/api/list/listModel';
+import { ProjectMember } from '@/api/projectMember/projectMemberModel';
+import { env } from '@/common/utils/envConfig';
+
+// Changes pushed to the clients watching a project or board, named `<subject>.<change>`
+export enum RealtimeEventType {
+  BoardCreated = 'board.created',
+  BoardUpdated = 'board.updated',
+  BoardMoved = 'board.moved',
+  BoardDeleted = 'board.deleted',
+  BoardRestored = 'board.restored',
+  ListCreated = 'list.created',
+  ListUpdated = 'list.updated',
+  ListMoved = 'list.moved',
+  ListDeleted = 'list.deleted',
+  ListRestored = 'list.restored',
+  CardCreated = 'card.created',
+  CardUpdated = 'card.updated',
+  CardMoved = 'card.moved',
+  CardDeleted = 'card.deleted',
+  CardRestored = 'card.restored',
+  MemberAdded = 'member.added',
+  MemberUpdated = 'member.updated',
+  MemberRemoved = 'member.removed',
+}
+
+// The payload of each event: the changed record, or the ids of a deleted one
+type RealtimeEventData = {
+  [RealtimeEventType.BoardCreated]: Board;
+  [RealtimeEventType.BoardUpdated]: Board;
+  [RealtimeEventType.BoardMoved]: Board;
+  [RealtimeEventType.BoardDeleted]: { id: string };
+  [RealtimeEventType.BoardRestored]: Board;
+  [RealtimeEventType.ListCreated]: List;
+  [RealtimeEventType.ListUpdated]: List;
+  [RealtimeEventType.ListMoved]: List;
+  [RealtimeEventType.ListDeleted]: { id: string };
+  [RealtimeEventType.ListRestored]: List;
+  [RealtimeEventType.CardCreated]: Card;
+  [RealtimeEventType.CardUpdated]: Card;
+  [RealtimeEventType.CardMoved]: Card;
+  [RealtimeEventType.CardDeleted]: { id: string; listId: string };
+  [RealtimeEventType.CardRestored]: Card;
+  [RealtimeEventType.MemberAdded]: ProjectMember;
+  [RealtimeEventType.MemberUpdated]: ProjectMember;
+  [RealtimeEventType.MemberRemoved]: { userId: string };
+};
+
+// Where an event happened; `boardId` is null for changes to the project itself, such as members
+export type RealtimeScope = { projectId: string; boardId: string | null };
+
+export type RealtimeEvent = {
+  [T in RealtimeEventType]: RealtimeScope & { type: T; data: RealtimeEventData[T] };
+}[RealtimeEventType];
+
+// An event as delivered, with the token that resumes the stream right after it
+export type PublishedEvent = { resumeToken: string; event: RealtimeEvent };
+
+type Listener = (published: PublishedEvent) => void;
+
+/**
+ * Fans events out to the connected clients and keeps the most recent ones so that a
+ * client that reconnects can catch up. Resume tokens are `<instance>.<sequence>`: a token
+ * from before a restart, or older than the kept history, cannot be resumed.
+ */
+export class RealtimeEventHub {
+  private readonly instanceId = randomUUID();
+  private readonly history: PublishedEvent[] = [];
+  private readonly listeners = new Set<Listener>();
+  private sequence = 0;
+
+  constructor(private readonly historySize: number) {}
+
+  publish<T extends RealtimeEventType>(type: T, scope: RealtimeScope, data: RealtimeEventData[T]): void {
+    this.sequence += 1;
+    const event = { type, ...scope, data } as RealtimeEvent;
+    const published = { resumeToken: `${this.instanceId}.${this.sequence}`, event };
+    this.history.push(published);
+    if (this.history.length > this.historySize) this.history.shift();
+    this.listeners.forEach((listener) => listener(published));
+  }
+
+  // Returns a function that removes the listener
+  listen(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // The token of the latest event, from which a client that is up to date resumes
+  get resumeToken(): string {
+    return `${this.instanceId}.${this.sequence}`;
+  }
+
+  // The events published after the one of the token, or null when some of them are no
+  // longer known and the client has to reload its state instead
+  eventsSince(resumeToken: string): PublishedEvent[] | null {
+    const [instanceId, sequence] = resumeToken.split('.');
+    const after = Number(sequence);
+    if (instanceId !== this.instanceId || !Number.isInteger(after) || after < 0 || after > this.sequence) return null;
+    const missed = this.sequence - after;
+    if (missed > this.history.length) return null;
+    return missed ? this.history.slice(-missed) : [];
+  }
+}
+
+export const realtimeEvents = new RealtimeEventHub(env.REALTIME_HISTORY_SIZE);
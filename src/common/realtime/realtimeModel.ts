@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+import { PublicUser } from '@/api/user/userModel';
+import { ErrorCode, ErrorDetail } from '@/common/models/errors';
+import { PublishedEvent } from '@/common/realtime/realtimeEvents';
+import { commonValidations } from '@/common/utils/commonValidation';
+
+// A subscription to all events of a project, or to those of one of its boards
+const RoomSchema = z.object({
+  projectId: commonValidations.id,
+  boardId: commonValidations.id.nullable().default(null),
+});
+export type Room = z.infer<typeof RoomSchema>;
+
+// Messages sent by clients, as JSON text frames
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  RoomSchema.extend({
+    type: z.literal('subscribe'),
+    // The `resumeToken` of the last message received before reconnecting
+    resumeToken: z.string().max(100).optional(),
+  }),
+  RoomSchema.extend({ type: z.literal('unsubscribe') }),
+]);
+
+// Messages sent to clients
+export type ServerMessage =
+  | (Room & { type: 'subscribed'; resumeToken: string })
+  // Events of the room were missed and cannot be replayed: the client reloads its state
+  | (Room & { type: 'resync' | 'unsubscribed' })
+  | (Room & { type: 'presence'; users: PublicUser[] })
+  | ({ type: 'event' } & PublishedEvent)
+  | { type: 'error'; code: ErrorCode; message: string; details?: ErrorDetail[] };
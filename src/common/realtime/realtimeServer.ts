@@ -0,0 +1,230 @@
+import { IncomingMessage, Server } from 'node:http';
+import { Duplex } from 'node:stream';
+
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+
+import { boardRepository } from '@/api/board/boardRepository';
+import { projectRepository } from '@/api/project/projectRepository';
+import { projectMemberRepository } from '@/api/projectMember/projectMemberRepository';
+import { PublicUser } from '@/api/user/userModel';
+import { userRepository } from '@/api/user/userRepository';
+import { AppError, ErrorCode, NotFoundError, ValidationError } from '@/common/models/errors';
+import {
+  PublishedEvent,
+  RealtimeEventHub,
+  realtimeEvents,
+  RealtimeEventType,
+  RealtimeScope,
+} from '@/common/realtime/realtimeEvents';
+import { ClientMessage, ClientMessageSchema, Room, ServerMessage } from '@/common/realtime/realtimeModel';
+import { env } from '@/common/utils/envConfig';
+import { verifyAccessToken } from '@/common/utils/jwt';
+import { logger } from '@/server';
+
+export const REALTIME_PATH = '/realtime';
+
+const BEARER_PREFIX = 'Bearer ';
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+type Client = { socket: WebSocket; user: PublicUser; rooms: Map<string, Room>; isAlive: boolean };
+
+const roomKey = ({ projectId, boardId }: Room) => `${projectId}:${boardId ?? '*'}`;
+
+// A project room receives all events of the project, a board room those of the board
+const isInRoom = (room: Room, { projectId, boardId }: RealtimeScope) =>
+  room.projectId === projectId && (room.boardId === null || room.boardId === boardId);
+
+// Browsers cannot set headers on WebSocket requests, so the access token may also be
+// passed in the `access_token` query parameter
+const readAccessToken = (req: IncomingMessage): string | null => {
+  const header = req.headers.authorization;
+  if (header?.startsWith(BEARER_PREFIX)) return header.slice(BEARER_PREFIX.length);
+  return new URL(req.url ?? '/', 'http://localhost').searchParams.get('access_token');
+};
+
+const parseMessage = (data: RawData): ClientMessage => {
+  let json: unknown;
+  try {
+    json = JSON.parse(data.toString());
+  } catch {
+    throw new ValidationError('Messages must be JSON');
+  }
+  const result = ClientMessageSchema.safeParse(json);
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+    throw new ValidationError('Invalid message', details);
+  }
+  return result.data;
+};
+
+/**
+ * Pushes the events of the hub over WebSocket connections at `/realtime` of the HTTP
+ * server. Clients authenticate with their access token, then subscribe to the rooms of
+ * projects they are members of, or of boards in them. Board rooms also share presence:
+ * the users currently subscribed to the board.
+ */
+export class RealtimeServer {
+  private readonly wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  private readonly clients = new Set<Client>();
+  private readonly heartbeat: NodeJS.Timeout;
+  private readonly stopListening: () => void;
+  private readonly onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    void this.handleUpgrade(req, socket, head);
+  };
+
+  constructor(
+    private readonly server: Server,
+    private readonly events: RealtimeEventHub = realtimeEvents
+  ) {
+    server.on('upgrade', this.onUpgrade);
+    this.stopListening = events.listen((published) => this.deliver(published));
+    this.heartbeat = setInterval(() => this.checkHeartbeats(), env.REALTIME_HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Disconnects every client, which would otherwise keep the HTTP server from closing
+  close(): void {
+    clearInterval(this.heartbeat);
+    this.stopListening();
+    this.server.off('upgrade', this.onUpgrade);
+    this.clients.forEach((client) => client.socket.close(1001, 'Server shutting down'));
+    this.wss.close();
+  }
+
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== REALTIME_PATH) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    try {
+      const token = readAccessToken(req);
+      const payload = token ? verifyAccessToken(token) : null;
+      const user = payload ? await userRepository.findByIdAsync(payload.sub) : null;
+      if (!user) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      const { id, email, name, avatarUrl } = user;
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.accept(ws, { id, email, name, avatarUrl }));
+    } catch (err) {
+      logger.error({ err }, 'Error accepting a realtime connection');
+      socket.end('HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n');
+    }
+  }
+
+  private accept(socket: WebSocket, user: PublicUser): void {
+    const client: Client = { socket, user, rooms: new Map(), isAlive: true };
+    this.clients.add(client);
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+    socket.on('message', (data) => void this.handleMessage(client, data));
+    socket.on('close', () => {
+      this.clients.delete(client);
+      client.rooms.forEach((room) => room.boardId && this.broadcastPresence(room));
+    });
+  }
+
+  private async handleMessage(client: Client, data: RawData): Promise<void> {
+    try {
+      const message = parseMessage(data);
+      if (message.type === 'subscribe') {
+        await this.subscribe(client, message);
+      } else {
+        this.unsubscribe(client, message);
+      }
+    } catch (err) {
+      if (err instanceof AppError) {
+        this.send(client, { type: 'error', code: err.code, message: err.message, details: err.details });
+        return;
+      }
+      logger.error({ err }, 'Error handling a realtime message');
+      this.send(client, { type: 'error', code: ErrorCode.InternalError, message: 'An unexpected error occurred' });
+    }
+  }
+
+  // Joins a room after checking that the user may see it. With a resume token, the
+  // events of the room published since are replayed first.
+  private async subscribe(client: Client, { projectId, boardId, resumeToken }: Room & { resumeToken?: string }) {
+    const room: Room = { projectId, boardId };
+    // Non-members are told that the project does not exist, as over HTTP, and so are
+    // members of a project in the trash
+    if (
+      !(await projectMemberRepository.findByProjectAndUserAsync(projectId, client.user.id)) ||
+      !(await projectRepository.findByIdAsync(projectId))
+    ) {
+      throw new NotFoundError('Project not found');
+    }
+    if (boardId && !(await boardRepository.findByIdAsync(projectId, boardId))) {
+      throw new NotFoundError('Board not found');
+    }
+
+    const key = roomKey(room);
+    if (!client.rooms.has(key)) {
+      if (resumeToken) this.replay(client, room, resumeToken);
+      client.rooms.set(key, room);
+    }
+    this.send(client, { type: 'subscribed', ...room, resumeToken: this.events.resumeToken });
+    if (boardId) this.broadcastPresence(room);
+  }
+
+  private unsubscribe(client: Client, { projectId, boardId }: Room): void {
+    const room: Room = { projectId, boardId };
+    const left = client.rooms.delete(roomKey(room));
+    this.send(client, { type: 'unsubscribed', ...room });
+    if (left && boardId) this.broadcastPresence(room);
+  }
+
+  // Events the client already received through its other rooms are not sent twice
+  private replay(client: Client, room: Room, resumeToken: string): void {
+    const missed = this.events.eventsSince(resumeToken);
+    if (!missed) {
+      this.send(client, { type: 'resync', ...room });
+      return;
+    }
+    missed
+      .filter(({ event }) => isInRoom(room, event) && !this.isSubscribed(client, event))
+      .forEach((published) => this.send(client, { type: 'event', ...published }));
+  }
+
+  private deliver(published: PublishedEvent): void {
+    const { event } = published;
+    this.clients.forEach((client) => {
+      if (this.isSubscribed(client, event)) this.send(client, { type: 'event', ...published });
+    });
+    // A removed member stops receiving the events of the project
+    if (event.type === RealtimeEventType.MemberRemoved) {
+      this.clients.forEach((client) => {
+        if (client.user.id !== event.data.userId) return;
+        client.rooms.forEach((room) => room.projectId === event.projectId && this.unsubscribe(client, room));
+      });
+    }
+  }
+
+  private isSubscribed(client: Client, scope: RealtimeScope): boolean {
+    return [...client.rooms.values()].some((room) => isInRoom(room, scope));
+  }
+
+  // Sends the users viewing a board to everyone in its room
+  private broadcastPresence(room: Room): void {
+    const key = roomKey(room);
+    const viewers = [...this.clients].filter((client) => client.rooms.has(key));
+    const users = [...new Map(viewers.map(({ user }) => [user.id, user])).values()];
+    viewers.forEach((client) => this.send(client, { type: 'presence', ...room, users }));
+  }
+
+  // Connections that did not answer the previous ping are considered dead
+  private checkHeartbeats(): void {
+    this.clients.forEach((client) => {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    });
+  }
+
+  private send(client: Client, message: ServerMessage): void {
+    if (client.socket.readyState === WebSocket.OPEN) client.socket.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { mkdir, open, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+
+import { SignedUrlOptions, StorageDriver } from '@/common/storage/storageDriver';
+
+// The parts of a signed URL that the signature covers, besides the key
+type SignedParams = { expires: string; name: string; type: string };
+
+/**
+ * Keeps files in a directory of the server. Its signed URLs point at the '/files' route
+ * of the API, which checks their HMAC signature and expiry before streaming the file.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly rootDir: string;
+
+  constructor(
+    rootDir: string,
+    private readonly secret: string,
+    private readonly baseUrl = '/files'
+  ) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    // Opening first makes a missing file reject here rather than fail the stream later
+    const file = await open(this.resolve(key));
+    return file.createReadStream();
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => rm(this.resolve(key), { force: true })));
+  }
+
+  async getSignedUrl(key: string, { expiresInSeconds, fileName, contentType }: SignedUrlOptions): Promise<string> {
+    const params: SignedParams = {
+      expires: String(Math.floor(Date.now() / 1000) + expiresInSeconds),
+      name: fileName ?? '',
+      type: contentType ?? '',
+    };
+    const query = new URLSearchParams({ ...params, signature: this.sign(key, params) });
+    return `${this.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}?${query}`;
+  }
+
+  // Checks the query of a URL made by `getSignedUrl`; resolves the file name and type it
+  // was signed with, or null if the signature does not match or has expired
+  verifySignedUrl(key: string, query: Record<string, unknown>): { fileName: string; contentType: string } | null {
+    const { expires, name, type, signature } = query;
+    if ([expires, name, type, signature].some((value) => typeof value !== 'string')) return null;
+    const params = { expires, name, type } as SignedParams;
+    const expected = Buffer.from(this.sign(key, params));
+    const actual = Buffer.from(signature as string);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+    if (Number(params.expires) * 1000 < Date.now()) return null;
+    return { fileName: params.name, contentType: params.type };
+  }
+
+  private sign(key: string, { expires, name, type }: SignedParams): string {
+    return createHmac('sha256', this.secret).update([key, expires, name, type].join('\n')).digest('base64url');
+  }
+
+  // Keys come from the API, but a key escaping the root directory is refused all the same
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return filePath;
+  }
+}
@@ -0,0 +1,49 @@
+import { Readable } from 'node:stream';
+
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client, S3ClientConfig } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+import { SignedUrlOptions, StorageDriver } from '@/common/storage/storageDriver';
+
+const contentDisposition = (fileName: string) => `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+/**
+ * Keeps files in a bucket of S3 or of an S3-compatible store such as MinIO, which usually
+ * needs an `endpoint` and `forcePathStyle`. Signed URLs are presigned GET requests.
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    config: S3ClientConfig
+  ) {
+    this.client = new S3Client(config);
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType })
+    );
+  }
+
+  async get(key: string): Promise<Readable> {
+    const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    return Body as Readable;
+  }
+
+  // One request per key, as batch deletes are not implemented by every S3-compatible store
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }))));
+  }
+
+  async getSignedUrl(key: string, { expiresInSeconds, fileName, contentType }: SignedUrlOptions): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentType: contentType,
+      ResponseContentDisposition: fileName ? contentDisposition(fileName) : undefined,
+    });
+    return getSignedUrl(this.client, command, { expiresIn: expiresInSeconds });
+  }
+}
@@ -0,0 +1,39 @@
+import { pino } from 'pino';
+
+import { LocalStorageDriver } from '@/common/storage/localStorageDriver';
+import { S3StorageDriver } from '@/common/storage/s3StorageDriver';
+import { StorageDriver } from '@/common/storage/storageDriver';
+import { env } from '@/common/utils/envConfig';
+
+const logger = pino({ name: 'storage', enabled: !env.isTest });
+
+const createStorageDriver = (): StorageDriver => {
+  if (env.STORAGE_DRIVER === 's3') {
+    return new S3StorageDriver(env.S3_BUCKET, {
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT || undefined,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      credentials: env.S3_ACCESS_KEY_ID
+        ? { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+  }
+  return new LocalStorageDriver(env.STORAGE_LOCAL_DIR, env.STORAGE_URL_SECRET);
+};
+
+// The driver selected by STORAGE_DRIVER
+export const storage = createStorageDriver();
+
+export const getDownloadUrl = (key: string, options: { fileName?: string; contentType?: string } = {}) =>
+  storage.getSignedUrl(key, { ...options, expiresInSeconds: env.STORAGE_URL_TTL_SECONDS });
+
+// Deletes the files of removed records. The records are gone by then, so a failure is
+// only logged: the files are orphaned rather than the request failed.
+export const deleteStoredFiles = async (keys: string[]): Promise<void> => {
+  if (!keys.length) return;
+  try {
+    await storage.delete(keys);
+  } catch (err) {
+    logger.error({ err, keys }, 'Error deleting stored files');
+  }
+};
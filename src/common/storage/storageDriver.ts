@@ -0,0 +1,21 @@
+import { Readable } from 'node:stream';
+
+export type SignedUrlOptions = {
+  expiresInSeconds: number;
+  // Offered as the name of the downloaded file
+  fileName?: string;
+  contentType?: string;
+};
+
+/**
+ * Where uploaded files are kept. Keys are relative paths such as
+ * 'attachments/<project id>/<uuid>'; they are generated by the API, never by clients.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  // Deletes the files that exist among `keys`
+  delete(keys: string[]): Promise<void>;
+  // A URL downloading the file without further authentication until it expires
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
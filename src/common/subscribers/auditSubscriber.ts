@@ -0,0 +1,126 @@
+import {
+  EntityManager,
+  EntityMetadata,
+  EntitySubscriberInterface,
+  EntityTarget,
+  EventSubscriber,
+  InsertEvent,
+  ObjectLiteral,
+  RemoveEvent,
+  UpdateEvent,
+} from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+import { AuditLog } from '@/common/entities/auditlog.entity';
+import { Board } from '@/common/entities/board.entity';
+import { Project } from '@/common/entities/project.entity';
+import { ProjectMembers } from '@/common/entities/projectmembers.entity';
+import { User } from '@/common/entities/user.entity';
+import { currentRequest } from '@/common/middleware/requestContext';
+import { AuditAction } from '@/common/models/auditAction';
+
+const AUDITED_ENTITIES: EntityTarget<ObjectLiteral>[] = [User, Project, Board, ProjectMembers];
+
+// Columns whose values are replaced in the trail, which only shows that they changed
+const REDACTED_COLUMNS = new Set(['password']);
+export const REDACTED = '[REDACTED]';
+
+type Changes = AuditLog['changes'];
+
+const isAudited = (metadata: EntityMetadata) => AUDITED_ENTITIES.includes(metadata.target);
+
+// Timestamps change with every write, so they would only add noise
+const isRecorded = (column: ColumnMetadata) => !column.isCreateDate && !column.isUpdateDate;
+
+const valueOf = (column: ColumnMetadata, row: ObjectLiteral | null): unknown =>
+  (row && column.getEntityValue(row)) ?? null;
+
+const isEqual = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : JSON.stringify(a) === JSON.stringify(b);
+
+const diff = (columns: ColumnMetadata[], before: ObjectLiteral | null, after: ObjectLiteral | null): Changes => {
+  const changes: Changes = {};
+  for (const column of columns.filter(isRecorded)) {
+    const from = valueOf(column, before);
+    const to = valueOf(column, after);
+    if (isEqual(from, to)) continue;
+    changes[column.propertyName] = REDACTED_COLUMNS.has(column.propertyName)
+      ? { from: from === null ? null : REDACTED, to: to === null ? null : REDACTED }
+      : { from, to };
+  }
+  return changes;
+};
+
+const record = async (
+  manager: EntityManager,
+  metadata: EntityMetadata,
+  entityId: string,
+  action: AuditAction,
+  changes: Changes
+): Promise<void> => {
+  const request = currentRequest();
+  await manager.save(
+    manager.create(AuditLog, {
+      entityType: metadata.name,
+      entityId,
+      action,
+      changes,
+      actorId: request?.user?.id ?? null,
+      requestId: request?.id ? String(request.id) : null,
+    })
+  );
+};
+
+/**
+ * Records the changes to users, projects, boards and memberships in the audit trail, in the
+ * transaction that makes them. TypeORM only tells subscribers which rows change for `save`
+ * and `remove`, so these entities must not be written with `update` or `delete`, whose
+ * changes would be missing from the trail. Rows deleted by a database cascade are not
+ * recorded either; the deletion of their parent is.
+ */
+@EventSubscriber()
+export class AuditSubscriber implements EntitySubscriberInterface {
+  // The rows as they were before an update or a removal, by the entity being saved or
+  // removed. TypeORM loads them too, but without the columns excluded from selects.
+  private readonly before = new WeakMap<ObjectLiteral, ObjectLiteral>();
+
+  private async loadBefore(manager: EntityManager, metadata: EntityMetadata, entity: ObjectLiteral): Promise<void> {
+    const id = metadata.getEntityIdMap(entity);
+    if (!id) return;
+    const select = Object.fromEntries(metadata.columns.map((column) => [column.propertyName, true]));
+    const row = await manager.findOne(metadata.target, { where: id, select, withDeleted: true });
+    if (row) this.before.set(entity, row);
+  }
+
+  async beforeUpdate(event: UpdateEvent<ObjectLiteral>): Promise<void> {
+    if (isAudited(event.metadata) && event.entity) await this.loadBefore(event.manager, event.metadata, event.entity);
+  }
+
+  async beforeRemove(event: RemoveEvent<ObjectLiteral>): Promise<void> {
+    if (isAudited(event.metadata) && event.entity) await this.loadBefore(event.manager, event.metadata, event.entity);
+  }
+
+  async afterInsert(event: InsertEvent<ObjectLiteral>): Promise<void> {
+    if (!isAudited(event.metadata)) return;
+    const changes = diff(event.metadata.columns, null, event.entity);
+    await record(event.manager, event.metadata, event.entity.id, AuditAction.Insert, changes);
+  }
+
+  async afterUpdate(event: UpdateEvent<ObjectLiteral>): Promise<void> {
+    if (!isAudited(event.metadata) || !event.entity) return;
+    const before = this.before.get(event.entity) ?? event.databaseEntity;
+    this.before.delete(event.entity);
+    const changes = diff(event.updatedColumns, before, event.entity);
+    if (!Object.keys(changes).length) return;
+    await record(event.manager, event.metadata, before?.id ?? event.entity.id, AuditAction.Update, changes);
+  }
+
+  async afterRemove(event: RemoveEvent<ObjectLiteral>): Promise<void> {
+    if (!isAudited(event.metadata) || !event.entity) return;
+    const before = this.before.get(event.entity) ?? event.databaseEntity;
+    this.before.delete(event.entity);
+    const id = event.entityId ?? before?.id;
+    if (!id) return;
+    await record(event.manager, event.metadata, id, AuditAction.Delete, diff(event.metadata.columns, before, null));
+  }
+}
@@ -0,0 +1,25 @@
+import { AfterQueryEvent, EntitySubscriberInterface, EventSubscriber, ObjectLiteral } from 'typeorm';
+
+import { dbQueryDurationSeconds, dbQueryErrorsTotal } from '@/common/metrics/metrics';
+
+const COMMANDS = new Set(['select', 'insert', 'update', 'delete', 'start', 'begin', 'commit', 'rollback']);
+
+// The SQL command of a query, such as 'select'; others, e.g. schema changes, are grouped
+// together so that the label keeps few values
+export const sqlCommand = (query: string): string => {
+  const command = /^\s*(\w+)/.exec(query)?.[1]?.toLowerCase() ?? '';
+  return COMMANDS.has(command) ? command : 'other';
+};
+
+// Times the queries TypeORM runs, for the metrics
+@EventSubscriber()
+export class QueryMetricsSubscriber implements EntitySubscriberInterface {
+  afterQuery(event: AfterQueryEvent<ObjectLiteral>): void {
+    const command = sqlCommand(event.query);
+    if (!event.success) {
+      dbQueryErrorsTotal.inc({ command });
+    } else if (event.executionTime !== undefined) {
+      dbQueryDurationSeconds.observe({ command }, event.executionTime / 1000);
+    }
+  }
+}
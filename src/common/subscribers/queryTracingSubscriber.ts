@@ -0,0 +1,38 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  ATTR_DB_OPERATION_NAME,
+  ATTR_DB_QUERY_TEXT,
+  ATTR_DB_SYSTEM_NAME,
+  ATTR_ERROR_TYPE,
+} from '@opentelemetry/semantic-conventions';
+import { AfterQueryEvent, EntitySubscriberInterface, EventSubscriber, ObjectLiteral } from 'typeorm';
+
+import { sqlCommand } from '@/common/subscribers/queryMetricsSubscriber';
+import { tracer } from '@/common/tracing/tracing';
+
+const DB_SYSTEMS: Record<string, string> = { postgres: 'postgresql', mysql: 'mysql' };
+
+// Records a client span for each query TypeORM runs, in the trace of the code running it.
+// TypeORM reports queries once they are done, so spans are started back by their duration.
+@EventSubscriber()
+export class QueryTracingSubscriber implements EntitySubscriberInterface {
+  afterQuery(event: AfterQueryEvent<ObjectLiteral>): void {
+    const command = sqlCommand(event.query).toUpperCase();
+    const span = tracer.startSpan(command, {
+      kind: SpanKind.CLIENT,
+      startTime: Date.now() - (event.executionTime ?? 0),
+      attributes: {
+        [ATTR_DB_SYSTEM_NAME]: DB_SYSTEMS[event.connection.options.type] ?? event.connection.options.type,
+        [ATTR_DB_OPERATION_NAME]: command,
+        // Values are sent as parameters, so the text holds none
+        [ATTR_DB_QUERY_TEXT]: event.query,
+      },
+    });
+    if (!event.success) {
+      span.recordException(event.error);
+      span.setAttribute(ATTR_ERROR_TYPE, event.error?.constructor?.name ?? 'Error');
+      span.setStatus({ code: SpanStatusCode.ERROR, message: event.error?.message });
+    }
+    span.end();
+  }
+}
@@ -0,0 +1,52 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+import { ExportResult, ExportResultCode, hrTimeToMicroseconds } from '@opentelemetry/core';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Appends each span to a file as a line of JSON instead of sending it to a collector, so
+ * that traces can be looked at without one. Durations and timestamps are in microseconds.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly file: string;
+  // Writes are chained so that lines of concurrent exports do not interleave
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = path.resolve(file);
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map((span) => `${JSON.stringify(toJson(span))}\n`).join('');
+    this.pending = this.pending
+      .then(async () => {
+        await mkdir(path.dirname(this.file), { recursive: true });
+        await appendFile(this.file, lines);
+        resultCallback({ code: ExportResultCode.SUCCESS });
+      })
+      .catch((error: Error) => resultCallback({ code: ExportResultCode.FAILED, error }));
+  }
+
+  forceFlush(): Promise<void> {
+    return this.pending;
+  }
+
+  shutdown(): Promise<void> {
+    return this.pending;
+  }
+}
+
+const toJson = (span: ReadableSpan) => ({
+  traceId: span.spanContext().traceId,
+  spanId: span.spanContext().spanId,
+  parentSpanId: span.parentSpanContext?.spanId,
+  name: span.name,
+  kind: span.kind,
+  timestamp: hrTimeToMicroseconds(span.startTime),
+  duration: hrTimeToMicroseconds(span.duration),
+  attributes: span.attributes,
+  status: span.status,
+  events: span.events,
+  service: span.resource.attributes['service.name'],
+});
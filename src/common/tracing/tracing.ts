@@ -0,0 +1,110 @@
+import { context, isSpanContextValid, Span, SpanOptions, SpanStatusCode, trace } from '@opentelemetry/api';
+import { suppressTracing } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  ParentBasedSampler,
+  SimpleSpanProcessor,
+  SpanExporter,
+  SpanProcessor,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+
+import { FileSpanExporter } from '@/common/tracing/fileSpanExporter';
+import { env } from '@/common/utils/envConfig';
+
+const createSpanExporter = (): SpanExporter | null => {
+  switch (env.TRACING_EXPORTER) {
+    case 'otlp':
+      return new OTLPTraceExporter({ url: env.TRACING_OTLP_ENDPOINT });
+    case 'console':
+      return new ConsoleSpanExporter();
+    case 'file':
+      return new FileSpanExporter(env.TRACING_FILE);
+    case 'memory':
+      return new InMemorySpanExporter();
+    case 'none':
+      return null;
+  }
+};
+
+// The exporter selected by TRACING_EXPORTER; null when spans are only used for the trace
+// ids of logs
+export const spanExporter = createSpanExporter();
+
+// Spans sent over the network go in batches; the others are written as soon as they end
+const createSpanProcessor = (exporter: SpanExporter): SpanProcessor =>
+  env.TRACING_EXPORTER === 'otlp' ? new BatchSpanProcessor(exporter) : new SimpleSpanProcessor(exporter);
+
+export const tracerProvider = new NodeTracerProvider({
+  resource: resourceFromAttributes({
+    [ATTR_SERVICE_NAME]: env.TRACING_SERVICE_NAME,
+    [ATTR_SERVICE_VERSION]: env.API_VERSION,
+  }),
+  sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(env.TRACING_SAMPLE_RATIO) }),
+  spanProcessors: spanExporter ? [createSpanProcessor(spanExporter)] : [],
+});
+
+// Sets the global tracer, the W3C traceparent propagator and a context manager keeping the
+// active span across async calls
+tracerProvider.register();
+
+export const tracer = trace.getTracer(env.TRACING_SERVICE_NAME, env.API_VERSION);
+
+const fail = (span: Span, err: unknown) => {
+  span.recordException(err as Error);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+};
+
+// Runs `work` in a new active span named `name`, which ends with it and records its error
+export const withSpan = <T>(name: string, work: (span: Span) => T, options: SpanOptions = {}): T =>
+  tracer.startActiveSpan(name, options, (span) => {
+    try {
+      const result = work(span);
+      if (!(result instanceof Promise)) {
+        span.end();
+        return result;
+      }
+      return result
+        .catch((err) => {
+          fail(span, err);
+          throw err;
+        })
+        .finally(() => span.end()) as T;
+    } catch (err) {
+      fail(span, err);
+      span.end();
+      throw err;
+    }
+  });
+
+// Runs `work` without recording spans, e.g. for polls that would flood the traces with
+// their queries while finding nothing to do
+export const withoutTracing = <T>(work: () => T): T => context.with(suppressTracing(context.active()), work);
+
+type Service = Record<string, (...args: never[]) => unknown>;
+
+// Runs each function of a service in a span named after it, e.g. 'projectService.findById'
+export const traceService = <S extends Service>(name: string, service: S): S =>
+  Object.fromEntries(
+    Object.entries(service).map(([key, fn]) => [
+      key,
+      (...args: never[]) => withSpan(`${name}.${key}`, () => fn(...args)),
+    ])
+  ) as S;
+
+// The ids of the active span, for logs; empty outside of spans
+export const traceFields = (): { trace_id?: string; span_id?: string; trace_flags?: string } => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (!spanContext || !isSpanContextValid(spanContext)) return {};
+  return {
+    trace_id: spanContext.traceId,
+    span_id: spanContext.spanId,
+    trace_flags: spanContext.traceFlags.toString(16).padStart(2, '0'),
+  };
+};
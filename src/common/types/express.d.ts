@@ -0,0 +1,17 @@
+import 'express';
+
+import { ProjectRole } from '@/common/models/projectRole';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by the `authenticate` middleware for requests carrying a valid access token
+      user?: {
+        id: string;
+        email: string;
+      };
+      // Set by the `requireProjectRole` middleware to the user's role in the requested project
+      projectRole?: ProjectRole;
+    }
+  }
+}
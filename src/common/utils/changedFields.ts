@@ -0,0 +1,6 @@
+// Names of the fields given in `changes` whose value differs from the one in `current`.
+// Values are compared by their JSON form, so that dates and arrays are compared by content.
+export const changedFields = <T extends object>(current: T, changes: Partial<T>): (keyof T & string)[] =>
+  (Object.keys(changes) as (keyof T & string)[]).filter(
+    (key) => changes[key] !== undefined && JSON.stringify(changes[key]) !== JSON.stringify(current[key])
+  );
@@ -1,10 +1,8 @@
 import { z } from 'zod';
 
 export const commonValidations = {
-  id: z
-    .string()
-    .refine((data) => !isNaN(Number(data)), 'ID must be a numeric value')
-    .transform(Number)
-    .refine((num) => num > 0, 'ID must be a positive number'),
+  id: z.string().uuid('ID must be a valid UUID'),
+  email: z.string().email('Email must be a valid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters long').max(128),
   // ... other common validations
 };
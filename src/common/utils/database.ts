@@ -0,0 +1,33 @@
+import { Logger } from 'pino';
+
+import { env } from '@/common/utils/envConfig';
+import dataSource from '@/configs/typeorm.config';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Initializes the data source, retrying with exponential backoff while the database is
+ * unreachable (e.g. still starting next to the server), then runs pending migrations when
+ * DB_RUN_MIGRATIONS is set. Rejects once DB_CONNECT_RETRIES retries have failed.
+ */
+export const connectDatabase = async (logger: Logger): Promise<void> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await dataSource.initialize();
+      break;
+    } catch (err) {
+      if (attempt >= env.DB_CONNECT_RETRIES) {
+        throw err;
+      }
+      const delay = Math.min(env.DB_CONNECT_RETRY_DELAY_MS * 2 ** attempt, env.DB_CONNECT_RETRY_MAX_DELAY_MS);
+      logger.warn(`Database connection failed (${(err as Error).message}); retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+  logger.info('Data Source has been initialized!');
+
+  if (env.DB_RUN_MIGRATIONS) {
+    const migrations = await dataSource.runMigrations();
+    logger.info(`Ran ${migrations.length} pending migration(s)`);
+  }
+};
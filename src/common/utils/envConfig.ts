@@ -1,13 +1,181 @@
+import os from 'node:os';
+import path from 'node:path';
+
 import dotenv from 'dotenv';
-import { cleanEnv, host, num, port, str, testOnly } from 'envalid';
+import { bool, cleanEnv, EnvError, host, makeValidator, num, port, str, testOnly } from 'envalid';
+import { LevelWithSilent } from 'pino';
 
 dotenv.config();
 
+// `devDefault: testOnly(...)` makes a variable required in development, so settings that
+// have a default everywhere but differ in tests pick it here instead
+const isTest = process.env.NODE_ENV === 'test';
+
+const splitList = (input: string) =>
+  input
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// A comma-separated list of absolute URLs
+const urlList = makeValidator<string[]>((input) => {
+  const urls = splitList(input);
+  urls.forEach((url) => {
+    if (!URL.canParse(url)) throw new EnvError(`Invalid url: "${url}"`);
+  });
+  return urls;
+});
+
+// A comma-separated list of values
+const list = makeValidator<string[]>(splitList);
+
+// Express' `trust proxy`: 'false', the number of proxies in front of the server, or a
+// comma-separated list of their addresses and subnets, e.g. "loopback,10.0.0.0/8"
+const trustProxy = makeValidator<false | number | string[]>((input) => {
+  const value = input.trim();
+  if (value === 'false') return false;
+  if (/^\d+$/.test(value)) return Number(value);
+  if (value === 'true') {
+    throw new EnvError('TRUST_PROXY=true lets clients choose their IP; give the number or addresses of the proxies');
+  }
+  return splitList(value);
+});
+
+const LOG_LEVELS: LevelWithSilent[] = ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'];
+
+const isLogLevel = (level: string): level is LevelWithSilent => (LOG_LEVELS as string[]).includes(level);
+
+// A comma-separated list of `<path prefix>=<level>`, e.g. "/health-check=silent,/admin=debug"
+const routeLogLevels = makeValidator<{ prefix: string; level: LevelWithSilent }[]>((input) =>
+  splitList(input).map((entry) => {
+    const [prefix, level] = entry.split('=').map((part) => part.trim());
+    if (!prefix?.startsWith('/') || !level || !isLogLevel(level)) {
+      throw new EnvError(`Invalid route log level: "${entry}"`);
+    }
+    return { prefix, level };
+  })
+);
+
+const fraction = makeValidator<number>((input) => {
+  const value = Number(input);
+  if (!input.trim() || Number.isNaN(value) || value < 0 || value > 1) {
+    throw new EnvError(`Invalid fraction: "${input}"`);
+  }
+  return value;
+});
+
 export const env = cleanEnv(process.env, {
   NODE_ENV: str({ devDefault: testOnly('test'), choices: ['development', 'production', 'test'] }),
   HOST: host({ devDefault: testOnly('localhost') }),
   PORT: port({ devDefault: testOnly(3000) }),
+  API_VERSION: str({ default: '1.0.0' }),
+  // Servers listed in the OpenAPI document; defaults to http://HOST:PORT
+  API_SERVER_URLS: urlList({ default: [] }),
   CORS_ORIGIN: str({ devDefault: testOnly('http://localhost:3000') }),
+  // The proxies whose X-Forwarded-For is believed for the client IP, which rate limits key on
+  TRUST_PROXY: trustProxy({ default: false }),
   COMMON_RATE_LIMIT_MAX_REQUESTS: num({ devDefault: testOnly(1000) }),
   COMMON_RATE_LIMIT_WINDOW_MS: num({ devDefault: testOnly(1000) }),
+  // Stricter limit of the login, registration and token endpoints, keyed by IP
+  AUTH_RATE_LIMIT_MAX_REQUESTS: num({ default: isTest ? 1000 : 10 }),
+  AUTH_RATE_LIMIT_WINDOW_MS: num({ default: 15 * 60 * 1000 }),
+  // 'database' shares the counters between instances through the rate_limit_counters table
+  RATE_LIMIT_STORE: str({ choices: ['memory', 'database'], default: 'memory' }),
+  JWT_ACCESS_SECRET: str({ devDefault: testOnly('test-access-secret') }),
+  JWT_REFRESH_SECRET: str({ devDefault: testOnly('test-refresh-secret') }),
+  JWT_ACCESS_TTL_SECONDS: num({ default: 15 * 60 }),
+  JWT_REFRESH_TTL_SECONDS: num({ default: 7 * 24 * 60 * 60 }),
+  DB_TYPE: str({ choices: ['postgres', 'mysql', 'pg-mem'], default: isTest ? 'pg-mem' : 'postgres' }),
+  DB_HOST: host({ default: 'localhost' }),
+  // Defaults to the standard port of DB_TYPE
+  DB_PORT: port({ default: undefined }),
+  DB_USERNAME: str({ default: '' }),
+  DB_PASSWORD: str({ default: '' }),
+  DB_DATABASE: str({ default: '' }),
+  DB_POOL_SIZE: num({ default: 10 }),
+  DB_SSL: bool({ default: false }),
+  DB_SSL_REJECT_UNAUTHORIZED: bool({ default: true }),
+  DB_SYNCHRONIZE: bool({ default: false }),
+  DB_LOGGING: bool({ default: false }),
+  DB_RUN_MIGRATIONS: bool({ default: false }),
+  DB_CONNECT_RETRIES: num({ default: 5 }),
+  DB_CONNECT_RETRY_DELAY_MS: num({ default: 1000 }),
+  DB_CONNECT_RETRY_MAX_DELAY_MS: num({ default: 30000 }),
+  HEALTH_MAX_EVENT_LOOP_LAG_MS: num({ default: 1000 }),
+  // Bearer token of the /metrics endpoint; without it, only internal networks may read the metrics
+  METRICS_TOKEN: str({ default: '' }),
+  // Lets requests from loopback and private addresses read /metrics without the token
+  METRICS_ALLOW_INTERNAL: bool({ default: true }),
+  // Where spans go: an OTLP/HTTP collector, the console, a file of JSON lines, or memory for tests
+  TRACING_EXPORTER: str({
+    choices: ['none', 'otlp', 'console', 'file', 'memory'],
+    default: isTest ? 'memory' : 'none',
+  }),
+  TRACING_OTLP_ENDPOINT: str({ default: 'http://localhost:4318/v1/traces' }),
+  TRACING_FILE: str({ default: 'traces.jsonl' }),
+  TRACING_SERVICE_NAME: str({ default: 'sgroup-tasks-management' }),
+  // Fraction of the traces started here that are recorded; requests follow their caller's choice
+  TRACING_SAMPLE_RATIO: fraction({ default: 1 }),
+  // Request logs; silent in tests, and formatted for reading in development
+  LOG_LEVEL: str({ choices: LOG_LEVELS, default: isTest ? 'silent' : 'info' }),
+  LOG_PRETTY: bool({ default: process.env.NODE_ENV === 'development' }),
+  // Pino redaction paths added to those of the credential headers, e.g. request.headers["x-api-key"]
+  LOG_REDACT_PATHS: list({ default: [] }),
+  // Fields censored at any depth of logged bodies, in addition to passwords and tokens
+  LOG_REDACT_FIELDS: list({ default: [] }),
+  LOG_RESPONSE_BODIES: bool({ default: process.env.NODE_ENV !== 'production' }),
+  // Logged bodies are cut to this many characters
+  LOG_MAX_BODY_LENGTH: num({ default: 2000 }),
+  // Levels of the requests, below 400, whose path starts with a prefix, overriding 'info'
+  LOG_ROUTE_LEVELS: routeLogLevels({ default: [] }),
+  // Fraction of the requests below 400 that are logged; failed requests always are
+  LOG_SUCCESS_SAMPLE_RATE: fraction({ default: 1 }),
+  STORAGE_DRIVER: str({ choices: ['local', 's3'], default: 'local' }),
+  STORAGE_LOCAL_DIR: str({ default: isTest ? path.join(os.tmpdir(), 'training-be-uploads') : 'uploads' }),
+  // Signs the download links of the local driver
+  STORAGE_URL_SECRET: str({ devDefault: testOnly('test-storage-secret') }),
+  STORAGE_URL_TTL_SECONDS: num({ default: 15 * 60 }),
+  S3_BUCKET: str({ default: '' }),
+  S3_REGION: str({ default: 'us-east-1' }),
+  // Set for S3-compatible stores such as MinIO, e.g. http://localhost:9000
+  S3_ENDPOINT: str({ default: '' }),
+  S3_FORCE_PATH_STYLE: bool({ default: false }),
+  // Without keys, the AWS SDK looks up credentials itself, e.g. from an instance role
+  S3_ACCESS_KEY_ID: str({ default: '' }),
+  S3_SECRET_ACCESS_KEY: str({ default: '' }),
+  UPLOAD_MAX_FILE_SIZE_BYTES: num({ default: 10 * 1024 * 1024 }),
+  AVATAR_MAX_FILE_SIZE_BYTES: num({ default: 2 * 1024 * 1024 }),
+  // Events kept in memory for clients resuming after a reconnect
+  REALTIME_HISTORY_SIZE: num({ default: 1000 }),
+  // Connections that miss a ping for this long are dropped
+  REALTIME_HEARTBEAT_INTERVAL_MS: num({ default: 30 * 1000 }),
+  // 'file' writes emails to EMAIL_FILE_DIR instead of sending them; 'memory' keeps them for tests
+  EMAIL_TRANSPORT: str({ choices: ['smtp', 'file', 'memory'], default: isTest ? 'memory' : 'file' }),
+  EMAIL_FROM: str({ default: 'Training <no-reply@localhost>' }),
+  EMAIL_FILE_DIR: str({ default: 'emails' }),
+  SMTP_HOST: host({ default: 'localhost' }),
+  SMTP_PORT: port({ default: 587 }),
+  // true for implicit TLS, usually on port 465; otherwise STARTTLS is used when offered
+  SMTP_SECURE: bool({ default: false }),
+  SMTP_USER: str({ default: '' }),
+  SMTP_PASSWORD: str({ default: '' }),
+  // The web client, which links in emails point to; without it emails have no links
+  APP_URL: str({ default: '' }),
+  // Hour of the day (UTC) at which daily digest emails are sent
+  NOTIFICATION_DIGEST_HOUR: num({ default: 8, choices: [...Array(24).keys()] }),
+  // Instances with the worker disabled only enqueue jobs, for others to run
+  JOB_WORKER_ENABLED: bool({ default: true }),
+  JOB_POLL_INTERVAL_MS: num({ default: 1000 }),
+  // Jobs run at the same time by one instance
+  JOB_CONCURRENCY: num({ default: 5 }),
+  JOB_MAX_ATTEMPTS: num({ default: 5 }),
+  // Delay before the first retry, doubled for each further one up to JOB_RETRY_MAX_DELAY_MS
+  JOB_RETRY_DELAY_MS: num({ default: 10 * 1000 }),
+  JOB_RETRY_MAX_DELAY_MS: num({ default: 60 * 60 * 1000 }),
+  // Attempts running longer, e.g. on an instance that crashed, are taken as failed
+  JOB_TIMEOUT_MS: num({ default: 10 * 60 * 1000 }),
+  // Completed jobs are deleted after this many days; failed ones are kept until retried
+  JOB_RETENTION_DAYS: num({ default: 7 }),
+  // Deleted projects, boards and cards can be restored for this many days, then are purged
+  TRASH_RETENTION_DAYS: num({ default: 30 }),
 });
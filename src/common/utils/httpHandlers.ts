@@ -1,20 +1,74 @@
 import { NextFunction, Request, Response } from 'express';
 import { StatusCodes } from 'http-status-codes';
-import { ZodError, ZodSchema } from 'zod';
+import { AnyZodObject, z, ZodError, ZodTypeAny } from 'zod';
 
-import { ResponseStatus, ServiceResponse } from '@/common/models/serviceResponse';
+import { AppError, ErrorCode, ErrorDetail, ValidationError } from '@/common/models/errors';
+import { ServiceResponse, ServiceResponseSchema } from '@/common/models/serviceResponse';
+import { env } from '@/common/utils/envConfig';
 
 export const handleServiceResponse = (serviceResponse: ServiceResponse<any>, response: Response) => {
   return response.status(serviceResponse.statusCode).send(serviceResponse);
 };
 
-export const validateRequest = (schema: ZodSchema) => (req: Request, res: Response, next: NextFunction) => {
-  try {
-    schema.parse({ body: req.body, query: req.query, params: req.params });
-    next();
-  } catch (err) {
-    const errorMessage = `Invalid input: ${(err as ZodError).errors.map((e) => e.message).join(', ')}`;
-    const statusCode = StatusCodes.BAD_REQUEST;
-    res.status(statusCode).send(new ServiceResponse<null>(ResponseStatus.Failed, errorMessage, null, statusCode));
-  }
+// The type of a part of the parsed input, or `Fallback` when the schema does not declare it
+type InputPart<T extends AnyZodObject, K extends string, Fallback> = K extends keyof z.output<T>
+  ? z.output<T>[K]
+  : Fallback;
+
+// A request whose params, body and query have been parsed by `validateRequest(schema)`
+export type ValidatedRequest<T extends AnyZodObject> = Request<
+  InputPart<T, 'params', Request['params']>,
+  any,
+  InputPart<T, 'body', unknown>,
+  InputPart<T, 'query', Request['query']>
+>;
+
+const toErrorDetails = (error: ZodError): ErrorDetail[] =>
+  error.errors.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+
+// Checks successful responses against their documented schema, so that a handler drifting
+// from its OpenAPI description fails loudly in development and tests
+const checkResponses = (res: Response, schema: ZodTypeAny) => {
+  const responseSchema = ServiceResponseSchema(schema);
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (res.statusCode < StatusCodes.BAD_REQUEST) {
+      const result = responseSchema.safeParse(body);
+      if (!result.success) {
+        throw new AppError(
+          'Response does not match its schema',
+          StatusCodes.INTERNAL_SERVER_ERROR,
+          ErrorCode.InternalError,
+          toErrorDetails(result.error)
+        );
+      }
+    }
+    return json(body);
+  };
 };
+
+/**
+ * Parses the params, body and query of a request with `schema`, an object with any of the
+ * `params`, `body` and `query` keys, and replaces them with the parsed values: unknown body
+ * fields are stripped and defaults and transforms are applied. Handlers type their request
+ * as `ValidatedRequest<typeof schema>`.
+ *
+ * Outside production, successful responses are also checked against `responseSchema`.
+ */
+export const validateRequest =
+  <T extends AnyZodObject>(schema: T, responseSchema?: ZodTypeAny) =>
+  (req: ValidatedRequest<T>, res: Response, next: NextFunction) => {
+    const result = schema.safeParse({ body: req.body, query: req.query, params: req.params });
+    if (!result.success) {
+      next(new ValidationError('Invalid input', toErrorDetails(result.error)));
+      return;
+    }
+
+    const { params, body, query } = result.data;
+    if (params !== undefined) req.params = params;
+    if (body !== undefined) req.body = body;
+    // Express 5 exposes `req.query` as a getter, so it is shadowed by an own property
+    if (query !== undefined) Object.defineProperty(req, 'query', { value: query, writable: true, enumerable: true });
+    if (responseSchema && !env.isProduction) checkResponses(res, responseSchema);
+    next();
+  };
@@ -0,0 +1,26 @@
+import sharp from 'sharp';
+
+import { ValidationError } from '@/common/models/errors';
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const;
+
+export const isImage = (contentType: string) => (IMAGE_MIME_TYPES as readonly string[]).includes(contentType);
+
+/**
+ * Renders `image` as a WebP of at most `size` pixels square: scaled down to fit inside it,
+ * or cropped to fill it with `cover`. The EXIF orientation is applied and the metadata
+ * dropped. Rejects files that cannot be decoded, whatever type the client declared.
+ */
+export const resizeImage = async (image: Buffer, size: number, { cover = false } = {}): Promise<Buffer> => {
+  try {
+    return await sharp(image)
+      .rotate()
+      .resize(size, size, { fit: cover ? 'cover' : 'inside', withoutEnlargement: !cover })
+      .webp()
+      .toBuffer();
+  } catch {
+    throw new ValidationError('The file is not a valid image', [
+      { path: 'file', message: 'Cannot be read as an image' },
+    ]);
+  }
+};
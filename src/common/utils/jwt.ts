@@ -0,0 +1,39 @@
+import jwt from 'jsonwebtoken';
+
+import { env } from '@/common/utils/envConfig';
+
+export type AccessTokenPayload = { sub: string; email: string };
+export type RefreshTokenPayload = { sub: string; jti: string };
+
+export const signAccessToken = (payload: AccessTokenPayload): string =>
+  jwt.sign({ email: payload.email }, env.JWT_ACCESS_SECRET, {
+    subject: payload.sub,
+    expiresIn: env.JWT_ACCESS_TTL_SECONDS,
+  });
+
+export const signRefreshToken = (payload: RefreshTokenPayload): string =>
+  jwt.sign({}, env.JWT_REFRESH_SECRET, {
+    subject: payload.sub,
+    jwtid: payload.jti,
+    expiresIn: env.JWT_REFRESH_TTL_SECONDS,
+  });
+
+// Returns the token payload, or null when the token is malformed, forged or expired
+export const verifyAccessToken = (token: string): AccessTokenPayload | null => {
+  try {
+    const { sub, email } = jwt.verify(token, env.JWT_ACCESS_SECRET) as jwt.JwtPayload;
+    return sub && email ? { sub, email } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns the token payload, or null when the token is malformed, forged or expired
+export const verifyRefreshToken = (token: string): RefreshTokenPayload | null => {
+  try {
+    const { sub, jti } = jwt.verify(token, env.JWT_REFRESH_SECRET) as jwt.JwtPayload;
+    return sub && jti ? { sub, jti } : null;
+  } catch {
+    return null;
+  }
+};
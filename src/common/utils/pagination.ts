@@ -0,0 +1,164 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import {
+  Equal,
+  FindOptionsOrder,
+  FindOptionsRelations,
+  FindOptionsSelect,
+  FindOptionsWhere,
+  LessThan,
+  MoreThan,
+  ObjectLiteral,
+  Repository,
+} from 'typeorm';
+import { z } from 'zod';
+
+extendZodWithOpenApi(z);
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type PageInfo = z.infer<typeof PageInfoSchema>;
+export const PageInfoSchema = z
+  .object({
+    limit: z.number().int(),
+    hasMore: z.boolean(),
+    nextCursor: z
+      .string()
+      .nullable()
+      .openapi({ description: "Value for the 'cursor' query parameter of the next page; null on the last page" }),
+    offset: z.number().int().nullable().openapi({ description: 'Offset of the first item; null for cursor pages' }),
+    total: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: 'Number of matching items; only counted for offset pages' }),
+  })
+  .openapi('PageInfo');
+
+export type Paginated<T> = { items: T[]; pageInfo: PageInfo };
+export const PaginatedSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
+  z.object({ items: z.array(itemSchema), pageInfo: PageInfoSchema });
+
+// A sort field, prefixed with '-' for descending order
+export type SortParam<S extends string = string> = S | `-${S}`;
+
+export type PageQuery<S extends string = string> = {
+  limit: number;
+  cursor?: string;
+  offset?: number;
+  sort: SortParam<S>;
+};
+
+// Cursors are opaque to clients: the sort value and id of the last item of a page
+type Cursor = { value: unknown; id: unknown; date?: boolean };
+
+const encodeCursor = (value: unknown, id: unknown): string => {
+  const cursor: Cursor = value instanceof Date ? { value: value.toISOString(), id, date: true } : { value, id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeCursor = (cursor: string): Cursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return decoded && typeof decoded === 'object' && 'value' in decoded && 'id' in decoded ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Builds the query schema of a collection endpoint. Sorting is limited to `sortFields`,
+ * which should be non-nullable columns; `filters` are additional query parameters that
+ * the endpoint matches against its rows.
+ */
+export const createPageQuerySchema = <S extends string, F extends z.ZodRawShape = Record<never, never>>(options: {
+  sortFields: readonly [S, ...S[]];
+  defaultSort: SortParam<S>;
+  filters?: F;
+}) => {
+  const sortParams = options.sortFields.flatMap((field) => [field, `-${field}`]) as [SortParam<S>, ...SortParam<S>[]];
+  return z
+    .object({
+      limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_PAGE_SIZE)
+        .default(DEFAULT_PAGE_SIZE)
+        .openapi({ description: `Page size, at most ${MAX_PAGE_SIZE}` }),
+      cursor: z
+        .string()
+        .refine((cursor) => decodeCursor(cursor) !== null, 'Cursor is invalid')
+        .optional()
+        .openapi({ description: "The 'nextCursor' of the previous page" }),
+      offset: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .openapi({ description: 'Number of items to skip; counts the total, unlike cursor pages' }),
+      sort: z
+        .enum(sortParams)
+        .default(options.defaultSort)
+        .openapi({ description: "Field to sort by, prefixed with '-' for descending order" }),
+    })
+    .extend(options.filters ?? ({} as F))
+    .refine((query) => query.cursor === undefined || query.offset === undefined, {
+      message: 'A cursor and an offset cannot be combined',
+      path: ['offset'],
+    });
+};
+
+/**
+ * Fetches one page of `repository`. Rows are ordered by the sort field and then by id, so
+ * that cursor pages neither skip nor repeat rows sharing a sort value.
+ */
+export const findPage = async <E extends ObjectLiteral>(
+  repository: Repository<E>,
+  page: PageQuery,
+  options: { where?: FindOptionsWhere<E>; select?: FindOptionsSelect<E>; relations?: FindOptionsRelations<E> } = {}
+): Promise<Paginated<E>> => {
+  const { limit, cursor, offset, sort } = page;
+  const descending = sort.startsWith('-');
+  const field = descending ? sort.slice(1) : sort;
+  const direction = descending ? 'DESC' : 'ASC';
+  const after = descending ? LessThan : MoreThan;
+  const order = { [field]: direction, id: direction } as unknown as FindOptionsOrder<E>;
+  const where = options.where ?? {};
+
+  const pageInfo = (items: E[], hasMore: boolean, total: number | null): Paginated<E> => {
+    const last = items[items.length - 1];
+    return {
+      items,
+      pageInfo: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor(last[field], last.id) : null,
+        offset: offset ?? null,
+        total,
+      },
+    };
+  };
+
+  if (offset !== undefined) {
+    const [items, total] = await repository.findAndCount({ ...options, where, order, skip: offset, take: limit });
+    return pageInfo(items, offset + items.length < total, total);
+  }
+
+  const decoded = cursor ? decodeCursor(cursor) : null;
+  const value = decoded?.date ? new Date(decoded.value as string) : decoded?.value;
+  const cursorWhere = decoded
+    ? [
+        { ...where, [field]: after(value) },
+        { ...where, [field]: Equal(value), id: after(decoded.id) },
+      ]
+    : where;
+  // One extra row is fetched to tell whether there is a next page
+  const rows = await repository.find({
+    ...options,
+    where: cursorWhere as FindOptionsWhere<E>[],
+    order,
+    take: limit + 1,
+  });
+  return pageInfo(rows.slice(0, limit), rows.length > limit, null);
+};
@@ -0,0 +1,25 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, derivedKey) => (err ? reject(err) : resolve(derivedKey)));
+  });
+
+// Hashes a plain text password into a `salt:hash` string (both hex encoded)
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await deriveKey(password, salt);
+  return `${salt.toString('hex')}:${derivedKey.toString('hex')}`;
+};
+
+// Compares a plain text password against a hash produced by `hashPassword`
+export const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
+  const [salt, key] = hash.split(':');
+  if (!salt || !key) return false;
+  const storedKey = Buffer.from(key, 'hex');
+  const derivedKey = await deriveKey(password, Buffer.from(salt, 'hex'));
+  return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+};
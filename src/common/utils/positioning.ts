@@ -0,0 +1,32 @@
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+
+type Positioned = { id: string; position: number };
+
+// Moves the item with the given id to `position` within `items` (ordered by position) and
+// returns the new position of every item whose position changed. Positions are re-numbered
+// densely from zero, and out of range targets are clamped to the end of the list.
+export const reorder = <T extends Positioned>(items: T[], id: string, position: number): Positioned[] => {
+  const ordered = [...items];
+  const index = ordered.findIndex((item) => item.id === id);
+  if (index === -1) return [];
+  const [moved] = ordered.splice(index, 1);
+  ordered.splice(Math.min(Math.max(position, 0), ordered.length), 0, moved);
+  return renumber(ordered);
+};
+
+// Assigns dense positions to `items` in their current order and returns the ones that changed
+export const renumber = <T extends Positioned>(items: T[]): Positioned[] =>
+  items
+    .map((item, position) => ({ id: item.id, position, changed: item.position !== position }))
+    .filter(({ changed }) => changed)
+    .map(({ id, position }) => ({ id, position }));
+
+// Persists the positions returned by `reorder` or `renumber`, with `save` so that the moves
+// of audited entities are recorded
+export const savePositions = async (
+  manager: EntityManager,
+  entity: EntityTarget<ObjectLiteral>,
+  positions: Positioned[]
+): Promise<void> => {
+  if (positions.length) await manager.save(entity, positions);
+};
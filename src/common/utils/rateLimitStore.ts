@@ -0,0 +1,79 @@
+import { ClientRateLimitInfo, MemoryStore, Options, Store } from 'express-rate-limit';
+import { LessThanOrEqual, MoreThan } from 'typeorm';
+
+import { RateLimitCounter } from '@/common/entities/ratelimitcounter.entity';
+import { defineJob } from '@/common/jobs/jobs';
+import { env } from '@/common/utils/envConfig';
+import dataSource from '@/configs/typeorm.config';
+
+/**
+ * Keeps the counters in the `rate_limit_counters` table so that every instance of the
+ * API counts against the same limits. Each increment locks the counter row, so two
+ * instances cannot both let the last allowed request through.
+ */
+export class DatabaseStore implements Store {
+  public readonly localKeys = false;
+  private windowMs = 60 * 1000;
+
+  constructor(public readonly prefix: string) {}
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const counter = await dataSource
+      .getRepository(RateLimitCounter)
+      .findOneBy({ key: this.prefix + key, resetAt: MoreThan(new Date()) });
+    return counter ? { totalHits: counter.hits, resetTime: counter.resetAt } : undefined;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    return dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(RateLimitCounter);
+      const now = new Date();
+      // The row is created first so that concurrent first hits lock the same row. An existing
+      // row is locked by the no-op update, so that the purge cannot delete it in between.
+      await repository
+        .createQueryBuilder()
+        .insert()
+        .values({ key: this.prefix + key, hits: 0, resetAt: now })
+        .orUpdate(['key'], ['key'])
+        .execute();
+      const counter = await repository.findOneOrFail({
+        where: { key: this.prefix + key },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (counter.resetAt <= now) {
+        counter.hits = 0;
+        counter.resetAt = new Date(now.getTime() + this.windowMs);
+      }
+      counter.hits += 1;
+      await repository.save(counter);
+      return { totalHits: counter.hits, resetTime: counter.resetAt };
+    });
+  }
+
+  async decrement(key: string): Promise<void> {
+    await dataSource
+      .getRepository(RateLimitCounter)
+      .decrement({ key: this.prefix + key, hits: MoreThan(0) }, 'hits', 1);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await dataSource.getRepository(RateLimitCounter).delete({ key: this.prefix + key });
+  }
+}
+
+// Creates the store of the policy `name` selected by RATE_LIMIT_STORE. The in-memory
+// store only suits a single instance, as each instance counts its own requests.
+export const createRateLimitStore = (name: string): Store =>
+  env.RATE_LIMIT_STORE === 'database' ? new DatabaseStore(`${name}:`) : new MemoryStore();
+
+// Deletes the counters whose window has ended, which would otherwise pile up with every
+// client ever seen; the next request of their client starts a new window either way
+export const deleteExpiredRateLimitCounters = async (): Promise<void> => {
+  await dataSource.getRepository(RateLimitCounter).delete({ resetAt: LessThanOrEqual(new Date()) });
+};
+
+export const purgeExpiredRateLimitCountersJob = defineJob('rate-limits.purge-expired', deleteExpiredRateLimitCounters);
@@ -0,0 +1,42 @@
+import { Request } from 'express';
+
+// The path of the router with the values of its parameters replaced by their names, as in
+// '/projects/:projectId/boards'
+const routerTemplate = (req: Request): string => {
+  const names = new Map(Object.entries(req.params ?? {}).map(([name, value]) => [String(value), `:${name}`]));
+  return req.baseUrl
+    .split('/')
+    .map((segment) => names.get(decodeURIComponent(segment)) ?? segment)
+    .join('/');
+};
+
+const templates = new WeakMap<Request, () => string | null>();
+
+/**
+ * Returns a function resolving to the template of the route that handled the request, as
+ * in '/projects/:projectId/boards/:boardId', or null when no route matched it, e.g. for
+ * unknown paths and static files. Express sets `req.route` when a route matches, while
+ * `req.baseUrl` and `req.params` describe its router; an error leaving the router restores
+ * them, so the template is taken at that time. Call it before the routes run.
+ */
+export const trackRouteTemplate = (req: Request): (() => string | null) => {
+  const tracked = templates.get(req);
+  if (tracked) return tracked;
+
+  let route: Request['route'];
+  let template: string | null = null;
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set: (value: Request['route']) => {
+      route = value;
+      const path = typeof value?.path === 'string' ? value.path : req.path;
+      const base = routerTemplate(req);
+      template = base && path === '/' ? base : `${base}${path}`;
+    },
+  });
+  const getTemplate = () => template;
+  templates.set(req, getTemplate);
+  return getTemplate;
+};
@@ -0,0 +1,20 @@
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+
+import dataSource from '@/configs/typeorm.config';
+
+// Runs `work` in a transaction that first takes a row lock on the given entity row, so
+// concurrent calls locking the same row (e.g. two reorders of one board) run one after another.
+export const withRowLock = <T>(
+  entity: EntityTarget<ObjectLiteral>,
+  id: string,
+  work: (manager: EntityManager) => Promise<T>
+): Promise<T> =>
+  dataSource.transaction(async (manager) => {
+    await manager
+      .getRepository(entity)
+      .createQueryBuilder('locked')
+      .setLock('pessimistic_write')
+      .where('locked.id = :id', { id })
+      .getOne();
+    return work(manager);
+  });
@@ -0,0 +1,48 @@
+import { EntityManager, In, IsNull } from 'typeorm';
+
+import { Board } from '@/common/entities/board.entity';
+import { Card } from '@/common/entities/card.entity';
+
+const ids = (rows: { id: string }[]) => rows.map(({ id }) => id);
+
+// Changes `deletedAt` from `from` to `to` on the boards of a project and the cards of
+// those boards, or on the cards of a single board or list. Deleting a parent gives its children
+// the parent's deletion time (from null); restoring it clears only the children with that
+// time, so the ones that were in the trash before the parent stay there.
+export const cascadeDeletedAt = async (
+  manager: EntityManager,
+  parent: { projectId: string } | { boardId: string } | { listId: string },
+  from: Date | null,
+  to: Date | null
+): Promise<void> => {
+  const deletedAt = from ?? IsNull();
+  if ('listId' in parent) {
+    await manager.update(Card, { listId: parent.listId, deletedAt }, { deletedAt: to });
+    return;
+  }
+  const boardIds =
+    'boardId' in parent
+      ? [parent.boardId]
+      : ids(
+          await manager.find(Board, {
+            where: { projectId: parent.projectId, deletedAt },
+            select: { id: true },
+            withDeleted: true,
+          })
+        );
+  if (!boardIds.length) return;
+
+  const cardIds = ids(
+    await manager.find(Card, {
+      where: { list: { boardId: In(boardIds) }, deletedAt },
+      select: { id: true },
+      withDeleted: true,
+    })
+  );
+  if ('projectId' in parent) {
+    // Saved rather than updated, so that the audit trail records the boards
+    const boards = boardIds.map((id) => ({ id, deletedAt: to }));
+    await manager.save(Board, boards);
+  }
+  if (cardIds.length) await manager.update(Card, { id: In(cardIds) }, { deletedAt: to });
+};
@@ -0,0 +1,115 @@
+import { DataSource } from 'typeorm';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Imports the data source as built at startup with the given environment variables
+const loadDataSource = async (variables: Record<string, string>): Promise<DataSource> => {
+  vi.resetModules();
+  Object.entries(variables).forEach(([name, value]) => vi.stubEnv(name, value));
+  return (await import('@/configs/typeorm.config')).default;
+};
+
+// Settings without a default in production
+const PRODUCTION_VARIABLES = {
+  NODE_ENV: 'production',
+  HOST: 'localhost',
+  PORT: '8080',
+  CORS_ORIGIN: 'https://app.example.com',
+  COMMON_RATE_LIMIT_MAX_REQUESTS: '1000',
+  COMMON_RATE_LIMIT_WINDOW_MS: '1000',
+  JWT_ACCESS_SECRET: 'access-secret',
+  JWT_REFRESH_SECRET: 'refresh-secret',
+  STORAGE_URL_SECRET: 'storage-secret',
+};
+
+describe('Data source configuration', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('connects to Postgres with the DB_ settings and runs the migrations', async () => {
+    // Act
+    const dataSource = await loadDataSource({
+      DB_TYPE: 'postgres',
+      DB_HOST: 'db.internal',
+      DB_USERNAME: 'kanban',
+      DB_PASSWORD: 'secret',
+      DB_DATABASE: 'kanban_app',
+      DB_POOL_SIZE: '20',
+      DB_SSL: 'true',
+      DB_SSL_REJECT_UNAUTHORIZED: 'false',
+    });
+
+    // Assert
+    expect(dataSource.options).toMatchObject({
+      type: 'postgres',
+      host: 'db.internal',
+      port: 5432,
+      username: 'kanban',
+      password: 'secret',
+      database: 'kanban_app',
+      poolSize: 20,
+      ssl: { rejectUnauthorized: false },
+      synchronize: false,
+    });
+    expect(dataSource.options.migrations).toHaveLength(9);
+  });
+
+  it('connects to MySQL on its own default port, without the Postgres migrations', async () => {
+    // Act
+    const dataSource = await loadDataSource({ DB_TYPE: 'mysql', DB_SYNCHRONIZE: 'true' });
+
+    // Assert
+    expect(dataSource.options).toMatchObject({ type: 'mysql', host: 'localhost', port: 3306, synchronize: true });
+    expect(dataSource.options).toHaveProperty('ssl', undefined);
+    expect(dataSource.options.migrations).toBeUndefined();
+  });
+
+  it('refuses MySQL in production without DB_SYNCHRONIZE, as nothing would create its schema', async () => {
+    // Act
+    const loading = loadDataSource({
+      ...PRODUCTION_VARIABLES,
+      DB_TYPE: 'mysql',
+      DB_SYNCHRONIZE: 'false',
+    });
+
+    // Assert
+    await expect(loading).rejects.toThrow('DB_TYPE=mysql has no migrations');
+  });
+
+  it('uses DB_PORT over the default port of the driver', async () => {
+    // Act
+    const dataSource = await loadDataSource({ DB_TYPE: 'mysql', DB_PORT: '3307' });
+
+    // Assert
+    expect(dataSource.options).toMatchObject({ type: 'mysql', port: 3307 });
+  });
+
+  it('keeps pg-mem databases in memory with a schema synchronized from the entities', async () => {
+    // Act
+    const dataSource = await loadDataSource({ DB_TYPE: 'pg-mem', DB_HOST: 'db.internal' });
+
+    // Assert
+    expect(dataSource.options).toMatchObject({ type: 'postgres', synchronize: true });
+    expect(dataSource.options).not.toHaveProperty('host');
+    expect(dataSource.options.entities).toHaveLength(16);
+  });
+
+  it.each([
+    ['DB_TYPE', 'sqlite'],
+    ['DB_PORT', '70000'],
+    ['DB_POOL_SIZE', 'ten'],
+    ['DB_SSL', 'maybe'],
+  ])('refuses to start with an invalid %s', async (name, value) => {
+    // Arrange
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('Exited');
+    });
+
+    // Act
+    const loading = loadDataSource({ [name]: value });
+
+    // Assert
+    await expect(loading).rejects.toThrow('Exited');
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -1,21 +1,138 @@
-import { config } from 'dotenv';
-import { DataSource } from 'typeorm';
-import { Project } from '@/common/entities/project.entity';
+import { randomUUID } from 'node:crypto';
+
+import { DataType, IMemoryDb, newDb } from 'pg-mem';
+import { DataSource, DataSourceOptions } from 'typeorm';
+
+import { Activity } from '@/common/entities/activity.entity';
+import { Attachment } from '@/common/entities/attachment.entity';
+import { AuditLog } from '@/common/entities/auditlog.entity';
 import { Board } from '@/common/entities/board.entity';
-import { User } from '@/common/entities/user.entity';
+import { Card } from '@/common/entities/card.entity';
+import { Comment } from '@/common/entities/comment.entity';
+import { Job } from '@/common/entities/job.entity';
+import { JobSchedule } from '@/common/entities/jobschedule.entity';
+import { List } from '@/common/entities/list.entity';
+import { Notification } from '@/common/entities/notification.entity';
+import { NotificationPreference } from '@/common/entities/notificationpreference.entity';
+import { Project } from '@/common/entities/project.entity';
 import { ProjectMembers } from '@/common/entities/projectmembers.entity';
+import { RateLimitCounter } from '@/common/entities/ratelimitcounter.entity';
+import { RefreshToken } from '@/common/entities/refreshtoken.entity';
+import { User } from '@/common/entities/user.entity';
+import { trackConnectionPool } from '@/common/metrics/metrics';
+import { InitialSchema1792400400000 } from '@/common/migrations/1792400400000-InitialSchema';
+import { RateLimitCounters1792400500000 } from '@/common/migrations/1792400500000-RateLimitCounters';
+import { Uploads1792400600000 } from '@/common/migrations/1792400600000-Uploads';
+import { Notifications1792400700000 } from '@/common/migrations/1792400700000-Notifications';
+import { Jobs1792400800000 } from '@/common/migrations/1792400800000-Jobs';
+import { SearchIndexes1792400900000 } from '@/common/migrations/1792400900000-SearchIndexes';
+import { SoftDelete1792401000000 } from '@/common/migrations/1792401000000-SoftDelete';
+import { AuditLogs1792401100000 } from '@/common/migrations/1792401100000-AuditLogs';
+import { ListSoftDelete1792401200000 } from '@/common/migrations/1792401200000-ListSoftDelete';
+import { AuditSubscriber } from '@/common/subscribers/auditSubscriber';
+import { QueryMetricsSubscriber } from '@/common/subscribers/queryMetricsSubscriber';
+import { QueryTracingSubscriber } from '@/common/subscribers/queryTracingSubscriber';
+import { env } from '@/common/utils/envConfig';
+
+const DEFAULT_PORTS = { postgres: 5432, mysql: 3306 };
 
-config();
+// Listed in the order they run; add new migrations at the end
+export const MIGRATIONS = [
+  InitialSchema1792400400000,
+  RateLimitCounters1792400500000,
+  Uploads1792400600000,
+  Notifications1792400700000,
+  Jobs1792400800000,
+  SearchIndexes1792400900000,
+  SoftDelete1792401000000,
+  AuditLogs1792401100000,
+  ListSoftDelete1792401200000,
+];
 
-export default new DataSource({
-  type: 'postgres',
-  host: process.env.DB_HOST,
-  port: 5432,
-  username: process.env.DB_USERNAME,
-  password: process.env.DB_PASSWORD,
-  database: process.env.DB_DATABASE,
-  entities: [User, Project, Board, ProjectMembers],
+const commonOptions = {
+  entities: [
+    User,
+    Project,
+    Board,
+    List,
+    Card,
+    Comment,
+    Activity,
+    ProjectMembers,
+    RefreshToken,
+    RateLimitCounter,
+    Attachment,
+    Notification,
+    NotificationPreference,
+    Job,
+    JobSchedule,
+    AuditLog,
+  ],
+  subscribers: [AuditSubscriber, QueryMetricsSubscriber, QueryTracingSubscriber],
   migrationsTableName: 'migrations',
-  migrations: [],
-  synchronize: false,
+  synchronize: env.DB_SYNCHRONIZE,
+  logging: env.DB_LOGGING,
+};
+
+// Connection settings shared by the drivers that talk to a database server
+const serverOptions = (type: keyof typeof DEFAULT_PORTS) => ({
+  host: env.DB_HOST,
+  port: env.DB_PORT ?? DEFAULT_PORTS[type],
+  username: env.DB_USERNAME,
+  password: env.DB_PASSWORD,
+  database: env.DB_DATABASE,
+  poolSize: env.DB_POOL_SIZE,
+  ssl: env.DB_SSL ? { rejectUnauthorized: env.DB_SSL_REJECT_UNAUTHORIZED } : undefined,
 });
+
+// An empty Postgres emulation living in process memory
+export const createInMemoryDatabase = (): IMemoryDb => {
+  const db = newDb({ autoCreateForeignKeyIndices: true });
+  // Functions TypeORM calls while connecting and synchronizing
+  db.public.registerFunction({ name: 'current_database', implementation: () => 'pg-mem' });
+  db.public.registerFunction({ name: 'version', implementation: () => 'PostgreSQL 16 (pg-mem)' });
+  db.registerExtension('uuid-ossp', (schema) =>
+    schema.registerFunction({
+      name: 'uuid_generate_v4',
+      returns: DataType.uuid,
+      implementation: randomUUID,
+      impure: true,
+    })
+  );
+  return db;
+};
+
+// Each start gets an empty database whose schema is synchronized from the entities, so tests
+// and local runs need no server
+const createInMemoryDataSource = (): DataSource => {
+  return createInMemoryDatabase().adapters.createTypeormDataSource({
+    type: 'postgres',
+    ...commonOptions,
+    synchronize: true,
+  } satisfies DataSourceOptions);
+};
+
+const createDataSource = (): DataSource => {
+  switch (env.DB_TYPE) {
+    case 'pg-mem':
+      return createInMemoryDataSource();
+    case 'mysql':
+      // The migrations are written for Postgres; MySQL schemas come from DB_SYNCHRONIZE
+      if (env.isProduction && !env.DB_SYNCHRONIZE) {
+        throw new Error('DB_TYPE=mysql has no migrations; use postgres in production, or set DB_SYNCHRONIZE=true');
+      }
+      return new DataSource({ type: 'mysql', ...serverOptions('mysql'), ...commonOptions });
+    case 'postgres':
+      return new DataSource({
+        type: 'postgres',
+        ...serverOptions('postgres'),
+        ...commonOptions,
+        migrations: MIGRATIONS,
+      });
+  }
+};
+
+const dataSource = createDataSource();
+trackConnectionPool(dataSource);
+
+export default dataSource;
@@ -1,21 +1,43 @@
 import 'reflect-metadata';
 
+import { JobWorker } from '@/common/jobs/jobWorker';
+import { RealtimeServer } from '@/common/realtime/realtimeServer';
+import { tracerProvider } from '@/common/tracing/tracing';
+import { connectDatabase } from '@/common/utils/database';
 import { env } from '@/common/utils/envConfig';
+import { jobDefinitions, jobSchedules } from '@/jobs';
 import { app, logger } from '@/server';
 
-const server = app.listen(env.PORT, () => {
-  const { NODE_ENV, HOST, PORT } = env;
-  logger.info(`Server (${NODE_ENV}) running on port http://${HOST}:${PORT}`);
-});
+// Requests are only accepted once the database is up
+const start = async () => {
+  await connectDatabase(logger);
+
+  const server = app.listen(env.PORT, () => {
+    const { NODE_ENV, HOST, PORT } = env;
+    logger.info(`Server (${NODE_ENV}) running on port http://${HOST}:${PORT}`);
+  });
+  const realtime = new RealtimeServer(server);
+  const worker = new JobWorker(jobDefinitions, jobSchedules);
+  if (env.JOB_WORKER_ENABLED) worker.start();
 
-const onCloseSignal = () => {
-  logger.info('sigint received, shutting down');
-  server.close(() => {
+  // Running jobs are left to finish; attempts cut short by the forced shutdown are taken as
+  // failed after JOB_TIMEOUT_MS and retried. Spans still waiting for their batch are sent
+  // before exiting
+  const onCloseSignal = async () => {
+    logger.info('sigint received, shutting down');
+    setTimeout(() => process.exit(1), 10000).unref(); // Force shutdown after 10s
+    realtime.close();
+    await Promise.all([new Promise((resolve) => server.close(resolve)), worker.stop()]);
+    await tracerProvider.shutdown();
     logger.info('server closed');
     process.exit();
-  });
-  setTimeout(() => process.exit(1), 10000).unref(); // Force shutdown after 10s
+  };
+
+  process.on('SIGINT', onCloseSignal);
+  process.on('SIGTERM', onCloseSignal);
 };
 
-process.on('SIGINT', onCloseSignal);
-process.on('SIGTERM', onCloseSignal);
+start().catch((err) => {
+  logger.fatal(`Error during Data Source initialization: ${(err as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+import { purgeExpiredRefreshTokensJob } from '@/api/auth/authJobs';
+import { sendDailyDigestsJob } from '@/api/notification/notificationJobs';
+import { purgeExpiredTrashJob } from '@/api/trash/trashJobs';
+import { sendEmailJob } from '@/common/email/emailJobs';
+import { JobDefinition, JobScheduleDefinition, purgeCompletedJobsJob } from '@/common/jobs/jobs';
+import { env } from '@/common/utils/envConfig';
+import { purgeExpiredRateLimitCountersJob } from '@/common/utils/rateLimitStore';
+
+// Every job the worker runs; jobs must be listed here to be picked up
+export const jobDefinitions: JobDefinition[] = [
+  sendEmailJob,
+  sendDailyDigestsJob,
+  purgeExpiredRefreshTokensJob,
+  purgeCompletedJobsJob,
+  purgeExpiredTrashJob,
+  purgeExpiredRateLimitCountersJob,
+];
+
+// Cron expressions are evaluated in UTC
+export const jobSchedules: JobScheduleDefinition[] = [
+  { job: sendDailyDigestsJob, cron: `0 ${env.NOTIFICATION_DIGEST_HOUR} * * *` },
+  { job: purgeExpiredRefreshTokensJob, cron: '0 3 * * *' },
+  { job: purgeCompletedJobsJob, cron: '30 3 * * *' },
+  { job: purgeExpiredTrashJob, cron: '0 4 * * *' },
+  { job: purgeExpiredRateLimitCountersJob, cron: '15 * * * *' },
+];
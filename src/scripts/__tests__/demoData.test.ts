@@ -0,0 +1,37 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import dataSource from '@/configs/typeorm.config';
+import { DEMO_USERS, seedDemoData } from '@/scripts/demoData';
+
+// The number of rows of every table of the schema, by table
+const countRows = async (): Promise<Record<string, number>> => {
+  const counts: Record<string, number> = {};
+  for (const { tableName } of dataSource.entityMetadatas) {
+    const [{ count }] = await dataSource.query(`SELECT COUNT(*) AS "count" FROM "${tableName}"`);
+    counts[tableName] = Number(count);
+  }
+  return counts;
+};
+
+describe('seedDemoData', () => {
+  beforeAll(async () => {
+    await dataSource.initialize();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('adds the demo data once', async () => {
+    // Act
+    const seeded = await seedDemoData(dataSource);
+    const afterFirstRun = await countRows();
+    const seededAgain = await seedDemoData(dataSource);
+
+    // Assert
+    expect(seeded).toBe(true);
+    expect(afterFirstRun).toMatchObject({ users: DEMO_USERS.length, projects: 1, boards: 1, lists: 3, cards: 4 });
+    expect(seededAgain).toBe(false);
+    expect(await countRows()).toEqual(afterFirstRun);
+  });
+});
@@ -0,0 +1,65 @@
+import { DataSource } from 'typeorm';
+
+import { Board } from '@/common/entities/board.entity';
+import { Card } from '@/common/entities/card.entity';
+import { List } from '@/common/entities/list.entity';
+import { Project } from '@/common/entities/project.entity';
+import { ProjectMembers } from '@/common/entities/projectmembers.entity';
+import { User } from '@/common/entities/user.entity';
+import { ProjectRole } from '@/common/models/projectRole';
+import { hashPassword } from '@/common/utils/password';
+
+// Every demo user signs in with this password
+export const DEMO_PASSWORD = 'password123';
+
+export const DEMO_USERS = [
+  { email: 'alice@example.com', name: 'Alice', role: ProjectRole.Owner, isAdmin: true },
+  { email: 'bob@example.com', name: 'Bob', role: ProjectRole.Member, isAdmin: false },
+  { email: 'carol@example.com', name: 'Carol', role: ProjectRole.Viewer, isAdmin: false },
+];
+
+const DEMO_LISTS: { title: string; cards: string[] }[] = [
+  { title: 'To do', cards: ['Write the onboarding guide', 'Set up error monitoring'] },
+  { title: 'In progress', cards: ['Design the board view'] },
+  { title: 'Done', cards: ['Create the repository'] },
+];
+
+// Adds the demo users and the demo project to the initialized `dataSource`. Resolves to false,
+// adding nothing, when the demo data is already present.
+export const seedDemoData = async (dataSource: DataSource): Promise<boolean> => {
+  if (await dataSource.getRepository(User).existsBy({ email: DEMO_USERS[0].email })) {
+    return false;
+  }
+
+  await dataSource.transaction(async (manager) => {
+    const password = await hashPassword(DEMO_PASSWORD);
+    const users = await manager.save(
+      DEMO_USERS.map(({ email, name, isAdmin }) => manager.create(User, { email, name, password, isAdmin }))
+    );
+    const [owner] = users;
+
+    const project = await manager.save(
+      manager.create(Project, {
+        title: 'Demo project',
+        description: 'Sample data to explore the API',
+        ownerId: owner.id,
+      })
+    );
+    await manager.save(
+      users.map((user, index) =>
+        manager.create(ProjectMembers, { projectId: project.id, userId: user.id, role: DEMO_USERS[index].role })
+      )
+    );
+
+    const board = await manager.save(manager.create(Board, { title: 'Sprint 1', projectId: project.id, position: 0 }));
+    for (const [listPosition, { title, cards }] of DEMO_LISTS.entries()) {
+      const list = await manager.save(manager.create(List, { title, boardId: board.id, position: listPosition }));
+      await manager.save(
+        cards.map((cardTitle, position) =>
+          manager.create(Card, { title: cardTitle, listId: list.id, position, labels: [], assignees: [owner] })
+        )
+      );
+    }
+  });
+  return true;
+};
@@ -0,0 +1,33 @@
+import 'reflect-metadata';
+
+import { User } from '@/common/entities/user.entity';
+import dataSource from '@/configs/typeorm.config';
+
+// Makes a registered user an administrator of the API, e.g. `pnpm db:grant-admin alice@example.com`;
+// `--revoke` takes the role away again
+const grantAdmin = async (args: string[]) => {
+  const revoke = args.includes('--revoke');
+  const email = args.find((arg) => !arg.startsWith('--'));
+  if (!email) {
+    throw new Error('Usage: pnpm db:grant-admin <email> [--revoke]');
+  }
+
+  await dataSource.initialize();
+  try {
+    const repository = dataSource.getRepository(User);
+    const user = await repository.findOneBy({ email });
+    if (!user) {
+      throw new Error(`No user with email ${email}`);
+    }
+    // Saved rather than updated, so that the audit trail records the change
+    await repository.save(repository.merge(user, { isAdmin: !revoke }));
+    console.log(revoke ? `${email} is no longer an administrator` : `${email} is now an administrator`);
+  } finally {
+    await dataSource.destroy();
+  }
+};
+
+grantAdmin(process.argv.slice(2)).catch((err) => {
+  console.error('Error granting the administrator role:', (err as Error).message);
+  process.exit(1);
+});
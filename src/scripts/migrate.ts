@@ -0,0 +1,22 @@
+import 'reflect-metadata';
+
+import dataSource from '@/configs/typeorm.config';
+
+// Applies pending migrations, e.g. `pnpm db:migrate` before starting the server
+const migrate = async () => {
+  await dataSource.initialize();
+  try {
+    const migrations = await dataSource.runMigrations();
+    if (migrations.length === 0) {
+      console.log('No pending migrations');
+    }
+    migrations.forEach((migration) => console.log(`Ran migration ${migration.name}`));
+  } finally {
+    await dataSource.destroy();
+  }
+};
+
+migrate().catch((err) => {
+  console.error('Error running migrations:', err);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+import 'reflect-metadata';
+
+import { env } from '@/common/utils/envConfig';
+import dataSource from '@/configs/typeorm.config';
+import { DEMO_PASSWORD, DEMO_USERS, seedDemoData } from '@/scripts/demoData';
+
+// Loads demo users and a demo project for local development; runs once per database
+const seed = async () => {
+  if (env.isProduction) {
+    throw new Error('Refusing to seed demo data in production');
+  }
+
+  await dataSource.initialize();
+  try {
+    if (!(await seedDemoData(dataSource))) {
+      console.log('Demo data already present, skipping');
+      return;
+    }
+    console.log(`Seeded demo data; sign in as ${DEMO_USERS[0].email} with password '${DEMO_PASSWORD}'`);
+  } finally {
+    await dataSource.destroy();
+  }
+};
+
+seed().catch((err) => {
+  console.error('Error seeding demo data:', err);
+  process.exit(1);
+});
@@ -1,44 +1,62 @@
+import 'reflect-metadata';
+
 import cors from 'cors';
 import express, { Express } from 'express';
 import helmet from 'helmet';
 import { pino } from 'pino';
 
+import { auditRouter } from '@/api/audit/auditRouter';
+import { authRouter } from '@/api/auth/authRouter';
+import { fileRouter } from '@/api/file/fileRouter';
 import { healthCheckRouter } from '@/api/healthCheck/healthCheckRouter';
+import { jobRouter } from '@/api/job/jobRouter';
+import { metricsRouter } from '@/api/metrics/metricsRouter';
+import { notificationRouter } from '@/api/notification/notificationRouter';
+import { projectRouter } from '@/api/project/projectRouter';
+import { searchRouter } from '@/api/search/searchRouter';
 import { userRouter } from '@/api/user/userRouter';
 import { openAPIRouter } from '@/api-docs/openAPIRouter';
+import authenticate from '@/common/middleware/authenticate';
 import errorHandler from '@/common/middleware/errorHandler';
-import rateLimiter from '@/common/middleware/rateLimiter';
+import httpMetrics from '@/common/middleware/httpMetrics';
+import { authRateLimiter, commonRateLimiter } from '@/common/middleware/rateLimiter';
+import requestContext from '@/common/middleware/requestContext';
 import requestLogger from '@/common/middleware/requestLogger';
+import requestTracing from '@/common/middleware/requestTracing';
+import requireAdmin from '@/common/middleware/requireAdmin';
+import requireMetricsAccess from '@/common/middleware/requireMetricsAccess';
 import { env } from '@/common/utils/envConfig';
-import dataSource from '@/configs/typeorm.config';
-import 'reflect-metadata';
-
-dataSource
-  .initialize()
-  .then(() => {
-    console.log('Data Source has been initialized!');
-  })
-  .catch((err) => {
-    console.error('Error during Data Source initialization:', err);
-  });
 
 const logger = pino({ name: 'server start' });
 const app: Express = express();
 
-// Set the application to trust the reverse proxy
-app.set('trust proxy', true);
+// Take the client IP from X-Forwarded-For only as set by the configured reverse proxies
+app.set('trust proxy', env.TRUST_PROXY);
 
 // Middlewares
 app.use(cors({ origin: env.CORS_ORIGIN, credentials: true }));
 app.use(helmet());
-app.use(rateLimiter);
 
-// Request logging
+// Tracing, request logging and metrics
+app.use(requestTracing);
 app.use(requestLogger);
+app.use(requestContext);
+app.use(httpMetrics);
+
+// Parsed after the request got its id, so that a malformed body is answered and logged with it
+app.use(express.json());
 
 // Routes
 app.use('/health-check', healthCheckRouter);
-app.use('/users', userRouter);
+app.use('/metrics', requireMetricsAccess, metricsRouter);
+app.use('/auth', authRateLimiter, authRouter);
+app.use('/users', authenticate, commonRateLimiter, userRouter);
+app.use('/projects', authenticate, commonRateLimiter, projectRouter);
+app.use('/files', commonRateLimiter, fileRouter);
+app.use('/notifications', authenticate, commonRateLimiter, notificationRouter);
+app.use('/search', authenticate, commonRateLimiter, searchRouter);
+app.use('/admin/jobs', authenticate, commonRateLimiter, requireAdmin, jobRouter);
+app.use('/admin/audit-logs', authenticate, commonRateLimiter, requireAdmin, auditRouter);
 
 // Swagger UI
 app.use(openAPIRouter);